@@ -48,7 +48,8 @@ export default function APIDocsPage() {
               <code>https://api.lumeai.com/v1</code>
             </div>
             <p className="text-neutral-500 font-light leading-relaxed">
-              All API endpoints are relative to this base URL.
+              All API endpoints are relative to this base URL. Self-hosted deployments serve the same 
+              endpoints under <code className="bg-neutral-100 px-1">/api/v1</code>.
             </p>
           </section>
 
@@ -59,7 +60,10 @@ export default function APIDocsPage() {
               <div>
                 <h3 className="text-xl font-light text-neutral-900 mb-2">POST /screenshots/generate</h3>
                 <p className="text-neutral-500 font-light leading-relaxed mb-4">
-                  Generate App Store screenshots from uploaded images.
+                  Generate App Store screenshots from uploaded images. Generation runs as a job: the 
+                  response is <code className="bg-neutral-100 px-1">202 Accepted</code> with a job id to poll 
+                  with <code className="bg-neutral-100 px-1">GET /jobs/{`{job_id}`}</code>. When no headline is 
+                  given, headlines are written by AI from the optional <code className="bg-neutral-100 px-1">prompt</code>.
                 </p>
                 
                 <h4 className="text-lg font-light text-neutral-900 mb-2 mt-4">Request Body</h4>
@@ -72,6 +76,7 @@ export default function APIDocsPage() {
   "template": "centered_bold",
   "headline": "Your App Headline",
   "subtitle": "Your app subtitle",
+  "prompt": "A habit tracker for busy parents",
   "background_color": "#F0F4FF",
   "export_sizes": ["6.7", "6.5", "ipad"]
 }`}</pre>
@@ -81,15 +86,10 @@ export default function APIDocsPage() {
                 <div className="bg-neutral-900 text-neutral-50 p-4 font-mono text-sm mb-4 overflow-x-auto">
                   <pre>{`{
   "id": "gen_1234567890",
-  "status": "completed",
-  "screenshots": [
-    {
-      "size": "6.7",
-      "url": "https://cdn.lumeai.com/...",
-      "width": 1290,
-      "height": 2796
-    }
-  ],
+  "status": "queued",
+  "progress": 0,
+  "result": null,
+  "error": null,
   "created_at": "2025-01-15T10:30:00Z"
 }`}</pre>
                 </div>
@@ -104,7 +104,8 @@ export default function APIDocsPage() {
               <div>
                 <h3 className="text-xl font-light text-neutral-900 mb-2">POST /videos/generate</h3>
                 <p className="text-neutral-500 font-light leading-relaxed mb-4">
-                  Generate promotional videos from screenshots using Sora AI.
+                  Generate promotional videos from screenshots using Sora AI. Supported durations are 
+                  4, 8 and 12 seconds. Returns a job to poll; its result holds the video URL.
                 </p>
                 
                 <h4 className="text-lg font-light text-neutral-900 mb-2 mt-4">Request Body</h4>
@@ -114,7 +115,7 @@ export default function APIDocsPage() {
     "https://example.com/screenshot1.png"
   ],
   "style": "smooth",
-  "duration": 10,
+  "duration": 8,
   "music": "upbeat",
   "prompt": "Create a smooth promotional video..."
 }`}</pre>
@@ -124,10 +125,11 @@ export default function APIDocsPage() {
                 <div className="bg-neutral-900 text-neutral-50 p-4 font-mono text-sm mb-4 overflow-x-auto">
                   <pre>{`{
   "id": "vid_1234567890",
-  "status": "processing",
-  "video_url": "https://cdn.lumeai.com/...",
-  "thumbnail_url": "https://cdn.lumeai.com/...",
-  "estimated_completion": "2025-01-15T10:35:00Z"
+  "status": "queued",
+  "progress": 0,
+  "result": null,
+  "error": null,
+  "created_at": "2025-01-15T10:30:00Z"
 }`}</pre>
                 </div>
               </div>
@@ -156,12 +158,13 @@ export default function APIDocsPage() {
                   <pre>{`{
   "mood": "modern",
   "dominant_colors": ["#3B82F6", "#10B981"],
+  "text_color": "#1A1A1A",
   "suggested_backgrounds": ["#F0F4FF", "#FFF0F5"],
   "typography": {
     "primary_font": "SF Pro",
     "font_style": "sans-serif"
   },
-  "suggested_templates": ["centered_bold", "offset_left"]
+  "suggested_templates": ["layout2", "layout1"]
 }`}</pre>
                 </div>
               </div>
@@ -175,7 +178,10 @@ export default function APIDocsPage() {
               <div>
                 <h3 className="text-xl font-light text-neutral-900 mb-2">GET /jobs/{`{job_id}`}</h3>
                 <p className="text-neutral-500 font-light leading-relaxed mb-4">
-                  Check the status of a generation job.
+                  Check the status of a generation job. Screenshot jobs return <code className="bg-neutral-100 px-1">screens</code>, 
+                  the scene documents rendered by the Lume editor and exporter, and a PNG of every screen at every requested 
+                  export size. Download each <code className="bg-neutral-100 px-1">url</code> with the same API key; 
+                  downloads do not count against the rate limit, and files are kept for 24 hours.
                 </p>
                 
                 <h4 className="text-lg font-light text-neutral-900 mb-2 mt-4">Response</h4>
@@ -185,9 +191,21 @@ export default function APIDocsPage() {
   "status": "completed",
   "progress": 100,
   "result": {
-    "screenshots": [...]
+    "template": "layout2",
+    "screens": [...],
+    "screenshots": [
+      {
+        "size": "6.7",
+        "name": "iPhone 6.7",
+        "screen": 1,
+        "url": "https://api.lumeai.com/v1/jobs/gen_1234567890/files/6.7_1.png",
+        "width": 1290,
+        "height": 2796
+      }
+    ]
   },
-  "error": null
+  "error": null,
+  "created_at": "2025-01-15T10:30:00Z"
 }`}</pre>
                 </div>
               </div>
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { getAIProvider } from "@/lib/ai-provider"
+import { CanvasEditRequestSchema } from "@/lib/ai-schemas"
+import { errorResponse, parseBody, readAISettings } from "@/lib/api-route"
+import { validateCanvasEdits } from "@/lib/canvas-edits"
+
+// Structured edits to the open canvas for a chat instruction
+export async function POST(req: Request) {
+  const { data, response } = await parseBody(req, CanvasEditRequestSchema)
+  if (response) return response
+
+  const { message, canvas, ...context } = data
+  const provider = getAIProvider(readAISettings(req))
+  try {
+    const proposal = await provider.proposeCanvasEdits(message, canvas, context)
+    const { operations, rejected } = validateCanvasEdits(proposal.operations, canvas.screens.length, canvas.customTemplates)
+    if (rejected.length > 0) {
+      console.warn("Dropped canvas edits that don't fit the canvas:", rejected)
+    }
+    return NextResponse.json({ ...proposal, operations })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,12 @@
+import { getAIProvider } from "@/lib/ai-provider"
+import { ChatRequestSchema } from "@/lib/ai-schemas"
+import { parseBody, readAISettings, sseResponse } from "@/lib/api-route"
+
+// Markdown chat reply, streamed as server-sent events
+export async function POST(req: Request) {
+  const { data, response } = await parseBody(req, ChatRequestSchema)
+  if (response) return response
+
+  const { message, ...context } = data
+  return sseResponse(getAIProvider(readAISettings(req)).streamChat(message, context))
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { getAIProvider } from "@/lib/ai-provider"
+import { BrandedPromptRequestSchema } from "@/lib/ai-schemas"
+import { applyBrandToPromptAnalysis } from "@/lib/brand-kit"
+import { errorResponse, parseBody, readAISettings } from "@/lib/api-route"
+
+// Screenshot titles and subtitles for a prompt
+export async function POST(req: Request) {
+  const { data, response } = await parseBody(req, BrandedPromptRequestSchema)
+  if (response) return response
+
+  const provider = getAIProvider(readAISettings(req))
+  try {
+    const result = await provider.analyzePrompt(data.prompt, data.brand)
+    // Models drift from what they are told, so the kit has the last word
+    return NextResponse.json(applyBrandToPromptAnalysis(result, data.brand))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
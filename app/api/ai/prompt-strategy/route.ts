@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { getAIProvider } from "@/lib/ai-provider"
+import { BrandedPromptRequestSchema } from "@/lib/ai-schemas"
+import { applyBrandToStrategy } from "@/lib/brand-kit"
+import { errorResponse, parseBody, readAISettings } from "@/lib/api-route"
+
+// Category, audience, visual style and storytelling strategy for a prompt
+export async function POST(req: Request) {
+  const { data, response } = await parseBody(req, BrandedPromptRequestSchema)
+  if (response) return response
+
+  const provider = getAIProvider(readAISettings(req))
+  try {
+    const result = await provider.analyzePromptStrategy(data.prompt, data.brand)
+    return NextResponse.json(applyBrandToStrategy(result, data.brand))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
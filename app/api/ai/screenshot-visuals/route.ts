@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+import { getAIProvider } from "@/lib/ai-provider"
+import { ScreenshotVisualsRequestSchema } from "@/lib/ai-schemas"
+import { errorResponse, parseBody, readAISettings } from "@/lib/api-route"
+
+// Background, text color and font suggestions for uploaded screenshots
+export async function POST(req: Request) {
+  const { data, response } = await parseBody(req, ScreenshotVisualsRequestSchema)
+  if (response) return response
+
+  const provider = getAIProvider(readAISettings(req))
+  try {
+    return NextResponse.json(await provider.analyzeScreenshotVisuals(data.screenshots))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
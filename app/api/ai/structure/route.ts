@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+import { getAIProvider } from "@/lib/ai-provider"
+import { StructureRequestSchema } from "@/lib/ai-schemas"
+import { errorResponse, parseBody, readAISettings } from "@/lib/api-route"
+
+// Screenshot structure (AIResponse JSON) for a prompt
+export async function POST(req: Request) {
+  const { data, response } = await parseBody(req, StructureRequestSchema)
+  if (response) return response
+
+  const provider = getAIProvider(readAISettings(req))
+  try {
+    return NextResponse.json(await provider.generateStructure(data.prompt, data.promptAnalysis))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
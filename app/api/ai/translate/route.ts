@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+import { getAIProvider } from "@/lib/ai-provider"
+import { TranslateRequestSchema } from "@/lib/ai-schemas"
+import { errorResponse, jsonError, parseBody, readAISettings } from "@/lib/api-route"
+import { fitTranslations, getLocale } from "@/lib/localization"
+
+// Screen copy in another store locale, cut to the headline and subtitle limits
+export async function POST(req: Request) {
+  const { data, response } = await parseBody(req, TranslateRequestSchema)
+  if (response) return response
+  if (!getLocale(data.locale)) {
+    return jsonError(`Unsupported locale: ${data.locale}`, 400)
+  }
+
+  const provider = getAIProvider(readAISettings(req))
+  try {
+    const translations = await provider.translateCopy(data.items, data.locale)
+    return NextResponse.json({ translations: fitTranslations(data.items, translations) })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
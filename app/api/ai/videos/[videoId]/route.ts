@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server"
+import { getAIProvider } from "@/lib/ai-provider"
+import { errorResponse } from "@/lib/api-route"
+
+// Status of a video generation started by POST /api/ai/videos
+export async function GET(_req: Request, { params }: { params: Promise<{ videoId: string }> }) {
+  const { videoId } = await params
+
+  try {
+    return NextResponse.json(await getAIProvider().getVideo(videoId))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server"
+import { getAIProvider } from "@/lib/ai-provider"
+import { VideoRequestSchema } from "@/lib/ai-schemas"
+import { errorResponse, parseBody } from "@/lib/api-route"
+
+// Start a promotional video generation; poll /api/ai/videos/[videoId]
+export async function POST(req: Request) {
+  const { data, response } = await parseBody(req, VideoRequestSchema)
+  if (response) return response
+
+  try {
+    return NextResponse.json(await getAIProvider().createVideo(data))
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,16 @@
+import { jsonError } from "@/lib/api-route"
+import { getStoreTarget } from "@/lib/store-api"
+import { handleAppStoreConnectMock } from "@/lib/store-mock"
+
+// Stand-in for the App Store Connect API, only served with STORE_API=mock
+async function handle(req: Request, { params }: { params: Promise<{ path: string[] }> }) {
+  if (getStoreTarget() !== "mock") return jsonError("Not found", 404)
+  const { path } = await params
+  return handleAppStoreConnectMock(req, path)
+}
+
+export const GET = handle
+export const POST = handle
+export const PUT = handle
+export const PATCH = handle
+export const DELETE = handle
@@ -0,0 +1,16 @@
+import { jsonError } from "@/lib/api-route"
+import { getStoreTarget } from "@/lib/store-api"
+import { handleGooglePlayMock } from "@/lib/store-mock"
+
+// Stand-in for the Google Play API, only served with STORE_API=mock
+async function handle(req: Request, { params }: { params: Promise<{ path: string[] }> }) {
+  if (getStoreTarget() !== "mock") return jsonError("Not found", 404)
+  const { path } = await params
+  return handleGooglePlayMock(req, path)
+}
+
+export const GET = handle
+export const POST = handle
+export const PUT = handle
+export const PATCH = handle
+export const DELETE = handle
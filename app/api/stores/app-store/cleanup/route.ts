@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+import { errorResponse, parseBody } from "@/lib/api-route"
+import { AppStoreCleanupRequestSchema, createAppStoreConnectClient } from "@/lib/store-api"
+
+// Old screenshots an upload replaced, deleted once the new ones are in
+export async function POST(req: Request) {
+  const { data, response } = await parseBody(req, AppStoreCleanupRequestSchema)
+  if (response) return response
+
+  try {
+    const client = createAppStoreConnectClient(data.credentials, new URL(req.url).origin)
+    await client.deleteScreenshots(data.screenshotIds)
+    return NextResponse.json({ deleted: data.screenshotIds.length })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
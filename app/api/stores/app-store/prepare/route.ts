@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+import { errorResponse, parseBody } from "@/lib/api-route"
+import { AppStorePrepareRequestSchema, createAppStoreConnectClient, getStoreTarget } from "@/lib/store-api"
+
+// Screenshot sets to upload into, one per locale and display type
+export async function POST(req: Request) {
+  const { data, response } = await parseBody(req, AppStorePrepareRequestSchema)
+  if (response) return response
+
+  try {
+    const client = createAppStoreConnectClient(data.credentials, new URL(req.url).origin)
+    const sets = await client.prepareScreenshotSets(data.sets)
+    return NextResponse.json({ sets, target: getStoreTarget() })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
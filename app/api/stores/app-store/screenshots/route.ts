@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+import { errorResponse, parseFormBody } from "@/lib/api-route"
+import { AppStoreScreenshotRequestSchema, createAppStoreConnectClient } from "@/lib/store-api"
+
+// One screenshot, added to the end of its set
+export async function POST(req: Request) {
+  const { data, file, response } = await parseFormBody(req, AppStoreScreenshotRequestSchema)
+  if (response) return response
+
+  try {
+    const client = createAppStoreConnectClient(data.credentials, new URL(req.url).origin)
+    const screenshot = await client.uploadScreenshot(data.setId, file.name, new Uint8Array(await file.arrayBuffer()))
+    return NextResponse.json({ screenshot })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+import { errorResponse, parseBody } from "@/lib/api-route"
+import { PlayCommitRequestSchema, createGooglePlayClient } from "@/lib/store-api"
+
+// Publish an edit's images to the store listing
+export async function POST(req: Request) {
+  const { data, response } = await parseBody(req, PlayCommitRequestSchema)
+  if (response) return response
+
+  try {
+    const client = createGooglePlayClient(data.credentials, new URL(req.url).origin)
+    await client.commitEdit(data.editId)
+    return NextResponse.json({ committed: true })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
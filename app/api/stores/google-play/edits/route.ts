@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+import { errorResponse, parseBody } from "@/lib/api-route"
+import { PlayEditRequestSchema, createGooglePlayClient, getStoreTarget } from "@/lib/store-api"
+
+// New edit with the listed image types cleared for the upload
+export async function POST(req: Request) {
+  const { data, response } = await parseBody(req, PlayEditRequestSchema)
+  if (response) return response
+
+  try {
+    const client = createGooglePlayClient(data.credentials, new URL(req.url).origin)
+    const editId = await client.createEdit(data.listings)
+    return NextResponse.json({ editId, target: getStoreTarget() })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
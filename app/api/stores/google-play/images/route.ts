@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+import { errorResponse, parseFormBody } from "@/lib/api-route"
+import { PlayImageRequestSchema, createGooglePlayClient } from "@/lib/store-api"
+
+// One image, added to a listing inside an edit
+export async function POST(req: Request) {
+  const { data, file, response } = await parseFormBody(req, PlayImageRequestSchema)
+  if (response) return response
+
+  try {
+    const client = createGooglePlayClient(data.credentials, new URL(req.url).origin)
+    const bytes = new Uint8Array(await file.arrayBuffer())
+    const image = await client.uploadImage(data.editId, data.language, data.imageType, bytes, file.type || "image/png")
+    return NextResponse.json({ image })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
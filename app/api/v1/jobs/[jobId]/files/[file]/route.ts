@@ -0,0 +1,22 @@
+import { getJob } from "@/lib/job-store"
+import { PublicApiError, withPublicApi } from "@/lib/public-api"
+
+// A rendered image of a completed screenshot job
+export async function GET(req: Request, { params }: { params: Promise<{ jobId: string; file: string }> }) {
+  const { jobId, file } = await params
+
+  return withPublicApi(req, async (apiKey) => {
+    const data = getJob(jobId, apiKey.key)?.files?.get(file)
+    if (!data) {
+      throw new PublicApiError(404, "not_found", `File ${file} of job ${jobId} not found`)
+    }
+
+    return new Response(new Uint8Array(data.data), {
+      headers: {
+        "Content-Type": data.contentType,
+        "Content-Disposition": `attachment; filename="${jobId}_${file}"`,
+        "Cache-Control": "private, max-age=86400",
+      },
+    })
+  }, { rateLimited: false })
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+import { getAIProvider } from "@/lib/ai-provider"
+import { getJob, updateJob } from "@/lib/job-store"
+import { PublicApiError, serializeJob, serializeVideo, withPublicApi } from "@/lib/public-api"
+
+// Status and result of a generation job
+export async function GET(req: Request, { params }: { params: Promise<{ jobId: string }> }) {
+  const { jobId } = await params
+
+  return withPublicApi(req, async (apiKey) => {
+    const job = getJob(jobId, apiKey.key)
+    if (!job) {
+      throw new PublicApiError(404, "not_found", `Job ${jobId} not found`)
+    }
+
+    // Videos keep rendering upstream after the job task returns
+    if (job.kind === "video" && job.status === "processing" && job.videoId) {
+      const video = await getAIProvider().getVideo(job.videoId)
+      if (video.status === "completed") {
+        updateJob(job.id, { status: "completed", progress: 100, result: serializeVideo(video) })
+      } else if (video.status === "failed") {
+        updateJob(job.id, { status: "failed", error: { code: "job_failed", message: "Video generation failed" } })
+      }
+    }
+
+    return NextResponse.json(serializeJob(job))
+  })
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { getAIProvider } from "@/lib/ai-provider"
+import {
+  AnalyzeScreenshotSchema,
+  describeVisuals,
+  fetchImageAsDataUrl,
+  parseApiBody,
+  withPublicApi,
+} from "@/lib/public-api"
+import { getDominantColors } from "@/lib/server-renderer"
+
+// Colors, typography, mood and template suggestions for one screenshot
+export async function POST(req: Request) {
+  return withPublicApi(req, async () => {
+    const body = await parseApiBody(req, AnalyzeScreenshotSchema)
+    const screenshot = await fetchImageAsDataUrl(body.screenshot_url)
+
+    const [visuals, dominantColors] = await Promise.all([
+      getAIProvider().analyzeScreenshotVisuals([screenshot]),
+      getDominantColors(screenshot),
+    ])
+    return NextResponse.json(describeVisuals(visuals, dominantColors))
+  })
+}
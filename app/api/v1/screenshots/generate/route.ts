@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server"
+import { getAIProvider } from "@/lib/ai-provider"
+import { createJob, runJob, updateJob, type JobFile } from "@/lib/job-store"
+import {
+  buildApiScreens,
+  EXPORT_SIZE_ALIASES,
+  fetchImageAsDataUrl,
+  GenerateScreenshotsSchema,
+  parseApiBody,
+  resolveLayoutTemplate,
+  serializeJob,
+  withPublicApi,
+} from "@/lib/public-api"
+import { renderScreenToBuffer } from "@/lib/server-renderer"
+
+// Start a screenshot generation job; poll GET /api/v1/jobs/{id}
+export async function POST(req: Request) {
+  return withPublicApi(req, async (apiKey) => {
+    const body = await parseApiBody(req, GenerateScreenshotsSchema)
+    const layout = resolveLayoutTemplate(body.template)
+    const screenshots = await Promise.all(body.screenshots.map(fetchImageAsDataUrl))
+    const sizes = [...new Set(body.export_sizes)]
+    const origin = new URL(req.url).origin
+
+    const job = createJob("screenshots", apiKey.key)
+    runJob(job, async () => {
+      // Headlines come from the request, or from the AI for every screen
+      let copy = [{ headline: body.headline ?? "", subtitle: body.subtitle }]
+      if (!body.headline) {
+        const structure = await getAIProvider().generateStructure(body.prompt || "App Store screenshots for a mobile app")
+        copy = structure.screens.map(screen => ({ headline: screen.headline, subtitle: body.subtitle ?? screen.subheadline }))
+      }
+      const screens = buildApiScreens(layout, screenshots, copy, body.background_color)
+
+      // Every screen at every size, one at a time to keep memory flat
+      const files = new Map<string, JobFile>()
+      const rendered = []
+      for (const size of sizes) {
+        const { name, width, height } = EXPORT_SIZE_ALIASES[size]
+        for (const [index, screen] of screens.entries()) {
+          const file = `${size}_${index + 1}.png`
+          files.set(file, { contentType: "image/png", data: await renderScreenToBuffer(screen, { width, height, device: name }) })
+          rendered.push({ size, name, screen: index + 1, url: `${origin}/api/v1/jobs/${job.id}/files/${file}`, width, height })
+          updateJob(job.id, { progress: 10 + Math.round((85 * files.size) / (sizes.length * screens.length)) })
+        }
+      }
+      updateJob(job.id, { files })
+
+      return {
+        result: {
+          template: layout.id,
+          screens,
+          screenshots: rendered,
+        },
+      }
+    })
+
+    return NextResponse.json(serializeJob(job), { status: 202 })
+  })
+}
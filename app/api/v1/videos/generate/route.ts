@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server"
+import { getAIProvider } from "@/lib/ai-provider"
+import { createJob, runJob, updateJob } from "@/lib/job-store"
+import {
+  fetchImageAsDataUrl,
+  GenerateVideoSchema,
+  parseApiBody,
+  serializeJob,
+  serializeVideo,
+  withPublicApi,
+} from "@/lib/public-api"
+
+// Start a promotional video job; poll GET /api/v1/jobs/{id}
+export async function POST(req: Request) {
+  return withPublicApi(req, async (apiKey) => {
+    const body = await parseApiBody(req, GenerateVideoSchema)
+    const screenshots = await Promise.all(body.screenshots.map(fetchImageAsDataUrl))
+
+    const job = createJob("video", apiKey.key)
+    runJob(job, async () => {
+      const video = await getAIProvider().createVideo({ ...body, screenshots })
+      if (video.status === "failed") {
+        throw new Error("Video generation failed")
+      }
+
+      // Still rendering upstream: GET /jobs refreshes it from the provider
+      if (video.status !== "completed" && video.videoId) {
+        updateJob(job.id, { videoId: video.videoId })
+      }
+      return {
+        result: serializeVideo(video, body.screenshots[0]),
+        pending: video.status !== "completed" && !!video.videoId,
+      }
+    })
+
+    return NextResponse.json(serializeJob(job), { status: 202 })
+  })
+}
@@ -0,0 +1,421 @@
+"use client"
+
+import { NavActions } from "@/components/nav-actions"
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbList,
+  BreadcrumbLink,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb"
+import { Separator } from "@/components/ui/separator"
+import { SidebarInset, SidebarTrigger } from "@/components/ui/sidebar"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Plus, Save, Trash2, Upload, X } from "lucide-react"
+import * as React from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { COPY_TONES } from "@/lib/ai-schemas"
+import {
+  BRAND_FONT_SUGGESTIONS,
+  BRAND_LOGO_VARIANTS,
+  DEFAULT_BRAND_KIT,
+  getBrandKit,
+  isDarkColor,
+  listWorkspaces,
+  readLogoFile,
+  saveBrandKit,
+  type BrandKit,
+  type BrandLogoVariant,
+} from "@/lib/brand-kit"
+import { getCustomTemplates, type CustomTemplate } from "@/lib/custom-templates"
+import { LAYOUT_TEMPLATES } from "@/lib/layout-templates"
+
+// Select value for "no house layout"
+const AI_SUGGESTED = "ai"
+
+type Workspaces = ReturnType<typeof listWorkspaces>
+
+function ColorList({
+  label,
+  colors,
+  onChange,
+  min = 0,
+  max = 10,
+}: {
+  label: string
+  colors: string[]
+  onChange: (colors: string[]) => void
+  min?: number
+  max?: number
+}) {
+  const setColor = (index: number, color: string) => {
+    onChange(colors.map((c, i) => (i === index ? color : c)))
+  }
+
+  return (
+    <div>
+      <Label className="text-sm font-light text-neutral-600 mb-2 block">{label}</Label>
+      <div className="flex flex-wrap gap-2">
+        {colors.map((color, index) => (
+          <div key={index} className="flex items-center gap-1.5 border border-neutral-200 bg-white p-1.5">
+            <input
+              type="color"
+              value={color}
+              onChange={(e) => setColor(index, e.target.value.toUpperCase())}
+              className="h-7 w-7 cursor-pointer border-0 bg-transparent p-0"
+            />
+            <span className="font-mono text-xs text-neutral-600">{color}</span>
+            {colors.length > min && (
+              <button
+                onClick={() => onChange(colors.filter((_, i) => i !== index))}
+                className="p-1 text-neutral-400 hover:text-neutral-900"
+                title="Remove color"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+        ))}
+        {colors.length < max && (
+          <button
+            onClick={() => onChange([...colors, colors[colors.length - 1] ?? "#FFFFFF"])}
+            className="flex items-center gap-1.5 border border-dashed border-neutral-300 px-3 text-xs font-light text-neutral-500 hover:border-neutral-900 hover:text-neutral-900"
+          >
+            <Plus className="h-3 w-3" />
+            Add
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function BrandKitEditor() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const [workspaces, setWorkspaces] = React.useState<Workspaces>([])
+  const [kit, setKit] = React.useState<BrandKit>(DEFAULT_BRAND_KIT)
+  const [hasSavedKit, setHasSavedKit] = React.useState(false)
+  const [customTemplates, setCustomTemplates] = React.useState<CustomTemplate[]>([])
+  const [savedAt, setSavedAt] = React.useState<number | null>(null)
+  const logoInputs = React.useRef<Partial<Record<BrandLogoVariant, HTMLInputElement | null>>>({})
+
+  // Workspaces live in localStorage, so they're read after mounting
+  React.useEffect(() => {
+    setWorkspaces(listWorkspaces())
+  }, [])
+
+  const workspaceId = searchParams?.get("workspace") || workspaces[0]?.id || ""
+
+  React.useEffect(() => {
+    if (!workspaceId) return
+    const saved = getBrandKit(workspaceId)
+    setKit(saved ?? DEFAULT_BRAND_KIT)
+    setHasSavedKit(!!saved)
+    setSavedAt(null)
+
+    let cancelled = false
+    getCustomTemplates(workspaceId)
+      .then(templates => { if (!cancelled) setCustomTemplates(templates) })
+      .catch(error => console.error("Failed to load templates:", error))
+    return () => { cancelled = true }
+  }, [workspaceId])
+
+  const update = (changes: Partial<BrandKit>) => {
+    setKit(prev => ({ ...prev, ...changes }))
+    setSavedAt(null)
+  }
+
+  const setLogo = async (variant: BrandLogoVariant, file: File | undefined) => {
+    if (!file) return
+    try {
+      const image = await readLogoFile(file)
+      setKit(prev => ({ ...prev, logos: [...prev.logos.filter(logo => logo.variant !== variant), { variant, image }] }))
+      setSavedAt(null)
+    } catch (error) {
+      console.error("Failed to read logo:", error)
+    }
+  }
+
+  const handleSave = () => {
+    saveBrandKit(workspaceId, kit)
+    setHasSavedKit(true)
+    setWorkspaces(listWorkspaces())
+    setSavedAt(Date.now())
+  }
+
+  const handleRemove = () => {
+    if (!confirm("Remove this workspace's brand kit? New screens go back to colors and fonts detected from screenshots.")) return
+    saveBrandKit(workspaceId, null)
+    setKit(DEFAULT_BRAND_KIT)
+    setHasSavedKit(false)
+    setWorkspaces(listWorkspaces())
+  }
+
+  if (workspaces.length === 0) {
+    return (
+      <div className="border border-neutral-200 bg-neutral-50 p-8">
+        <p className="text-sm text-neutral-500 font-light">
+          Brand kits belong to a workspace. Start a project from the dashboard to create one.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center gap-4">
+        <Label className="text-sm font-light text-neutral-600">Workspace</Label>
+        <Select
+          value={workspaceId}
+          onValueChange={(id) => router.replace(`/dashboard/brand?workspace=${id}`)}
+        >
+          <SelectTrigger className="w-72 font-light border-neutral-200">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {workspaces.map(workspace => (
+              <SelectItem key={workspace.id} value={workspace.id} className="font-light">
+                {workspace.emoji} {workspace.name}{workspace.hasBrandKit ? " · Brand kit" : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Colors */}
+      <div className="border border-neutral-200 bg-neutral-50 p-8">
+        <h2 className="text-lg font-light text-neutral-900 mb-2">Colors</h2>
+        <p className="text-sm text-neutral-500 font-light mb-6">
+          New screens use the first background. Backgrounds and accents are the only colors the AI suggests for this workspace.
+        </p>
+        <div className="space-y-6">
+          <ColorList label="Backgrounds" colors={kit.backgrounds} onChange={(backgrounds) => update({ backgrounds })} min={1} />
+          <ColorList label="Accents" colors={kit.accents} onChange={(accents) => update({ accents })} />
+          <ColorList label="Text" colors={[kit.textColor]} onChange={([textColor]) => update({ textColor })} min={1} max={1} />
+        </div>
+      </div>
+
+      {/* Fonts */}
+      <div className="border border-neutral-200 bg-neutral-50 p-8">
+        <h2 className="text-lg font-light text-neutral-900 mb-2">Fonts</h2>
+        <p className="text-sm text-neutral-500 font-light mb-6">
+          Headlines use the primary font and subtitles the secondary one.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="brand-primary-font" className="text-sm font-light text-neutral-600 mb-2 block">Primary</Label>
+            <Input
+              id="brand-primary-font"
+              value={kit.primaryFont}
+              onChange={(e) => update({ primaryFont: e.target.value })}
+              list="brand-fonts"
+              style={{ fontFamily: kit.primaryFont }}
+              className="bg-neutral-50 border-neutral-200 focus:border-neutral-900 focus:ring-neutral-900"
+            />
+          </div>
+          <div>
+            <Label htmlFor="brand-secondary-font" className="text-sm font-light text-neutral-600 mb-2 block">Secondary</Label>
+            <Input
+              id="brand-secondary-font"
+              value={kit.secondaryFont}
+              onChange={(e) => update({ secondaryFont: e.target.value })}
+              list="brand-fonts"
+              style={{ fontFamily: kit.secondaryFont }}
+              className="bg-neutral-50 border-neutral-200 focus:border-neutral-900 focus:ring-neutral-900"
+            />
+          </div>
+          <datalist id="brand-fonts">
+            {BRAND_FONT_SUGGESTIONS.map(font => <option key={font} value={font} />)}
+          </datalist>
+        </div>
+      </div>
+
+      {/* Logos */}
+      <div className="border border-neutral-200 bg-neutral-50 p-8">
+        <h2 className="text-lg font-light text-neutral-900 mb-2">Logos</h2>
+        <p className="text-sm text-neutral-500 font-light mb-6">
+          Screens without an uploaded logo get the variant that suits their background.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          {BRAND_LOGO_VARIANTS.map(({ value, label, description }) => {
+            const logo = kit.logos.find(l => l.variant === value)
+            const previewBackground = value === "onDark"
+              ? kit.backgrounds.find(isDarkColor) ?? "#1A1A1A"
+              : kit.backgrounds.find(color => !isDarkColor(color)) ?? "#FFFFFF"
+            return (
+              <div key={value}>
+                <p className="text-sm font-light text-neutral-900">{label}</p>
+                <p className="text-xs text-neutral-500 font-light mb-2">{description}</p>
+                <div
+                  className="relative flex h-28 items-center justify-center border border-neutral-200 p-4"
+                  style={{ backgroundColor: previewBackground }}
+                >
+                  {logo ? (
+                    <>
+                      <img src={logo.image} alt={`${label} logo`} className="max-h-full max-w-full object-contain" />
+                      <button
+                        onClick={() => update({ logos: kit.logos.filter(l => l.variant !== value) })}
+                        className="absolute top-1.5 right-1.5 bg-white/90 p-1 text-neutral-500 hover:text-neutral-900"
+                        title="Remove logo"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={() => logoInputs.current[value]?.click()}
+                      className="flex items-center gap-1.5 bg-white/90 px-3 py-1.5 text-xs font-light text-neutral-600 hover:text-neutral-900"
+                    >
+                      <Upload className="h-3 w-3" />
+                      Upload
+                    </button>
+                  )}
+                  <input
+                    ref={(el) => { logoInputs.current[value] = el }}
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    onChange={(e) => {
+                      setLogo(value, e.target.files?.[0])
+                      e.target.value = ""
+                    }}
+                  />
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      {/* Layout and tone */}
+      <div className="border border-neutral-200 bg-neutral-50 p-8">
+        <h2 className="text-lg font-light text-neutral-900 mb-2">Layout &amp; Tone</h2>
+        <p className="text-sm text-neutral-500 font-light mb-6">
+          The house layout replaces the one the AI suggests, and headlines are written in the brand&apos;s tone.
+        </p>
+        <div className="space-y-6">
+          <div>
+            <Label className="text-sm font-light text-neutral-600 mb-2 block">Default template</Label>
+            <Select
+              value={kit.defaultTemplateId ?? AI_SUGGESTED}
+              onValueChange={(id) => update({ defaultTemplateId: id === AI_SUGGESTED ? undefined : id })}
+            >
+              <SelectTrigger className="w-72 font-light border-neutral-200">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AI_SUGGESTED} className="font-light">Suggested by AI</SelectItem>
+                {LAYOUT_TEMPLATES.map(template => (
+                  <SelectItem key={template.id} value={template.id} className="font-light">{template.name}</SelectItem>
+                ))}
+                {customTemplates.map(template => (
+                  <SelectItem key={template.id} value={template.id} className="font-light">{template.name} (workspace)</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-sm font-light text-neutral-600 mb-2 block">Tone</Label>
+            <div className="flex flex-wrap gap-1.5">
+              {[undefined, ...COPY_TONES].map(tone => (
+                <button
+                  key={tone ?? AI_SUGGESTED}
+                  onClick={() => update({ tone })}
+                  className={`px-3 py-1.5 text-xs border capitalize transition-all duration-200 ${
+                    kit.tone === tone
+                      ? "bg-neutral-900 text-white border-neutral-900"
+                      : "bg-white text-neutral-600 border-neutral-200 hover:border-neutral-300"
+                  }`}
+                >
+                  {tone ?? "Any"}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Button
+          onClick={handleSave}
+          className="bg-neutral-900 text-white font-light border border-neutral-900 hover:bg-neutral-800"
+        >
+          <Save className="h-4 w-4 mr-2" />
+          Save Brand Kit
+        </Button>
+        {hasSavedKit && (
+          <Button
+            variant="outline"
+            onClick={handleRemove}
+            className="font-light border-neutral-200 hover:bg-neutral-100"
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Remove
+          </Button>
+        )}
+        {savedAt && <span className="text-xs font-light text-green-700">Saved. New chats in this workspace use it.</span>}
+      </div>
+    </div>
+  )
+}
+
+export default function BrandPage() {
+  return (
+    <SidebarInset>
+      <header className="flex h-14 shrink-0 items-center gap-2 bg-neutral-50 border-b border-neutral-200">
+        <div className="flex flex-1 items-center gap-2 px-3">
+          <SidebarTrigger />
+          <Separator
+            orientation="vertical"
+            className="mr-2 data-[orientation=vertical]:h-4"
+          />
+          <Breadcrumb>
+            <BreadcrumbList>
+              <BreadcrumbItem>
+                <BreadcrumbLink href="/dashboard">Dashboard</BreadcrumbLink>
+              </BreadcrumbItem>
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                <BreadcrumbPage className="line-clamp-1">
+                  Brand Kit
+                </BreadcrumbPage>
+              </BreadcrumbItem>
+            </BreadcrumbList>
+          </Breadcrumb>
+        </div>
+        <div className="ml-auto px-3">
+          <NavActions />
+        </div>
+      </header>
+
+      <div className="bg-neutral-50 flex-1 overflow-auto">
+        <div className="max-w-4xl mx-auto px-6 py-10">
+          <div className="mb-8">
+            <h1 className="text-4xl font-light tracking-tight text-neutral-900 mb-2">
+              Brand Kit
+            </h1>
+            <p className="text-neutral-500 font-light">
+              Colors, fonts, logos and layout every new set of screens in a workspace starts from
+            </p>
+          </div>
+
+          {/* Search params are only known in the browser */}
+          <React.Suspense fallback={null}>
+            <BrandKitEditor />
+          </React.Suspense>
+        </div>
+      </div>
+    </SidebarInset>
+  )
+}
@@ -30,6 +30,7 @@ export default function ChatPage() {
   const [canvasPanelWidth, setCanvasPanelWidth] = useState(800)
   const [needsAIResponse, setNeedsAIResponse] = useState(false)
   const [chatTitle, setChatTitle] = useState("Chat")
+  const [workspaceId, setWorkspaceId] = useState<string>()
   const { setOpen: setSidebarOpen } = useSidebar()
 
   // Handle panel state changes from ChatConversation
@@ -48,33 +49,27 @@ export default function ChatPage() {
   }, [isPanelOpen, setSidebarOpen])
 
   useEffect(() => {
-    // Try loading from new chat storage system
-    const existingChat = getChatById(chatId)
-    if (existingChat) {
-      setMessages(existingChat.messages)
-      setChatTitle(existingChat.title)
-      
-      // Check if we need AI response
-      if (existingChat.messages.length === 1 && existingChat.messages[0].role === 'user') {
-        setNeedsAIResponse(true)
-      }
-    } else {
-      // Fallback: Try old localStorage format for backwards compatibility
-      const storedMessages = localStorage.getItem(`chat-${chatId}`)
-      if (storedMessages) {
-        const parsed = JSON.parse(storedMessages)
-        const loadedMessages = parsed.map((msg: any) => ({
-          ...msg,
-          timestamp: new Date(msg.timestamp)
-        }))
-        setMessages(loadedMessages)
+    let cancelled = false
+
+    // New chats are saved by ChatInput before it navigates here
+    getChatById(chatId).then(existingChat => {
+      if (cancelled) return
+      if (existingChat) {
+        setMessages(existingChat.messages)
+        setChatTitle(existingChat.title)
+        setWorkspaceId(existingChat.workspaceId)
         
-        if (loadedMessages.length === 1 && loadedMessages[0].role === 'user') {
+        // Check if we need AI response
+        if (existingChat.messages.length === 1 && existingChat.messages[0].role === 'user') {
           setNeedsAIResponse(true)
         }
       }
+      setIsLoading(false)
+    })
+
+    return () => {
+      cancelled = true
     }
-    setIsLoading(false)
   }, [chatId])
 
   if (isLoading) {
@@ -135,6 +130,7 @@ export default function ChatPage() {
         <div className="flex-1 w-full overflow-hidden">
           <ChatInput 
             chatId={chatId} 
+            workspaceId={workspaceId}
             initialMessages={messages}
             onPanelOpenChange={handlePanelOpenChange}
             triggerAIResponse={needsAIResponse}
@@ -32,6 +32,7 @@ import {
 } from "@/components/ui/sidebar"
 import { Button } from "./ui/button"
 import { useRouter } from "next/navigation"
+import { getProjectUrl } from "@/lib/project-storage"
 
 interface Workspace {
   name: string
@@ -166,7 +167,20 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
     const stored = localStorage.getItem('lume-workspaces')
     if (stored) {
       try {
-        setWorkspaces(JSON.parse(stored))
+        // Older workspaces link their "Screenshots" page to '#'
+        const parsed: Workspace[] = JSON.parse(stored)
+        setWorkspaces(parsed.map(workspace => {
+          const chatUrl = workspace.pages.find(page => page.name === "Chat")?.url
+          const chatId = chatUrl?.split("/").pop()
+          return {
+            ...workspace,
+            pages: workspace.pages.map(page =>
+              page.name === "Screenshots" && page.url === "#" && chatId
+                ? { ...page, url: getProjectUrl(chatId) }
+                : page
+            ),
+          }
+        }))
       } catch (e) {
         console.error('Failed to load workspaces', e)
       }
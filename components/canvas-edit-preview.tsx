@@ -0,0 +1,88 @@
+"use client"
+
+import * as React from "react"
+import { ArrowRight, Check, Wand2, X } from "lucide-react"
+import type { CanvasEditChange, ChatCanvasEdit } from "@/lib/canvas-edits"
+
+interface CanvasEditPreviewProps {
+  changes: CanvasEditChange[]
+  status: ChatCanvasEdit['status']
+  onAccept?: () => void
+  onDismiss?: () => void
+}
+
+function ChangeValue({ change, value, previous = false }: { change: CanvasEditChange; value: string; previous?: boolean }) {
+  if (!value) {
+    return <span className="text-neutral-400 italic">none</span>
+  }
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1.5 ${previous ? 'text-neutral-400 line-through' : 'text-neutral-900'}`}
+      style={change.kind === 'font' && !previous ? { fontFamily: value } : undefined}
+    >
+      {change.kind === 'color' && (
+        <span className="inline-block w-3.5 h-3.5 border border-neutral-200" style={{ backgroundColor: value }} />
+      )}
+      {change.kind === 'text' ? `“${value}”` : value}
+    </span>
+  )
+}
+
+/**
+ * Before/after diff of a canvas edit proposed in the chat
+ */
+export function CanvasEditPreview({ changes, status, onAccept, onDismiss }: CanvasEditPreviewProps) {
+  return (
+    <div className="mt-3 border border-neutral-200 text-sm">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-neutral-200 bg-neutral-50 text-xs text-neutral-500">
+        <Wand2 className="h-3.5 w-3.5" />
+        Proposed canvas changes
+      </div>
+
+      {changes.length === 0 ? (
+        <p className="px-3 py-2 text-xs text-neutral-400">These changes no longer match the canvas.</p>
+      ) : (
+        <ul className="divide-y divide-neutral-100">
+          {changes.map((change, index) => (
+            <li key={index} className="px-3 py-2">
+              <p className="text-xs text-neutral-400 mb-1">{change.label}</p>
+              <div className="flex items-center gap-2 flex-wrap text-[13px]">
+                <ChangeValue change={change} value={change.before} previous />
+                <ArrowRight className="h-3 w-3 text-neutral-300 shrink-0" />
+                <ChangeValue change={change} value={change.after} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-2 px-3 py-2 border-t border-neutral-200">
+        {status === 'pending' ? (
+          <>
+            <button
+              onClick={onAccept}
+              disabled={changes.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-neutral-900 text-white text-xs font-light hover:bg-neutral-800 transition-colors border border-neutral-900 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Check className="h-3.5 w-3.5" />
+              Apply to canvas
+            </button>
+            <button
+              onClick={onDismiss}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-neutral-100 text-neutral-900 text-xs font-light hover:bg-neutral-200 transition-colors border border-neutral-200"
+            >
+              <X className="h-3.5 w-3.5" />
+              Dismiss
+            </button>
+          </>
+        ) : (
+          <span className="flex items-center gap-1.5 text-xs text-neutral-400">
+            {status === 'applied' ? <Check className="h-3.5 w-3.5" /> : <X className="h-3.5 w-3.5" />}
+            {status === 'applied' ? 'Applied to canvas — undo from the canvas history' : 'Dismissed'}
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+"use client"
+
+import * as React from "react"
+
+export const RULER_SIZE = 16
+
+interface CanvasRulerProps {
+  axis: "x" | "y"
+  length: number // Logical units
+  zoom: number
+  onMouseDown?: (e: React.MouseEvent<HTMLDivElement>) => void
+}
+
+/**
+ * Ruler along the top ("x") or left ("y") edge of a screen. Dragging from
+ * it pulls out a guide across the screen.
+ */
+export function CanvasRuler({ axis, length, zoom, onMouseDown }: CanvasRulerProps) {
+  const horizontal = axis === "x"
+  const size = length * zoom
+  // Fewer labels when zoomed out so they don't collide
+  const labelEvery = zoom < 0.75 ? 100 : 50
+  const ticks = Array.from({ length: Math.floor(length / 10) + 1 }, (_, i) => i * 10)
+
+  return (
+    <div
+      className={`absolute bg-white border-neutral-200 select-none ${
+        horizontal ? "left-0 border-b cursor-row-resize" : "top-0 border-r cursor-col-resize"
+      }`}
+      style={horizontal
+        ? { top: -RULER_SIZE - 2, width: size, height: RULER_SIZE }
+        : { left: -RULER_SIZE - 2, width: RULER_SIZE, height: size }}
+      onMouseDown={onMouseDown}
+    >
+      <svg width="100%" height="100%" className="pointer-events-none">
+        {ticks.map(tick => {
+          const position = tick * zoom
+          const major = tick % labelEvery === 0
+          const tickLength = major ? 8 : tick % 50 === 0 ? 6 : 3
+          return (
+            <React.Fragment key={tick}>
+              {horizontal ? (
+                <line x1={position} x2={position} y1={RULER_SIZE - tickLength} y2={RULER_SIZE} stroke="#A3A3A3" strokeWidth={1} />
+              ) : (
+                <line y1={position} y2={position} x1={RULER_SIZE - tickLength} x2={RULER_SIZE} stroke="#A3A3A3" strokeWidth={1} />
+              )}
+              {major && tick > 0 && (
+                <text
+                  x={horizontal ? position + 2 : 7}
+                  y={horizontal ? 8 : position + 2}
+                  fontSize={8}
+                  fill="#737373"
+                  transform={horizontal ? undefined : `rotate(-90 7 ${position + 2})`}
+                  textAnchor={horizontal ? "start" : "end"}
+                >
+                  {tick}
+                </text>
+              )}
+            </React.Fragment>
+          )
+        })}
+      </svg>
+    </div>
+  )
+}
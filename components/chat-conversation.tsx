@@ -2,19 +2,26 @@
 
 import * as React from "react"
 import { cn } from "@/lib/utils"
-import { Copy, RotateCcw, Share2, Check, Sparkles, Upload, X, Video, Search } from "lucide-react"
+import { Copy, RotateCcw, Share2, Check, Sparkles, Upload, X, Video, Search, ChevronLeft, ChevronRight } from "lucide-react"
 import { VideoGenerator } from "./video-generator"
 import { DesignCanvas } from "./design-canvas"
+import { CanvasEditPreview } from "./canvas-edit-preview"
 import { motion, AnimatePresence } from "motion/react"
 import { FormattedMessage } from "./formatted-message"
-import { generateMockStructure, hasOpenAIKey, generateScreenshotStructure } from "@/lib/openai-stream"
+import { generateMockStructure } from "@/lib/openai-stream"
 import type { AIResponse, PromptAnalysis } from "@/lib/ai-helpers"
-import { analyzeUserPrompt as analyzeUserPromptGemini } from "@/lib/ai-helpers"
+import { analyzePromptStrategy, generateScreenshotStructure } from "@/lib/ai-helpers"
 import { analyzeUserPrompt, type PromptAnalysisResult } from "@/lib/prompt-analyzer"
-import { LAYOUT_TEMPLATES } from "@/lib/layout-templates"
+import { LAYOUT_TEMPLATES, type LayoutTemplate } from "@/lib/layout-templates"
+import { getCustomTemplates, toLayoutTemplate } from "@/lib/custom-templates"
 import { saveChatToHistory, generateChatTitle, getChatById } from "@/lib/chat-storage"
+import { getProjectByChatId, saveProject, type ProjectDocument } from "@/lib/project-storage"
 import { useParams, useSearchParams } from "next/navigation"
 import { analyzeScreenshots } from "@/lib/screenshot-analyzer"
+import { LIGHT_TEXT, getReadableTextColor } from "@/lib/color-palette"
+import { getBrandConstraints, getBrandKit, type BrandKit } from "@/lib/brand-kit"
+import { describeCanvasEdits, type CanvasSnapshot, type ChatCanvasEdit } from "@/lib/canvas-edits"
+import type { CanvasEditOperation } from "@/lib/ai-schemas"
 
 interface Message {
   id: string
@@ -25,20 +32,39 @@ interface Message {
   logo?: string
   assets?: string[]
   isStreaming?: boolean
+  branches?: Message[][]
+  branchIndex?: number
+  canvasEdit?: ChatCanvasEdit
 }
 
 interface ChatConversationProps {
   messages: Message[]
+  // Workspace the chat was saved in, for links without ?workspace=
+  workspaceId?: string
   onPanelOpenChange?: (isOpen: boolean, panelWidth?: number) => void
   onScreenshotsUpload?: (screenshots: string[]) => void
   onAddMessage?: (message: Message) => void
+  // Regenerate the reply to a user message on a new branch
+  onRegenerate?: (messageId: string) => void
+  onSwitchBranch?: (messageId: string, branchIndex: number) => void
+  // The open canvas, so chat instructions can edit it (null when closed)
+  onCanvasChange?: (canvas: CanvasSnapshot | null) => void
 }
 
-export function ChatConversation({ messages, onPanelOpenChange, onScreenshotsUpload, onAddMessage }: ChatConversationProps) {
+export function ChatConversation({
+  messages,
+  workspaceId: savedWorkspaceId,
+  onPanelOpenChange,
+  onScreenshotsUpload,
+  onAddMessage,
+  onRegenerate,
+  onSwitchBranch,
+  onCanvasChange
+}: ChatConversationProps) {
   const params = useParams()
   const searchParams = useSearchParams()
   const chatId = params?.chatId as string | undefined
-  const workspaceId = searchParams?.get('workspace') || 'default'
+  const workspaceId = searchParams?.get('workspace') || savedWorkspaceId || 'default'
   const messagesEndRef = React.useRef<HTMLDivElement>(null)
   const [copiedId, setCopiedId] = React.useState<string | null>(null)
   const [isPanelOpen, setIsPanelOpen] = React.useState(false)
@@ -53,6 +79,23 @@ export function ChatConversation({ messages, onPanelOpenChange, onScreenshotsUpl
   const [promptAnalysis, setPromptAnalysis] = React.useState<PromptAnalysis | undefined>(undefined)
   const [promptTitlesSubtitles, setPromptTitlesSubtitles] = React.useState<PromptAnalysisResult | undefined>(undefined)
   const [isGeneratingStructure, setIsGeneratingStructure] = React.useState(false)
+  const [brandKit, setBrandKit] = React.useState<BrandKit | null>(null)
+
+  // The workspace brand kit lives in localStorage, so it's read after mounting
+  React.useEffect(() => {
+    setBrandKit(getBrandKit(workspaceId))
+  }, [workspaceId])
+
+  // Chat edits can apply the workspace's custom templates; the canvas
+  // reports changes to them while it is open
+  const [customTemplates, setCustomTemplates] = React.useState<LayoutTemplate[]>([])
+  React.useEffect(() => {
+    let cancelled = false
+    getCustomTemplates(workspaceId)
+      .then(templates => { if (!cancelled) setCustomTemplates(templates.map(toLayoutTemplate)) })
+      .catch(error => console.error('Failed to load templates:', error))
+    return () => { cancelled = true }
+  }, [workspaceId])
   const [showLayoutPreview, setShowLayoutPreview] = React.useState(false)
   const [showVideoGenerator, setShowVideoGenerator] = React.useState(false)
   const [panelWidth, setPanelWidth] = React.useState(800)
@@ -71,6 +114,9 @@ export function ChatConversation({ messages, onPanelOpenChange, onScreenshotsUpl
   const [selectedBackgroundIndex, setSelectedBackgroundIndex] = React.useState<number | undefined>(undefined)
   const [selectedFont, setSelectedFont] = React.useState<string | undefined>(undefined)
   const [analysisMessageId, setAnalysisMessageId] = React.useState<string | null>(null)
+  const [project, setProject] = React.useState<Pick<ProjectDocument, 'screens' | 'templateId'> | null>(null)
+  const projectDirtyRef = React.useRef(false)
+  const [acceptedEdit, setAcceptedEdit] = React.useState<{ id: string; operations: CanvasEditOperation[] } | null>(null)
 
   // Update panel width based on screen size
   React.useEffect(() => {
@@ -139,26 +185,53 @@ export function ChatConversation({ messages, onPanelOpenChange, onScreenshotsUpl
   // Load existing chat data if navigating to an existing chat
   React.useEffect(() => {
     if (!chatId) return
-
-    const existingChat = getChatById(chatId)
-    if (existingChat) {
-      if (existingChat.screenshots.length > 0) {
-        setUploadedScreenshots(existingChat.screenshots)
-      }
-      if (existingChat.logo) {
-        setUploadedLogo(existingChat.logo)
+    let cancelled = false
+
+    const loadChat = async () => {
+      const [existingChat, savedProject] = await Promise.all([
+        getChatById(chatId),
+        getProjectByChatId(chatId)
+      ])
+      if (cancelled) return
+
+      if (existingChat) {
+        if (existingChat.screenshots.length > 0) {
+          setUploadedScreenshots(existingChat.screenshots)
+        }
+        if (existingChat.logo) {
+          setUploadedLogo(existingChat.logo)
+        }
+        if (existingChat.assets.length > 0) {
+          setUploadedAssets(existingChat.assets)
+        }
       }
-      if (existingChat.assets.length > 0) {
-        setUploadedAssets(existingChat.assets)
+
+      if (savedProject) {
+        setProject({ screens: savedProject.screens, templateId: savedProject.templateId })
+        setSelectedBackgroundIndex(savedProject.selectedBackgroundIndex)
+        setSelectedFont(savedProject.selectedFont)
       }
     }
+
+    loadChat().catch(error => console.error('Failed to load chat:', error))
+    return () => {
+      cancelled = true
+    }
   }, [chatId])
 
+  // Opened from the sidebar's "Screenshots" page
+  const hasProject = project !== null
+  React.useEffect(() => {
+    if (hasProject && searchParams?.get('canvas') === 'open') {
+      setIsPanelOpen(true)
+    }
+  }, [hasProject, searchParams])
+
   // Auto-save chat to history
   React.useEffect(() => {
     if (!chatId || messages.length === 0) return
 
-    const saveChat = () => {
+    const saveChat = async () => {
       const title = generateChatTitle(messages.map(m => ({
         id: m.id,
         role: m.role,
@@ -166,7 +239,7 @@ export function ChatConversation({ messages, onPanelOpenChange, onScreenshotsUpl
         timestamp: m.timestamp
       })))
 
-      saveChatToHistory({
+      await saveChatToHistory({
         id: chatId,
         workspaceId: workspaceId,
         title,
@@ -174,7 +247,10 @@ export function ChatConversation({ messages, onPanelOpenChange, onScreenshotsUpl
           id: m.id,
           role: m.role,
           content: m.content,
-          timestamp: m.timestamp
+          timestamp: m.timestamp,
+          branches: m.branches,
+          branchIndex: m.branchIndex,
+          canvasEdit: m.canvasEdit
         })),
         screenshots: uploadedScreenshots,
         logo: uploadedLogo,
@@ -188,10 +264,58 @@ export function ChatConversation({ messages, onPanelOpenChange, onScreenshotsUpl
     }
 
     // Debounce save
-    const timeoutId = setTimeout(saveChat, 1000)
+    const timeoutId = setTimeout(() => {
+      saveChat().catch(error => console.error('Failed to save chat:', error))
+    }, 1000)
     return () => clearTimeout(timeoutId)
   }, [chatId, messages, uploadedScreenshots, uploadedLogo, uploadedAssets, workspaceId])
 
+  const handleProjectChange = React.useCallback((screens: ProjectDocument['screens'], templateId: string) => {
+    projectDirtyRef.current = true
+    setProject({ screens, templateId })
+  }, [])
+
+  // Auto-save canvas edits to the chat's project
+  React.useEffect(() => {
+    if (!chatId || !project || !projectDirtyRef.current) return
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        await saveProject({
+          chatId,
+          screens: project.screens,
+          templateId: project.templateId,
+          selectedBackgroundIndex,
+          selectedFont
+        })
+        projectDirtyRef.current = false
+      } catch (error) {
+        console.error('Failed to save project:', error)
+      }
+    }, 1000)
+    return () => clearTimeout(timeoutId)
+  }, [chatId, project, selectedBackgroundIndex, selectedFont])
+
+  // Chat instructions edit the canvas while it is open
+  React.useEffect(() => {
+    onCanvasChange?.(isPanelOpen && project ? { ...project, customTemplates } : null)
+  }, [isPanelOpen, project, customTemplates, onCanvasChange])
+
+  const handleCanvasEditDecision = (message: Message, accept: boolean) => {
+    if (!message.canvasEdit) return
+    const changes = describeCanvasEdits(project?.screens ?? [], message.canvasEdit.operations, customTemplates)
+    onAddMessage?.({
+      ...message,
+      canvasEdit: { ...message.canvasEdit, status: accept ? 'applied' : 'dismissed', changes }
+    })
+    if (accept) {
+      setAcceptedEdit({ id: message.id, operations: message.canvasEdit.operations })
+      setIsPanelOpen(true)
+    }
+  }
+
+  const handleEditApplied = React.useCallback(() => setAcceptedEdit(null), [])
+
   const handleCopy = async (content: string, id: string) => {
     await navigator.clipboard.writeText(content)
     setCopiedId(id)
@@ -210,9 +334,11 @@ export function ChatConversation({ messages, onPanelOpenChange, onScreenshotsUpl
     }
   }
 
+  const isStreaming = messages.some(m => m.isStreaming)
+
   const handleRefresh = (messageId: string) => {
-    // TODO: Implement message refresh logic
-    console.log("Refresh message:", messageId)
+    if (isStreaming) return
+    onRegenerate?.(messageId)
   }
 
   const handleOpenDesignTool = async (content: string, screenshots?: string[]) => {
@@ -225,20 +351,18 @@ export function ChatConversation({ messages, onPanelOpenChange, onScreenshotsUpl
       try {
         // Analyze the prompt to get titles and subtitles
         console.log("🔍 Analyzing user prompt for titles/subtitles...")
-        const titlesSubtitles = await analyzeUserPrompt(content)
+        const titlesSubtitles = await analyzeUserPrompt(content, getBrandConstraints(brandKit))
         setPromptTitlesSubtitles(titlesSubtitles)
         console.log("✅ Prompt analysis complete:", titlesSubtitles)
         
-        // Optional: Still get Gemini analysis for other data
+        // Optional: Still get strategy analysis for other data
         console.log("🔍 Getting additional prompt analysis...")
-        const analysis = await analyzeUserPromptGemini(content)
+        const analysis = await analyzePromptStrategy(content, getBrandConstraints(brandKit))
         setPromptAnalysis(analysis)
         
         // Optional: Still generate structure with OpenAI (for backwards compatibility)
         console.log("🎨 Generating screenshot structure...")
-        const structure = hasOpenAIKey() 
-          ? await generateScreenshotStructure(content)
-          : generateMockStructure(content)
+        const structure = await generateScreenshotStructure(content)
         setAiStructure(structure)
       } catch (error) {
         console.error('Failed to generate structure or analysis:', error)
@@ -339,20 +463,6 @@ export function ChatConversation({ messages, onPanelOpenChange, onScreenshotsUpl
     setUploadedAssets(prev => prev.filter((_, i) => i !== index))
   }
 
-  // Helper function to determine text color based on background brightness
-  const getTextColorForBackground = (bgColor: string): string => {
-    const hex = bgColor.replace('#', '')
-    const r = parseInt(hex.substr(0, 2), 16)
-    const g = parseInt(hex.substr(2, 2), 16)
-    const b = parseInt(hex.substr(4, 2), 16)
-    
-    // Calculate relative luminance
-    const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255
-    
-    // Return black text for light backgrounds, white for dark
-    return luminance > 0.5 ? '#1A1A1A' : '#FFFFFF'
-  }
-
   const handleAnalyzeScreenshotsForBenchmark = async () => {
     if (uploadedScreenshots.length === 0) return
 
@@ -410,12 +520,12 @@ export function ChatConversation({ messages, onPanelOpenChange, onScreenshotsUpl
 
       // Now do the actual analysis
       await new Promise(resolve => setTimeout(resolve, 300))
-      const analysis = await analyzeScreenshots(uploadedScreenshots, selectedPrompt || "App screenshots")
+      const analysis = await analyzeScreenshots(uploadedScreenshots, brandKit)
       
       // Map backgrounds to their appropriate text colors
       const backgroundsWithTextColors = analysis.suggestedBackgrounds.map(bg => ({
         background: bg,
-        textColor: getTextColorForBackground(bg)
+        textColor: getReadableTextColor(bg)
       }))
 
       const analysisData = {
@@ -444,7 +554,7 @@ export function ChatConversation({ messages, onPanelOpenChange, onScreenshotsUpl
       finalContent += "Based on your app's color palette, here are the best background options with optimal text colors:\n\n"
       
       backgroundsWithTextColors.forEach((item, idx) => {
-        const brightness = getTextColorForBackground(item.background) === '#FFFFFF' ? 'Dark' : 'Light'
+        const brightness = item.textColor === LIGHT_TEXT ? 'Dark' : 'Light'
         finalContent += `${idx + 1}. **Background:** ${item.background} (${brightness}) → **Text:** ${item.textColor}\n`
       })
       
@@ -539,6 +649,18 @@ export function ChatConversation({ messages, onPanelOpenChange, onScreenshotsUpl
                 </p>
               )}
               
+              {/* Canvas edit proposed by the assistant */}
+              {message.role === "assistant" && message.canvasEdit && (
+                <CanvasEditPreview
+                  changes={message.canvasEdit.status === 'pending'
+                    ? describeCanvasEdits(project?.screens ?? [], message.canvasEdit.operations, customTemplates)
+                    : message.canvasEdit.changes ?? []}
+                  status={message.canvasEdit.status}
+                  onAccept={() => handleCanvasEditDecision(message, true)}
+                  onDismiss={() => handleCanvasEditDecision(message, false)}
+                />
+              )}
+
               {/* Show upload button for design-related messages */}
               {shouldShowUploader(message) && (
                 <div className="mt-4 space-y-3">
@@ -666,13 +788,41 @@ export function ChatConversation({ messages, onPanelOpenChange, onScreenshotsUpl
               </button>
               
               {message.role === "user" ? (
-                <button
-                  onClick={() => handleRefresh(message.id)}
-                  className="p-1 text-neutral-400 hover:text-neutral-600 transition-colors"
-                  title="Refresh"
-                >
-                  <RotateCcw className="h-3.5 w-3.5" />
-                </button>
+                <>
+                  <button
+                    onClick={() => handleRefresh(message.id)}
+                    disabled={isStreaming}
+                    className="p-1 text-neutral-400 hover:text-neutral-600 transition-colors disabled:opacity-40 disabled:hover:text-neutral-400"
+                    title="Regenerate response"
+                  >
+                    <RotateCcw className="h-3.5 w-3.5" />
+                  </button>
+
+                  {/* Switch between replies regenerated from this message */}
+                  {message.branches && message.branches.length > 1 && (
+                    <div className="flex items-center gap-0.5 text-xs text-neutral-400">
+                      <button
+                        onClick={() => onSwitchBranch?.(message.id, (message.branchIndex ?? 0) - 1)}
+                        disabled={isStreaming || (message.branchIndex ?? 0) === 0}
+                        className="p-1 hover:text-neutral-600 transition-colors disabled:opacity-40 disabled:hover:text-neutral-400"
+                        title="Previous branch"
+                      >
+                        <ChevronLeft className="h-3.5 w-3.5" />
+                      </button>
+                      <span className="tabular-nums">
+                        {(message.branchIndex ?? 0) + 1}/{message.branches.length}
+                      </span>
+                      <button
+                        onClick={() => onSwitchBranch?.(message.id, (message.branchIndex ?? 0) + 1)}
+                        disabled={isStreaming || (message.branchIndex ?? 0) === message.branches.length - 1}
+                        className="p-1 hover:text-neutral-600 transition-colors disabled:opacity-40 disabled:hover:text-neutral-400"
+                        title="Next branch"
+                      >
+                        <ChevronRight className="h-3.5 w-3.5" />
+                      </button>
+                    </div>
+                  )}
+                </>
               ) : (
                 <button
                   onClick={() => handleShare(message.content)}
@@ -723,6 +873,14 @@ export function ChatConversation({ messages, onPanelOpenChange, onScreenshotsUpl
               selectedBackgroundIndex={selectedBackgroundIndex}
               selectedFont={selectedFont}
               promptTitlesSubtitles={promptTitlesSubtitles}
+              initialScreens={project?.screens}
+              initialTemplateId={project?.templateId}
+              onProjectChange={handleProjectChange}
+              edit={acceptedEdit}
+              onEditApplied={handleEditApplied}
+              onCustomTemplatesChange={setCustomTemplates}
+              workspaceId={workspaceId}
+              brandKit={brandKit}
             />
           </motion.div>
         )}
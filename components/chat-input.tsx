@@ -4,8 +4,12 @@ import * as React from "react"
 import { Paperclip, Globe, ArrowUp, Library, Wand2, Image, X } from "lucide-react"
 import { ChatConversation } from "./chat-conversation"
 import { useRouter } from "next/navigation"
-import { streamAIResponse, mockStreamAIResponse, hasOpenAIKey } from "@/lib/openai-stream"
+import { streamAIResponse } from "@/lib/openai-stream"
+import { branchAt, switchBranch, toChatContext } from "@/lib/chat-context"
+import { proposeCanvasEdits, summarizeCanvas, type CanvasSnapshot, type ChatCanvasEdit } from "@/lib/canvas-edits"
 import { motion } from "motion/react"
+import { getProjectUrl } from "@/lib/project-storage"
+import { saveChatToHistory, generateChatTitle } from "@/lib/chat-storage"
 
 const placeholderTexts = [
   "Ask, search, or make anything...",
@@ -21,10 +25,14 @@ interface Message {
   content: string
   timestamp: Date
   isStreaming?: boolean
+  branches?: Message[][]
+  branchIndex?: number
+  canvasEdit?: ChatCanvasEdit
 }
 
 interface ChatInputProps {
   chatId?: string
+  workspaceId?: string  // Workspace the chat was saved in
   initialMessages?: Message[]
   onPanelOpenChange?: (isOpen: boolean, width?: number) => void
   triggerAIResponse?: boolean
@@ -35,6 +43,7 @@ interface ChatInputProps {
 
 export function ChatInput({ 
   chatId, 
+  workspaceId,
   initialMessages = [], 
   onPanelOpenChange,
   triggerAIResponse = false,
@@ -166,66 +175,117 @@ Ready to upload your app screenshots?`
     }
   }, [initialMessages])
 
+  // Stream an assistant reply to the last message of `base`, with the
+  // earlier messages sent as conversation context
+  const streamReply = React.useCallback((base: Message[], onDone?: () => void) => {
+    const userMessage = base[base.length - 1]
+    const aiMessageId = (Date.now() + 1).toString()
+    const aiMessage: Message = {
+      id: aiMessageId,
+      role: "assistant",
+      content: "",
+      timestamp: new Date(),
+      isStreaming: true
+    }
+
+    // Add empty AI message
+    setMessages([...base, aiMessage])
+
+    const finish = (content: string) => {
+      const finalMessages = base.concat({ ...aiMessage, content, timestamp: new Date(), isStreaming: false })
+      setMessages(finalMessages)
+      onDone?.()
+    }
+
+    // Stream the response
+    streamAIResponse(userMessage.content, {
+      onToken: (token, fullText) => {
+        setMessages(prev => 
+          prev.map(msg => 
+            msg.id === aiMessageId 
+              ? { ...msg, content: fullText, isStreaming: true }
+              : msg
+          )
+        )
+      },
+      onComplete: finish,
+      onError: (error) => {
+        console.error('AI Error:', error)
+        finish("I apologize, but I encountered an error generating a response. Please try again.")
+      }
+    }, toChatContext(base.slice(0, -1)))
+  }, [])
+
+  // While the canvas is open, messages are instructions to edit it
+  const openCanvasRef = React.useRef<CanvasSnapshot | null>(null)
+  const handleCanvasChange = React.useCallback((canvas: CanvasSnapshot | null) => {
+    openCanvasRef.current = canvas
+  }, [])
+
+  // Ask for canvas edits for the last message of `base`; the reply carries
+  // them for the user to review and accept
+  const requestCanvasEdit = React.useCallback((base: Message[], canvas: CanvasSnapshot) => {
+    const userMessage = base[base.length - 1]
+    const aiMessage: Message = {
+      id: (Date.now() + 1).toString(),
+      role: "assistant",
+      content: "",
+      timestamp: new Date(),
+      isStreaming: true
+    }
+    setMessages([...base, aiMessage])
+
+    proposeCanvasEdits(
+      userMessage.content,
+      summarizeCanvas(canvas),
+      toChatContext(base.slice(0, -1))
+    )
+      .then((proposal): Partial<Message> => ({
+        content: proposal.summary || "Here's what I'd change on your design:",
+        ...(proposal.operations.length > 0 && {
+          canvasEdit: { operations: proposal.operations, status: "pending" as const }
+        })
+      }))
+      .catch((error): Partial<Message> => {
+        console.error('Canvas edit error:', error)
+        return { content: "I couldn't work out those canvas changes. Please try again." }
+      })
+      .then(reply => {
+        setMessages(base.concat({ ...aiMessage, ...reply, timestamp: new Date(), isStreaming: false }))
+      })
+  }, [])
+
+  const replyTo = React.useCallback((base: Message[]) => {
+    if (openCanvasRef.current) {
+      requestCanvasEdit(base, openCanvasRef.current)
+    } else {
+      streamReply(base)
+    }
+  }, [requestCanvasEdit, streamReply])
+
   // Trigger AI response when needed (for first message after redirect)
   React.useEffect(() => {
     if (triggerAIResponse && messages.length === 1 && messages[0].role === 'user') {
-      const userMessage = messages[0]
-      
-      // Generate AI response with streaming
-      const aiMessageId = (Date.now() + 1).toString()
-      const aiMessage: Message = {
-        id: aiMessageId,
-        role: "assistant",
-        content: "",
-        timestamp: new Date(),
-        isStreaming: true
-      }
-      
-      // Add empty AI message
-      const messagesWithAI = [...messages, aiMessage]
-      setMessages(messagesWithAI)
-      
-      // Stream the response
-      const streamFn = hasOpenAIKey() ? streamAIResponse : mockStreamAIResponse
-      
-      streamFn(userMessage.content, {
-        onStart: () => {
-          // Streaming started
-        },
-        onToken: (token, fullText) => {
-          setMessages(prev => 
-            prev.map(msg => 
-              msg.id === aiMessageId 
-                ? { ...msg, content: fullText, isStreaming: true }
-                : msg
-            )
-          )
-        },
-        onComplete: (fullText) => {
-          const finalMessages = messages.concat({
-            id: aiMessageId,
-            role: "assistant",
-            content: fullText,
-            timestamp: new Date(),
-            isStreaming: false
-          })
-          setMessages(finalMessages)
-          
-          // Save AI response to localStorage
-          if (chatId) {
-            localStorage.setItem(`chat-${chatId}`, JSON.stringify(finalMessages))
-          }
-          
-          // Notify parent that AI response was triggered
-          onAIResponseTriggered?.()
-        },
-        onError: (error) => {
-          console.error('AI Error:', error)
-          onAIResponseTriggered?.()
-        }
-      })
+      // Notify parent that AI response was triggered
+      streamReply(messages, onAIResponseTriggered)
     }
-  }, [triggerAIResponse, messages.length, messages, chatId, onAIResponseTriggered])
+  }, [triggerAIResponse, messages, streamReply, onAIResponseTriggered])
+
+  const isStreaming = messages.some(m => m.isStreaming)
+
+  // Regenerate the reply to a user message on a new branch; the previous
+  // continuation stays reachable through the branch switcher
+  const handleRegenerate = React.useCallback((messageId: string) => {
+    if (isStreaming) return
+    const branched = branchAt(messages, messageId)
+    if (branched[branched.length - 1]?.id !== messageId) return
+    replyTo(branched)
+  }, [isStreaming, messages, replyTo])
+
+  const handleSwitchBranch = React.useCallback((messageId: string, branchIndex: number) => {
+    if (isStreaming) return
+    setMessages(prev => switchBranch(prev, messageId, branchIndex))
+  }, [isStreaming])
 
   // Typewriter effect
   React.useEffect(() => {
@@ -276,75 +336,27 @@ Ready to upload your app screenshots?`
         // Create a new workspace/project in sidebar
         createProjectInSidebar(newChatId, projectName, value.trim())
         
-        // Store message in localStorage temporarily
-        localStorage.setItem(`chat-${newChatId}`, JSON.stringify([userMessage]))
+        // The chat page picks the first message up and asks for the reply
+        await saveChatToHistory({
+          id: newChatId,
+          workspaceId: "default",
+          title: generateChatTitle([userMessage]),
+          messages: [userMessage],
+          screenshots: [],
+          assets: [],
+          createdAt: userMessage.timestamp,
+          updatedAt: userMessage.timestamp
+        })
         router.push(`/dashboard/chat/${newChatId}`)
         return
       }
       
       const updatedMessages = [...messages, userMessage]
-      setMessages(updatedMessages)
       setValue("")
       
-      // Save to localStorage
-      localStorage.setItem(`chat-${chatId}`, JSON.stringify(updatedMessages))
-      
-      // Generate AI response with streaming
-      const aiMessageId = (Date.now() + 1).toString()
-      const aiMessage: Message = {
-        id: aiMessageId,
-        role: "assistant",
-        content: "",
-        timestamp: new Date(),
-        isStreaming: true
-      }
-      
-      // Add empty AI message
-      const messagesWithAI = [...updatedMessages, aiMessage]
-      setMessages(messagesWithAI)
-      
-      // Stream the response
-      const streamFn = hasOpenAIKey() ? streamAIResponse : mockStreamAIResponse
-      
-      streamFn(userMessage.content, {
-        onStart: () => {
-          // Streaming started
-        },
-        onToken: (token, fullText) => {
-          setMessages(prev => 
-            prev.map(msg => 
-              msg.id === aiMessageId 
-                ? { ...msg, content: fullText, isStreaming: true }
-                : msg
-            )
-          )
-        },
-        onComplete: (fullText) => {
-          const finalMessages = updatedMessages.concat({
-            id: aiMessageId,
-            role: "assistant",
-            content: fullText,
-            timestamp: new Date(),
-            isStreaming: false
-          })
-          setMessages(finalMessages)
-          
-          // Save AI response to localStorage
-          localStorage.setItem(`chat-${chatId}`, JSON.stringify(finalMessages))
-        },
-        onError: (error) => {
-          console.error('AI Error:', error)
-          const errorMessage = updatedMessages.concat({
-            id: aiMessageId,
-            role: "assistant",
-            content: "I apologize, but I encountered an error generating a response. Please try again.",
-            timestamp: new Date(),
-            isStreaming: false
-          })
-          setMessages(errorMessage)
-          localStorage.setItem(`chat-${chatId}`, JSON.stringify(errorMessage))
-        }
-      })
+      // ChatConversation autosaves the messages
+      // Generate AI response (or canvas edits while the canvas is open)
+      replyTo(updatedMessages)
     }
   }
 
@@ -408,7 +420,7 @@ Ready to upload your app screenshots?`
         },
         {
           name: "Screenshots",
-          url: "#",
+          url: getProjectUrl(chatId),
           emoji: "📱",
         },
         {
@@ -508,8 +520,12 @@ Ready to upload your app screenshots?`
       <div className="flex-1 overflow-hidden">
         <ChatConversation 
           messages={messages} 
+          workspaceId={workspaceId}
           onPanelOpenChange={handlePanelOpenChange}
           onAddMessage={handleAddMessage}
+          onRegenerate={handleRegenerate}
+          onSwitchBranch={handleSwitchBranch}
+          onCanvasChange={handleCanvasChange}
         />
       </div>
 
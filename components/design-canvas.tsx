@@ -1,52 +1,244 @@
 "use client"
 
 import * as React from "react"
-import { X, Type, Move, Trash2, Copy, Bold, Italic, Underline, AlignLeft, AlignCenter, AlignRight, Plus, Image as ImageIcon, ZoomIn, ZoomOut, ChevronLeft, ChevronRight, Layers, Layout, Check, Video, Download, Share2, MousePointer2, Hand, Square, Circle, Minus, Palette, Sparkles } from "lucide-react"
+import { X, Type, Move, Trash2, Copy, Bold, Italic, Underline, AlignLeft, AlignCenter, AlignRight, Plus, Image as ImageIcon, ZoomIn, ZoomOut, ChevronLeft, ChevronRight, Layers, Layout, Check, Video, Download, Share2, MousePointer2, Hand, Square, Circle, Minus, Palette, Sparkles, Undo2, Redo2, History, ChevronDown, Group, Ungroup, AlignStartVertical, AlignCenterVertical, AlignEndVertical, AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal, AlignHorizontalSpaceBetween, AlignVerticalSpaceBetween, Magnet, Ruler, Smartphone, Crop, RemoveFormatting, CaseUpper, CaseLower, CaseSensitive, BookmarkPlus, Upload, Lock, LockOpen, Languages, CloudUpload } from "lucide-react"
 import { VideoGenerator } from "./video-generator"
-import { IphoneMockup } from "./iphone-mockup"
+import { DeviceMockup } from "./device-mockup"
+import { CanvasRuler } from "./canvas-ruler"
+import { TextLayerContent } from "./text-layer-content"
+import { TemplateThumbnail } from "./template-thumbnail"
 import { 
   LAYOUT_TEMPLATES, 
   getTemplateById,
   generateLayersFromTemplate,
+  relayoutScreen,
   type LayoutTemplate
 } from "@/lib/layout-templates"
 import { analyzeScreenshots } from "@/lib/screenshot-analyzer"
+import {
+  TEXT_LINE_HEIGHT,
+  CANVAS_HEIGHT,
+  SAFE_AREA_INSETS,
+  SEARCH_RESULT_CROP,
+  getLayerFillCss,
+  getShapePath,
+  gradientToCss,
+  getShadowCss,
+  hasRoundedBox,
+  LAYER_BLEND_MODES,
+  type HorizontalConstraint,
+  type ImageCrop,
+  type Layer,
+  type LayerBlendMode,
+  type LayerConstraints,
+  type LayerGradient,
+  type LayerOverride,
+  type LayerShadow,
+  type Screen,
+  type ShapeKind,
+  type VerticalConstraint
+} from "@/lib/scene-graph"
+import { renderScreenToDataURL } from "@/lib/scene-renderer"
+import { applyCanvasEdits, editedTemplateId } from "@/lib/canvas-edits"
+import { getTextRangeStyle, replaceTextContent, styleTextRange, type TextSpanStyle } from "@/lib/text-layout"
+import {
+  buildLayerTree,
+  getGroupLayerIds,
+  getSelectableLayerIds,
+  getSelectedGroups,
+  getSelectionUnits,
+  groupLayers,
+  nextGroupName,
+  pruneEmptyGroups,
+  ungroupLayers,
+  type LayerTreeNode
+} from "@/lib/layer-groups"
+import {
+  alignLayers,
+  distributeLayers,
+  getLayersBounds,
+  getLayersInBounds,
+  type AlignEdge,
+  type ArrangeTarget,
+  type DistributeAxis,
+  type LayerBounds
+} from "@/lib/layer-align"
+import {
+  SNAP_THRESHOLD,
+  getSnapTargets,
+  isGuideOnScreen,
+  removeScreenGuide,
+  setScreenGuide,
+  snapBounds,
+  type SnapLine,
+  type SnapTargets
+} from "@/lib/canvas-snapping"
+import type { CanvasEditOperation } from "@/lib/ai-schemas"
+import { ExportDialog } from "./export-dialog"
+import { StoreUploadDialog } from "./store-upload-dialog"
+import { pickBrandLogo, type BrandKit } from "@/lib/brand-kit"
+import type { PaletteGradient } from "@/lib/color-palette"
+import { downloadBlob } from "@/lib/export-pipeline"
+import {
+  createTemplateFromScreen,
+  getCustomTemplates,
+  getTemplateFileName,
+  mergeTemplates,
+  parseTemplateFile,
+  saveCustomTemplates,
+  serializeTemplates,
+  toLayoutTemplate,
+  type CustomTemplate
+} from "@/lib/custom-templates"
+import {
+  DESIGN_SIZE,
+  HORIZONTAL_CONSTRAINTS,
+  VERTICAL_CONSTRAINTS,
+  clearLayerOverride,
+  getLayerConstraints,
+  getLayoutSize,
+  hasLayerOverride,
+  layoutScreen,
+  setLayerOverride
+} from "@/lib/responsive-layout"
+import { EXPORT_SIZES } from "@/lib/ai-helpers"
+import {
+  DEVICE_FRAMES,
+  FRAME_COLORS,
+  fitLayerToFrame,
+  getDeviceFrame,
+  getImageSize,
+  suggestDeviceFrame,
+  suggestDeviceFrames,
+  type DeviceFrameId
+} from "@/lib/device-frames"
+import {
+  MAX_IMAGE_ZOOM,
+  MIN_IMAGE_ZOOM,
+  getImageCrop,
+  getImageCropBox,
+  getImageCropStyle,
+  panImageCrop,
+  presetImageCrop,
+  zoomImageCrop,
+} from "@/lib/image-crop"
+import {
+  BASE_LOCALE,
+  LOCALES,
+  applyTranslations,
+  getLayerText,
+  getLocale,
+  getProjectLocales,
+  isRTLLocale,
+  localizeScreen,
+  removeLocale,
+  requestTranslations,
+  setLayerTranslation,
+} from "@/lib/localization"
+import { useCanvasHistory } from "@/hooks/use-canvas-history"
+import { useTextMeasure } from "@/hooks/use-text-measure"
 
-interface Layer {
-  id: string
-  type: "text" | "image" | "mockup" | "background" | "decoration"
-  content: string
-  x: number
-  y: number
-  width: number
-  height: number
-  fontSize?: number
-  fontFamily?: string
-  color?: string
-  bold?: boolean
-  italic?: boolean
-  underline?: boolean
-  align?: "left" | "center" | "right"
-  // Mockup specific
-  mockupVariant?: 'white' | 'black'
-  // Background specific
-  backgroundColor?: string
-  backgroundGradient?: {
-    type: "linear" | "radial"
-    colors: string[]
-    angle?: number
-  }
+import type { PromptAnalysisResult } from "@/lib/prompt-analyzer"
+
+// History label for an inspector edit
+function describeStyleChange(style: Partial<Layer>): string {
+  const keys = Object.keys(style)
+  if (keys.every(k => k === 'x' || k === 'y')) return 'Move layer'
+  if (keys.every(k => k === 'width' || k === 'height')) return 'Resize layer'
+  if (keys.includes('fontSize')) return 'Change font size'
+  if (keys.includes('fontFamily')) return 'Change font'
+  if (keys.includes('color')) return 'Change text color'
+  if (keys.includes('align')) return 'Change alignment'
+  if (keys.includes('bold')) return 'Toggle bold'
+  if (keys.includes('italic')) return 'Toggle italic'
+  if (keys.includes('underline')) return 'Toggle underline'
+  if (keys.includes('lineHeight')) return 'Change line height'
+  if (keys.includes('letterSpacing')) return 'Change letter spacing'
+  if (keys.includes('textTransform')) return 'Change text case'
+  if (keys.includes('autoFit')) return 'Toggle auto-fit'
+  if (keys.includes('deviceFrame')) return 'Change device frame'
+  if (keys.includes('mockupVariant')) return 'Change mockup color'
+  if (keys.includes('fill')) return 'Change fill'
+  if (keys.includes('stroke')) return 'Change stroke'
+  if (keys.includes('strokeWidth')) return 'Change stroke width'
+  if (keys.includes('cornerRadius')) return 'Change corner radius'
+  if (keys.includes('opacity')) return 'Change opacity'
+  if (keys.includes('rotation')) return 'Rotate layer'
+  if (keys.includes('shadow')) return 'Change shadow'
+  if (keys.includes('blendMode')) return 'Change blend mode'
+  if (keys.includes('constraints')) return 'Change constraints'
+  if (keys.includes('imageCrop')) return 'Crop image'
+  return 'Edit layer'
 }
 
-interface Screen {
-  id: string
-  name: string
-  backgroundColor: string
-  layers: Layer[]
-  templateId?: string // Track which template is being used
+type CanvasTool = "select" | "hand" | "text" | "rectangle" | "circle" | "line"
+
+const SHAPE_TOOLS: Partial<Record<CanvasTool, ShapeKind>> = {
+  rectangle: "rectangle",
+  circle: "ellipse",
+  line: "line",
 }
 
-import type { PromptAnalysisResult } from "@/lib/prompt-analyzer"
+const SHAPE_NAMES: Record<ShapeKind, string> = {
+  rectangle: "Rectangle",
+  ellipse: "Ellipse",
+  line: "Line",
+}
+
+// Starting style of a drawn shape: a filled callout box, a highlight ring, a divider
+const SHAPE_DEFAULTS: Record<ShapeKind, Partial<Layer>> = {
+  rectangle: { fill: "#3B82F6", stroke: "#1A1A1A", strokeWidth: 0, cornerRadius: 12, opacity: 1 },
+  ellipse: { stroke: "#EF4444", strokeWidth: 4, opacity: 1 },
+  line: { stroke: "#1A1A1A", strokeWidth: 3, opacity: 1 },
+}
+
+const DEFAULT_SHADOW: LayerShadow = { offsetX: 0, offsetY: 12, blur: 24, color: "#00000040" }
+
+// Shadow colors are #RRGGBBAA so the picker (which has no alpha) gets its own slider
+function getAlpha(color: string): number {
+  return color.length === 9 ? parseInt(color.slice(7, 9), 16) / 255 : 1
+}
+
+function withAlpha(color: string, alpha: number): string {
+  const channel = Math.round(Math.max(0, Math.min(1, alpha)) * 255).toString(16).padStart(2, '0')
+  return `${color.slice(0, 7)}${channel}`.toUpperCase()
+}
+
+// Size of a shape placed with a plain click instead of a drag
+const CLICK_SHAPE_SIZE = { width: 120, height: 80 }
+
+/**
+ * Box of a shape dragged from `start` to `end`. Shift keeps rectangles and
+ * ellipses square and snaps lines to 45°.
+ */
+function getDrawnShapeBounds(
+  shape: ShapeKind,
+  start: { x: number; y: number },
+  end: { x: number; y: number },
+  constrain: boolean
+): Pick<Layer, 'x' | 'y' | 'width' | 'height' | 'lineDirection'> {
+  let dx = end.x - start.x
+  let dy = end.y - start.y
+
+  if (constrain && shape === 'line') {
+    const angle = Math.round(Math.atan2(dy, dx) / (Math.PI / 4)) * (Math.PI / 4)
+    const length = Math.hypot(dx, dy)
+    dx = Math.round(Math.cos(angle) * length)
+    dy = Math.round(Math.sin(angle) * length)
+  } else if (constrain) {
+    const size = Math.max(Math.abs(dx), Math.abs(dy))
+    dx = Math.sign(dx || 1) * size
+    dy = Math.sign(dy || 1) * size
+  }
+
+  return {
+    x: Math.min(start.x, start.x + dx),
+    y: Math.min(start.y, start.y + dy),
+    width: Math.abs(dx),
+    height: Math.abs(dy),
+    ...(shape === 'line' && { lineDirection: (dx >= 0) === (dy >= 0) ? 'down' : 'up' }),
+  }
+}
 
 interface DesignCanvasProps {
   onClose: () => void
@@ -62,6 +254,18 @@ interface DesignCanvasProps {
   selectedBackgroundIndex?: number
   selectedFont?: string
   promptTitlesSubtitles?: PromptAnalysisResult
+  // Previously saved project to reopen instead of generating new screens
+  initialScreens?: Screen[]
+  initialTemplateId?: string
+  onProjectChange?: (screens: Screen[], templateId: string) => void
+  // Edit accepted in the chat; applied once as a single undoable step
+  edit?: { id: string; operations: CanvasEditOperation[] } | null
+  onEditApplied?: (id: string) => void
+  // Custom templates are shared by every project in a workspace
+  workspaceId?: string
+  onCustomTemplatesChange?: (templates: LayoutTemplate[]) => void
+  // Workspace brand kit that new screens start from
+  brandKit?: BrandKit | null
 }
 
 export function DesignCanvas({ 
@@ -73,15 +277,59 @@ export function DesignCanvas({
   screenshotAnalysis = null,
   selectedBackgroundIndex,
   selectedFont,
-  promptTitlesSubtitles
+  promptTitlesSubtitles,
+  initialScreens,
+  initialTemplateId,
+  onProjectChange,
+  edit,
+  onEditApplied,
+  workspaceId = 'default',
+  onCustomTemplatesChange,
+  brandKit = null
 }: DesignCanvasProps) {
-  const [screens, setScreens] = React.useState<Screen[]>([])
-  const [currentScreenId, setCurrentScreenId] = React.useState("")
-  const [selectedLayer, setSelectedLayer] = React.useState<string | null>(null)
+  const {
+    screens,
+    history,
+    canUndo,
+    canRedo,
+    updateScreens,
+    resetScreens,
+    undo,
+    redo,
+    jumpTo
+  } = useCanvasHistory(initialScreens)
+  const [currentScreenId, setCurrentScreenId] = React.useState(initialScreens?.[0]?.id ?? "")
+  const [selectedLayers, setSelectedLayers] = React.useState<string[]>([])
   const [dragging, setDragging] = React.useState<string | null>(null)
-  const [dragStart, setDragStart] = React.useState({ x: 0, y: 0 })
+  // Rubber-band selection; origin is the screen's top-left in client pixels
+  const [marquee, setMarquee] = React.useState<{
+    screenId: string
+    origin: { x: number; y: number }
+    start: { x: number; y: number }
+    end: { x: number; y: number }
+    additive: boolean
+  } | null>(null)
+  const [collapsedGroups, setCollapsedGroups] = React.useState<Set<string>>(new Set())
+  const [arrangeTarget, setArrangeTarget] = React.useState<ArrangeTarget>("selection")
+  const [snapEnabled, setSnapEnabled] = React.useState(true)
+  const [snapLines, setSnapLines] = React.useState<SnapLine[]>([])
+  const [showRulers, setShowRulers] = React.useState(false)
+  const [showSafeArea, setShowSafeArea] = React.useState(false)
+  const [showSearchCrop, setShowSearchCrop] = React.useState(false)
+  // Export size the screens are laid out for; moving or resizing a layer
+  // then adjusts it for that device only
+  const [previewDevice, setPreviewDevice] = React.useState<string | null>(null)
+  // Store language the canvas shows; null is the base language the copy is written in
+  const [previewLocale, setPreviewLocale] = React.useState<string | null>(null)
+  const [translatingLocale, setTranslatingLocale] = React.useState<string | null>(null)
+  // Image or mockup whose picture is being panned and zoomed instead of the layer moved
+  const [editingImage, setEditingImage] = React.useState<{ screenId: string; layerId: string; size: { width: number; height: number } } | null>(null)
+  // Characters selected in the inspector's content box, for styling part of a text layer
+  const [textSelection, setTextSelection] = React.useState<{ layerId: string; start: number; end: number } | null>(null)
+  const measureText = useTextMeasure()
   const [resizing, setResizing] = React.useState<string | null>(null)
-  const [resizeStart, setResizeStart] = React.useState({ x: 0, y: 0, width: 0, height: 0 })
+  const [rotating, setRotating] = React.useState<string | null>(null)
+  const [resizeStart, setResizeStart] = React.useState({ x: 0, y: 0, width: 0, height: 0, minSize: 50 })
   const [zoom, setZoom] = React.useState(1)
   const [isPanning, setIsPanning] = React.useState(false)
   const [panStart, setPanStart] = React.useState({ x: 0, y: 0 })
@@ -91,17 +339,82 @@ export function DesignCanvas({
   const [showVideoGenerator, setShowVideoGenerator] = React.useState(false)
   const [showShareModal, setShowShareModal] = React.useState(false)
   const [shareLink, setShareLink] = React.useState("")
-  const [isExporting, setIsExporting] = React.useState(false)
-  const [activeTool, setActiveTool] = React.useState<"select" | "hand" | "text" | "rectangle" | "circle" | "line">("select")
+  const [showExportDialog, setShowExportDialog] = React.useState(false)
+  const [showUploadDialog, setShowUploadDialog] = React.useState(false)
+  const [activeTool, setActiveTool] = React.useState<CanvasTool>("select")
   const [showTemplateSelector, setShowTemplateSelector] = React.useState(false)
-  const [selectedTemplateId, setSelectedTemplateId] = React.useState('layout1')
+  const [selectedTemplateId, setSelectedTemplateId] = React.useState(initialTemplateId ?? 'layout1')
+  const [customTemplates, setCustomTemplates] = React.useState<CustomTemplate[]>([])
+  const templateFileInputRef = React.useRef<HTMLInputElement>(null)
   const [isAnalyzing, setIsAnalyzing] = React.useState(false)
   const [aiAnalysis, setAiAnalysis] = React.useState<any>(null)
   const canvasRef = React.useRef<HTMLDivElement>(null)
   const rafRef = React.useRef<number | null>(null)
-  const dragPositionRef = React.useRef({ x: 0, y: 0 })
+  const frameUpdateRef = React.useRef<(() => void) | null>(null) // Update waiting for rafRef's frame
+  // Layers being dragged and where they started, so the selection moves together
+  const dragRef = React.useRef<{
+    start: { x: number; y: number }
+    origins: Map<string, { x: number; y: number }>
+    offset: { x: number; y: number }
+    bounds: LayerBounds // Selection box at drag start
+    targets: SnapTargets
+  } | null>(null)
+  // Layer turned by its rotate handle, around its center in client pixels
+  const rotateRef = React.useRef<{ layerId: string; center: { x: number; y: number }; angle: number; moved: boolean } | null>(null)
+  // Picture being panned in image edit mode, with the crop it started from
+  const imageDragRef = React.useRef<{
+    layerId: string
+    start: { x: number; y: number }
+    offset: { x: number; y: number }
+    crop: ImageCrop
+    box: { width: number; height: number }
+    size: { width: number; height: number }
+  } | null>(null)
+  // Ruler guide being dragged; origin is the screen's top-left in client pixels
+  const guideDragRef = React.useRef<{
+    screenId: string
+    guideId: string
+    axis: "x" | "y"
+    isNew: boolean
+    origin: { x: number; y: number }
+    position?: number
+  } | null>(null)
   const resizeDimensions = React.useRef({ width: 0, height: 0 })
   const isDraggingRef = React.useRef(false)
+  const gestureIdRef = React.useRef(0) // Coalesces one drag/resize into a single history entry
+  // Shape being drawn with a shape tool; origin is the screen's top-left in client pixels
+  const drawingRef = React.useRef<{
+    screenId: string
+    layerId: string
+    shape: ShapeKind
+    origin: { x: number; y: number }
+    start: { x: number; y: number }
+    bounds?: Partial<Layer> // Latest drag box, applied on mouse up if a frame was skipped
+  } | null>(null)
+  const drawingShape = activeTool in SHAPE_TOOLS
+
+  const previewSize = React.useMemo(() => {
+    const size = EXPORT_SIZES.find(s => s.name === previewDevice)
+    return size ? getLayoutSize(size.width, size.height) : DESIGN_SIZE
+  }, [previewDevice])
+  // What the canvas shows and hit-tests: every screen laid out for the
+  // previewed device, in the previewed language
+  const displayScreens = React.useMemo(
+    () => previewDevice || previewLocale
+      ? screens.map(screen => localizeScreen(
+          previewDevice ? layoutScreen(screen, previewSize, previewDevice) : screen,
+          previewLocale,
+          previewSize.width
+        ))
+      : screens,
+    [screens, previewSize, previewDevice, previewLocale]
+  )
+  // Right-to-left previews show the layout mirrored, so boxes are edited in the design
+  const previewRTL = isRTLLocale(previewLocale)
+  // A moved or resized box goes into the design, or into the previewed device's override
+  const placeLayer = React.useCallback((layer: Layer, box: LayerOverride): Layer =>
+    previewDevice ? setLayerOverride(layer, previewDevice, box) : { ...layer, ...box },
+  [previewDevice])
 
   // Analyze screenshots with AI and generate screens
   React.useEffect(() => {
@@ -116,7 +429,7 @@ export function DesignCanvas({
     
     try {
       // Analyze screenshots for VISUAL data only (colors, fonts, backgrounds)
-      const visualAnalysis = await analyzeScreenshots(uploadedScreenshots)
+      const visualAnalysis = await analyzeScreenshots(uploadedScreenshots, brandKit)
       setAiAnalysis(visualAnalysis)
       
       console.log('✨ Visual Analysis:', {
@@ -134,18 +447,21 @@ export function DesignCanvas({
         'Powerful features designed to help you succeed',
         'Powerful features designed to help you succeed'
       ]
-      const suggestedLayout = promptTitlesSubtitles?.suggestedLayout || 'layout1'
+      const suggestedLayout = brandKit?.defaultTemplateId || promptTitlesSubtitles?.suggestedLayout || 'layout1'
       
       console.log('📝 Using titles from prompt analysis:', titles)
       
+      // The brand's house layout may be one of the workspace templates, or since deleted
       const template = getTemplateById(suggestedLayout)
+        ?? (await getCustomTemplates(workspaceId)).map(toLayoutTemplate).find(t => t.id === suggestedLayout)
+        ?? getTemplateById(promptTitlesSubtitles?.suggestedLayout || 'layout1')
       if (!template) {
         console.error('Template not found:', suggestedLayout)
         setIsAnalyzing(false)
         return
       }
       
-      setSelectedTemplateId(suggestedLayout)
+      setSelectedTemplateId(template.id)
       
       // Determine which background color to use for ALL screens
       let uniformBgColor = '#F5F5F5'
@@ -164,8 +480,9 @@ export function DesignCanvas({
         uniformTextColor = visualAnalysis.textColor
       }
       
-      // Determine which font to use
+      // Determine which font to use; brand kits set their own for subtitles
       const uniformFont = selectedFont || visualAnalysis.detectedFonts?.[0] || 'Inter'
+      const subtitleFont = selectedFont || brandKit?.secondaryFont || uniformFont
       
       console.log('🎨 Using uniform styling:', {
         background: uniformBgColor,
@@ -173,6 +490,9 @@ export function DesignCanvas({
         font: uniformFont
       })
       
+      // Frame each screenshot in the device it was taken on
+      const deviceFrames = await suggestDeviceFrames(uploadedScreenshots)
+      
       // Always generate 5 screens with CONSISTENT background and font
       const newScreens = Array.from({ length: 5 }, (_, index) => {
         const screenshot = uploadedScreenshots[index % uploadedScreenshots.length]
@@ -184,10 +504,11 @@ export function DesignCanvas({
           screenshot,
           headline,
           subtitle,
-          logo: uploadedLogo,
+          logo: uploadedLogo || (brandKit ? pickBrandLogo(brandKit, uniformBgColor) : undefined),
           textColor: uniformTextColor,
           fontFamily: uniformFont,
-          mockupVariant
+          mockupVariant,
+          deviceFrame: deviceFrames[index % uploadedScreenshots.length]
         }, index)
         
         return {
@@ -206,7 +527,7 @@ export function DesignCanvas({
                 ...l, 
                 id: `${l.id}_${index}_${idx}`, 
                 color: uniformTextColor,
-                fontFamily: uniformFont
+                fontFamily: l.id === 'subtitle' ? subtitleFont : uniformFont
               }
             }
             return { ...l, id: `${l.id}_${index}_${idx}` }
@@ -215,24 +536,25 @@ export function DesignCanvas({
       })
       
       console.log('✅ Created', newScreens.length, 'AI-powered screens with titles from prompt analysis')
-      setScreens(newScreens)
+      resetScreens(newScreens)
       setCurrentScreenId(newScreens[0]?.id || "")
     } catch (error) {
       console.error('AI analysis failed:', error)
       // Fallback to simple generation
-      generateScreensFallback()
+      await generateScreensFallback()
     } finally {
       setIsAnalyzing(false)
     }
   }
 
-  const generateScreensFallback = () => {
+  const generateScreensFallback = async () => {
     console.log('📸 Using fallback generation - creating 5 screens')
     
     // Always generate 5 screens with alternating configurations
     const defaultTemplate = getTemplateById('layout1')
     if (!defaultTemplate) return
     
+    const deviceFrames = await suggestDeviceFrames(uploadedScreenshots)
     const newScreens = Array.from({ length: 5 }, (_, index) => {
       const screenshot = uploadedScreenshots[index % uploadedScreenshots.length]
       
@@ -240,7 +562,8 @@ export function DesignCanvas({
         screenshot,
         headline: `A super helpful app feature`,
         subtitle: 'This is a subtitle which explains this feature in a better way.',
-        logo: uploadedLogo
+        logo: uploadedLogo,
+        deviceFrame: deviceFrames[index % uploadedScreenshots.length]
       }, index)
       
       return {
@@ -255,56 +578,95 @@ export function DesignCanvas({
       }
     })
     
-    setScreens(newScreens)
+    resetScreens(newScreens)
     setCurrentScreenId(newScreens[0]?.id || "")
   }
 
+  // Workspace templates
+  const [templatesLoaded, setTemplatesLoaded] = React.useState(false)
+  React.useEffect(() => {
+    let cancelled = false
+    getCustomTemplates(workspaceId)
+      .then(templates => { if (!cancelled) setCustomTemplates(templates) })
+      .catch(error => console.error('Failed to load templates:', error))
+      .finally(() => { if (!cancelled) setTemplatesLoaded(true) })
+    return () => { cancelled = true }
+  }, [workspaceId])
+
+  // Built-in templates followed by the workspace's own
+  const customLayoutTemplates = React.useMemo(() => customTemplates.map(toLayoutTemplate), [customTemplates])
+  const allTemplates = React.useMemo(
+    () => [...LAYOUT_TEMPLATES, ...customLayoutTemplates],
+    [customLayoutTemplates]
+  )
+
+  // Chat edits may apply custom templates too
+  React.useEffect(() => {
+    if (templatesLoaded) onCustomTemplatesChange?.(customLayoutTemplates)
+  }, [templatesLoaded, customLayoutTemplates, onCustomTemplatesChange])
+
+  const updateCustomTemplates = (templates: CustomTemplate[]) => {
+    setCustomTemplates(templates)
+    saveCustomTemplates(workspaceId, templates).catch(error => console.error('Failed to save templates:', error))
+  }
+
+  const saveScreenAsTemplate = (screen: Screen) => {
+    const name = window.prompt('Template name', screen.name)?.trim()
+    if (!name) return
+    const template = createTemplateFromScreen(screen, { id: `custom_${Date.now()}`, name, logo: uploadedLogo })
+    updateCustomTemplates([...customTemplates, template])
+  }
+
+  const deleteCustomTemplate = (templateId: string) => {
+    updateCustomTemplates(customTemplates.filter(t => t.id !== templateId))
+  }
+
+  const exportCustomTemplates = (templates: CustomTemplate[]) => {
+    const name = templates.length === 1 ? templates[0].name : 'templates'
+    downloadBlob(new Blob([serializeTemplates(templates)], { type: 'application/json' }), getTemplateFileName(name))
+  }
+
+  const importCustomTemplates = async (file: File) => {
+    try {
+      const imported = parseTemplateFile(await file.text())
+      updateCustomTemplates(mergeTemplates(customTemplates, imported))
+    } catch (error) {
+      alert(`Couldn't import templates: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
   // Apply template to all screens
   const applyTemplateToScreens = (templateId: string) => {
-    const template = getTemplateById(templateId)
+    const template = allTemplates.find(t => t.id === templateId)
     if (!template) return
     
     setSelectedTemplateId(templateId)
     
-    setScreens(prev => prev.map((screen, index) => {
-      // Find mockup layer or use uploaded screenshot
-      const mockupLayer = screen.layers.find(l => l.type === "mockup")
-      const screenshot = mockupLayer?.content || uploadedScreenshots[index] || ""
-      const mockupVariant = mockupLayer?.mockupVariant || 'black'
-      
-      // Preserve existing text content (headlines and subtitles)
-      const headline = screen.layers.find(l => l.id.includes("headline"))?.content || `Feature ${index + 1}`
-      const subtitle = screen.layers.find(l => l.id.includes("subtitle"))?.content || ""
-      
-      // Preserve existing text styling (color and font)
-      const existingTextLayer = screen.layers.find(l => l.type === "text")
-      const textColor = existingTextLayer?.color || screen.layers.find(l => l.id.includes("headline"))?.color || '#1A1A1A'
-      const fontFamily = selectedFont || existingTextLayer?.fontFamily || aiAnalysis?.detectedFonts?.[0] || 'Inter'
-      
-      const newLayers = generateLayersFromTemplate(template, {
-        screenshot,
-        headline,
-        subtitle,
-        logo: uploadedLogo,
-        mockupVariant,
-        textColor,
-        fontFamily
-      }, index)
-      
-      return {
-        ...screen,
-        backgroundColor: screen.backgroundColor, // Preserve existing background color
-        templateId,
-        layers: newLayers.map((l, idx) => ({
-          ...l,
-          id: `${l.id}_${index}_${idx}`
-        })) as Layer[]
-      }
-    }))
+    updateScreens(prev => prev.map((screen, index) => relayoutScreen(screen, template, index, {
+      screenshot: uploadedScreenshots[index],
+      logo: uploadedLogo,
+      fontFamily: selectedFont,
+      defaultFontFamily: aiAnalysis?.detectedFonts?.[0]
+    })), { label: `Apply ${template.name}` })
     
     setShowTemplateSelector(false)
   }
 
+  // The current screen laid out with every template, for the picker's thumbnails
+  const templatePreviews = React.useMemo(() => {
+    const index = screens.findIndex(s => s.id === currentScreenId)
+    if (!showTemplateSelector || index === -1) return []
+    return allTemplates.map(template => ({
+      template,
+      screen: relayoutScreen(screens[index], template, index, {
+        screenshot: uploadedScreenshots[index],
+        logo: uploadedLogo,
+        fontFamily: selectedFont,
+        defaultFontFamily: aiAnalysis?.detectedFonts?.[0]
+      }),
+    }))
+  }, [showTemplateSelector, allTemplates, screens, currentScreenId, uploadedScreenshots, uploadedLogo, selectedFont, aiAnalysis])
+
   // Initialize with default screen if no uploads
   React.useEffect(() => {
     if (uploadedScreenshots.length === 0 && screens.length === 0) {
@@ -341,10 +703,10 @@ export function DesignCanvas({
           }
         ]
       }
-      setScreens([defaultScreen])
+      resetScreens([defaultScreen])
       setCurrentScreenId("1")
     }
-  }, [uploadedScreenshots.length, screens.length])
+  }, [uploadedScreenshots.length, screens.length, resetScreens])
 
   // Handle space key for panning
   React.useEffect(() => {
@@ -369,6 +731,69 @@ export function DesignCanvas({
     }
   }, [spacePressed])
 
+  // Undo/redo shortcuts - text fields keep their native undo
+  React.useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey)) return
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return
+
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        redo()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
+  // Escape leaves image edit mode
+  React.useEffect(() => {
+    if (!editingImage) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setEditingImage(null)
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [editingImage])
+
+  // Report edits so the parent can autosave the project
+  React.useEffect(() => {
+    if (screens.length === 0 || screens === initialScreens) return
+    onProjectChange?.(screens, selectedTemplateId)
+  }, [screens, selectedTemplateId, initialScreens, onProjectChange])
+
+  // Apply an edit accepted in the chat
+  const hasScreens = screens.length > 0
+  const appliedEditRef = React.useRef<string | null>(null)
+  React.useEffect(() => {
+    // Wait for the custom templates the edit may apply
+    if (!edit || !hasScreens || !templatesLoaded || appliedEditRef.current === edit.id) return
+    appliedEditRef.current = edit.id
+
+    updateScreens(
+      prev => applyCanvasEdits(prev, edit.operations, { logo: uploadedLogo, customTemplates: customLayoutTemplates }),
+      { label: 'Apply chat edit' }
+    )
+    const templateId = editedTemplateId(edit.operations)
+    if (templateId) {
+      setSelectedTemplateId(templateId)
+    }
+    onEditApplied?.(edit.id)
+  }, [edit, hasScreens, templatesLoaded, customLayoutTemplates, updateScreens, uploadedLogo, onEditApplied])
+
+  // Undoing "Add screen" can remove the screen being edited
+  React.useEffect(() => {
+    if (screens.length > 0 && !screens.some(s => s.id === currentScreenId)) {
+      setCurrentScreenId(screens[0].id)
+      setSelectedLayers([])
+    }
+  }, [screens, currentScreenId])
+
   // Cleanup effect for RAF
   React.useEffect(() => {
     return () => {
@@ -378,21 +803,107 @@ export function DesignCanvas({
     }
   }, [])
 
+  // Image edit mode lasts while its layer is the only one selected
+  const imageEdit = editingImage && editingImage.screenId === currentScreenId &&
+    selectedLayers.length === 1 && selectedLayers[0] === editingImage.layerId ? editingImage : null
+
   // Mouse handlers - MUST be before early return
   const handleMouseDown = React.useCallback((layerId: string, e: React.MouseEvent, screenId: string) => {
-    if (spacePressed) return
+    // Shape tools draw on top of existing layers; the screen handles it
+    if (spacePressed || drawingShape) return
+    const screen = displayScreens.find(s => s.id === screenId)
+    const layer = screen?.layers.find(l => l.id === layerId)
+    // The background is where marquees start; it stays selectable from the Layers panel
+    if (!screen || !layer || layer.type === 'background') return
     e.stopPropagation()
+
+    // Dragging the layer being edited moves its picture instead
+    if (imageEdit?.screenId === screenId && imageEdit.layerId === layerId) {
+      gestureIdRef.current++
+      imageDragRef.current = {
+        layerId,
+        start: { x: e.clientX, y: e.clientY },
+        offset: { x: 0, y: 0 },
+        crop: getImageCrop(layer),
+        box: getImageCropBox(layer),
+        size: imageEdit.size,
+      }
+      return
+    }
+
+    // Clicking a grouped layer picks its whole group (double-click picks the layer)
+    const clicked = getSelectableLayerIds(screen, layerId)
+    const current = screenId === currentScreenId ? selectedLayers : []
     setCurrentScreenId(screenId)
-    setSelectedLayer(layerId)
+
+    if (e.shiftKey) {
+      const allSelected = clicked.every(id => current.includes(id))
+      setSelectedLayers(allSelected
+        ? current.filter(id => !clicked.includes(id))
+        : [...current, ...clicked.filter(id => !current.includes(id))])
+      return
+    }
+
+    // Grabbing any part of the selection drags all of it
+    const moving = clicked.every(id => current.includes(id)) ? current : clicked
+    setSelectedLayers(moving)
+    if (previewRTL) return
     setDragging(layerId)
     isDraggingRef.current = true
-    const screen = screens.find(s => s.id === screenId)
-    const layer = screen?.layers.find(l => l.id === layerId)
-    if (layer) {
-      setDragStart({ x: e.clientX - (layer.x * zoom), y: e.clientY - (layer.y * zoom) })
-      dragPositionRef.current = { x: layer.x, y: layer.y }
+    gestureIdRef.current++
+    const movingLayers = screen.layers.filter(l => moving.includes(l.id))
+    dragRef.current = {
+      start: { x: e.clientX, y: e.clientY },
+      origins: new Map(movingLayers.map(l => [l.id, { x: l.x, y: l.y }])),
+      offset: { x: 0, y: 0 },
+      bounds: getLayersBounds(movingLayers) ?? { x: layer.x, y: layer.y, width: layer.width, height: layer.height },
+      targets: getSnapTargets(screen, moving, previewSize),
+    }
+  }, [spacePressed, drawingShape, displayScreens, previewSize, previewRTL, currentScreenId, selectedLayers, imageEdit])
+
+  const handleRotateMouseDown = React.useCallback((layer: Layer, e: React.MouseEvent<HTMLElement>) => {
+    if (spacePressed || e.button !== 0) return
+    e.stopPropagation()
+    // The layer box's bounding rect shares its center, rotated or not
+    const box = e.currentTarget.parentElement?.getBoundingClientRect()
+    if (!box) return
+    gestureIdRef.current++
+    rotateRef.current = {
+      layerId: layer.id,
+      center: { x: box.left + box.width / 2, y: box.top + box.height / 2 },
+      angle: layer.rotation ?? 0,
+      moved: false,
     }
-  }, [spacePressed, screens, zoom])
+    setRotating(layer.id)
+  }, [spacePressed])
+
+  // Pull a new guide out of a ruler, or grab an existing guide line
+  const handleGuideMouseDown = React.useCallback((screenId: string, axis: "x" | "y", e: React.MouseEvent<HTMLElement>, guideId?: string) => {
+    if (spacePressed || e.button !== 0) return
+    e.stopPropagation()
+    const frame = e.currentTarget.closest('[data-screen-frame]')
+    if (!frame) return
+    const rect = frame.getBoundingClientRect()
+    gestureIdRef.current++
+    guideDragRef.current = {
+      screenId,
+      axis,
+      guideId: guideId ?? `guide_${Date.now()}`,
+      isNew: !guideId,
+      origin: { x: rect.left, y: rect.top },
+    }
+    setCurrentScreenId(screenId)
+  }, [spacePressed])
+
+  const updateGuide = React.useCallback((remove: boolean) => {
+    const guideDrag = guideDragRef.current
+    if (!guideDrag || guideDrag.position === undefined) return
+    const guide = { id: guideDrag.guideId, axis: guideDrag.axis, position: guideDrag.position }
+    updateScreens(prev => prev.map(screen => screen.id !== guideDrag.screenId
+      ? screen
+      : remove ? removeScreenGuide(screen, guide.id) : setScreenGuide(screen, guide)
+    ), { label: guideDrag.isNew ? 'Add guide' : 'Move guide', coalesceKey: `gesture:${gestureIdRef.current}` })
+  }, [updateScreens])
 
   const handleCanvasMouseDown = React.useCallback((e: React.MouseEvent) => {
     if (spacePressed) {
@@ -401,23 +912,187 @@ export function DesignCanvas({
     }
   }, [spacePressed, panOffset])
 
-  const updateLayers = React.useCallback((updater: (layers: Layer[]) => Layer[]) => {
-    setScreens(prev => prev.map(screen => 
-      screen.id === currentScreenId 
-        ? { ...screen, layers: updater(screen.layers) }
+  const updateScreen = React.useCallback((updater: (screen: Screen) => Screen, label: string, coalesceKey?: string) => {
+    updateScreens(prev => prev.map(screen => 
+      screen.id === currentScreenId ? updater(screen) : screen
+    ), { label, coalesceKey })
+  }, [currentScreenId, updateScreens])
+
+  const updateLayers = React.useCallback((updater: (layers: Layer[]) => Layer[], label: string, coalesceKey?: string) => {
+    updateScreen(screen => ({ ...screen, layers: updater(screen.layers) }), label, coalesceKey)
+  }, [updateScreen])
+
+  const groupSelection = React.useCallback(() => {
+    const screen = screens.find(s => s.id === currentScreenId)
+    if (!screen || selectedLayers.length < 2) return
+    const group = { id: `group_${Date.now()}`, name: nextGroupName(screen) }
+    updateScreen(current => groupLayers(current, selectedLayers, group), 'Group layers')
+  }, [screens, currentScreenId, selectedLayers, updateScreen])
+
+  const ungroupSelection = React.useCallback(() => {
+    const screen = screens.find(s => s.id === currentScreenId)
+    const groups = screen ? getSelectedGroups(screen, selectedLayers) : []
+    if (groups.length === 0) return
+    updateScreen(current => groups.reduce((next, group) => ungroupLayers(next, group.id), current), 'Ungroup layers')
+  }, [screens, currentScreenId, selectedLayers, updateScreen])
+
+  // Group shortcuts: ⌘G groups the selection, ⇧⌘G ungroups it
+  React.useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.key.toLowerCase() !== 'g') return
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return
+      e.preventDefault()
+      if (e.shiftKey) {
+        ungroupSelection()
+      } else {
+        groupSelection()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [groupSelection, ungroupSelection])
+
+  // Start a shape where the pointer went down, sized by the drag that follows
+  // or, with the other tools, a marquee selection
+  const handleScreenMouseDown = React.useCallback((screenId: string, e: React.MouseEvent<HTMLDivElement>) => {
+    if (spacePressed || e.button !== 0 || activeTool === "hand") return
+    e.stopPropagation()
+
+    const rect = e.currentTarget.getBoundingClientRect()
+    const start = { x: (e.clientX - rect.left) / zoom, y: (e.clientY - rect.top) / zoom }
+    // New layers are drawn in the design; a device preview only selects
+    const shape = previewDevice ? undefined : SHAPE_TOOLS[activeTool]
+    if (!shape) {
+      setCurrentScreenId(screenId)
+      setMarquee({ screenId, origin: { x: rect.left, y: rect.top }, start, end: start, additive: e.shiftKey })
+      return
+    }
+
+    const layer: Layer = {
+      id: Date.now().toString(),
+      type: "shape",
+      shape,
+      content: "",
+      x: start.x,
+      y: start.y,
+      width: 0,
+      height: 0,
+      ...SHAPE_DEFAULTS[shape],
+      ...(shape === 'line' && { lineDirection: 'down' }),
+    }
+
+    gestureIdRef.current++
+    drawingRef.current = { screenId, layerId: layer.id, shape, origin: { x: rect.left, y: rect.top }, start }
+    updateScreens(prev => prev.map(screen =>
+      screen.id === screenId ? { ...screen, layers: [...screen.layers, layer] } : screen
+    ), { label: `Add ${SHAPE_NAMES[shape].toLowerCase()}`, coalesceKey: `gesture:${gestureIdRef.current}` })
+    setCurrentScreenId(screenId)
+    setSelectedLayers([layer.id])
+  }, [activeTool, spacePressed, zoom, previewDevice, updateScreens])
+
+  const updateDrawnShape = React.useCallback((bounds: Partial<Layer>) => {
+    const drawing = drawingRef.current
+    if (!drawing) return
+    updateScreens(prev => prev.map(screen =>
+      screen.id === drawing.screenId
+        ? { ...screen, layers: screen.layers.map(l => l.id === drawing.layerId ? { ...l, ...bounds } : l) }
         : screen
-    ))
-  }, [currentScreenId])
+    ), { label: `Add ${SHAPE_NAMES[drawing.shape].toLowerCase()}`, coalesceKey: `gesture:${gestureIdRef.current}` })
+  }, [updateScreens])
+
+  const updateImageDrag = React.useCallback(() => {
+    const imageDrag = imageDragRef.current
+    if (!imageDrag) return
+    const { crop, box, size, offset } = imageDrag
+    updateLayers(prev => prev.map(layer =>
+      layer.id === imageDrag.layerId ? { ...layer, imageCrop: panImageCrop(crop, box, size, offset.x, offset.y) } : layer
+    ), 'Crop image', `gesture:${gestureIdRef.current}`)
+  }, [updateLayers])
+
+  // Mouse moves apply once per frame; the update reads the latest pointer state from refs
+  const requestFrame = React.useCallback((update: () => void) => {
+    if (rafRef.current !== null) return
+    frameUpdateRef.current = update
+    rafRef.current = requestAnimationFrame(() => {
+      rafRef.current = null
+      frameUpdateRef.current = null
+      update()
+    })
+  }, [])
+
+  // Applies the waiting frame right away, so a gesture's last move isn't lost
+  const flushFrame = React.useCallback(() => {
+    if (rafRef.current === null) return
+    cancelAnimationFrame(rafRef.current)
+    rafRef.current = null
+    const update = frameUpdateRef.current
+    frameUpdateRef.current = null
+    update?.()
+  }, [])
 
   const handleMouseMove = React.useCallback((e: React.MouseEvent) => {
+    const imageDrag = imageDragRef.current
+    if (imageDrag) {
+      imageDrag.offset = { x: (e.clientX - imageDrag.start.x) / zoom, y: (e.clientY - imageDrag.start.y) / zoom }
+      requestFrame(() => {
+        updateImageDrag()
+      })
+      return
+    }
+
+    const rotate = rotateRef.current
+    if (rotate) {
+      // 0° with the handle straight above the center; Shift steps by 15°
+      let angle = Math.atan2(e.clientY - rotate.center.y, e.clientX - rotate.center.x) * 180 / Math.PI + 90
+      if (e.shiftKey) angle = Math.round(angle / 15) * 15
+      rotate.angle = Math.round(angle > 180 ? angle - 360 : angle)
+      rotate.moved = true
+      requestFrame(() => {
+        updateLayers(prev => prev.map(layer =>
+          layer.id === rotate.layerId ? { ...layer, rotation: rotate.angle } : layer
+        ), 'Rotate layer', `gesture:${gestureIdRef.current}`)
+      })
+      return
+    }
+
+    const guideDrag = guideDragRef.current
+    if (guideDrag) {
+      guideDrag.position = Math.round(guideDrag.axis === "x"
+        ? (e.clientX - guideDrag.origin.x) / zoom
+        : (e.clientY - guideDrag.origin.y) / zoom)
+      requestFrame(() => {
+        updateGuide(false)
+      })
+      return
+    }
+
+    if (marquee) {
+      const end = { x: (e.clientX - marquee.origin.x) / zoom, y: (e.clientY - marquee.origin.y) / zoom }
+      setMarquee(prev => prev && { ...prev, end })
+      return
+    }
+
+    const drawing = drawingRef.current
+    if (drawing) {
+      const end = { x: (e.clientX - drawing.origin.x) / zoom, y: (e.clientY - drawing.origin.y) / zoom }
+      const bounds = getDrawnShapeBounds(drawing.shape, drawing.start, end, e.shiftKey)
+      if (drawing.bounds || Math.hypot(end.x - drawing.start.x, end.y - drawing.start.y) > 3) {
+        drawing.bounds = bounds
+      }
+
+      requestFrame(() => {
+        if (drawing.bounds) updateDrawnShape(drawing.bounds)
+      })
+      return
+    }
+
     if (isPanning && spacePressed) {
-      if (rafRef.current !== null) return
-      rafRef.current = requestAnimationFrame(() => {
+      requestFrame(() => {
         setPanOffset({
           x: e.clientX - panStart.x,
           y: e.clientY - panStart.y
         })
-        rafRef.current = null
       })
       return
     }
@@ -427,62 +1102,109 @@ export function DesignCanvas({
       const deltaY = (e.clientY - resizeStart.y) / zoom
       
       resizeDimensions.current = {
-        width: Math.max(50, resizeStart.width + deltaX),
-        height: Math.max(50, resizeStart.height + deltaY)
+        width: Math.max(resizeStart.minSize, resizeStart.width + deltaX),
+        height: Math.max(resizeStart.minSize, resizeStart.height + deltaY)
       }
       
-      if (rafRef.current !== null) return
-      rafRef.current = requestAnimationFrame(() => {
+      requestFrame(() => {
         if (resizing) {
           updateLayers(prev => prev.map(layer => 
             layer.id === resizing 
-              ? { 
-                  ...layer, 
+              ? placeLayer(layer, { 
                   width: resizeDimensions.current.width, 
                   height: resizeDimensions.current.height 
-                }
+                })
               : layer
-          ))
+          ), 'Resize layer', `gesture:${gestureIdRef.current}`)
         }
-        rafRef.current = null
       })
       return
     }
     
-    if (dragging && !spacePressed) {
-      dragPositionRef.current = {
-        x: (e.clientX - dragStart.x) / zoom,
-        y: (e.clientY - dragStart.y) / zoom
+    const drag = dragRef.current
+    if (dragging && drag && !spacePressed) {
+      drag.offset = {
+        x: (e.clientX - drag.start.x) / zoom,
+        y: (e.clientY - drag.start.y) / zoom
+      }
+      // Alt/Option drags freely
+      if (snapEnabled && !e.altKey) {
+        const snap = snapBounds(
+          { ...drag.bounds, x: drag.bounds.x + drag.offset.x, y: drag.bounds.y + drag.offset.y },
+          drag.targets,
+          SNAP_THRESHOLD / zoom
+        )
+        drag.offset = { x: drag.offset.x + snap.dx, y: drag.offset.y + snap.dy }
+        setSnapLines(snap.lines)
+      } else {
+        setSnapLines([])
       }
       
-      if (rafRef.current !== null) return
-      rafRef.current = requestAnimationFrame(() => {
+      requestFrame(() => {
         if (dragging) {
-          updateLayers(prev => prev.map(layer => 
-            layer.id === dragging 
-              ? { ...layer, x: dragPositionRef.current.x, y: dragPositionRef.current.y }
-              : layer
-          ))
+          updateLayers(prev => prev.map(layer => {
+            const origin = drag.origins.get(layer.id)
+            return origin ? placeLayer(layer, { x: origin.x + drag.offset.x, y: origin.y + drag.offset.y }) : layer
+          }), drag.origins.size > 1 ? 'Move layers' : 'Move layer', `gesture:${gestureIdRef.current}`)
         }
-        rafRef.current = null
       })
     }
-  }, [isPanning, spacePressed, dragging, resizing, panStart, dragStart, resizeStart, zoom, updateLayers])
+  }, [marquee, isPanning, spacePressed, dragging, resizing, panStart, resizeStart, zoom, snapEnabled, placeLayer, updateLayers, updateDrawnShape, updateGuide, updateImageDrag, requestFrame])
 
   const handleMouseUp = React.useCallback(() => {
-    if (rafRef.current !== null) {
-      cancelAnimationFrame(rafRef.current)
-      rafRef.current = null
+    flushFrame()
+    const drawing = drawingRef.current
+    if (drawing) {
+      // A click without a drag places a default-sized shape
+      updateDrawnShape(drawing.bounds ?? {
+        width: CLICK_SHAPE_SIZE.width,
+        height: drawing.shape === 'line' ? 0 : CLICK_SHAPE_SIZE.height,
+      })
+      drawingRef.current = null
+      setActiveTool("select")
+    }
+    if (marquee) {
+      const screen = displayScreens.find(s => s.id === marquee.screenId)
+      const bounds = {
+        x: Math.min(marquee.start.x, marquee.end.x),
+        y: Math.min(marquee.start.y, marquee.end.y),
+        width: Math.abs(marquee.end.x - marquee.start.x),
+        height: Math.abs(marquee.end.y - marquee.start.y),
+      }
+      // A plain click on empty canvas clears the selection
+      const hit = screen && (bounds.width > 2 || bounds.height > 2)
+        ? getLayersInBounds(screen.layers, bounds).flatMap(layer => getSelectableLayerIds(screen, layer.id))
+        : []
+      const base = marquee.additive ? selectedLayers : []
+      setSelectedLayers([...base, ...hit.filter((id, index) => !base.includes(id) && hit.indexOf(id) === index)])
+      setMarquee(null)
+    }
+    if (rotateRef.current) {
+      rotateRef.current = null
+      setRotating(null)
+    }
+    imageDragRef.current = null
+    const guideDrag = guideDragRef.current
+    if (guideDrag) {
+      // Dropping a guide back on the ruler deletes it
+      if (guideDrag.position !== undefined) {
+        updateGuide(!isGuideOnScreen({ axis: guideDrag.axis, position: guideDrag.position }))
+      }
+      guideDragRef.current = null
     }
     isDraggingRef.current = false
+    dragRef.current = null
+    setSnapLines([])
     setDragging(null)
     setResizing(null)
     setIsPanning(false)
-  }, [])
+  }, [flushFrame, updateDrawnShape, updateGuide, marquee, displayScreens, selectedLayers])
 
   // Get current screen and layers - AFTER all hooks
   const currentScreen = screens.find(s => s.id === currentScreenId)
   const layers = currentScreen?.layers || []
+  // Boxes as shown, on the previewed device's layout
+  const displayLayers = displayScreens.find(s => s.id === currentScreenId)?.layers || []
 
   const addScreen = () => {
     const newScreen: Screen = {
@@ -491,12 +1213,12 @@ export function DesignCanvas({
       backgroundColor: "#FFFFFF",
       layers: []
     }
-    setScreens([...screens, newScreen])
+    updateScreens(prev => [...prev, newScreen], { label: 'Add screen' })
     setCurrentScreenId(newScreen.id)
   }
 
-  const updateScreenBackground = (color: string, applyToAll: boolean = false) => {
-    setScreens(prev => prev.map(screen => {
+  const updateScreenBackground = (color: string, applyToAll: boolean = false, gradient?: LayerGradient) => {
+    updateScreens(prev => prev.map(screen => {
       if (applyToAll || screen.id === currentScreenId) {
         // Update both screen backgroundColor AND the background layer
         return {
@@ -504,19 +1226,27 @@ export function DesignCanvas({
           backgroundColor: color,
           layers: screen.layers.map(layer => 
             layer.type === 'background' 
-              ? { ...layer, backgroundColor: color }
+              ? { ...layer, backgroundColor: color, backgroundGradient: gradient }
               : layer
           )
         }
       }
       return screen
-    }))
+    }), {
+      label: applyToAll ? 'Change all backgrounds' : 'Change background',
+      coalesceKey: `background:${applyToAll ? 'all' : currentScreenId}`
+    })
   }
 
   const applyBackgroundToAllScreens = (color: string) => {
     updateScreenBackground(color, true)
   }
 
+  // Palette gradients run top to bottom; the screen color is the top one
+  const updateScreenGradient = ({ colors }: PaletteGradient, applyToAll: boolean = false) => {
+    updateScreenBackground(colors[0], applyToAll, { type: 'linear', colors, angle: 180 })
+  }
+
   const addTextLayer = () => {
     const newLayer: Layer = {
       id: Date.now().toString(),
@@ -534,193 +1264,322 @@ export function DesignCanvas({
       underline: false,
       align: "left"
     }
-    updateLayers(prev => [...prev, newLayer])
-    setSelectedLayer(newLayer.id)
+    updateLayers(prev => [...prev, newLayer], 'Add text')
+    setSelectedLayers([newLayer.id])
   }
 
   const deleteLayer = (layerId: string) => {
-    updateLayers(prev => prev.filter(l => l.id !== layerId))
-    if (selectedLayer === layerId) {
-      setSelectedLayer(null)
-    }
+    updateScreen(screen => pruneEmptyGroups({ ...screen, layers: screen.layers.filter(l => l.id !== layerId) }), 'Delete layer')
+    setSelectedLayers(prev => prev.filter(id => id !== layerId))
+  }
+
+  const deleteGroup = (groupId: string) => {
+    if (!currentScreen) return
+    const ids = getGroupLayerIds(currentScreen, groupId)
+    updateScreen(screen => pruneEmptyGroups({ ...screen, layers: screen.layers.filter(l => !ids.includes(l.id)) }), 'Delete group')
+    setSelectedLayers(prev => prev.filter(id => !ids.includes(id)))
   }
 
   const updateLayerContent = (layerId: string, content: string) => {
+    // Previewing another language edits its translation
+    if (previewLocale) {
+      updateLayers(prev => prev.map(layer =>
+        layer.id === layerId ? setLayerTranslation(layer, previewLocale, content) : layer
+      ), `Edit ${getLocale(previewLocale)?.name ?? previewLocale} text`, `content:${layerId}:${previewLocale}`)
+      return
+    }
     updateLayers(prev => prev.map(layer => 
-      layer.id === layerId ? { ...layer, content } : layer
-    ))
+      layer.id === layerId ? { ...layer, ...replaceTextContent(layer, content) } : layer
+    ), 'Edit text', `content:${layerId}`)
+  }
+
+  const styleSelectedText = (layer: Layer, style: TextSpanStyle | null) => {
+    if (!textSelection || textSelection.layerId !== layer.id) return
+    const { start, end } = textSelection
+    // Same rule as updateLayerStyle: toggles get their own entry, color drags coalesce
+    const isToggle = !style || Object.values(style).every(v => typeof v === 'boolean')
+    updateLayers(prev => prev.map(l =>
+      l.id === layer.id ? { ...l, spans: styleTextRange(l, start, end, style) } : l
+    ), style ? 'Style selected text' : 'Clear text styling', isToggle ? undefined : `spans:${layer.id}:${Object.keys(style).join(',')}`)
   }
 
   const updateLayerStyle = (layerId: string, style: Partial<Layer>) => {
+    // Toggles get their own entry; value edits (inputs, sliders) coalesce
+    const isToggle = Object.values(style).every(v => typeof v === 'boolean')
     updateLayers(prev => prev.map(layer => 
       layer.id === layerId ? { ...layer, ...style } : layer
-    ))
+    ), describeStyleChange(style), isToggle ? undefined : `style:${layerId}:${Object.keys(style).join(',')}`)
   }
 
-  const selectedLayerData = layers.find(l => l.id === selectedLayer)
+  // Position and size inputs edit the previewed device's override, like dragging does
+  const updateLayerBox = (layerId: string, box: LayerOverride) => {
+    if (!previewDevice) {
+      updateLayerStyle(layerId, box)
+      return
+    }
+    updateLayers(prev => prev.map(layer =>
+      layer.id === layerId ? setLayerOverride(layer, previewDevice, box) : layer
+    ), `Adjust layer for ${previewDevice}`, `override:${layerId}:${Object.keys(box).join(',')}`)
+  }
 
-  // Export screenshot as PNG
-  const exportScreenshotAsPNG = async (screen: Screen) => {
-    setIsExporting(true)
-    try {
-      // Create a temporary canvas element
-      const canvas = document.createElement('canvas')
-      const ctx = canvas.getContext('2d')
-      if (!ctx) {
-        throw new Error('Failed to get canvas context')
-      }
+  const resetLayerOverride = (layerId: string) => {
+    if (!previewDevice) return
+    updateLayers(prev => prev.map(layer =>
+      layer.id === layerId ? clearLayerOverride(layer, previewDevice) : layer
+    ), `Reset layout for ${previewDevice}`)
+  }
 
-      // Set canvas dimensions (iPhone X size)
-      canvas.width = 375
-      canvas.height = 812
-
-      // Fill background
-      ctx.fillStyle = screen.backgroundColor
-      ctx.fillRect(0, 0, canvas.width, canvas.height)
-
-      // Render each layer
-      for (const layer of screen.layers) {
-        if (layer.type === 'text') {
-          // Render text layer
-          ctx.save()
-          ctx.font = `${layer.italic ? 'italic ' : ''}${layer.bold ? 'bold ' : ''}${layer.fontSize || 20}px ${layer.fontFamily || 'sans-serif'}`
-          ctx.fillStyle = layer.color || '#000000'
-          ctx.textAlign = (layer.align || 'left') as CanvasTextAlign
-          
-          const x = layer.align === 'center' ? layer.x + layer.width / 2 : 
-                    layer.align === 'right' ? layer.x + layer.width : 
-                    layer.x + 8
-          const y = layer.y + (layer.fontSize || 20)
-          
-          ctx.fillText(layer.content, x, y)
-          
-          if (layer.underline) {
-            const metrics = ctx.measureText(layer.content)
-            ctx.strokeStyle = layer.color || '#000000'
-            ctx.lineWidth = 1
-            ctx.beginPath()
-            ctx.moveTo(x, y + 2)
-            ctx.lineTo(x + metrics.width, y + 2)
-            ctx.stroke()
-          }
-          ctx.restore()
-        } else if (layer.type === 'image' || layer.type === 'mockup') {
-          // Render image layer
-          await new Promise<void>((resolve, reject) => {
-            const img = new Image()
-            img.crossOrigin = 'anonymous'
-            img.onload = () => {
-              ctx.drawImage(img, layer.x, layer.y, layer.width, layer.height)
-              resolve()
-            }
-            img.onerror = () => {
-              console.warn('Failed to load image:', layer.content)
-              resolve() // Continue even if image fails
-            }
-            img.src = layer.content
-          })
-        } else if (layer.type === 'decoration') {
-          // Render decoration layer
-          ctx.fillStyle = layer.backgroundColor || 'rgba(255,255,255,0.1)'
-          ctx.fillRect(layer.x, layer.y, layer.width, layer.height)
-        }
-      }
+  const updateLayerConstraints = (layer: Layer, constraints: LayerConstraints) => {
+    updateLayerStyle(layer.id, { constraints: { ...getLayerConstraints(layer), ...constraints } })
+  }
 
-      // Convert canvas to blob
-      canvas.toBlob((blob) => {
-        if (blob) {
-          const url = URL.createObjectURL(blob)
-          const a = document.createElement('a')
-          a.href = url
-          a.download = `${screen.name.replace(/\s+/g, '_')}_${Date.now()}.png`
-          document.body.appendChild(a)
-          a.click()
-          document.body.removeChild(a)
-          URL.revokeObjectURL(url)
-        }
-        setIsExporting(false)
-      }, 'image/png')
+  const setDeviceFrame = (layer: Layer, deviceFrame: DeviceFrameId) => {
+    const { x, y, width, height } = fitLayerToFrame(layer, deviceFrame, 'area')
+    const variants = getDeviceFrame(deviceFrame).variants
+    updateLayerStyle(layer.id, {
+      x, y, width, height,
+      deviceFrame,
+      // Every device comes in black; other colors only carry over where they exist
+      ...(variants.length > 0 && !variants.includes(layer.mockupVariant ?? 'black') && { mockupVariant: 'black' as const }),
+    })
+  }
+
+  // Translate every screen's copy and preview the result; translating a
+  // language again replaces its copy
+  const translateTo = async (locale: string) => {
+    setTranslatingLocale(locale)
+    try {
+      const translations = await requestTranslations(screens, locale)
+      updateScreens(prev => applyTranslations(prev, locale, translations), { label: `Translate to ${getLocale(locale)?.name ?? locale}` })
+      setPreviewLocale(locale)
     } catch (error) {
-      console.error('Export failed:', error)
-      setIsExporting(false)
-      alert('Failed to export screenshot. Please try again.')
+      console.error('Translation failed:', error)
+      alert(`Couldn't translate the screens: ${error instanceof Error ? error.message : error}`)
+    } finally {
+      setTranslatingLocale(null)
     }
   }
 
-  // Export all screenshots
-  const exportAllScreenshots = async () => {
-    for (const screen of screens) {
-      await exportScreenshotAsPNG(screen)
-      // Add a small delay between exports
-      await new Promise(resolve => setTimeout(resolve, 500))
-    }
+  const deleteLocale = (locale: string) => {
+    updateScreens(prev => removeLocale(prev, locale), { label: `Remove ${getLocale(locale)?.name ?? locale}` })
+    setPreviewLocale(null)
   }
 
-  // Share screenshot (generate shareable link)
-  const shareScreenshot = async (screen: Screen) => {
-    try {
-      // Create a temporary canvas element
-      const canvas = document.createElement('canvas')
-      const ctx = canvas.getContext('2d')
-      if (!ctx) {
-        throw new Error('Failed to get canvas context')
-      }
+  const matchFrameToScreenshot = async (layer: Layer) => {
+    const size = await getImageSize(layer.content)
+    if (size) setDeviceFrame(layer, suggestDeviceFrame(size.width, size.height))
+  }
 
-      // Set canvas dimensions
-      canvas.width = 375
-      canvas.height = 812
-
-      // Fill background
-      ctx.fillStyle = screen.backgroundColor
-      ctx.fillRect(0, 0, canvas.width, canvas.height)
-
-      // Render each layer (same as export)
-      for (const layer of screen.layers) {
-        if (layer.type === 'text') {
-          ctx.save()
-          ctx.font = `${layer.italic ? 'italic ' : ''}${layer.bold ? 'bold ' : ''}${layer.fontSize || 20}px ${layer.fontFamily || 'sans-serif'}`
-          ctx.fillStyle = layer.color || '#000000'
-          ctx.textAlign = (layer.align || 'left') as CanvasTextAlign
-          
-          const x = layer.align === 'center' ? layer.x + layer.width / 2 : 
-                    layer.align === 'right' ? layer.x + layer.width : 
-                    layer.x + 8
-          const y = layer.y + (layer.fontSize || 20)
+  // Panning needs the picture's proportions, so edit mode starts once it has loaded
+  const startImageEdit = async (screenId: string, layer: Layer) => {
+    const size = layer.content ? await getImageSize(layer.content) : null
+    if (!size) return
+    setCurrentScreenId(screenId)
+    setSelectedLayers([layer.id])
+    setEditingImage({ screenId, layerId: layer.id, size })
+  }
+
+  const setImageZoom = (layer: Layer, zoom: number) => {
+    updateLayerStyle(layer.id, { imageCrop: zoomImageCrop(getImageCrop(layer), zoom) })
+  }
+
+  // Undo can remove selected layers; only count the ones still on the screen
+  const selectedIds = selectedLayers.filter(id => layers.some(l => l.id === id))
+  const selectedLayerData = selectedIds.length === 1 ? layers.find(l => l.id === selectedIds[0]) : undefined
+  // Styled spans belong to the base language
+  const selectedTextStyle = !previewLocale && selectedLayerData?.type === 'text' && textSelection?.layerId === selectedLayerData.id && textSelection.end > textSelection.start
+    ? getTextRangeStyle(selectedLayerData, textSelection.start, textSelection.end)
+    : null
+  const selectionUnits = currentScreen ? getSelectionUnits(currentScreen, selectedIds) : []
+  const selectedLayerBox = selectedLayerData && displayLayers.find(l => l.id === selectedLayerData.id)
+  const selectionBounds = selectedIds.length > 1 ? getLayersBounds(displayLayers.filter(l => selectedIds.includes(l.id))) : null
+  const selectedGroups = currentScreen ? getSelectedGroups(currentScreen, selectedIds) : []
+  const projectLocales = getProjectLocales(screens)
+  // A single item can only be lined up against the screen
+  const effectiveArrangeTarget: ArrangeTarget = selectionUnits.length < 2 ? "screen" : arrangeTarget
+
+  const alignSelection = (edge: AlignEdge) => {
+    updateScreen(screen => alignLayers(screen, selectedIds, edge, effectiveArrangeTarget), `Align ${edge}`)
+  }
+
+  const distributeSelection = (axis: DistributeAxis) => {
+    updateScreen(screen => distributeLayers(screen, selectedIds, axis, effectiveArrangeTarget), `Distribute ${axis}ly`)
+  }
+
+  // Template picker card; workspace templates can be exported or deleted
+  const renderTemplateCard = ({ template, screen: preview }: { template: LayoutTemplate; screen: Screen }) => {
+    const custom = customTemplates.find(t => t.id === template.id)
+    return (
+      <div key={template.id} className="group relative">
+        <button
+          onClick={() => {
+            applyTemplateToScreens(template.id)
+          }}
+          className={`w-full relative overflow-hidden bg-neutral-50 border transition-all ${
+            selectedTemplateId === template.id 
+              ? 'border-neutral-900' 
+              : 'border-neutral-200 hover:border-neutral-400'
+          }`}
+          title={template.description}
+        >
+          {/* Template Preview - the current screen rendered with this template */}
+          <div className="aspect-375/812 bg-neutral-100">
+            <TemplateThumbnail screen={preview} alt={template.name} />
+          </div>
           
-          ctx.fillText(layer.content, x, y)
+          {/* Template Name */}
+          <div className="px-3 py-2 border-t border-neutral-200 bg-white">
+            <p className="text-xs text-neutral-700 text-center truncate">{template.name}</p>
+          </div>
           
-          if (layer.underline) {
-            const metrics = ctx.measureText(layer.content)
-            ctx.strokeStyle = layer.color || '#000000'
-            ctx.lineWidth = 1
-            ctx.beginPath()
-            ctx.moveTo(x, y + 2)
-            ctx.lineTo(x + metrics.width, y + 2)
-            ctx.stroke()
-          }
-          ctx.restore()
-        } else if (layer.type === 'image' || layer.type === 'mockup') {
-          await new Promise<void>((resolve) => {
-            const img = new Image()
-            img.crossOrigin = 'anonymous'
-            img.onload = () => {
-              ctx.drawImage(img, layer.x, layer.y, layer.width, layer.height)
-              resolve()
-            }
-            img.onerror = () => {
-              console.warn('Failed to load image:', layer.content)
-              resolve()
-            }
-            img.src = layer.content
-          })
-        } else if (layer.type === 'decoration') {
-          ctx.fillStyle = layer.backgroundColor || 'rgba(255,255,255,0.1)'
-          ctx.fillRect(layer.x, layer.y, layer.width, layer.height)
-        }
+          {/* Selected Indicator */}
+          {selectedTemplateId === template.id && (
+            <div className="absolute top-2 right-2 w-5 h-5 bg-neutral-900 flex items-center justify-center">
+              <Check className="h-3 w-3 text-white" />
+            </div>
+          )}
+        </button>
+
+        {custom && (
+          <div className="absolute top-2 left-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            <button
+              onClick={() => exportCustomTemplates([custom])}
+              className="p-1 bg-white border border-neutral-200 hover:border-neutral-400"
+              title="Export template"
+            >
+              <Download className="h-3 w-3 text-neutral-600" />
+            </button>
+            <button
+              onClick={() => deleteCustomTemplate(custom.id)}
+              className="p-1 bg-white border border-neutral-200 hover:border-red-300"
+              title="Delete template"
+            >
+              <Trash2 className="h-3 w-3 text-neutral-600" />
+            </button>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  // Layers panel row; groups nest their children and can be collapsed
+  const renderLayerNode = (node: LayerTreeNode, depth: number): React.ReactNode => {
+    if (node.kind === 'group') {
+      const { group } = node
+      const ids = currentScreen ? getGroupLayerIds(currentScreen, group.id) : []
+      const isSelected = ids.length > 0 && ids.every(id => selectedIds.includes(id))
+      const isCollapsed = collapsedGroups.has(group.id)
+      return (
+        <div key={group.id}>
+          <div
+            onClick={() => setSelectedLayers(ids)}
+            className={`px-2 py-1.5 cursor-pointer flex items-center justify-between group transition-all duration-200 ${
+              isSelected ? 'bg-blue-500 text-white' : 'hover:bg-neutral-100 text-neutral-700'
+            }`}
+            style={{ paddingLeft: 8 + depth * 12 }}
+          >
+            <div className="flex items-center gap-2">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  toggleGroupCollapsed(group.id)
+                }}
+                className="-ml-1 p-0.5 hover:bg-black/10 rounded"
+              >
+                {isCollapsed ? <ChevronRight className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+              </button>
+              <Group className="h-3.5 w-3.5" />
+              <span className="text-xs truncate max-w-[120px]">{group.name}</span>
+            </div>
+            <div className="flex items-center">
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  updateScreen(screen => ungroupLayers(screen, group.id), 'Ungroup layers')
+                }}
+                className="opacity-0 group-hover:opacity-100 p-1 hover:bg-black/10 rounded transition-all"
+                title="Ungroup"
+              >
+                <Ungroup className="h-3 w-3" />
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  deleteGroup(group.id)
+                }}
+                className="opacity-0 group-hover:opacity-100 p-1 hover:bg-black/10 rounded transition-all"
+                title="Delete group"
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </div>
+          </div>
+          {!isCollapsed && node.children.map(child => renderLayerNode(child, depth + 1))}
+        </div>
+      )
+    }
+
+    const { layer } = node
+    return (
+      <div
+        key={layer.id}
+        onClick={(e) => setSelectedLayers(prev => e.shiftKey
+          ? prev.includes(layer.id) ? prev.filter(id => id !== layer.id) : [...prev, layer.id]
+          : [layer.id])}
+        className={`px-2 py-1.5 cursor-pointer flex items-center justify-between group transition-all duration-200 ${
+          selectedIds.includes(layer.id)
+            ? 'bg-blue-500 text-white' 
+            : 'hover:bg-neutral-100 text-neutral-700'
+        }`}
+        style={{ paddingLeft: 8 + depth * 12 }}
+      >
+        <div className="flex items-center gap-2">
+          {layer.type === "text" ? (
+            <Type className="h-3.5 w-3.5" />
+          ) : layer.type === "mockup" ? (
+            <ImageIcon className="h-3.5 w-3.5" />
+          ) : layer.shape === "ellipse" ? (
+            <Circle className="h-3.5 w-3.5" />
+          ) : layer.shape === "line" ? (
+            <Minus className="h-3.5 w-3.5" />
+          ) : (
+            <Square className="h-3.5 w-3.5" />
+          )}
+          <span className="text-xs truncate max-w-[140px]">
+            {layer.type === "mockup" ? (layer.deviceFrame === "none" ? "Screenshot" : `${getDeviceFrame(layer.deviceFrame).name} Mockup`) : 
+             layer.type === "shape" && layer.shape ? SHAPE_NAMES[layer.shape] :
+             layer.content.length > 18 ? layer.content.slice(0, 18) + '...' : layer.content}
+          </span>
+        </div>
+        <button
+          onClick={(e) => {
+            e.stopPropagation()
+            deleteLayer(layer.id)
+          }}
+          className="opacity-0 group-hover:opacity-100 p-1 hover:bg-black/10 rounded transition-all"
+        >
+          <Trash2 className="h-3 w-3" />
+        </button>
+      </div>
+    )
+  }
+
+  const toggleGroupCollapsed = (groupId: string) => {
+    setCollapsedGroups(prev => {
+      const next = new Set(prev)
+      if (next.has(groupId)) {
+        next.delete(groupId)
+      } else {
+        next.add(groupId)
       }
+      return next
+    })
+  }
 
-      // Convert canvas to data URL
-      const dataUrl = canvas.toDataURL('image/png')
+  // Share screenshot (generate shareable link)
+  const shareScreenshot = async (screen: Screen) => {
+    try {
+      const dataUrl = await renderScreenToDataURL(screen)
       
       // In a real app, you would upload this to a server and get a shareable link
       // For now, we'll create a shareable data URL
@@ -904,6 +1763,120 @@ export function DesignCanvas({
         >
           <ZoomIn className="h-4 w-4" />
         </button>
+
+        <div className="w-px h-6 bg-neutral-200 mx-1" />
+
+        <button
+          onClick={() => setSnapEnabled(!snapEnabled)}
+          className={`p-2 transition-all duration-200 ${
+            snapEnabled 
+              ? "bg-neutral-100 text-neutral-900" 
+              : "text-neutral-500 hover:bg-neutral-50 hover:text-neutral-900"
+          }`}
+          title="Snap to layers and guides (hold Alt to drag freely)"
+        >
+          <Magnet className="h-4 w-4" />
+        </button>
+
+        <button
+          onClick={() => setShowRulers(!showRulers)}
+          className={`p-2 transition-all duration-200 ${
+            showRulers 
+              ? "bg-neutral-100 text-neutral-900" 
+              : "text-neutral-500 hover:bg-neutral-50 hover:text-neutral-900"
+          }`}
+          title="Rulers & guides"
+        >
+          <Ruler className="h-4 w-4" />
+        </button>
+
+        <button
+          onClick={() => setShowSafeArea(!showSafeArea)}
+          className={`p-2 transition-all duration-200 ${
+            showSafeArea 
+              ? "bg-neutral-100 text-neutral-900" 
+              : "text-neutral-500 hover:bg-neutral-50 hover:text-neutral-900"
+          }`}
+          title="Device safe area"
+        >
+          <Smartphone className="h-4 w-4" />
+        </button>
+
+        <button
+          onClick={() => setShowSearchCrop(!showSearchCrop)}
+          className={`p-2 transition-all duration-200 ${
+            showSearchCrop 
+              ? "bg-neutral-100 text-neutral-900" 
+              : "text-neutral-500 hover:bg-neutral-50 hover:text-neutral-900"
+          }`}
+          title="App Store search crop"
+        >
+          <Crop className="h-4 w-4" />
+        </button>
+
+        <div className="w-px h-6 bg-neutral-200 mx-1" />
+
+        {/* Device preview - lays the screens out for an export size */}
+        <select
+          value={previewDevice ?? ""}
+          onChange={(e) => setPreviewDevice(e.target.value || null)}
+          className="px-2 py-1.5 text-xs text-neutral-700 border border-neutral-200 bg-white focus:outline-none focus:ring-1 focus:ring-neutral-900"
+          title="Preview and adjust the layout for a device size"
+        >
+          <option value="">Design ({DESIGN_SIZE.width}×{DESIGN_SIZE.height})</option>
+          {EXPORT_SIZES.map(size => (
+            <option key={size.name} value={size.name}>{size.name}</option>
+          ))}
+        </select>
+
+        {/* Language - preview translated copy, or translate into another store language */}
+        <div className="flex items-center gap-1 ml-1">
+          <Languages className={`h-4 w-4 ${translatingLocale ? 'text-neutral-400 animate-pulse' : 'text-neutral-500'}`} />
+          <select
+            value={translatingLocale ?? previewLocale ?? ""}
+            onChange={(e) => {
+              const locale = e.target.value || null
+              if (!locale || projectLocales.includes(locale)) {
+                setPreviewLocale(locale)
+              } else {
+                translateTo(locale)
+              }
+            }}
+            disabled={!!translatingLocale || screens.length === 0}
+            className="px-2 py-1.5 text-xs text-neutral-700 border border-neutral-200 bg-white focus:outline-none focus:ring-1 focus:ring-neutral-900 disabled:opacity-50"
+            title="Preview the screens in another language"
+          >
+            <option value="">{getLocale(BASE_LOCALE)?.name} (base)</option>
+            {projectLocales.map(code => (
+              <option key={code} value={code}>{getLocale(code)?.name ?? code}</option>
+            ))}
+            <optgroup label="Translate to…">
+              {LOCALES.filter(locale => locale.code !== BASE_LOCALE && !projectLocales.includes(locale.code)).map(locale => (
+                <option key={locale.code} value={locale.code}>{locale.name}</option>
+              ))}
+            </optgroup>
+          </select>
+          {previewLocale && (
+            <>
+              <button
+                onClick={() => translateTo(previewLocale)}
+                disabled={!!translatingLocale}
+                className="p-2 text-neutral-500 hover:bg-neutral-50 hover:text-neutral-900 transition-all duration-200 disabled:opacity-50"
+                title="Translate again (replaces this language's copy)"
+              >
+                <Sparkles className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => deleteLocale(previewLocale)}
+                disabled={!!translatingLocale}
+                className="p-2 text-neutral-500 hover:bg-neutral-50 hover:text-neutral-900 transition-all duration-200 disabled:opacity-50"
+                title="Remove this language"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
       {/* Canvas Header - Clean Professional */}
@@ -922,6 +1895,23 @@ export function DesignCanvas({
         </div>
         </div>
         <div className="flex items-center gap-2">
+          <button
+            onClick={undo}
+            className="p-1.5 hover:bg-neutral-100 rounded transition-all duration-200 disabled:opacity-40 disabled:hover:bg-transparent"
+            title="Undo (⌘Z)"
+            disabled={!canUndo}
+          >
+            <Undo2 className="h-4 w-4 text-neutral-600" />
+          </button>
+          <button
+            onClick={redo}
+            className="p-1.5 hover:bg-neutral-100 rounded transition-all duration-200 disabled:opacity-40 disabled:hover:bg-transparent"
+            title="Redo (⇧⌘Z)"
+            disabled={!canRedo}
+          >
+            <Redo2 className="h-4 w-4 text-neutral-600" />
+          </button>
+          <div className="h-5 w-px bg-neutral-200" />
           <button 
             onClick={() => setShowTemplateSelector(true)}
             className="p-1.5 hover:bg-neutral-100 rounded transition-all duration-200"
@@ -945,21 +1935,28 @@ export function DesignCanvas({
             <span className="hidden sm:inline">Video</span>
           </button>
           <button 
-            onClick={() => currentScreen && exportScreenshotAsPNG(currentScreen)}
+            onClick={() => currentScreen && shareScreenshot(currentScreen)}
+            className="p-1.5 hover:bg-neutral-100 rounded transition-all duration-200"
+            title="Share"
+            disabled={!currentScreen}
+          >
+            <Share2 className="h-4 w-4 text-neutral-600" />
+          </button>
+          <button 
+            onClick={() => setShowUploadDialog(true)}
+            className="p-1.5 hover:bg-neutral-100 rounded transition-all duration-200"
+            title="Upload to App Store Connect or Google Play"
+            disabled={screens.length === 0}
+          >
+            <CloudUpload className="h-4 w-4 text-neutral-600" />
+          </button>
+          <button 
+            onClick={() => setShowExportDialog(true)}
             className="px-4 py-1.5 text-xs font-medium bg-neutral-900 text-white hover:bg-neutral-800 rounded transition-all duration-200 flex items-center gap-2"
-            disabled={!currentScreen || isExporting}
+            disabled={screens.length === 0}
           >
-            {isExporting ? (
-              <>
-                <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent"></div>
-                <span className="hidden sm:inline">Exporting...</span>
-              </>
-            ) : (
-              <>
-                <Download className="h-4 w-4" />
-                <span className="hidden sm:inline">Export</span>
-              </>
-            )}
+            <Download className="h-4 w-4" />
+            <span className="hidden sm:inline">Export</span>
           </button>
         </div>
       </div>
@@ -986,135 +1983,265 @@ export function DesignCanvas({
               willChange: isPanning ? 'transform' : 'auto',
             }}
           >
-            {screens.map((screen) => (
-              <div 
-                key={screen.id}
-                className={`relative overflow-hidden duration-200 ${
-                  currentScreenId === screen.id ? 'ring-2 ring-blue-500' : 'ring-1 ring-neutral-300'
-                }`}
-                style={{ 
-                  width: `${375 * zoom}px`, 
-                  height: `${812 * zoom}px`,
-                  backgroundColor: screen.backgroundColor,
-                  flexShrink: 0,
-                  minWidth: '200px',
-                  transform: 'translateZ(0)',
-                  borderRadius: '2px'
-                }}
-                onClick={() => setCurrentScreenId(screen.id)}
-              >
-                {/* Screen Label */}
-                <p className=" absolute -top-10 left-0 text-xs font-medium text-neutral-900">{screen.name}</p>
-
-                {/* Draggable Layers - Minimalist */}
-                {screen.layers.map(layer => {
-                  const isSelected = selectedLayer === layer.id && currentScreenId === screen.id
-                  const isDraggingThis = dragging === layer.id
+            {displayScreens.map((screen) => (
+              <div key={screen.id} className="relative shrink-0" data-screen-frame>
+                {/* Guides belong to the design, so device previews can't add them */}
+                {showRulers && (
+                  <>
+                    <CanvasRuler axis="x" length={previewSize.width} zoom={zoom} onMouseDown={previewDevice ? undefined : (e) => handleGuideMouseDown(screen.id, "y", e)} />
+                    <CanvasRuler axis="y" length={previewSize.height} zoom={zoom} onMouseDown={previewDevice ? undefined : (e) => handleGuideMouseDown(screen.id, "x", e)} />
+                  </>
+                )}
+                <div 
+                  className={`relative overflow-hidden duration-200 ${
+                    currentScreenId === screen.id ? 'ring-2 ring-blue-500' : 'ring-1 ring-neutral-300'
+                  } ${drawingShape && !spacePressed ? 'cursor-crosshair' : ''}`}
+                  style={{ 
+                    width: `${previewSize.width * zoom}px`, 
+                    height: `${previewSize.height * zoom}px`,
+                    backgroundColor: screen.backgroundColor,
+                    flexShrink: 0,
+                    minWidth: '200px',
+                    transform: 'translateZ(0)',
+                    borderRadius: '2px'
+                  }}
+                  onClick={() => setCurrentScreenId(screen.id)}
+                  onMouseDown={(e) => handleScreenMouseDown(screen.id, e)}
+                >
+                  {/* Screen Label */}
+                  <p className=" absolute -top-10 left-0 text-xs font-medium text-neutral-900">{screen.name}</p>
+
+                  {/* Draggable Layers - Minimalist */}
+                  {screen.layers.map(layer => {
+                    const isSelected = selectedIds.includes(layer.id) && currentScreenId === screen.id
+                    const isDraggingThis = (dragging !== null && isSelected) || rotating === layer.id
+                    const isEditingImage = isSelected && imageEdit?.layerId === layer.id
                   
-                  return (
-                    <div
-                      key={layer.id}
-                      className={`absolute ${!spacePressed ? 'cursor-move' : ''} ${
-                        isDraggingThis ? '' : 'transition-all duration-150'
-                      } ${
-                        isSelected
-                          ? 'ring-2 ring-neutral-600' 
-                          : 'hover:ring-1 hover:ring-neutral-400'
-                      }`}
-                      style={{
-                        transform: `translate(${layer.x * zoom}px, ${layer.y * zoom}px)`,
-                        width: layer.width * zoom,
-                        height: layer.height * zoom,
-                        willChange: isDraggingThis ? 'transform' : 'auto',
-                      }}
-                      onMouseDown={(e) => handleMouseDown(layer.id, e, screen.id)}
-                    >
-                      {/* Text Layer */}
-                      {layer.type === "text" && (
+                    return (
+                      <div
+                        key={layer.id}
+                        className={`absolute ${!spacePressed && !drawingShape ? (isEditingImage ? 'cursor-grab' : 'cursor-move') : ''} ${
+                          isDraggingThis ? '' : 'transition-all duration-150'
+                        } ${
+                          isEditingImage
+                            ? 'ring-2 ring-blue-500'
+                            : isSelected
+                            ? 'ring-2 ring-neutral-600' 
+                            : 'hover:ring-1 hover:ring-neutral-400'
+                        }`}
+                        style={{
+                          transform: `translate(${layer.x * zoom}px, ${layer.y * zoom}px)${layer.rotation ? ` rotate(${layer.rotation}deg)` : ''}`,
+                          width: layer.width * zoom,
+                          height: layer.height * zoom,
+                          // Straight lines have no area, keep them clickable
+                          ...(layer.type === "shape" && layer.shape === "line" && { minWidth: 8, minHeight: 8 }),
+                          opacity: layer.opacity,
+                          mixBlendMode: layer.blendMode,
+                          willChange: isDraggingThis ? 'transform' : 'auto',
+                        }}
+                        onMouseDown={(e) => handleMouseDown(layer.id, e, screen.id)}
+                        onDoubleClick={() => {
+                          if (layer.type === "background") return
+                          setSelectedLayers([layer.id])
+                          // Double-clicking a picture goes into image edit mode
+                          if (layer.type === "image" || layer.type === "mockup") startImageEdit(screen.id, layer)
+                        }}
+                        onWheel={isEditingImage ? (e) => setImageZoom(layer, getImageCrop(layer).zoom * Math.exp(-e.deltaY / 500)) : undefined}
+                      >
+                        {/* Layer content; shadow and corner radius apply here so handles stay crisp */}
                         <div
-                          className="w-full h-full flex items-center px-2"
+                          className="absolute inset-0"
                           style={{
-                            fontSize: (layer.fontSize || 20) * zoom,
-                            fontFamily: layer.fontFamily || 'Lato, -apple-system, sans-serif',
-                            color: layer.color,
-                            fontWeight: layer.bold ? 700 : 400,
-                            fontStyle: layer.italic ? 'italic' : 'normal',
-                            textDecoration: layer.underline ? 'underline' : 'none',
-                            textAlign: layer.align || 'left',
-                            justifyContent: 
-                              layer.align === 'center' ? 'center' : 
-                              layer.align === 'right' ? 'flex-end' : 'flex-start',
-                            lineHeight: 1.2
+                            filter: layer.shadow ? getShadowCss(layer.shadow, zoom) : undefined,
+                            ...(hasRoundedBox(layer) && { borderRadius: (layer.cornerRadius ?? 0) * zoom, overflow: 'hidden' }),
                           }}
                         >
-                          {layer.content}
-                        </div>
-                      )}
+                          {/* Text Layer */}
+                          {layer.type === "text" && (
+                            <TextLayerContent layer={layer} zoom={zoom} measure={measureText} />
+                          )}
                       
-                      {/* Simple Image Layer */}
-                      {layer.type === "image" && (
-                        <img
-                          src={layer.content}
-                          alt="Layer image"
-                          className="w-full h-full object-contain"
-                          draggable={false}
-                        />
-                      )}
+                          {/* Simple Image Layer */}
+                          {layer.type === "image" && (
+                            <div className="w-full h-full overflow-hidden">
+                              <img
+                                src={layer.content}
+                                alt="Layer image"
+                                className="w-full h-full"
+                                style={getImageCropStyle(getImageCrop(layer))}
+                                draggable={false}
+                              />
+                            </div>
+                          )}
                       
-                      {/* iPhone Mockup Frame with Screenshot Inside */}
-                      {layer.type === "mockup" && (
-                        <>
-                          <IphoneMockup 
-                            src={layer.content}
-                            variant={layer.mockupVariant || 'black'}
-                            className="w-full h-full"
-                          />
-                          {/* Resize Handle */}
-                          {isSelected && (
+                          {/* iPhone Mockup Frame with Screenshot Inside */}
+                          {layer.type === "mockup" && (
+                            <>
+                              <DeviceMockup 
+                                src={layer.content}
+                                frame={layer.deviceFrame}
+                                variant={layer.mockupVariant || 'black'}
+                                crop={layer.imageCrop}
+                                className="w-full h-full"
+                              />
+                            </>
+                          )}
+                      
+                          {/* Background Layer */}
+                          {layer.type === "background" && (
                             <div
-                              className="absolute bottom-0 right-0 w-4 h-4 bg-neutral-900 cursor-nwse-resize hover:scale-110 transition-transform"
-                              onMouseDown={(e) => {
-                                e.stopPropagation()
-                                setResizing(layer.id)
-                                setResizeStart({
-                                  x: e.clientX,
-                                  y: e.clientY,
-                                  width: layer.width,
-                                  height: layer.height
-                                })
-                                resizeDimensions.current = { width: layer.width, height: layer.height }
+                              className="w-full h-full pointer-events-none"
+                              style={{
+                                background: getLayerFillCss(layer, '#FFFFFF'),
                               }}
-                            >
-                              <div className="absolute inset-0 flex items-center justify-center">
-                                <Move className="h-2.5 w-2.5 text-white rotate-45" />
-                              </div>
-                            </div>
+                            />
                           )}
-                        </>
-                      )}
-                      
-                      {/* Background Layer */}
-                      {layer.type === "background" && (
-                        <div
-                          className="w-full h-full pointer-events-none"
-                          style={{
-                            backgroundColor: layer.backgroundColor || '#FFFFFF',
-                          }}
-                        />
-                      )}
                       
-                      {/* Decoration Layer (colored boxes, shapes) */}
-                      {layer.type === "decoration" && (
-                        <div
-                          className="w-full h-full"
-                          style={{
-                            backgroundColor: layer.backgroundColor || 'rgba(255,255,255,0.1)',
-                          }}
-                        />
-                      )}
+                          {/* Decoration Layer (colored boxes, shapes) */}
+                          {layer.type === "decoration" && (
+                            <div
+                              className="w-full h-full"
+                              style={{
+                                background: getLayerFillCss(layer, 'rgba(255,255,255,0.1)'),
+                              }}
+                            />
+                          )}
+
+                          {/* Shape Layer - same path the exporter rasterizes */}
+                          {layer.type === "shape" && (
+                            <svg width="100%" height="100%" overflow="visible" className="absolute inset-0 pointer-events-none">
+                              <path
+                                d={getShapePath(layer)}
+                                transform={`scale(${zoom})`}
+                                fill={layer.shape !== "line" && layer.fill ? layer.fill : "none"}
+                                stroke={layer.stroke && (layer.strokeWidth ?? 0) > 0 ? layer.stroke : "none"}
+                                strokeWidth={layer.strokeWidth ?? 0}
+                                strokeLinecap="round"
+                                strokeLinejoin="miter"
+                              />
+                            </svg>
+                          )}
+                        </div>
+
+                        {/* Rotate Handle */}
+                        {isSelected && selectedIds.length === 1 && !isEditingImage && !previewRTL && layer.type !== "background" && (
+                          <div
+                            className="absolute left-1/2 -top-7 -translate-x-1/2 w-3 h-3 rounded-full bg-white border-2 border-neutral-900 cursor-grab hover:scale-110 transition-transform"
+                            onMouseDown={(e) => handleRotateMouseDown(layer, e)}
+                            title="Rotate (Shift snaps to 15°)"
+                          />
+                        )}
+
+                        {/* Resize Handle */}
+                        {isSelected && selectedIds.length === 1 && !isEditingImage && !previewRTL && (layer.type === "mockup" || layer.type === "shape") && (
+                          <div
+                            className="absolute bottom-0 right-0 w-4 h-4 bg-neutral-900 cursor-nwse-resize hover:scale-110 transition-transform"
+                            onMouseDown={(e) => {
+                              e.stopPropagation()
+                              gestureIdRef.current++
+                              setResizing(layer.id)
+                              setResizeStart({
+                                x: e.clientX,
+                                y: e.clientY,
+                                width: layer.width,
+                                height: layer.height,
+                                minSize: layer.type === "shape" ? 0 : 50
+                              })
+                              resizeDimensions.current = { width: layer.width, height: layer.height }
+                            }}
+                          >
+                            <div className="absolute inset-0 flex items-center justify-center">
+                              <Move className="h-2.5 w-2.5 text-white rotate-45" />
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    )
+                  })}
+
+                  {/* Multi-selection outline */}
+                  {selectionBounds && currentScreenId === screen.id && (
+                    <div
+                      className="absolute border border-dashed border-blue-500 pointer-events-none"
+                      style={{
+                        left: selectionBounds.x * zoom,
+                        top: selectionBounds.y * zoom,
+                        width: selectionBounds.width * zoom,
+                        height: selectionBounds.height * zoom,
+                      }}
+                    />
+                  )}
+
+                  {/* Marquee */}
+                  {marquee?.screenId === screen.id && (
+                    <div
+                      className="absolute border border-blue-500 bg-blue-500/10 pointer-events-none"
+                      style={{
+                        left: Math.min(marquee.start.x, marquee.end.x) * zoom,
+                        top: Math.min(marquee.start.y, marquee.end.y) * zoom,
+                        width: Math.abs(marquee.end.x - marquee.start.x) * zoom,
+                        height: Math.abs(marquee.end.y - marquee.start.y) * zoom,
+                      }}
+                    />
+                  )}
+
+                  {/* Ruler guides */}
+                  {showRulers && (screen.guides ?? []).map(guide => (
+                    <div
+                      key={guide.id}
+                      className={`absolute group ${guide.axis === "x" ? 'top-0 bottom-0 cursor-col-resize' : 'left-0 right-0 cursor-row-resize'}`}
+                      style={guide.axis === "x"
+                        ? { left: guide.position * zoom - 3, width: 7 }
+                        : { top: guide.position * zoom - 3, height: 7 }}
+                      onMouseDown={(e) => handleGuideMouseDown(screen.id, guide.axis, e, guide.id)}
+                    >
+                      <div className={`absolute bg-cyan-500 group-hover:bg-cyan-600 ${guide.axis === "x" ? 'left-[3px] top-0 bottom-0 w-px' : 'top-[3px] left-0 right-0 h-px'}`} />
                     </div>
-                  )
-                })}
+                  ))}
+
+                  {/* Device safe area */}
+                  {showSafeArea && (
+                    <>
+                      <div
+                        className="absolute left-0 right-0 top-0 bg-amber-400/15 border-b border-dashed border-amber-500 pointer-events-none"
+                        style={{ height: SAFE_AREA_INSETS.top * zoom }}
+                      >
+                        <span className="absolute right-1 bottom-0.5 text-[9px] text-amber-700">Status bar</span>
+                      </div>
+                      <div
+                        className="absolute left-0 right-0 bottom-0 bg-amber-400/15 border-t border-dashed border-amber-500 pointer-events-none"
+                        style={{ height: SAFE_AREA_INSETS.bottom * zoom }}
+                      >
+                        <span className="absolute right-1 top-0.5 text-[9px] text-amber-700">Home indicator</span>
+                      </div>
+                    </>
+                  )}
+
+                  {/* What App Store search results show */}
+                  {showSearchCrop && !previewDevice && (
+                    <>
+                      <div
+                        className="absolute left-0 right-0 top-0 bg-neutral-900/40 border-b border-white/70 pointer-events-none"
+                        style={{ height: SEARCH_RESULT_CROP.y * zoom }}
+                      >
+                        <span className="absolute left-1 bottom-0.5 text-[9px] text-white">Cropped in App Store search</span>
+                      </div>
+                      <div
+                        className="absolute left-0 right-0 bottom-0 bg-neutral-900/40 border-t border-white/70 pointer-events-none"
+                        style={{ height: (CANVAS_HEIGHT - SEARCH_RESULT_CROP.y - SEARCH_RESULT_CROP.height) * zoom }}
+                      />
+                    </>
+                  )}
+
+                  {/* Snap guides while dragging */}
+                  {currentScreenId === screen.id && snapLines.map(line => (
+                    <div
+                      key={`${line.axis}:${line.position}`}
+                      className={`absolute bg-red-500 pointer-events-none ${line.axis === "x" ? 'top-0 bottom-0 w-px' : 'left-0 right-0 h-px'}`}
+                      style={line.axis === "x" ? { left: line.position * zoom } : { top: line.position * zoom }}
+                    />
+                  ))}
+                </div>
               </div>
             ))}
           </div>
@@ -1172,17 +2299,28 @@ export function DesignCanvas({
             </div>
              <div className="space-y-1">
               {screens.map(screen => (
-                <button
+                <div
                   key={screen.id}
-                  onClick={() => setCurrentScreenId(screen.id)}
-                   className={`w-full px-2.5 py-1.5 text-xs transition-all duration-200 text-left ${
+                  className={`flex items-center group transition-all duration-200 ${
                     currentScreenId === screen.id 
                        ? 'bg-blue-500 text-white' 
                        : 'text-neutral-700 hover:bg-neutral-100'
                   }`}
                 >
-                  {screen.name}
-                </button>
+                  <button
+                    onClick={() => setCurrentScreenId(screen.id)}
+                    className="flex-1 px-2.5 py-1.5 text-xs text-left"
+                  >
+                    {screen.name}
+                  </button>
+                  <button
+                    onClick={() => saveScreenAsTemplate(screen)}
+                    className="p-1 mr-1 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Save as template"
+                  >
+                    <BookmarkPlus className="h-3.5 w-3.5" />
+                  </button>
+                </div>
               ))}
             </div>
           </div>
@@ -1233,6 +2371,36 @@ export function DesignCanvas({
                    <p className="text-[9px] font-light text-neutral-500 italic">Extracted from your app's color scheme</p>
                 </div>
               )}
+
+               {/* Gradients from the app's palette */}
+               {aiAnalysis?.suggestedGradients && aiAnalysis.suggestedGradients.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-[10px] font-light text-neutral-400">Gradients</p>
+                  <div className="grid grid-cols-5 gap-2">
+                    {aiAnalysis.suggestedGradients.map((gradient: PaletteGradient) => {
+                      const background = currentScreen?.layers.find(l => l.type === 'background')
+                      const isActive = background?.backgroundGradient?.colors.join() === gradient.colors.join()
+                      return (
+                        <button
+                          key={gradient.colors.join()}
+                          onClick={(e) => updateScreenGradient(gradient, e.shiftKey)}
+                          onContextMenu={(e) => {
+                            e.preventDefault()
+                            updateScreenGradient(gradient, true)
+                          }}
+                          className={`w-full aspect-square border transition-all duration-200 ${
+                            isActive
+                              ? 'border-neutral-900 scale-105 ring-2 ring-neutral-900'
+                              : 'border-neutral-200 hover:border-neutral-400'
+                          }`}
+                          style={{ background: gradientToCss({ type: 'linear', colors: gradient.colors, angle: 180 }) }}
+                          title={`${gradient.colors.join(' → ')} → Text: ${gradient.textColor}\nShift+Click or Right-click to apply to all screens`}
+                        />
+                      )
+                    })}
+                  </div>
+                </div>
+              )}
               
               <input
                 type="color"
@@ -1402,43 +2570,131 @@ export function DesignCanvas({
            <div className="border-b border-neutral-200 pb-3">
              <h3 className="text-[11px] font-semibold text-neutral-500 mb-2 uppercase tracking-wide">Layers</h3>
              <div className="space-y-0.5">
-              {layers.map(layer => (
-                <div
-                  key={layer.id}
-                  onClick={() => setSelectedLayer(layer.id)}
-                   className={`px-2 py-1.5 cursor-pointer flex items-center justify-between group transition-all duration-200 ${
-                    selectedLayer === layer.id 
-                       ? 'bg-blue-500 text-white' 
-                       : 'hover:bg-neutral-100 text-neutral-700'
-                  }`}
-                >
-                   <div className="flex items-center gap-2">
-                    {layer.type === "text" ? (
-                       <Type className="h-3.5 w-3.5" />
-                     ) : layer.type === "mockup" ? (
-                       <ImageIcon className="h-3.5 w-3.5" />
-                     ) : (
-                       <Square className="h-3.5 w-3.5" />
-                     )}
-                     <span className="text-xs truncate max-w-[140px]">
-                       {layer.type === "mockup" ? "iPhone Mockup" : 
-                        layer.content.length > 18 ? layer.content.slice(0, 18) + '...' : layer.content}
-                    </span>
-                  </div>
+              {currentScreen && buildLayerTree(currentScreen).map(node => renderLayerNode(node, 0))}
+            </div>
+          </div>
+
+           {/* History Section - newest first, click to jump */}
+           <div className="border-b border-neutral-200 pb-3">
+             <h3 className="text-[11px] font-semibold text-neutral-500 mb-2 uppercase tracking-wide">History</h3>
+             <div className="space-y-0.5 max-h-48 overflow-y-auto">
+              {[...history.entries].reverse().map((entry, i) => {
+                const position = history.entries.length - i
+                const isUndone = position > history.pointer
+                return (
                   <button
-                    onClick={(e) => {
-                      e.stopPropagation()
-                      deleteLayer(layer.id)
-                    }}
-                     className="opacity-0 group-hover:opacity-100 p-1 hover:bg-black/10 rounded transition-all"
+                    key={entry.id}
+                    onClick={() => jumpTo(position)}
+                    className={`w-full px-2 py-1.5 text-left flex items-center gap-2 transition-all duration-200 ${
+                      position === history.pointer
+                        ? 'bg-neutral-900 text-white'
+                        : isUndone
+                          ? 'text-neutral-300 hover:bg-neutral-100'
+                          : 'text-neutral-700 hover:bg-neutral-100'
+                    }`}
                   >
-                     <Trash2 className="h-3 w-3" />
+                    <History className="h-3 w-3 shrink-0" />
+                    <span className="text-xs truncate">{entry.label}</span>
                   </button>
-                </div>
-              ))}
+                )
+              })}
+              <button
+                onClick={() => jumpTo(0)}
+                className={`w-full px-2 py-1.5 text-left text-xs transition-all duration-200 ${
+                  history.pointer === 0 ? 'bg-neutral-900 text-white' : 'text-neutral-500 hover:bg-neutral-100'
+                }`}
+              >
+                Original
+              </button>
             </div>
           </div>
 
+           {/* Arrange - align, distribute and group the selection */}
+          {selectedIds.length > 0 && (
+             <div className="border-b border-neutral-200 pb-3 space-y-3">
+               <div className="flex items-center justify-between">
+                 <h3 className="text-[11px] font-semibold text-neutral-500 uppercase tracking-wide">Arrange</h3>
+                 <span className="text-[10px] text-neutral-400">{selectedIds.length} selected</span>
+               </div>
+
+              <div>
+                <label className="text-xs font-light text-neutral-400 mb-2 block">Relative to</label>
+                <div className="flex gap-1.5">
+                  {(["selection", "screen"] as const).map(target => (
+                    <button
+                      key={target}
+                      onClick={() => setArrangeTarget(target)}
+                      disabled={target === "selection" && selectionUnits.length < 2}
+                      className={`flex-1 py-1.5 text-xs font-light border capitalize transition-all duration-200 disabled:opacity-40 ${
+                        effectiveArrangeTarget === target
+                          ? 'bg-neutral-900 text-white border-neutral-900'
+                          : 'bg-neutral-50 text-neutral-600 border-neutral-200 hover:border-neutral-300 hover:bg-neutral-100'
+                      }`}
+                    >
+                      {target}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-xs font-light text-neutral-400 mb-2 block">Align</label>
+                <div className="flex gap-1.5">
+                  {([
+                    ["left", AlignStartVertical, "Align left"],
+                    ["center", AlignCenterVertical, "Align horizontal centers"],
+                    ["right", AlignEndVertical, "Align right"],
+                    ["top", AlignStartHorizontal, "Align top"],
+                    ["middle", AlignCenterHorizontal, "Align vertical centers"],
+                    ["bottom", AlignEndHorizontal, "Align bottom"],
+                  ] as const).map(([edge, Icon, title]) => (
+                    <button key={edge} onClick={() => alignSelection(edge)} className="flex-1 p-2 border transition-all duration-200 bg-neutral-50 text-neutral-600 border-neutral-200 hover:border-neutral-300 hover:bg-neutral-100 disabled:opacity-40 disabled:hover:bg-neutral-50" title={title}>
+                      <Icon className="h-4 w-4 mx-auto" />
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-xs font-light text-neutral-400 mb-2 block">Distribute</label>
+                <div className="flex gap-1.5">
+                  <button
+                    onClick={() => distributeSelection("horizontal")}
+                    disabled={effectiveArrangeTarget === "selection" && selectionUnits.length < 3}
+                    className="flex-1 p-2 border transition-all duration-200 bg-neutral-50 text-neutral-600 border-neutral-200 hover:border-neutral-300 hover:bg-neutral-100 disabled:opacity-40 disabled:hover:bg-neutral-50"
+                    title="Distribute horizontally"
+                  >
+                    <AlignHorizontalSpaceBetween className="h-4 w-4 mx-auto" />
+                  </button>
+                  <button
+                    onClick={() => distributeSelection("vertical")}
+                    disabled={effectiveArrangeTarget === "selection" && selectionUnits.length < 3}
+                    className="flex-1 p-2 border transition-all duration-200 bg-neutral-50 text-neutral-600 border-neutral-200 hover:border-neutral-300 hover:bg-neutral-100 disabled:opacity-40 disabled:hover:bg-neutral-50"
+                    title="Distribute vertically"
+                  >
+                    <AlignVerticalSpaceBetween className="h-4 w-4 mx-auto" />
+                  </button>
+                  <button
+                    onClick={groupSelection}
+                    disabled={selectedIds.length < 2}
+                    className="flex-1 p-2 border transition-all duration-200 bg-neutral-50 text-neutral-600 border-neutral-200 hover:border-neutral-300 hover:bg-neutral-100 disabled:opacity-40 disabled:hover:bg-neutral-50"
+                    title="Group (⌘G)"
+                  >
+                    <Group className="h-4 w-4 mx-auto" />
+                  </button>
+                  <button
+                    onClick={ungroupSelection}
+                    disabled={selectedGroups.length === 0}
+                    className="flex-1 p-2 border transition-all duration-200 bg-neutral-50 text-neutral-600 border-neutral-200 hover:border-neutral-300 hover:bg-neutral-100 disabled:opacity-40 disabled:hover:bg-neutral-50"
+                    title="Ungroup (⇧⌘G)"
+                  >
+                    <Ungroup className="h-4 w-4 mx-auto" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
            {/* Properties - Figma Style */}
           {selectedLayerData && (
              <div className="space-y-3">
@@ -1452,24 +2708,26 @@ export function DesignCanvas({
                     <label className="text-[10px] text-neutral-400 mb-1 block">X</label>
                     <input
                       type="number"
-                      value={Math.round(selectedLayerData.x)}
+                      value={Math.round((selectedLayerBox ?? selectedLayerData).x)}
                       onChange={(e) => {
                         const newX = Number(e.target.value)
-                        updateLayerStyle(selectedLayerData.id, { x: newX })
+                        updateLayerBox(selectedLayerData.id, { x: newX })
                       }}
-                      className="w-full px-2 py-1.5 text-xs border border-neutral-200 focus:outline-none focus:ring-1 focus:ring-neutral-900 focus:border-transparent bg-neutral-50"
+                      disabled={previewRTL}
+                      className="w-full px-2 py-1.5 text-xs border border-neutral-200 focus:outline-none focus:ring-1 focus:ring-neutral-900 focus:border-transparent bg-neutral-50 disabled:opacity-50"
                     />
                   </div>
                   <div>
                     <label className="text-[10px] text-neutral-400 mb-1 block">Y</label>
                     <input
                       type="number"
-                      value={Math.round(selectedLayerData.y)}
+                      value={Math.round((selectedLayerBox ?? selectedLayerData).y)}
                       onChange={(e) => {
                         const newY = Number(e.target.value)
-                        updateLayerStyle(selectedLayerData.id, { y: newY })
+                        updateLayerBox(selectedLayerData.id, { y: newY })
                       }}
-                      className="w-full px-2 py-1.5 text-xs border border-neutral-200 focus:outline-none focus:ring-1 focus:ring-neutral-900 focus:border-transparent bg-neutral-50"
+                      disabled={previewRTL}
+                      className="w-full px-2 py-1.5 text-xs border border-neutral-200 focus:outline-none focus:ring-1 focus:ring-neutral-900 focus:border-transparent bg-neutral-50 disabled:opacity-50"
                     />
                   </div>
                 </div>
@@ -1483,42 +2741,314 @@ export function DesignCanvas({
                     <label className="text-[10px] text-neutral-400 mb-1 block">W</label>
                     <input
                       type="number"
-                      value={Math.round(selectedLayerData.width)}
+                      value={Math.round((selectedLayerBox ?? selectedLayerData).width)}
                       onChange={(e) => {
                         const newWidth = Number(e.target.value)
-                        updateLayerStyle(selectedLayerData.id, { width: newWidth })
+                        updateLayerBox(selectedLayerData.id, { width: newWidth })
                       }}
-                      className="w-full px-2 py-1.5 text-xs border border-neutral-200 focus:outline-none focus:ring-1 focus:ring-neutral-900 focus:border-transparent bg-neutral-50"
+                      disabled={previewRTL}
+                      className="w-full px-2 py-1.5 text-xs border border-neutral-200 focus:outline-none focus:ring-1 focus:ring-neutral-900 focus:border-transparent bg-neutral-50 disabled:opacity-50"
                     />
                   </div>
                   <div>
                     <label className="text-[10px] text-neutral-400 mb-1 block">H</label>
                     <input
                       type="number"
-                      value={Math.round(selectedLayerData.height)}
+                      value={Math.round((selectedLayerBox ?? selectedLayerData).height)}
                       onChange={(e) => {
                         const newHeight = Number(e.target.value)
-                        updateLayerStyle(selectedLayerData.id, { height: newHeight })
+                        updateLayerBox(selectedLayerData.id, { height: newHeight })
                       }}
-                      className="w-full px-2 py-1.5 text-xs border border-neutral-200 focus:outline-none focus:ring-1 focus:ring-neutral-900 focus:border-transparent bg-neutral-50"
+                      disabled={previewRTL}
+                      className="w-full px-2 py-1.5 text-xs border border-neutral-200 focus:outline-none focus:ring-1 focus:ring-neutral-900 focus:border-transparent bg-neutral-50 disabled:opacity-50"
                     />
                   </div>
                 </div>
+                {previewRTL && (
+                  <p className="text-[10px] font-light text-neutral-400 mt-1">
+                    Mirrored for {getLocale(previewLocale!)?.name}; switch back to the base language to move layers
+                  </p>
+                )}
               </div>
+
+              {/* Constraints - how the layer adapts to other device sizes */}
+              {(() => {
+                const constraints = getLayerConstraints(selectedLayerData)
+                return (
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="text-xs font-light text-neutral-400">Constraints</label>
+                      <button
+                        onClick={() => updateLayerConstraints(selectedLayerData, { aspectLock: !constraints.aspectLock })}
+                        className={`p-1 transition-colors ${constraints.aspectLock ? 'text-neutral-900' : 'text-neutral-400 hover:text-neutral-900'}`}
+                        title={constraints.aspectLock ? "Proportions locked" : "Lock proportions"}
+                      >
+                        {constraints.aspectLock ? <Lock className="h-3.5 w-3.5" /> : <LockOpen className="h-3.5 w-3.5" />}
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <label className="text-[10px] text-neutral-400 mb-1 block">Horizontal</label>
+                        <select
+                          value={constraints.horizontal}
+                          onChange={(e) => updateLayerConstraints(selectedLayerData, { horizontal: e.target.value as HorizontalConstraint })}
+                          className="w-full px-2 py-1.5 text-xs border border-neutral-200 focus:outline-none focus:ring-1 focus:ring-neutral-900 focus:border-transparent bg-neutral-50"
+                        >
+                          {HORIZONTAL_CONSTRAINTS.map(({ value, label }) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="text-[10px] text-neutral-400 mb-1 block">Vertical</label>
+                        <select
+                          value={constraints.vertical}
+                          onChange={(e) => updateLayerConstraints(selectedLayerData, { vertical: e.target.value as VerticalConstraint })}
+                          className="w-full px-2 py-1.5 text-xs border border-neutral-200 focus:outline-none focus:ring-1 focus:ring-neutral-900 focus:border-transparent bg-neutral-50"
+                        >
+                          {VERTICAL_CONSTRAINTS.map(({ value, label }) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                    {previewDevice && hasLayerOverride(selectedLayerData, previewDevice) && (
+                      <div className="mt-2 flex items-center justify-between text-[10px] text-neutral-500">
+                        <span>Adjusted by hand for {previewDevice}</span>
+                        <button
+                          onClick={() => resetLayerOverride(selectedLayerData.id)}
+                          className="hover:text-neutral-900 transition-colors"
+                        >
+                          Reset
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )
+              })()}
+
+              {selectedLayerData.type === "mockup" && (() => {
+                const frame = getDeviceFrame(selectedLayerData.deviceFrame)
+                return (
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="text-xs font-light text-neutral-400">Device</label>
+                      <button
+                        onClick={() => matchFrameToScreenshot(selectedLayerData)}
+                        disabled={!selectedLayerData.content}
+                        className="text-[10px] text-neutral-500 hover:text-neutral-900 transition-colors disabled:opacity-40"
+                        title="Pick the device from the screenshot's size"
+                      >
+                        Match screenshot
+                      </button>
+                    </div>
+                    <select
+                      value={frame.id}
+                      onChange={(e) => setDeviceFrame(selectedLayerData, e.target.value as DeviceFrameId)}
+                      className="w-full px-3 py-2 text-xs border border-neutral-200 focus:outline-none focus:ring-2 focus:ring-neutral-900 focus:border-transparent bg-neutral-50"
+                    >
+                      {DEVICE_FRAMES.map(option => (
+                        <option key={option.id} value={option.id}>{option.name}</option>
+                      ))}
+                    </select>
+                    {frame.variants.length > 0 && (
+                      <div className="flex gap-2 mt-2">
+                        {frame.variants.map(variant => (
+                          <button
+                            key={variant}
+                            onClick={() => updateLayerStyle(selectedLayerData.id, { mockupVariant: variant })}
+                            className={`w-6 h-6 rounded-full border border-neutral-300 transition-all duration-200 ${
+                              (selectedLayerData.mockupVariant ?? 'black') === variant
+                                ? 'ring-2 ring-neutral-900 ring-offset-1'
+                                : 'hover:scale-110'
+                            }`}
+                            style={{ backgroundColor: FRAME_COLORS[variant].border }}
+                            title={FRAME_COLORS[variant].name}
+                          />
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )
+              })()}
+
+              {(selectedLayerData.type === "image" || selectedLayerData.type === "mockup") && selectedLayerData.content && (() => {
+                const crop = getImageCrop(selectedLayerData)
+                const isEditing = imageEdit?.layerId === selectedLayerData.id
+                return (
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="text-xs font-light text-neutral-400">Image</label>
+                      <button
+                        onClick={() => isEditing ? setEditingImage(null) : startImageEdit(currentScreenId, selectedLayerData)}
+                        className="text-[10px] text-neutral-500 hover:text-neutral-900 transition-colors"
+                      >
+                        {isEditing ? 'Done' : 'Edit image'}
+                      </button>
+                    </div>
+                    <div className="flex gap-2 mb-2">
+                      {(['fit', 'fill'] as const).map(fit => (
+                        <button
+                          key={fit}
+                          onClick={() => updateLayerStyle(selectedLayerData.id, { imageCrop: presetImageCrop(fit) })}
+                          className={`flex-1 px-2 py-1.5 text-xs border transition-all duration-200 ${
+                            crop.fit === fit
+                              ? 'bg-neutral-900 text-white border-neutral-900'
+                              : 'bg-neutral-50 text-neutral-600 border-neutral-200 hover:border-neutral-300 hover:bg-neutral-100'
+                          }`}
+                          title={fit === 'fit' ? 'Show the whole image' : 'Cover the whole box'}
+                        >
+                          {fit === 'fit' ? 'Fit' : 'Fill'}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex items-center justify-between mb-1">
+                      <label className="text-[10px] text-neutral-400">Zoom</label>
+                      <span className="text-xs font-light text-neutral-900">{Math.round(crop.zoom * 100)}%</span>
+                    </div>
+                    <input
+                      type="range"
+                      min={MIN_IMAGE_ZOOM}
+                      max={MAX_IMAGE_ZOOM}
+                      step="0.05"
+                      value={crop.zoom}
+                      onChange={(e) => setImageZoom(selectedLayerData, parseFloat(e.target.value))}
+                      className="w-full h-2 bg-neutral-200 appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-neutral-900 [&::-webkit-slider-thumb]:transition-all [&::-webkit-slider-thumb]:hover:scale-110"
+                    />
+                    {isEditing && (
+                      <p className="mt-2 text-[10px] text-neutral-500">Drag the image to move it, scroll to zoom, Esc when done.</p>
+                    )}
+                    {selectedLayerData.imageCrop && (
+                      <button
+                        onClick={() => updateLayerStyle(selectedLayerData.id, { imageCrop: undefined })}
+                        className="mt-2 text-[10px] text-neutral-500 hover:text-neutral-900 transition-colors"
+                      >
+                        Reset crop
+                      </button>
+                    )}
+                  </div>
+                )
+              })()}
+
+              {selectedLayerData.type === "shape" && (
+                <>
+                  {/* Fill - lines have none */}
+                  {selectedLayerData.shape !== "line" && (
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <label className="text-xs font-light text-neutral-400">Fill</label>
+                        <button
+                          onClick={() => updateLayerStyle(selectedLayerData.id, { fill: selectedLayerData.fill ? undefined : '#3B82F6' })}
+                          className="text-[10px] text-neutral-500 hover:text-neutral-900 transition-colors"
+                        >
+                          {selectedLayerData.fill ? 'Remove' : 'Add'}
+                        </button>
+                      </div>
+                      {selectedLayerData.fill && (
+                        <input
+                          type="color"
+                          value={selectedLayerData.fill}
+                          onChange={(e) => updateLayerStyle(selectedLayerData.id, { fill: e.target.value })}
+                          className="w-full h-10 border border-neutral-200 cursor-pointer"
+                        />
+                      )}
+                    </div>
+                  )}
+
+                  {/* Stroke */}
+                  <div>
+                    <label className="text-xs font-light text-neutral-400 mb-2 block">Stroke</label>
+                    <input
+                      type="color"
+                      value={selectedLayerData.stroke || '#1A1A1A'}
+                      onChange={(e) => updateLayerStyle(selectedLayerData.id, { stroke: e.target.value })}
+                      className="w-full h-10 border border-neutral-200 cursor-pointer"
+                    />
+                  </div>
+
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="text-xs font-light text-neutral-400">Stroke Width</label>
+                      <span className="text-xs font-light text-neutral-900">{selectedLayerData.strokeWidth ?? 0}px</span>
+                    </div>
+                    <input
+                      type="range"
+                      min={selectedLayerData.shape === "line" ? 1 : 0}
+                      max="24"
+                      value={selectedLayerData.strokeWidth ?? 0}
+                      onChange={(e) => updateLayerStyle(selectedLayerData.id, { strokeWidth: parseInt(e.target.value) })}
+                      className="w-full h-2 bg-neutral-200 appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-neutral-900 [&::-webkit-slider-thumb]:transition-all [&::-webkit-slider-thumb]:hover:scale-110"
+                    />
+                  </div>
+                </>
+              )}
               
               {selectedLayerData.type === "text" && (
                 <>
                   <div>
-                    <label className="text-xs font-light text-neutral-400 mb-2 block">Content</label>
+                    <label className="text-xs font-light text-neutral-400 mb-2 block">
+                      Content{previewLocale && ` (${getLocale(previewLocale)?.name ?? previewLocale})`}
+                    </label>
                     <textarea
-                      value={selectedLayerData.content}
+                      value={getLayerText(selectedLayerData, previewLocale)}
+                      dir={previewRTL ? 'rtl' : undefined}
                       onChange={(e) => updateLayerContent(selectedLayerData.id, e.target.value)}
+                      onSelect={(e) => setTextSelection({
+                        layerId: selectedLayerData.id,
+                        start: e.currentTarget.selectionStart,
+                        end: e.currentTarget.selectionEnd,
+                      })}
                       className="w-full px-3 py-2 text-xs border border-neutral-200 focus:outline-none focus:ring-2 focus:ring-neutral-900 focus:border-transparent resize-none bg-neutral-50"
-                      rows={2}
+                      rows={3}
                       placeholder="Enter text..."
                     />
+                    <p className="text-[10px] font-light text-neutral-400 mt-1">
+                      {previewLocale
+                        ? selectedLayerData.translations?.[previewLocale] ? 'Translated copy for this language' : `Not translated yet, showing ${getLocale(BASE_LOCALE)?.name}`
+                        : 'Select words to style them on their own'}
+                    </p>
                   </div>
 
+                  {/* Selected text - styles a span of the content */}
+                  {selectedTextStyle && (
+                    <div>
+                      <label className="text-xs font-light text-neutral-400 mb-2 block">Selected text</label>
+                      <div className="flex gap-1.5">
+                        <input
+                          type="color"
+                          value={selectedTextStyle.color}
+                          onChange={(e) => styleSelectedText(selectedLayerData, { color: e.target.value })}
+                          className="w-10 h-9 border border-neutral-200 cursor-pointer shrink-0"
+                          title="Color"
+                        />
+                        {([
+                          { key: 'bold', icon: Bold },
+                          { key: 'italic', icon: Italic },
+                          { key: 'underline', icon: Underline },
+                        ] as const).map(({ key, icon: Icon }) => (
+                          <button
+                            key={key}
+                            onClick={() => styleSelectedText(selectedLayerData, { [key]: !selectedTextStyle[key] })}
+                            className={`flex-1 p-2 border transition-all duration-200 ${
+                              selectedTextStyle[key]
+                                ? 'bg-neutral-900 text-white border-neutral-900'
+                                : 'bg-neutral-50 text-neutral-600 border-neutral-200 hover:border-neutral-300 hover:bg-neutral-100'
+                            }`}
+                          >
+                            <Icon className="h-4 w-4 mx-auto" />
+                          </button>
+                        ))}
+                        <button
+                          onClick={() => styleSelectedText(selectedLayerData, null)}
+                          className="flex-1 p-2 border bg-neutral-50 text-neutral-600 border-neutral-200 hover:border-neutral-300 hover:bg-neutral-100 transition-all duration-200"
+                          title="Clear styling"
+                        >
+                          <RemoveFormatting className="h-4 w-4 mx-auto" />
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
                   {/* Text Formatting - Minimalist */}
                   <div>
                     <label className="text-xs font-light text-neutral-400 mb-2 block">Style</label>
@@ -1669,6 +3199,77 @@ export function DesignCanvas({
                       className="w-full h-2 bg-neutral-200 appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-neutral-900 [&::-webkit-slider-thumb]:transition-all [&::-webkit-slider-thumb]:hover:scale-110"
                     />
                   </div>
+
+                  <div>
+                    <label className="text-xs font-light text-neutral-400 mb-2 block">Auto-fit</label>
+                    <button
+                      onClick={() => updateLayerStyle(selectedLayerData.id, { autoFit: !selectedLayerData.autoFit })}
+                      className={`w-full px-3 py-2 text-xs border transition-all duration-200 ${
+                        selectedLayerData.autoFit
+                          ? 'bg-neutral-900 text-white border-neutral-900'
+                          : 'bg-neutral-50 text-neutral-600 border-neutral-200 hover:border-neutral-300 hover:bg-neutral-100'
+                      }`}
+                    >
+                      {selectedLayerData.autoFit ? 'Shrinks text to fit the box' : 'Off'}
+                    </button>
+                  </div>
+
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="text-xs font-light text-neutral-400">Line height</label>
+                      <span className="text-xs font-light text-neutral-900">{(selectedLayerData.lineHeight ?? TEXT_LINE_HEIGHT).toFixed(2)}</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0.8"
+                      max="2"
+                      step="0.05"
+                      value={selectedLayerData.lineHeight ?? TEXT_LINE_HEIGHT}
+                      onChange={(e) => updateLayerStyle(selectedLayerData.id, { lineHeight: parseFloat(e.target.value) })}
+                      className="w-full h-2 bg-neutral-200 appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-neutral-900 [&::-webkit-slider-thumb]:transition-all [&::-webkit-slider-thumb]:hover:scale-110"
+                    />
+                  </div>
+
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="text-xs font-light text-neutral-400">Letter spacing</label>
+                      <span className="text-xs font-light text-neutral-900">{selectedLayerData.letterSpacing ?? 0}px</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="-2"
+                      max="10"
+                      step="0.5"
+                      value={selectedLayerData.letterSpacing ?? 0}
+                      onChange={(e) => updateLayerStyle(selectedLayerData.id, { letterSpacing: parseFloat(e.target.value) })}
+                      className="w-full h-2 bg-neutral-200 appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-neutral-900 [&::-webkit-slider-thumb]:transition-all [&::-webkit-slider-thumb]:hover:scale-110"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="text-xs font-light text-neutral-400 mb-2 block">Case</label>
+                    <div className="flex gap-1.5">
+                      {([
+                        { value: 'none', icon: Minus, title: 'As typed' },
+                        { value: 'uppercase', icon: CaseUpper, title: 'Uppercase' },
+                        { value: 'lowercase', icon: CaseLower, title: 'Lowercase' },
+                        { value: 'capitalize', icon: CaseSensitive, title: 'Capitalize words' },
+                      ] as const).map(({ value, icon: Icon, title }) => (
+                        <button
+                          key={value}
+                          onClick={() => updateLayerStyle(selectedLayerData.id, { textTransform: value })}
+                          title={title}
+                          className={`flex-1 p-2 border transition-all duration-200 ${
+                            (selectedLayerData.textTransform ?? 'none') === value
+                              ? 'bg-neutral-900 text-white border-neutral-900'
+                              : 'bg-neutral-50 text-neutral-600 border-neutral-200 hover:border-neutral-300 hover:bg-neutral-100'
+                          }`}
+                        >
+                          <Icon className="h-4 w-4 mx-auto" />
+                        </button>
+                      ))}
+                    </div>
+                  </div>
                   
                   <div>
                     <label className="text-xs font-light text-neutral-400 mb-2 block">Color</label>
@@ -1697,6 +3298,125 @@ export function DesignCanvas({
                   </div>
                 </>
               )}
+
+              {/* Transform & Effects */}
+              <div>
+                <label className="text-xs font-light text-neutral-400 mb-2 block">Rotation</label>
+                <div className="grid grid-cols-[1fr_auto] gap-2 items-center">
+                  <input
+                    type="range"
+                    min="-180"
+                    max="180"
+                    value={selectedLayerData.rotation ?? 0}
+                    onChange={(e) => updateLayerStyle(selectedLayerData.id, { rotation: parseInt(e.target.value) })}
+                    className="w-full h-2 bg-neutral-200 appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-neutral-900 [&::-webkit-slider-thumb]:transition-all [&::-webkit-slider-thumb]:hover:scale-110"
+                  />
+                  <input
+                    type="number"
+                    value={selectedLayerData.rotation ?? 0}
+                    onChange={(e) => updateLayerStyle(selectedLayerData.id, { rotation: Number(e.target.value) })}
+                    className="w-16 px-2 py-1.5 text-xs border border-neutral-200 focus:outline-none focus:ring-1 focus:ring-neutral-900 focus:border-transparent bg-neutral-50"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-xs font-light text-neutral-400">Opacity</label>
+                  <span className="text-xs font-light text-neutral-900">{Math.round((selectedLayerData.opacity ?? 1) * 100)}%</span>
+                </div>
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  value={Math.round((selectedLayerData.opacity ?? 1) * 100)}
+                  onChange={(e) => updateLayerStyle(selectedLayerData.id, { opacity: parseInt(e.target.value) / 100 })}
+                  className="w-full h-2 bg-neutral-200 appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-neutral-900 [&::-webkit-slider-thumb]:transition-all [&::-webkit-slider-thumb]:hover:scale-110"
+                />
+              </div>
+
+              {(selectedLayerData.shape === "rectangle" || ["image", "decoration", "background"].includes(selectedLayerData.type) ||
+                (selectedLayerData.type === "mockup" && selectedLayerData.deviceFrame === "none")) && (
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="text-xs font-light text-neutral-400">Corner Radius</label>
+                    <span className="text-xs font-light text-neutral-900">{selectedLayerData.cornerRadius ?? 0}px</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max={Math.max(1, Math.round(Math.min(selectedLayerData.width, selectedLayerData.height) / 2))}
+                    value={selectedLayerData.cornerRadius ?? 0}
+                    onChange={(e) => updateLayerStyle(selectedLayerData.id, { cornerRadius: parseInt(e.target.value) })}
+                    className="w-full h-2 bg-neutral-200 appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-neutral-900 [&::-webkit-slider-thumb]:transition-all [&::-webkit-slider-thumb]:hover:scale-110"
+                  />
+                </div>
+              )}
+
+              <div>
+                <label className="text-xs font-light text-neutral-400 mb-2 block">Blend Mode</label>
+                <select
+                  value={selectedLayerData.blendMode ?? 'normal'}
+                  onChange={(e) => updateLayerStyle(selectedLayerData.id, { blendMode: e.target.value as LayerBlendMode })}
+                  className="w-full px-3 py-2 text-xs border border-neutral-200 focus:outline-none focus:ring-2 focus:ring-neutral-900 focus:border-transparent bg-neutral-50 capitalize"
+                >
+                  {LAYER_BLEND_MODES.map(mode => (
+                    <option key={mode} value={mode}>{mode}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-xs font-light text-neutral-400">Shadow</label>
+                  <button
+                    onClick={() => updateLayerStyle(selectedLayerData.id, { shadow: selectedLayerData.shadow ? undefined : DEFAULT_SHADOW })}
+                    className="text-[10px] text-neutral-500 hover:text-neutral-900 transition-colors"
+                  >
+                    {selectedLayerData.shadow ? 'Remove' : 'Add'}
+                  </button>
+                </div>
+                {selectedLayerData.shadow && (() => {
+                  const shadow = selectedLayerData.shadow
+                  const setShadow = (change: Partial<LayerShadow>) =>
+                    updateLayerStyle(selectedLayerData.id, { shadow: { ...shadow, ...change } })
+                  return (
+                    <div className="space-y-2">
+                      <div className="grid grid-cols-3 gap-2">
+                        {([["offsetX", "X"], ["offsetY", "Y"], ["blur", "Blur"]] as const).map(([key, label]) => (
+                          <div key={key}>
+                            <label className="text-[10px] text-neutral-400 mb-1 block">{label}</label>
+                            <input
+                              type="number"
+                              min={key === "blur" ? 0 : undefined}
+                              value={shadow[key]}
+                              onChange={(e) => setShadow({ [key]: key === "blur" ? Math.max(0, Number(e.target.value)) : Number(e.target.value) })}
+                              className="w-full px-2 py-1.5 text-xs border border-neutral-200 focus:outline-none focus:ring-1 focus:ring-neutral-900 focus:border-transparent bg-neutral-50"
+                            />
+                          </div>
+                        ))}
+                      </div>
+                      <div className="grid grid-cols-[auto_1fr] gap-2 items-center">
+                        <input
+                          type="color"
+                          value={shadow.color.slice(0, 7)}
+                          onChange={(e) => setShadow({ color: withAlpha(e.target.value, getAlpha(shadow.color)) })}
+                          className="w-10 h-8 border border-neutral-200 cursor-pointer"
+                        />
+                        <input
+                          type="range"
+                          min="0"
+                          max="100"
+                          value={Math.round(getAlpha(shadow.color) * 100)}
+                          onChange={(e) => setShadow({ color: withAlpha(shadow.color, parseInt(e.target.value) / 100) })}
+                          className="w-full h-2 bg-neutral-200 appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-neutral-900 [&::-webkit-slider-thumb]:transition-all [&::-webkit-slider-thumb]:hover:scale-110"
+                          title="Shadow opacity"
+                        />
+                      </div>
+                    </div>
+                  )
+                })()}
+              </div>
             </div>
           )}
 
@@ -1708,6 +3428,10 @@ export function DesignCanvas({
                 <div className="w-1.5 h-1.5 bg-neutral-400 mt-1.5 shrink-0"></div>
                 <p>Drag elements to reposition</p>
               </div>
+              <div className="flex items-start gap-2 text-xs text-neutral-500 font-light">
+                <div className="w-1.5 h-1.5 bg-neutral-400 mt-1.5 shrink-0"></div>
+                <p>Shift-click or drag across the background to select several</p>
+              </div>
               <div className="flex items-start gap-2 text-xs text-neutral-500 font-light">
                 <div className="w-1.5 h-1.5 bg-neutral-400 mt-1.5 shrink-0"></div>
                 <p>Hold <kbd className="px-1.5 py-0.5 bg-neutral-50 text-[10px] font-light border border-neutral-200">Space</kbd> + drag to pan</p>
@@ -1754,63 +3478,82 @@ export function DesignCanvas({
           {/* Header */}
           <div className="px-6 py-4 border-b border-neutral-200">
             <h2 className="text-lg text-neutral-700">Choose a Layout</h2>
-            <p className="text-xs text-neutral-500 mt-1">Select a design style for your screenshots</p>
+            <p className="text-xs text-neutral-500 mt-1">Previews show your current screen in each layout; your copy and colors are kept</p>
           </div>
           
           {/* Template Grid */}
-          <div className="p-6 overflow-y-auto max-h-[calc(80vh-80px)]">
+          <div className="p-6 overflow-y-auto max-h-[calc(80vh-80px)] space-y-6">
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-              {LAYOUT_TEMPLATES.map(template => (
-                <button
-                  key={template.id}
-                  onClick={() => {
-                    applyTemplateToScreens(template.id)
-                  }}
-                  className={`group relative overflow-hidden bg-neutral-50 border transition-all ${
-                    selectedTemplateId === template.id 
-                      ? 'border-neutral-900' 
-                      : 'border-neutral-200 hover:border-neutral-400'
-                  }`}
-                >
-                  {/* Template Preview Image */}
-                  <div className="aspect-9/16 bg-linear-to-br from-neutral-100 to-neutral-200 p-4">
-                    {/* Config 1 preview - top */}
-                    <div className="h-[45%] flex flex-col items-start">
-                      <div className="h-1.5 bg-neutral-400 w-3/4 mb-1" />
-                      <div className="h-1 bg-neutral-300 w-1/2 mb-2" />
-                      <div className="w-8 h-16 border border-neutral-400 bg-white mx-auto mt-auto" />
-                    </div>
-                    
-                    {/* Divider */}
-                    <div className="border-t border-dashed border-neutral-300 my-1" />
-                    
-                    {/* Config 2 preview - bottom */}
-                    <div className="h-[45%] flex flex-col items-start">
-                      <div className="w-8 h-16 border border-neutral-400 bg-white mx-auto mb-auto" />
-                      <div className="h-1.5 bg-neutral-400 w-3/4 mb-1 mt-auto" />
-                      <div className="h-1 bg-neutral-300 w-1/2" />
-                    </div>
-                  </div>
-                  
-                  {/* Template Name */}
-                  <div className="px-3 py-2 border-t border-neutral-200 bg-white">
-                    <p className="text-xs text-neutral-700 text-center">{template.name}</p>
-                  </div>
-                  
-                  {/* Selected Indicator */}
-                  {selectedTemplateId === template.id && (
-                    <div className="absolute top-2 right-2 w-5 h-5 bg-neutral-900 flex items-center justify-center">
-                      <Check className="h-3 w-3 text-white" />
-                    </div>
-                  )}
-                </button>
-              ))}
+              {templatePreviews.filter(({ template }) => template.category !== 'custom').map(renderTemplateCard)}
+            </div>
+
+            {/* Workspace Templates */}
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <div>
+                  <h3 className="text-sm text-neutral-700">Workspace templates</h3>
+                  <p className="text-xs text-neutral-500 mt-0.5">Save a screen from the Screens list, or import a shared .json file</p>
+                </div>
+                <div className="flex gap-2">
+                  <input
+                    ref={templateFileInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0]
+                      if (file) importCustomTemplates(file)
+                      e.target.value = ''
+                    }}
+                  />
+                  <button
+                    onClick={() => templateFileInputRef.current?.click()}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-xs border border-neutral-200 hover:border-neutral-400 transition-all"
+                  >
+                    <Upload className="h-3.5 w-3.5" />
+                    Import
+                  </button>
+                  <button
+                    onClick={() => exportCustomTemplates(customTemplates)}
+                    disabled={customTemplates.length === 0}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-xs border border-neutral-200 hover:border-neutral-400 transition-all disabled:opacity-40 disabled:pointer-events-none"
+                  >
+                    <Download className="h-3.5 w-3.5" />
+                    Export all
+                  </button>
+                </div>
+              </div>
+              {customTemplates.length > 0 ? (
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                  {templatePreviews.filter(({ template }) => template.category === 'custom').map(renderTemplateCard)}
+                </div>
+              ) : (
+                <p className="text-xs text-neutral-400 border border-dashed border-neutral-200 px-4 py-6 text-center">
+                  No templates in this workspace yet
+                </p>
+              )}
             </div>
           </div>
         </div>
       </div>
     )}
 
+    {/* Export Dialog */}
+    {showExportDialog && (
+      <ExportDialog
+        screens={screens}
+        onClose={() => setShowExportDialog(false)}
+      />
+    )}
+
+    {/* Store Upload Dialog */}
+    {showUploadDialog && (
+      <StoreUploadDialog
+        screens={screens}
+        onClose={() => setShowUploadDialog(false)}
+      />
+    )}
+
     {/* Share Modal */}
     {showShareModal && (
       <div 
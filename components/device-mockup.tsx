@@ -0,0 +1,124 @@
+import type { HTMLAttributes } from "react"
+import {
+  getDeviceFrame,
+  getFramePartColor,
+  getScreenRectFractions,
+  type DeviceFrameId,
+  type MockupVariant,
+} from "@/lib/device-frames"
+import { getImageCropStyle } from "@/lib/image-crop"
+import type { ImageCrop } from "@/lib/scene-graph"
+
+export interface DeviceMockupProps extends HTMLAttributes<HTMLDivElement> {
+  src?: string
+  videoSrc?: string
+  frame?: DeviceFrameId
+  variant?: MockupVariant // Frame color
+  crop?: ImageCrop // Screenshot pan and zoom; covers the screen from the top when unset
+}
+
+export function DeviceMockup({
+  src,
+  videoSrc,
+  frame: frameId,
+  variant = 'black', // Default to a black frame
+  crop,
+  className,
+  style,
+  ...props
+}: DeviceMockupProps) {
+  const frame = getDeviceFrame(frameId)
+  const fractions = getScreenRectFractions(frame)
+  const hasVideo = !!videoSrc
+  const hasMedia = hasVideo || !!src
+  // Same geometry for every mockup of a frame, so shared ids are harmless
+  const punchId = `screenPunch-${frame.id}`
+
+  const screenStyle = {
+    left: `${fractions.left * 100}%`,
+    top: `${fractions.top * 100}%`,
+    width: `${fractions.width * 100}%`,
+    height: `${fractions.height * 100}%`,
+    borderRadius: `${fractions.radiusH * 100}% / ${fractions.radiusV * 100}%`,
+  }
+
+  return (
+    <div
+      className={`relative inline-block w-full align-middle leading-none ${className || ''}`}
+      style={{
+        aspectRatio: `${frame.width}/${frame.height}`,
+        ...style,
+      }}
+      {...props}
+    >
+      {hasVideo && (
+        <div className="pointer-events-none absolute z-0 overflow-hidden" style={screenStyle}>
+          <video
+            className="block size-full object-cover"
+            src={videoSrc}
+            autoPlay
+            loop
+            muted
+            playsInline
+            preload="metadata"
+          />
+        </div>
+      )}
+      {!hasVideo && src && (
+        <div className="pointer-events-none absolute z-0 overflow-hidden" style={screenStyle}>
+          {/* Uploaded data URLs; nothing for next/image to optimize */}
+          <img
+            src={src}
+            alt=""
+            className="block size-full object-cover object-top"
+            style={crop ? getImageCropStyle(crop) : undefined}
+          />
+        </div>
+      )}
+      {frame.parts.length > 0 && (
+        <svg
+          viewBox={`0 0 ${frame.width} ${frame.height}`}
+          fill="none"
+          xmlns="http://www.w3.org/2000/svg"
+          className="absolute inset-0 size-full"
+          style={{ transform: "translateZ(0)" }}
+        >
+          {frame.parts.map((part, index) => {
+            const color = getFramePartColor(part.fill, variant)
+            return (
+              <path
+                key={index}
+                d={part.d}
+                fill={color}
+                opacity={part.opacity}
+                stroke={part.outlined ? color : undefined}
+                strokeWidth={part.outlined ? 0.5 : undefined}
+                mask={part.punched && hasMedia ? `url(#${punchId})` : undefined}
+              />
+            )
+          })}
+          <defs>
+            <mask id={punchId} maskUnits="userSpaceOnUse">
+              <rect
+                x="0"
+                y="0"
+                width={frame.width}
+                height={frame.height}
+                fill="white"
+              />
+              <rect
+                x={frame.screen.x}
+                y={frame.screen.y}
+                width={frame.screen.width}
+                height={frame.screen.height}
+                rx={frame.screen.radius}
+                ry={frame.screen.radius}
+                fill="black"
+              />
+            </mask>
+          </defs>
+        </svg>
+      )}
+    </div>
+  )
+}
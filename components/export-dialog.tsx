@@ -0,0 +1,266 @@
+"use client"
+
+import * as React from "react"
+import { X, Download, Check } from "lucide-react"
+import { APP_STORE_SIZES, PLAY_STORE_SIZES, type ExportSize } from "@/lib/ai-helpers"
+import {
+  countExportImages,
+  exportScreensAsZip,
+  downloadBlob,
+  type ExportLayout,
+  type ExportProgress,
+  type ZipExportOptions,
+} from "@/lib/export-pipeline"
+import { BASE_LOCALE, getLocale, getProjectLocales } from "@/lib/localization"
+import type { Screen } from "@/lib/scene-graph"
+
+interface ExportDialogProps {
+  screens: Screen[]
+  projectName?: string
+  onClose: () => void
+}
+
+const SIZE_GROUPS = [
+  { label: "App Store", sizes: APP_STORE_SIZES },
+  { label: "Google Play", sizes: PLAY_STORE_SIZES },
+]
+
+const LAYOUTS: Array<{ value: ExportLayout; label: string; description: string }> = [
+  { value: "folders", label: "Folders", description: "One folder per device size" },
+  { value: "fastlane", label: "fastlane", description: "screenshots/ for deliver and metadata/android/ for supply" },
+]
+
+export function ExportDialog({ screens, projectName = "screenshots", onClose }: ExportDialogProps) {
+  const [name, setName] = React.useState(projectName)
+  const [selectedSizes, setSelectedSizes] = React.useState<string[]>(APP_STORE_SIZES.slice(0, 2).map(s => s.name))
+  const [format, setFormat] = React.useState<"png" | "jpg">("png")
+  const [quality, setQuality] = React.useState(92)
+  const [layout, setLayout] = React.useState<ExportLayout>("folders")
+  // Translated projects export one folder per language
+  const projectLocales = React.useMemo(() => getProjectLocales(screens), [screens])
+  const [selectedLocales, setSelectedLocales] = React.useState<string[]>(() => [BASE_LOCALE, ...getProjectLocales(screens)])
+  const [progress, setProgress] = React.useState<ExportProgress | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const isExporting = progress !== null
+
+  const toggleSize = (size: ExportSize) => {
+    setSelectedSizes(prev =>
+      prev.includes(size.name) ? prev.filter(n => n !== size.name) : [...prev, size.name]
+    )
+  }
+
+  const toggleLocale = (code: string) => {
+    setSelectedLocales(prev =>
+      prev.includes(code) ? prev.filter(c => c !== code) : [...prev, code]
+    )
+  }
+
+  const exportOptions: ZipExportOptions = {
+    projectName: name || "screenshots",
+    format,
+    quality,
+    layout,
+    sizes: [...APP_STORE_SIZES, ...PLAY_STORE_SIZES].filter(s => selectedSizes.includes(s.name)),
+    locales: projectLocales.length > 0 ? selectedLocales : undefined,
+  }
+  const imageCount = countExportImages(screens, exportOptions)
+
+  const handleExport = async () => {
+    setError(null)
+    setProgress({ completed: 0, total: 0, current: "" })
+    try {
+      const zip = await exportScreensAsZip(screens, { ...exportOptions, onProgress: setProgress })
+      downloadBlob(zip, `${(name || "screenshots").replace(/[^a-z0-9]/gi, "_").toLowerCase()}.zip`)
+      onClose()
+    } catch (err) {
+      console.error("Export failed:", err)
+      setError(err instanceof Error ? err.message : "Failed to export screenshots. Please try again.")
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-neutral-900/50 p-4"
+      onClick={() => !isExporting && onClose()}
+    >
+      <div
+        className="relative w-full max-w-lg bg-white p-6 border border-neutral-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          disabled={isExporting}
+          className="absolute top-4 right-4 p-1.5 hover:bg-neutral-100 transition-all duration-200"
+        >
+          <X className="h-4 w-4 text-neutral-500 hover:text-neutral-900" />
+        </button>
+
+        <div className="mb-6">
+          <h3 className="text-lg font-light text-neutral-900 mb-2">Export Screenshots</h3>
+          <p className="text-sm font-light text-neutral-500">
+            {screens.length} screens will be rendered at every selected size{projectLocales.length > 0 && " and language"} and bundled into one ZIP.
+          </p>
+        </div>
+
+        <div className="space-y-5">
+          {/* Project Name */}
+          <div>
+            <label className="text-xs font-light text-neutral-400 mb-2 block">Project Name</label>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 text-xs border border-neutral-200 focus:outline-none focus:ring-1 focus:ring-neutral-900 focus:border-transparent bg-neutral-50"
+            />
+          </div>
+
+          {/* Device Sizes */}
+          {SIZE_GROUPS.map(group => (
+            <div key={group.label}>
+              <h4 className="text-[11px] font-semibold text-neutral-500 mb-2 uppercase tracking-wide">{group.label}</h4>
+              <div className="grid grid-cols-2 gap-2">
+                {group.sizes.map(size => {
+                  const isSelected = selectedSizes.includes(size.name)
+                  return (
+                    <button
+                      key={size.name}
+                      onClick={() => toggleSize(size)}
+                      className={`px-3 py-2 text-left border transition-all duration-200 flex items-center justify-between ${
+                        isSelected
+                          ? "border-neutral-900 bg-neutral-50"
+                          : "border-neutral-200 hover:border-neutral-300"
+                      }`}
+                    >
+                      <span>
+                        <span className="block text-xs text-neutral-900">{size.name}</span>
+                        <span className="block text-[10px] font-light text-neutral-400">{size.width} × {size.height}</span>
+                      </span>
+                      {isSelected && <Check className="h-3.5 w-3.5 text-neutral-900" />}
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+          ))}
+
+          {/* Languages */}
+          {projectLocales.length > 0 && (
+            <div>
+              <h4 className="text-[11px] font-semibold text-neutral-500 mb-2 uppercase tracking-wide">Languages</h4>
+              <div className="grid grid-cols-2 gap-2">
+                {[BASE_LOCALE, ...projectLocales].map(code => {
+                  const isSelected = selectedLocales.includes(code)
+                  return (
+                    <button
+                      key={code}
+                      onClick={() => toggleLocale(code)}
+                      className={`px-3 py-2 text-left border transition-all duration-200 flex items-center justify-between ${
+                        isSelected
+                          ? "border-neutral-900 bg-neutral-50"
+                          : "border-neutral-200 hover:border-neutral-300"
+                      }`}
+                    >
+                      <span>
+                        <span className="block text-xs text-neutral-900">{getLocale(code)?.name ?? code}</span>
+                        <span className="block text-[10px] font-light text-neutral-400">{code}</span>
+                      </span>
+                      {isSelected && <Check className="h-3.5 w-3.5 text-neutral-900" />}
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Layout */}
+          <div>
+            <label className="text-xs font-light text-neutral-400 mb-2 block">Layout</label>
+            <div className="flex gap-1.5">
+              {LAYOUTS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setLayout(option.value)}
+                  className={`flex-1 p-2 text-xs border transition-all duration-200 ${
+                    layout === option.value
+                      ? "bg-neutral-900 text-white border-neutral-900"
+                      : "bg-neutral-50 text-neutral-600 border-neutral-200 hover:border-neutral-300 hover:bg-neutral-100"
+                  }`}
+                  title={option.description}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {layout === "fastlane" && (
+              <p className="text-[10px] font-light text-neutral-400 mt-1">
+                Unzip into your project root; deliver and supply pick the images up from fastlane/.
+              </p>
+            )}
+          </div>
+
+          {/* Format */}
+          <div>
+            <label className="text-xs font-light text-neutral-400 mb-2 block">Format</label>
+            <div className="flex gap-1.5">
+              {(["png", "jpg"] as const).map(f => (
+                <button
+                  key={f}
+                  onClick={() => setFormat(f)}
+                  className={`flex-1 p-2 text-xs uppercase border transition-all duration-200 ${
+                    format === f
+                      ? "bg-neutral-900 text-white border-neutral-900"
+                      : "bg-neutral-50 text-neutral-600 border-neutral-200 hover:border-neutral-300 hover:bg-neutral-100"
+                  }`}
+                >
+                  {f}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {format === "jpg" && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-xs font-light text-neutral-400">Quality</label>
+                <span className="text-xs font-light text-neutral-900">{quality}</span>
+              </div>
+              <input
+                type="range"
+                min="40"
+                max="100"
+                value={quality}
+                onChange={(e) => setQuality(parseInt(e.target.value))}
+                className="w-full h-2 bg-neutral-200 appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-neutral-900"
+              />
+            </div>
+          )}
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          <button
+            onClick={handleExport}
+            disabled={isExporting || imageCount === 0}
+            className="w-full px-4 py-3 text-sm font-light bg-neutral-900 text-white hover:bg-neutral-800 transition-all duration-200 border border-neutral-900 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isExporting ? (
+              <>
+                <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent"></div>
+                {progress.total > 0 ? `Rendering ${Math.min(progress.completed + 1, progress.total)} of ${progress.total}...` : "Preparing..."}
+              </>
+            ) : (
+              <>
+                <Download className="h-4 w-4" />
+                Export {imageCount} images as ZIP
+              </>
+            )}
+          </button>
+          {isExporting && progress.current && (
+            <p className="text-[10px] font-light text-neutral-400 text-center truncate">{progress.current}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
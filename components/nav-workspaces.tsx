@@ -46,12 +46,12 @@ export function NavWorkspaces({
   const [openWorkspaces, setOpenWorkspaces] = React.useState<Set<string>>(new Set())
   const [openSections, setOpenSections] = React.useState<Record<string, Set<string>>>({})
 
-  const loadChats = React.useCallback(() => {
+  const loadChats = React.useCallback(async () => {
     const chats: Record<string, ChatHistory[]> = {}
-    workspaces.forEach((workspace) => {
+    await Promise.all(workspaces.map(async (workspace) => {
       const workspaceId = workspace.name.toLowerCase().replace(/\s+/g, '-')
-      chats[workspaceId] = getChatsByWorkspace(workspaceId)
-    })
+      chats[workspaceId] = await getChatsByWorkspace(workspaceId)
+    }))
     setWorkspaceChats(chats)
   }, [workspaces])
 
@@ -66,14 +66,14 @@ export function NavWorkspaces({
     }
   }, [loadChats])
 
-  const handleChatClick = (chatId: string) => {
-    router.push(`/dashboard/chat/${chatId}`)
+  const handleChatClick = (chat: ChatHistory) => {
+    router.push(`/dashboard/chat/${chat.id}?workspace=${chat.workspaceId}`)
   }
 
-  const handleDeleteChat = (e: React.MouseEvent, chatId: string) => {
+  const handleDeleteChat = async (e: React.MouseEvent, chatId: string) => {
     e.stopPropagation()
     if (confirm('Delete this chat?')) {
-      deleteChatFromHistory(chatId)
+      await deleteChatFromHistory(chatId)
       loadChats()
       window.dispatchEvent(new Event('chat-updated'))
     }
@@ -164,13 +164,11 @@ export function NavWorkspaces({
                     </DropdownMenuTrigger>
                     <DropdownMenuContent side="right" align="start">
                       <DropdownMenuItem
-                        onClick={(e) => {
+                        onClick={async (e) => {
                           e.stopPropagation()
                           if (confirm(`Delete workspace "${workspace.name}" and all its chats?`)) {
                             // Delete all chats in this workspace
-                            chats.forEach(chat => {
-                              deleteChatFromHistory(chat.id)
-                            })
+                            await Promise.all(chats.map(chat => deleteChatFromHistory(chat.id)))
                             // Remove workspace from localStorage
                             const stored = localStorage.getItem('lume-workspaces')
                             if (stored) {
@@ -220,7 +218,7 @@ export function NavWorkspaces({
                               chats.map((chat) => (
                                 <SidebarMenuSubItem key={chat.id}>
                                   <SidebarMenuSubButton
-                                    onClick={() => handleChatClick(chat.id)}
+                                    onClick={() => handleChatClick(chat)}
                                     className="group pl-6"
                                   >
                                     <div className="flex-1 min-w-0">
@@ -303,7 +301,7 @@ export function NavWorkspaces({
                                 .map((chat) => (
                                   <SidebarMenuSubItem key={`screenshot-${chat.id}`}>
                                     <SidebarMenuSubButton
-                                      onClick={() => handleChatClick(chat.id)}
+                                      onClick={() => handleChatClick(chat)}
                                       className="pl-6"
                                     >
                                       <span className="text-xs">📸</span>
@@ -352,7 +350,7 @@ export function NavWorkspaces({
                                 .map((chat) => (
                                   <SidebarMenuSubItem key={`asset-${chat.id}`}>
                                     <SidebarMenuSubButton
-                                      onClick={() => handleChatClick(chat.id)}
+                                      onClick={() => handleChatClick(chat)}
                                       className="pl-6"
                                     >
                                       <span className="text-xs">🎨</span>
@@ -373,6 +371,18 @@ export function NavWorkspaces({
                           </div>
                         </CollapsibleContent>
                       </Collapsible>
+
+                      {/* Brand Kit */}
+                      <SidebarMenuSubItem>
+                        <SidebarMenuSubButton
+                          onClick={() => router.push(`/dashboard/brand?workspace=${workspaceId}`)}
+                          className="group"
+                        >
+                          <span className="w-3" />
+                          <span className="text-sm">🎨</span>
+                          <span className="text-xs font-medium">Brand Kit</span>
+                        </SidebarMenuSubButton>
+                      </SidebarMenuSubItem>
                     </SidebarMenuSub>
                   </CollapsibleContent>
                 </SidebarMenuItem>
@@ -0,0 +1,252 @@
+"use client"
+
+import * as React from "react"
+import { X, Check, CloudUpload, AlertTriangle } from "lucide-react"
+import { APP_STORE_SIZES, PLAY_STORE_SIZES, type ExportSize } from "@/lib/ai-helpers"
+import { BASE_LOCALE, getLocale, getProjectLocales } from "@/lib/localization"
+import type { Screen } from "@/lib/scene-graph"
+import {
+  hasAppStoreCredentials,
+  hasGooglePlayCredentials,
+  loadStoreCredentials,
+  type StoreCredentials,
+} from "@/lib/store-credentials"
+import { STORE_NAMES, getStoreLanguage, validateUpload, type StoreId } from "@/lib/store-rules"
+import { planStoreUpload, uploadScreens, type StoreUploadResult, type UploadProgress } from "@/lib/store-upload"
+
+interface StoreUploadDialogProps {
+  screens: Screen[]
+  onClose: () => void
+}
+
+const STORES: Array<{ value: StoreId; sizes: ExportSize[] }> = [
+  { value: "app_store", sizes: APP_STORE_SIZES },
+  { value: "play_store", sizes: PLAY_STORE_SIZES },
+]
+
+export function StoreUploadDialog({ screens, onClose }: StoreUploadDialogProps) {
+  const [store, setStore] = React.useState<StoreId>("app_store")
+  const [credentials, setCredentials] = React.useState<StoreCredentials | null>(null)
+  const [selectedSizes, setSelectedSizes] = React.useState<string[]>(APP_STORE_SIZES.slice(0, 2).map(s => s.name))
+  const projectLocales = React.useMemo(() => getProjectLocales(screens), [screens])
+  const [selectedLocales, setSelectedLocales] = React.useState<string[]>(() => [BASE_LOCALE, ...getProjectLocales(screens)])
+  const [progress, setProgress] = React.useState<UploadProgress | null>(null)
+  const [result, setResult] = React.useState<StoreUploadResult | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+
+  // Credentials live in localStorage, so they're read after mounting
+  React.useEffect(() => {
+    setCredentials(loadStoreCredentials())
+  }, [])
+
+  const isUploading = progress !== null
+  const storeSizes = STORES.find(option => option.value === store)?.sizes ?? []
+  const hasCredentials = !!credentials && (store === "app_store" ? hasAppStoreCredentials(credentials) : hasGooglePlayCredentials(credentials))
+
+  const uploadOptions = {
+    store,
+    sizes: storeSizes.filter(s => selectedSizes.includes(s.name)),
+    locales: [BASE_LOCALE, ...projectLocales].filter(code => selectedLocales.includes(code)),
+  }
+  const items = planStoreUpload(screens, uploadOptions)
+  const issues = validateUpload(items)
+
+  const selectStore = (value: StoreId) => {
+    setStore(value)
+    setSelectedSizes((value === "app_store" ? APP_STORE_SIZES.slice(0, 2) : PLAY_STORE_SIZES.slice(0, 1)).map(s => s.name))
+    setResult(null)
+    setError(null)
+  }
+
+  const toggleSize = (size: ExportSize) => {
+    setSelectedSizes(prev =>
+      prev.includes(size.name) ? prev.filter(n => n !== size.name) : [...prev, size.name]
+    )
+  }
+
+  const toggleLocale = (code: string) => {
+    setSelectedLocales(prev =>
+      prev.includes(code) ? prev.filter(c => c !== code) : [...prev, code]
+    )
+  }
+
+  const handleUpload = async () => {
+    if (!credentials) return
+    setError(null)
+    setResult(null)
+    setProgress({ completed: 0, total: items.length, current: "" })
+    try {
+      setResult(await uploadScreens(screens, { ...uploadOptions, credentials, onProgress: setProgress }))
+    } catch (err) {
+      console.error("Upload failed:", err)
+      setError(err instanceof Error ? err.message : "Failed to upload screenshots. Please try again.")
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-neutral-900/50 p-4"
+      onClick={() => !isUploading && onClose()}
+    >
+      <div
+        className="relative w-full max-w-lg max-h-full overflow-y-auto bg-white p-6 border border-neutral-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          disabled={isUploading}
+          className="absolute top-4 right-4 p-1.5 hover:bg-neutral-100 transition-all duration-200"
+        >
+          <X className="h-4 w-4 text-neutral-500 hover:text-neutral-900" />
+        </button>
+
+        <div className="mb-6">
+          <h3 className="text-lg font-light text-neutral-900 mb-2">Upload to Store</h3>
+          <p className="text-sm font-light text-neutral-500">
+            Screens are rendered at every selected size{projectLocales.length > 0 && " and language"} and replace the screenshots already in the store listing.
+            {store === "app_store"
+              ? " Old screenshots are deleted once the new ones are uploaded, except any that don't fit next to them, which are deleted first."
+              : " Nothing changes on Google Play until every image is uploaded."}
+          </p>
+        </div>
+
+        <div className="space-y-5">
+          {/* Store */}
+          <div className="flex gap-1.5">
+            {STORES.map(option => (
+              <button
+                key={option.value}
+                onClick={() => selectStore(option.value)}
+                disabled={isUploading}
+                className={`flex-1 p-2 text-xs border transition-all duration-200 ${
+                  store === option.value
+                    ? "bg-neutral-900 text-white border-neutral-900"
+                    : "bg-neutral-50 text-neutral-600 border-neutral-200 hover:border-neutral-300 hover:bg-neutral-100"
+                }`}
+              >
+                {STORE_NAMES[option.value]}
+              </button>
+            ))}
+          </div>
+
+          {credentials && !hasCredentials && (
+            <p className="text-xs font-light text-neutral-600 bg-neutral-50 border border-neutral-200 p-3">
+              Add your {STORE_NAMES[store]} credentials in{" "}
+              <a href="/dashboard/settings" className="underline hover:text-neutral-900">Settings → API Keys</a> to upload.
+            </p>
+          )}
+
+          {/* Device Sizes */}
+          <div>
+            <h4 className="text-[11px] font-semibold text-neutral-500 mb-2 uppercase tracking-wide">Devices</h4>
+            <div className="grid grid-cols-2 gap-2">
+              {storeSizes.map(size => {
+                const isSelected = selectedSizes.includes(size.name)
+                return (
+                  <button
+                    key={size.name}
+                    onClick={() => toggleSize(size)}
+                    disabled={isUploading}
+                    className={`px-3 py-2 text-left border transition-all duration-200 flex items-center justify-between ${
+                      isSelected
+                        ? "border-neutral-900 bg-neutral-50"
+                        : "border-neutral-200 hover:border-neutral-300"
+                    }`}
+                  >
+                    <span>
+                      <span className="block text-xs text-neutral-900">{size.name}</span>
+                      <span className="block text-[10px] font-light text-neutral-400">{size.width} × {size.height}</span>
+                    </span>
+                    {isSelected && <Check className="h-3.5 w-3.5 text-neutral-900" />}
+                  </button>
+                )
+              })}
+            </div>
+          </div>
+
+          {/* Languages */}
+          {projectLocales.length > 0 && (
+            <div>
+              <h4 className="text-[11px] font-semibold text-neutral-500 mb-2 uppercase tracking-wide">Languages</h4>
+              <div className="grid grid-cols-2 gap-2">
+                {[BASE_LOCALE, ...projectLocales].map(code => {
+                  const isSelected = selectedLocales.includes(code)
+                  return (
+                    <button
+                      key={code}
+                      onClick={() => toggleLocale(code)}
+                      disabled={isUploading}
+                      className={`px-3 py-2 text-left border transition-all duration-200 flex items-center justify-between ${
+                        isSelected
+                          ? "border-neutral-900 bg-neutral-50"
+                          : "border-neutral-200 hover:border-neutral-300"
+                      }`}
+                    >
+                      <span>
+                        <span className="block text-xs text-neutral-900">{getLocale(code)?.name ?? code}</span>
+                        <span className="block text-[10px] font-light text-neutral-400">{getStoreLanguage(store, code)}</span>
+                      </span>
+                      {isSelected && <Check className="h-3.5 w-3.5 text-neutral-900" />}
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Store rules the selection breaks */}
+          {issues.length > 0 && (
+            <ul className="space-y-1">
+              {issues.map(issue => (
+                <li key={`${issue.locale}/${issue.size}/${issue.message}`} className="flex items-start gap-2 text-xs font-light text-amber-700">
+                  <AlertTriangle className="h-3.5 w-3.5 mt-px shrink-0" />
+                  <span>{issue.size}{projectLocales.length > 0 && ` (${issue.locale})`}: {issue.message}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          {result && (
+            <p className="text-xs font-light text-green-700">
+              Uploaded {result.uploaded} images to {result.target === "mock" ? "the local stand-in server" : STORE_NAMES[store]}.
+            </p>
+          )}
+
+          <button
+            onClick={handleUpload}
+            disabled={isUploading || !hasCredentials || items.length === 0 || issues.length > 0}
+            className="w-full px-4 py-3 text-sm font-light bg-neutral-900 text-white hover:bg-neutral-800 transition-all duration-200 border border-neutral-900 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isUploading ? (
+              <>
+                <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent"></div>
+                {progress.completed < progress.total ? `Uploading ${progress.completed + 1} of ${progress.total}...` : "Finishing..."}
+              </>
+            ) : (
+              <>
+                <CloudUpload className="h-4 w-4" />
+                Upload {items.length} images
+              </>
+            )}
+          </button>
+          {isUploading && (
+            <>
+              <div className="h-1 bg-neutral-100">
+                <div
+                  className="h-full bg-neutral-900 transition-all duration-200"
+                  style={{ width: `${progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}%` }}
+                />
+              </div>
+              {progress.current && (
+                <p className="text-[10px] font-light text-neutral-400 text-center truncate">{progress.current}</p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+"use client"
+
+import * as React from "react"
+import type { Screen } from "@/lib/scene-graph"
+import { renderScreenToDataURL } from "@/lib/scene-renderer"
+
+// Preview resolution relative to the logical canvas
+const THUMBNAIL_SCALE = 0.5
+
+/**
+ * Template preview rendered by the exporter, so it shows exactly what
+ * applying the template produces
+ */
+export function TemplateThumbnail({ screen, alt }: { screen: Screen; alt: string }) {
+  const [thumbnail, setThumbnail] = React.useState<{ screen: Screen; src: string } | null>(null)
+
+  React.useEffect(() => {
+    let cancelled = false
+    renderScreenToDataURL(screen, { scale: THUMBNAIL_SCALE })
+      .then(src => { if (!cancelled) setThumbnail({ screen, src }) })
+      .catch(error => console.error('Template preview failed:', error))
+    return () => { cancelled = true }
+  }, [screen])
+
+  // Keep the last preview up while a new one renders
+  if (!thumbnail) {
+    return <div className="w-full h-full bg-neutral-100 animate-pulse" />
+  }
+  return (
+    // Rendered data URL; nothing for next/image to optimize
+    <img
+      src={thumbnail.src}
+      alt={alt}
+      className={`w-full h-full object-cover transition-opacity ${thumbnail.screen === screen ? '' : 'opacity-60'}`}
+      draggable={false}
+    />
+  )
+}
@@ -0,0 +1,54 @@
+"use client"
+
+import * as React from "react"
+import { TEXT_PADDING_X, type Layer } from "@/lib/scene-graph"
+import { layoutText, type MeasureText } from "@/lib/text-layout"
+
+interface TextLayerContentProps {
+  layer: Layer
+  zoom: number
+  measure: MeasureText
+}
+
+/**
+ * Text layer in the editor. Lines come from the shared text layout rather
+ * than CSS wrapping, so they break exactly where the exported image does.
+ */
+export function TextLayerContent({ layer, zoom, measure }: TextLayerContentProps) {
+  const layout = React.useMemo(() => layoutText(layer, measure), [layer, measure])
+  const lineHeight = layout.lineHeight * zoom
+
+  return (
+    <div
+      className="w-full h-full flex flex-col justify-center whitespace-pre"
+      style={{
+        paddingLeft: TEXT_PADDING_X * zoom,
+        paddingRight: TEXT_PADDING_X * zoom,
+        fontSize: layout.fontSize * zoom,
+        fontFamily: layout.fontFamily,
+        letterSpacing: layout.letterSpacing ? layout.letterSpacing * zoom : undefined,
+        lineHeight: `${lineHeight}px`,
+        textAlign: layer.align || 'left',
+        direction: layer.textDirection,
+      }}
+    >
+      {layout.lines.map((line, lineIndex) => (
+        <div key={lineIndex} className="shrink-0" style={{ height: lineHeight }}>
+          {line.runs.map((run, runIndex) => (
+            <span
+              key={runIndex}
+              style={{
+                color: run.color,
+                fontWeight: run.bold ? 700 : 400,
+                fontStyle: run.italic ? 'italic' : 'normal',
+                textDecoration: run.underline ? 'underline' : 'none',
+              }}
+            >
+              {run.text}
+            </span>
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
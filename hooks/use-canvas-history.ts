@@ -0,0 +1,73 @@
+import * as React from "react"
+import {
+  createHistory,
+  recordChange,
+  travelTo,
+  canUndo,
+  canRedo,
+  type HistoryMeta,
+  type HistoryState,
+} from "@/lib/canvas-history"
+import type { Screen } from "@/lib/scene-graph"
+
+interface CanvasState {
+  screens: Screen[]
+  history: HistoryState
+}
+
+type ScreensUpdate = Screen[] | ((prev: Screen[]) => Screen[])
+
+/**
+ * Screens state with undo/redo. Every edit goes through `updateScreens`
+ * with a label; `resetScreens` replaces the document and clears history.
+ */
+export function useCanvasHistory(initialScreens: Screen[] = []) {
+  const [state, setState] = React.useState<CanvasState>(() => ({
+    screens: initialScreens,
+    history: createHistory(),
+  }))
+  // Mirror of the latest state so rapid updates (rAF drags) never read stale screens
+  const stateRef = React.useRef(state)
+
+  const commit = React.useCallback((next: CanvasState) => {
+    stateRef.current = next
+    setState(next)
+  }, [])
+
+  const updateScreens = React.useCallback((update: ScreensUpdate, meta: HistoryMeta) => {
+    const { screens, history } = stateRef.current
+    const next = typeof update === "function" ? update(screens) : update
+    if (next === screens) return
+    commit({ screens: next, history: recordChange(history, screens, next, meta) })
+  }, [commit])
+
+  const resetScreens = React.useCallback((screens: Screen[]) => {
+    commit({ screens, history: createHistory() })
+  }, [commit])
+
+  const jumpTo = React.useCallback((pointer: number) => {
+    const { screens, history } = stateRef.current
+    if (pointer === history.pointer || pointer < 0 || pointer > history.entries.length) return
+    commit(travelTo(history, screens, pointer))
+  }, [commit])
+
+  const undo = React.useCallback(() => {
+    jumpTo(stateRef.current.history.pointer - 1)
+  }, [jumpTo])
+
+  const redo = React.useCallback(() => {
+    jumpTo(stateRef.current.history.pointer + 1)
+  }, [jumpTo])
+
+  return {
+    screens: state.screens,
+    history: state.history,
+    canUndo: canUndo(state.history),
+    canRedo: canRedo(state.history),
+    updateScreens,
+    resetScreens,
+    undo,
+    redo,
+    jumpTo,
+  }
+}
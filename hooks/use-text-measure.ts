@@ -0,0 +1,38 @@
+import * as React from "react"
+import { measureWithContext, type MeasureText } from "@/lib/text-layout"
+
+// Measures on a scratch canvas, remembering every font/string pair
+function createCachedMeasure(): MeasureText {
+  const ctx = typeof document !== "undefined" ? document.createElement("canvas").getContext("2d") : null
+  // Server render has no canvas; estimate until the client measures for real
+  const measure: MeasureText = ctx
+    ? measureWithContext(ctx)
+    : (text, font) => text.length * parseFloat(font.match(/([\d.]+)px/)?.[1] ?? "16") * 0.5
+  const cache = new Map<string, number>()
+
+  return (text, font) => {
+    const key = `${font}|${text}`
+    let width = cache.get(key)
+    if (width === undefined) {
+      width = measure(text, font)
+      cache.set(key, width)
+    }
+    return width
+  }
+}
+
+/**
+ * Text measuring for the editor's text layout. Returns a new function once
+ * web fonts finish loading so text boxes re-wrap with the real metrics.
+ */
+export function useTextMeasure(): MeasureText {
+  const [measure, setMeasure] = React.useState(createCachedMeasure)
+
+  React.useEffect(() => {
+    const onLoaded = () => setMeasure(() => createCachedMeasure())
+    document.fonts.addEventListener("loadingdone", onLoaded)
+    return () => document.fonts.removeEventListener("loadingdone", onLoaded)
+  }, [])
+
+  return measure
+}
@@ -0,0 +1,89 @@
+/**
+ * AI Client - browser side of the /api/ai route handlers
+ * Provider keys live on the server; the client only ever talks to these routes.
+ * Every request carries the per-feature model choices from AI settings.
+ */
+
+import { AI_SETTINGS_HEADER, loadAISettings } from "./ai-settings"
+
+export class AIRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = "AIRequestError"
+  }
+}
+
+function aiHeaders(json: boolean): HeadersInit {
+  return {
+    ...(json && { "Content-Type": "application/json" }),
+    [AI_SETTINGS_HEADER]: JSON.stringify(loadAISettings()),
+  }
+}
+
+async function toRequestError(response: Response): Promise<AIRequestError> {
+  const body = await response.json().catch(() => null)
+  return new AIRequestError(body?.error || `Request failed: ${response.status}`, response.status)
+}
+
+export async function postAI<T>(path: string, body: unknown): Promise<T> {
+  const response = await fetch(`/api/ai/${path}`, {
+    method: "POST",
+    headers: aiHeaders(true),
+    body: JSON.stringify(body),
+  })
+  if (!response.ok) {
+    throw await toRequestError(response)
+  }
+  return response.json()
+}
+
+export async function getAI<T>(path: string): Promise<T> {
+  const response = await fetch(`/api/ai/${path}`, { headers: aiHeaders(false) })
+  if (!response.ok) {
+    throw await toRequestError(response)
+  }
+  return response.json()
+}
+
+/**
+ * POST to a streaming route and yield tokens from its SSE events
+ */
+export async function* streamAI(path: string, body: unknown): AsyncGenerator<string> {
+  const response = await fetch(`/api/ai/${path}`, {
+    method: "POST",
+    headers: aiHeaders(true),
+    body: JSON.stringify(body),
+  })
+  if (!response.ok) {
+    throw await toRequestError(response)
+  }
+
+  const reader = response.body?.getReader()
+  if (!reader) {
+    throw new AIRequestError("No response body", 502)
+  }
+
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const events = buffer.split("\n\n")
+    buffer = events.pop() ?? ""
+
+    for (const event of events) {
+      if (!event.startsWith("data: ")) continue
+      const data = event.slice(6)
+      if (data === "[DONE]") return
+
+      const parsed = JSON.parse(data) as { token?: string; error?: string }
+      if (parsed.error) {
+        throw new AIRequestError(parsed.error, 502)
+      }
+      if (parsed.token) yield parsed.token
+    }
+  }
+}
@@ -5,18 +5,9 @@
  */
 
 import { z } from "zod"
-
-// ===========================
-// GEMINI NANO BANANA CONFIG
-// ===========================
-
-const GEMINI_API_KEY = process.env.NEXT_PUBLIC_GEMINI_NANO_KEY || ""
-
-// Using REST API for client-side compatibility
-// Model: gemini-2.0-flash-exp (text generation)
-// For image generation, use gemini-2.5-flash-image when available
-const GEMINI_TEXT_MODEL = "gemini-2.0-flash-exp"
-const GEMINI_API_BASE = "https://generativelanguage.googleapis.com/v1beta"
+import { postAI } from "./ai-client"
+import type { BrandConstraints } from "./ai-schemas"
+import { applyBrandToStrategy } from "./brand-kit"
 
 // ===========================
 // ZOD SCHEMAS FOR VALIDATION
@@ -60,206 +51,16 @@ export type ScreenLayout = z.infer<typeof ScreenLayoutSchema>
 export type AIResponse = z.infer<typeof AIResponseSchema>
 
 // ===========================
-// OPENAI SYSTEM PROMPT
-// ===========================
-
-export const SYSTEM_PROMPT = `You are an App Store marketing expert specializing in screenshot design.
-Your job is to transform an app description into structured App Store screenshot instructions.
-
-CRITICAL: Output ONLY valid JSON. Use EXACT enum values as specified below.
-
-VALID VALUES (use EXACTLY as shown, case-sensitive):
-- tone: MUST be one of: "clean", "bold", "professional", "playful", "minimal"
-- layout: MUST be one of: "iphone_centered", "iphone_offset", "iphone_feature_list", "iphone_comparison", "iphone_hero"
-- background: MUST be one of: "soft_gradient", "solid_light", "solid_dark", "branded", "minimal"
-- emphasis: MUST be one of: "dashboard", "charts", "social", "onboarding", "feature"
-
-LAYOUT TYPES:
-- iphone_centered: Main app screen centered with headline above
-- iphone_offset: Screen offset to one side, text on the other
-- iphone_feature_list: Small screen preview with bullet points
-- iphone_comparison: Before/after or side-by-side comparison
-- iphone_hero: Large, impactful hero screen with minimal text
-
-BACKGROUND STYLES:
-- soft_gradient: Subtle gradient background
-- solid_light: Clean white or light gray
-- solid_dark: Dark background for contrast
-- branded: Use brand colors (if mentioned)
-- minimal: No background distractions
-
-EMPHASIS OPTIONS:
-- dashboard: Highlight main interface
-- charts: Focus on data visualization
-- social: Show community/sharing features
-- onboarding: Welcome/tutorial screens
-- feature: Specific feature deep-dive
-
-OUTPUT FORMAT (example):
-{
-  "theme": "finance",
-  "tone": "professional",
-  "targetAudience": "young professionals managing budgets",
-  "screens": [
-    {
-      "id": "screen_1",
-      "headline": "Track Every Expense",
-      "subheadline": "Stay on top of your spending",
-      "layout": "iphone_centered",
-      "background": "soft_gradient",
-      "emphasis": "dashboard"
-    },
-    {
-      "id": "screen_2",
-      "headline": "Visualize Your Budget",
-      "layout": "iphone_offset",
-      "background": "solid_light",
-      "emphasis": "charts"
-    }
-  ]
-}
-
-RULES:
-- Generate 3-5 screens that tell a story
-- Headlines: Max 8 words (50 characters max)
-- Focus on user benefits, not technical features
-- Use ONLY the exact enum values listed above
-- No markdown, no code blocks, ONLY JSON
-
-Now analyze the user's app description and generate the JSON structure.`
-
-// ===========================
-// SANITIZATION HELPERS
-// ===========================
-
-/**
- * Sanitize and coerce AI response to match schema
- */
-function sanitizeAIResponse(response: any): any {
-  // Valid enum values
-  const validTones = ["clean", "bold", "professional", "playful", "minimal"]
-  const validEmphases = ["dashboard", "charts", "social", "onboarding", "feature"]
-  const validLayouts = ["iphone_centered", "iphone_offset", "iphone_feature_list", "iphone_comparison", "iphone_hero"]
-  const validBackgrounds = ["soft_gradient", "solid_light", "solid_dark", "branded", "minimal"]
-  
-  // Coerce tone to valid value
-  if (response.tone && !validTones.includes(response.tone)) {
-    console.warn(`Invalid tone "${response.tone}", defaulting to "professional"`)
-    response.tone = "professional"
-  }
-  
-  // Ensure tone is set
-  if (!response.tone) {
-    response.tone = "professional"
-  }
-  
-  // Coerce screens
-  if (Array.isArray(response.screens)) {
-    response.screens = response.screens.map((screen: any) => {
-      // Coerce emphasis
-      if (screen.emphasis && !validEmphases.includes(screen.emphasis)) {
-        console.warn(`Invalid emphasis "${screen.emphasis}", defaulting to "feature"`)
-        screen.emphasis = "feature"
-      }
-      
-      // Coerce layout
-      if (screen.layout && !validLayouts.includes(screen.layout)) {
-        console.warn(`Invalid layout "${screen.layout}", defaulting to "iphone_centered"`)
-        screen.layout = "iphone_centered"
-      }
-      
-      // Coerce background
-      if (screen.background && !validBackgrounds.includes(screen.background)) {
-        console.warn(`Invalid background "${screen.background}", defaulting to "soft_gradient"`)
-        screen.background = "soft_gradient"
-      }
-      
-      return screen
-    })
-  }
-  
-  return response
-}
-
-// ===========================
-// OPENAI API CALL (READY TO USE)
+// STRUCTURE GENERATION
 // ===========================
 
+// Generated server-side by /api/ai/structure, optionally guided by a
+// prompt strategy analysis
 export async function generateScreenshotStructure(
   userPrompt: string,
-  apiKey?: string,
   promptAnalysis?: PromptAnalysis
 ): Promise<AIResponse> {
-  const key = apiKey || process.env.NEXT_PUBLIC_OPENAI_API_KEY
-
-  if (!key) {
-    throw new Error("OpenAI API key not found")
-  }
-
-  // Enhanced prompt with analysis context
-  let enhancedPrompt = userPrompt
-  if (promptAnalysis) {
-    enhancedPrompt = `User Request: ${userPrompt}
-
-Analysis Context:
-- App Category: ${promptAnalysis.appCategory}
-- Target Audience: ${promptAnalysis.targetAudience}
-- Visual Style: ${promptAnalysis.visualStyle.mood}, ${promptAnalysis.visualStyle.designStyle}
-- Key Features: ${promptAnalysis.keyFeatures.join(", ")}
-- Recommended Screenshots: ${promptAnalysis.screenshotStrategy.recommendedCount}
-- Story Arc: ${promptAnalysis.screenshotStrategy.storytellingArc.join(" → ")}
-
-Please generate screenshot structures that align with this analysis.`
-  }
-
-  try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${key}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        messages: [
-          { role: "system", content: SYSTEM_PROMPT },
-          { role: "user", content: enhancedPrompt },
-        ],
-        temperature: 0.7,
-        max_tokens: 1000,
-        response_format: { type: "json_object" }, // Force JSON output
-      }),
-    })
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.statusText}`)
-    }
-
-    const data = await response.json()
-    const content = data.choices[0]?.message?.content
-
-    if (!content) {
-      throw new Error("No response from OpenAI")
-    }
-
-    // Parse and validate with Zod
-    const parsed = JSON.parse(content)
-    console.log('Raw OpenAI response:', parsed)
-    
-    // Sanitize response before validation
-    const sanitized = sanitizeAIResponse(parsed)
-    console.log('Sanitized response:', sanitized)
-    
-    const validated = AIResponseSchema.parse(sanitized)
-
-    return validated
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      console.error("Validation error:", error.issues)
-      throw new Error("AI response did not match expected format. Retrying...")
-    }
-    throw error
-  }
+  return postAI<AIResponse>("structure", { prompt: userPrompt, promptAnalysis })
 }
 
 // ===========================
@@ -518,7 +319,7 @@ export function generateMockAIResponse(userPrompt: string): AIResponse {
 }
 
 // ===========================
-// PROMPT ANALYSIS WITH GEMINI
+// PROMPT STRATEGY ANALYSIS
 // ===========================
 
 export interface PromptAnalysis {
@@ -540,116 +341,17 @@ export interface PromptAnalysis {
   suggestions: string[]
 }
 
-export async function analyzeUserPrompt(userPrompt: string, retryCount = 0): Promise<PromptAnalysis> {
-  if (!GEMINI_API_KEY) {
-    console.warn("⚠️ Gemini API key not found, using fallback analysis")
-    return fallbackPromptAnalysis(userPrompt)
-  }
-
+// Analyzed server-side by /api/ai/prompt-strategy, within the workspace brand kit if any
+export async function analyzePromptStrategy(userPrompt: string, brand?: BrandConstraints): Promise<PromptAnalysis> {
   try {
-    const analysisPrompt = `You are an expert App Store marketing analyst. Analyze the following user prompt for creating app screenshots and provide a detailed analysis.
-
-User Prompt: "${userPrompt}"
-
-Provide a comprehensive analysis in JSON format with the following structure:
-{
-  "appCategory": "primary category (e.g., fitness, finance, social, productivity, etc.)",
-  "appName": "detected or inferred app name",
-  "keyFeatures": ["list", "of", "main", "features", "to", "highlight"],
-  "targetAudience": "description of target users",
-  "visualStyle": {
-    "mood": "overall mood (e.g., energetic, calm, professional, playful)",
-    "colorScheme": ["primary", "colors", "suggested"],
-    "designStyle": "design approach (e.g., minimal, bold, gradient, glassmorphic)"
-  },
-  "screenshotStrategy": {
-    "recommendedCount": 3-5,
-    "focusAreas": ["what", "to", "emphasize", "in", "each", "screenshot"],
-    "storytellingArc": ["screen 1 purpose", "screen 2 purpose", "screen 3 purpose"]
-  },
-  "confidence": 0.0-1.0,
-  "suggestions": ["actionable", "suggestions", "for", "better", "screenshots"]
-}
-
-Provide ONLY the JSON response, no markdown or explanations.`
-
-    const apiUrl = `${GEMINI_API_BASE}/models/${GEMINI_TEXT_MODEL}:generateContent?key=${GEMINI_API_KEY}`
-    
-    const response = await fetch(apiUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: analysisPrompt
-          }]
-        }],
-        generationConfig: {
-          temperature: 0.4,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 2048,
-          responseMimeType: "application/json"
-        }
-      })
-    })
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}))
-      
-      // Handle 429 rate limit with retry
-      if (response.status === 429) {
-        console.warn("⚠️ Gemini API rate limit (60 req/min)")
-        if (retryCount === 0) {
-          console.log("⏳ Retrying in 2 seconds...")
-          await new Promise(resolve => setTimeout(resolve, 2000))
-          return analyzeUserPrompt(userPrompt, retryCount + 1)
-        }
-        console.log("🔄 Using fallback analysis")
-        return fallbackPromptAnalysis(userPrompt)
-      }
-      
-      // Handle 400 - invalid request
-      if (response.status === 400) {
-        console.error("❌ Invalid API request:", errorData)
-        return fallbackPromptAnalysis(userPrompt)
-      }
-      
-      // Handle 403 - invalid API key
-      if (response.status === 403) {
-        console.error("❌ Invalid Gemini API key")
-        return fallbackPromptAnalysis(userPrompt)
-      }
-      
-      // Other errors
-      console.error("❌ Gemini API error:", response.status, errorData)
-      return fallbackPromptAnalysis(userPrompt)
-    }
-
-    const data = await response.json()
-    const textContent = data.candidates?.[0]?.content?.parts?.[0]?.text
-
-    if (!textContent) {
-      console.warn("⚠️ No response from Gemini")
-      return fallbackPromptAnalysis(userPrompt)
-    }
-
-    // Clean up potential markdown formatting
-    const cleanedContent = textContent.replace(/```json\n?|\n?```/g, "").trim()
-    const analysis = JSON.parse(cleanedContent)
-    
-    console.log("✅ Gemini analysis:", analysis.appCategory)
-    return analysis as PromptAnalysis
+    return await postAI<PromptAnalysis>("prompt-strategy", { prompt: userPrompt, brand })
   } catch (error) {
-    console.error("❌ Error:", error instanceof Error ? error.message : error)
-    console.log("🔄 Using fallback analysis")
-    return fallbackPromptAnalysis(userPrompt)
+    console.error("Prompt strategy analysis failed:", error instanceof Error ? error.message : error)
+    return applyBrandToStrategy(fallbackPromptAnalysis(userPrompt), brand)
   }
 }
 
-function fallbackPromptAnalysis(userPrompt: string): PromptAnalysis {
+export function fallbackPromptAnalysis(userPrompt: string): PromptAnalysis {
   const promptLower = userPrompt.toLowerCase()
   
   let category = "general"
@@ -811,67 +513,6 @@ function generateGradientFromDescription(description: string): string {
   return "linear-gradient(135deg, #667eea 0%, #764ba2 100%)"
 }
 
-// ===========================
-// ENHANCED SCREENSHOT ENHANCEMENT
-// ===========================
-
-export async function enhanceScreenshotWithAI(
-  imageBase64: string,
-  enhancement: "clarity" | "color" | "professional" | "vibrant"
-): Promise<string> {
-  if (!GEMINI_API_KEY) {
-    console.warn("Gemini API key not found, returning original image")
-    return imageBase64
-  }
-
-  const enhancementPrompts = {
-    clarity: "Enhance the clarity and sharpness of this app screenshot while maintaining authenticity",
-    color: "Enhance the colors to be more vibrant and appealing while keeping it natural",
-    professional: "Make this screenshot look more professional and polished for App Store presentation",
-    vibrant: "Make the colors more vibrant and eye-catching for marketing purposes"
-  }
-
-  try {
-    const response = await fetch(`${GEMINI_API_BASE}/models/${GEMINI_TEXT_MODEL}:generateContent?key=${GEMINI_API_KEY}`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [
-            {
-              text: enhancementPrompts[enhancement]
-            },
-            {
-              inlineData: {
-                mimeType: "image/jpeg",
-                data: imageBase64.split(",")[1] // Remove data:image/jpeg;base64, prefix
-              }
-            }
-          ]
-        }],
-        generationConfig: {
-          temperature: 0.4,
-        }
-      })
-    })
-
-    if (!response.ok) {
-      throw new Error(`Gemini API error: ${response.statusText}`)
-    }
-
-    const data = await response.json()
-    
-    // For now, return original as Gemini API response format varies
-    // In production, extract enhanced image from response
-    return imageBase64
-  } catch (error) {
-    console.error("Screenshot enhancement error:", error)
-    return imageBase64
-  }
-}
-
 // ===========================
 // EXPORT UTILITIES
 // ===========================
@@ -886,14 +527,32 @@ export interface ExportOptions {
   }>
 }
 
-export const APP_STORE_SIZES = [
-  { name: "iPhone 6.7", width: 1290, height: 2796 },
-  { name: "iPhone 6.5", width: 1242, height: 2688 },
-  { name: "iPhone 5.5", width: 1242, height: 2208 },
-  { name: "iPad Pro 12.9", width: 2048, height: 2732 },
-  { name: "iPad Pro 11", width: 1668, height: 2388 },
+export interface ExportSize {
+  name: string
+  width: number
+  height: number
+  store: "app_store" | "play_store"
+  // deliver display type (App Store) or supply image type (Google Play)
+  fastlane: string
+}
+
+export const APP_STORE_SIZES: ExportSize[] = [
+  { name: "iPhone 6.7", width: 1290, height: 2796, store: "app_store", fastlane: "APP_IPHONE_67" },
+  { name: "iPhone 6.5", width: 1242, height: 2688, store: "app_store", fastlane: "APP_IPHONE_65" },
+  { name: "iPhone 5.5", width: 1242, height: 2208, store: "app_store", fastlane: "APP_IPHONE_55" },
+  { name: "iPad Pro 12.9", width: 2048, height: 2732, store: "app_store", fastlane: "APP_IPAD_PRO_3GEN_129" },
+  { name: "iPad Pro 11", width: 1668, height: 2388, store: "app_store", fastlane: "APP_IPAD_PRO_3GEN_11" },
+]
+
+export const PLAY_STORE_SIZES: ExportSize[] = [
+  { name: "Play Phone", width: 1080, height: 1920, store: "play_store", fastlane: "phoneScreenshots" },
+  { name: "Play Tablet 7", width: 1200, height: 1920, store: "play_store", fastlane: "sevenInchScreenshots" },
+  { name: "Play Tablet 10", width: 1600, height: 2560, store: "play_store", fastlane: "tenInchScreenshots" },
+  { name: "Play Feature Graphic", width: 1024, height: 500, store: "play_store", fastlane: "featureGraphic" },
 ]
 
+export const EXPORT_SIZES: ExportSize[] = [...APP_STORE_SIZES, ...PLAY_STORE_SIZES]
+
 /**
  * Calculate scale factor to fit canvas into target size
  */
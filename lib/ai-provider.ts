@@ -0,0 +1,135 @@
+/**
+ * AI Provider - server-side entry point for every AI feature
+ * Route handlers under app/api/ai call the active provider; provider keys
+ * never leave the server. The fake provider serves deterministic
+ * responses so the full flow runs offline (AI_PROVIDER=fake).
+ */
+
+import type { AIResponse, PromptAnalysis } from "./ai-helpers"
+import { fallbackPromptAnalysis } from "./ai-helpers"
+import type { PromptAnalysisResult } from "./prompt-analyzer"
+import { generateFallbackPromptAnalysis } from "./prompt-analyzer"
+import { generateFallbackVisuals } from "./screenshot-analyzer"
+import type { VideoGenerationRequest, VideoGenerationResult } from "./video-generator"
+import { mockVideoGeneration } from "./video-generator"
+import { generateMockMarkdownResponse, generateMockStructure } from "./openai-stream"
+import type {
+  BrandConstraints,
+  CanvasEditProposal,
+  CanvasSummary,
+  ChatContext,
+  ScreenshotVisuals,
+  StructureRequest,
+  TranslateRequest,
+} from "./ai-schemas"
+import { DEFAULT_AI_SETTINGS, type AISettings } from "./ai-settings"
+import { generateMockCanvasEdits } from "./canvas-edits"
+import { generateMockTranslations } from "./localization"
+import { createLiveProvider } from "./live-provider"
+import { hasLLMConfigured } from "./llm-provider"
+
+export interface AIProvider {
+  name: string
+  // Markdown chat reply to the latest message, yielded token by token
+  streamChat(message: string, context?: ChatContext): AsyncIterable<string>
+  // Structured edits to the open canvas for an instruction
+  proposeCanvasEdits(instruction: string, canvas: CanvasSummary, context?: ChatContext): Promise<CanvasEditProposal>
+  generateStructure(prompt: string, promptAnalysis?: StructureRequest["promptAnalysis"]): Promise<AIResponse>
+  // Analyses within a workspace brand kit when one is given
+  analyzePrompt(prompt: string, brand?: BrandConstraints): Promise<PromptAnalysisResult>
+  analyzePromptStrategy(prompt: string, brand?: BrandConstraints): Promise<PromptAnalysis>
+  analyzeScreenshotVisuals(screenshots: string[]): Promise<ScreenshotVisuals>
+  // Copy in another locale by item id, not yet cut to the copy limits
+  translateCopy(items: TranslateRequest["items"], locale: string): Promise<Record<string, string>>
+  createVideo(request: VideoGenerationRequest): Promise<VideoGenerationResult>
+  getVideo(videoId: string): Promise<VideoGenerationResult>
+}
+
+/**
+ * Error raised by a provider when the upstream API fails.
+ * Routes map it to a 502 response.
+ */
+export class AIProviderError extends Error {
+  constructor(message: string, public status = 502) {
+    super(message)
+    this.name = "AIProviderError"
+  }
+}
+
+let override: AIProvider | null = null
+
+/**
+ * Provider selected by AI_PROVIDER ("live" | "fake"). Defaults to the live
+ * provider when any LLM backend is configured, otherwise the fake one.
+ * `settings` picks the backend and model per feature (see ai-settings).
+ */
+export function getAIProvider(settings: AISettings = DEFAULT_AI_SETTINGS): AIProvider {
+  if (override) return override
+
+  const configured = process.env.AI_PROVIDER
+  if (configured === "fake") return fakeProvider
+  if (configured === "live" || hasLLMConfigured()) {
+    return createLiveProvider(settings)
+  }
+  return fakeProvider
+}
+
+/**
+ * Replace the active provider (tests, local tooling). Pass null to reset.
+ */
+export function setAIProvider(provider: AIProvider | null): void {
+  override = provider
+}
+
+// ===========================
+// FAKE PROVIDER
+// ===========================
+
+export const fakeProvider: AIProvider = {
+  name: "fake",
+
+  async *streamChat(message) {
+    const words = generateMockMarkdownResponse(message).split(" ")
+    for (let i = 0; i < words.length; i++) {
+      yield (i === 0 ? "" : " ") + words[i]
+    }
+  },
+
+  async proposeCanvasEdits(instruction, canvas) {
+    return generateMockCanvasEdits(instruction, canvas)
+  },
+
+  async generateStructure(prompt) {
+    return generateMockStructure(prompt)
+  },
+
+  async analyzePrompt(prompt) {
+    return generateFallbackPromptAnalysis(prompt)
+  },
+
+  async analyzePromptStrategy(prompt) {
+    return fallbackPromptAnalysis(prompt)
+  },
+
+  async analyzeScreenshotVisuals() {
+    return generateFallbackVisuals()
+  },
+
+  async translateCopy(items, locale) {
+    return generateMockTranslations(items, locale)
+  },
+
+  async createVideo(request) {
+    return mockVideoGeneration(request)
+  },
+
+  async getVideo(videoId) {
+    return {
+      videoUrl: "/videos/demo-promo.mp4",
+      thumbnailUrl: "/images/video-thumbnail.png",
+      duration: 10,
+      status: "completed",
+      videoId,
+    }
+  },
+}
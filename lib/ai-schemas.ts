@@ -0,0 +1,241 @@
+/**
+ * Request schemas for the /api/ai route handlers
+ * Shared by the routes (validation) and the client wrappers (types)
+ */
+
+import { z } from "zod"
+import { getTemplateById } from "./layout-templates"
+
+// Data URLs of uploaded screenshots; capped to keep request bodies sane
+const ScreenshotSchema = z.string().startsWith("data:image/").max(15_000_000)
+
+// Earlier turn of the conversation, oldest first
+export const ChatTurnSchema = z.object({
+  role: z.enum(["user", "assistant"]),
+  content: z.string().max(20_000),
+})
+
+export const ChatRequestSchema = z.object({
+  message: z.string().trim().min(1).max(8000),
+  // Trimmed to the model's budget on the server (lib/chat-context.ts)
+  history: z.array(ChatTurnSchema).max(200).default([]),
+  // Latest screenshot analysis result, kept in context even once its turn is trimmed
+  screenshotAnalysis: z.string().max(8000).optional(),
+})
+
+export const PromptRequestSchema = z.object({
+  prompt: z.string().trim().min(1).max(4000),
+})
+
+// Voices the prompt analysis writes copy in
+export const COPY_TONES = ["clean", "bold", "professional", "playful", "minimal"] as const
+
+const HexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/)
+
+// A workspace brand kit, as far as the analyzers need it (lib/brand-kit.ts)
+export const BrandConstraintsSchema = z.object({
+  colors: z.array(HexColorSchema).max(20),
+  textColor: HexColorSchema.optional(),
+  primaryFont: z.string().trim().max(100).optional(),
+  secondaryFont: z.string().trim().max(100).optional(),
+  tone: z.enum(COPY_TONES).optional(),
+})
+
+// Prompt analysis within a workspace's brand
+export const BrandedPromptRequestSchema = PromptRequestSchema.extend({
+  brand: BrandConstraintsSchema.optional(),
+})
+
+export const StructureRequestSchema = PromptRequestSchema.extend({
+  // Output of the prompt strategy analysis, used as extra context
+  promptAnalysis: z.object({
+    appCategory: z.string(),
+    targetAudience: z.string(),
+    keyFeatures: z.array(z.string()),
+    visualStyle: z.object({
+      mood: z.string(),
+      designStyle: z.string(),
+    }).passthrough(),
+    screenshotStrategy: z.object({
+      recommendedCount: z.number(),
+      storytellingArc: z.array(z.string()),
+    }).passthrough(),
+  }).passthrough().optional(),
+})
+
+// ===========================
+// CANVAS EDITS
+// ===========================
+
+// 1-based, as the screens are numbered in the canvas; omitted means every screen
+const ScreenNumberSchema = z.number().int().min(1).max(50)
+
+// One structured edit the assistant can make to the open design
+export const CanvasEditOperationSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("set_text"),
+    screen: ScreenNumberSchema,
+    target: z.enum(["headline", "subtitle"]),
+    text: z.string().trim().min(1).max(200),
+  }),
+  z.object({ type: z.literal("set_background"), screen: ScreenNumberSchema.optional(), color: HexColorSchema }),
+  z.object({ type: z.literal("set_text_color"), screen: ScreenNumberSchema.optional(), color: HexColorSchema }),
+  z.object({
+    type: z.literal("set_font"),
+    screen: ScreenNumberSchema.optional(),
+    fontFamily: z.string().trim().min(1).max(60).regex(/^[\w\s-]+$/),
+  }),
+  // Built-in or custom template id, checked against the canvas (lib/canvas-edits.ts)
+  z.object({ type: z.literal("apply_template"), templateId: z.string().trim().min(1).max(100) }),
+  // New order as screen numbers, e.g. [2, 1, 3]
+  z.object({ type: z.literal("reorder_screens"), order: z.array(ScreenNumberSchema).min(2).max(50) }),
+])
+
+// Text-only view of the canvas; screenshots never leave the browser
+export const CanvasSummarySchema = z.object({
+  templateId: z.string().max(50),
+  screens: z.array(z.object({
+    name: z.string().max(100),
+    headline: z.string().max(500),
+    subtitle: z.string().max(500),
+    backgroundColor: z.string().max(50),
+    textColor: z.string().max(50),
+    fontFamily: z.string().max(200),
+  })).min(1).max(50),
+  // The workspace's saved templates, which apply_template may also pick
+  customTemplates: z.array(z.object({
+    id: z.string().max(100),
+    name: z.string().max(100),
+  })).max(100).default([]),
+})
+
+// `message` is the user's instruction; history gives the conversation so far
+export const CanvasEditRequestSchema = ChatRequestSchema.extend({
+  canvas: CanvasSummarySchema,
+})
+
+// ===========================
+// TRANSLATION
+// ===========================
+
+// Copy of the open screens for one store locale (see lib/localization.ts)
+export const TranslateRequestSchema = z.object({
+  locale: z.string().regex(/^[a-z]{2,3}(-[A-Za-z]{2,4})?$/),
+  items: z.array(z.object({
+    id: z.string().max(200),
+    kind: z.enum(["headline", "subtitle"]),
+    text: z.string().trim().min(1).max(500),
+  })).min(1).max(200),
+})
+
+export const ScreenshotVisualsRequestSchema = z.object({
+  screenshots: z.array(ScreenshotSchema).max(10),
+})
+
+export const VideoRequestSchema = z.object({
+  screenshots: z.array(ScreenshotSchema).max(10),
+  style: z.enum(["smooth", "dynamic", "minimal", "cinematic"]),
+  duration: z.union([z.literal(4), z.literal(8), z.literal(12)]),
+  music: z.enum(["none", "upbeat", "calm", "corporate"]).optional(),
+  transitions: z.enum(["fade", "slide", "zoom", "morph"]).optional(),
+  prompt: z.string().max(2000).optional(),
+  model: z.enum(["sora-2", "sora-2-pro"]).optional(),
+  size: z.enum(["720x1280", "1280x720", "1920x1080"]).optional(),
+})
+
+export type ChatTurn = z.infer<typeof ChatTurnSchema>
+export type ChatRequest = z.infer<typeof ChatRequestSchema>
+export type ChatContext = Omit<ChatRequest, "message">
+export type PromptRequest = z.infer<typeof PromptRequestSchema>
+export type BrandConstraints = z.infer<typeof BrandConstraintsSchema>
+export type StructureRequest = z.infer<typeof StructureRequestSchema>
+export type ScreenshotVisualsRequest = z.infer<typeof ScreenshotVisualsRequestSchema>
+export type TranslateRequest = z.infer<typeof TranslateRequestSchema>
+export type CanvasEditOperation = z.infer<typeof CanvasEditOperationSchema>
+export type CanvasSummary = z.infer<typeof CanvasSummarySchema>
+
+export interface ScreenshotVisuals {
+  suggestedBackgrounds: string[]
+  textColor: string
+  fontFamily: string
+}
+
+// ===========================
+// MODEL OUTPUT SCHEMAS
+// ===========================
+// Lenient: missing or malformed fields fall back to safe defaults
+// instead of failing the whole response
+
+const StringList = z.array(z.string()).catch([])
+
+export const PromptAnalysisResultSchema = z.object({
+  titles: StringList,
+  subtitles: StringList,
+  appCategory: z.string().catch("general"),
+  tone: z.enum(COPY_TONES).catch("professional"),
+  targetAudience: z.string().catch("users"),
+  suggestedLayout: z.string().refine(id => !!getTemplateById(id)).catch("layout1"),
+}).transform((result) => {
+  // Ensure we have exactly 5 items
+  const titles = [...result.titles]
+  const subtitles = [...result.subtitles]
+  while (titles.length < 5) {
+    titles.push(`Feature ${titles.length + 1}`)
+  }
+  while (subtitles.length < 5) {
+    subtitles.push("Powerful features designed to help you succeed")
+  }
+  return { ...result, titles: titles.slice(0, 5), subtitles: subtitles.slice(0, 5) }
+})
+
+export const PromptStrategySchema = z.object({
+  appCategory: z.string().catch("general"),
+  appName: z.string().catch("Your App"),
+  keyFeatures: StringList,
+  targetAudience: z.string().catch("users"),
+  visualStyle: z.object({
+    mood: z.string().catch("professional"),
+    colorScheme: StringList,
+    designStyle: z.string().catch("modern gradient"),
+  }),
+  screenshotStrategy: z.object({
+    recommendedCount: z.coerce.number().int().min(1).max(10).catch(3),
+    focusAreas: StringList,
+    storytellingArc: StringList,
+  }),
+  confidence: z.coerce.number().min(0).max(1).catch(0.6),
+  suggestions: StringList,
+})
+
+export const ScreenshotVisualsResponseSchema = z.object({
+  backgrounds: z.array(z.string()).min(1).catch(["#F5F5F5", "#FFFFFF", "#FAFAFA", "#F8F8F8", "#FCFCFC"]),
+  textColor: z.string().catch("#1A1A1A"),
+  fontFamily: z.string().catch("Inter"),
+}).transform(({ backgrounds, textColor, fontFamily }): ScreenshotVisuals => ({
+  suggestedBackgrounds: backgrounds,
+  textColor,
+  fontFamily,
+}))
+
+// Operations that fail validation are dropped one by one, so a single bad
+// edit doesn't discard the rest
+export const CanvasEditProposalSchema = z.object({
+  summary: z.string().catch(""),
+  operations: z.array(z.unknown()).catch([]).transform(items => items.flatMap(item => {
+    // Models write `"screen": null` for "every screen"
+    const fields = item && typeof item === "object"
+      ? Object.fromEntries(Object.entries(item).filter(([, value]) => value !== null))
+      : item
+    const parsed = CanvasEditOperationSchema.safeParse(fields)
+    return parsed.success ? [parsed.data] : []
+  })),
+})
+
+export type CanvasEditProposal = z.infer<typeof CanvasEditProposalSchema>
+
+// Translated text by item id; entries that aren't strings are dropped
+export const TranslationResultSchema = z.object({
+  translations: z.record(z.string(), z.unknown()).catch({}).transform(entries => Object.fromEntries(
+    Object.entries(entries).filter((entry): entry is [string, string] => typeof entry[1] === "string")
+  )),
+})
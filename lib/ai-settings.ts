@@ -0,0 +1,106 @@
+/**
+ * AI Settings - which LLM backend and model each AI feature uses
+ * Chosen in Settings → AI Models and saved in this browser; sent to the
+ * /api/ai routes with every request. Only provider ids and model names
+ * travel: keys and endpoints stay in the server environment.
+ */
+
+import { z } from "zod"
+
+export const LLM_PROVIDERS = ["openai", "gemini", "local"] as const
+export type LLMProviderId = (typeof LLM_PROVIDERS)[number]
+
+export const AI_FEATURES = [
+  "chat",
+  "canvasEdit",
+  "structure",
+  "promptAnalysis",
+  "promptStrategy",
+  "screenshotVisuals",
+  "translation",
+] as const
+export type AIFeature = (typeof AI_FEATURES)[number]
+
+export interface FeatureModel {
+  provider: LLMProviderId
+  model: string
+}
+
+export type AISettings = Record<AIFeature, FeatureModel>
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  chat: { provider: "openai", model: "gpt-4o-mini" },
+  canvasEdit: { provider: "openai", model: "gpt-4o-mini" },
+  structure: { provider: "openai", model: "gpt-4-turbo-preview" },
+  promptAnalysis: { provider: "openai", model: "gpt-4o-mini" },
+  promptStrategy: { provider: "gemini", model: "gemini-2.0-flash-exp" },
+  screenshotVisuals: { provider: "openai", model: "gpt-4o-mini" },
+  translation: { provider: "openai", model: "gpt-4o-mini" },
+}
+
+export const AI_FEATURE_LABELS: Record<AIFeature, { name: string; description: string }> = {
+  chat: { name: "Chat", description: "Streaming marketing advice in the conversation" },
+  canvasEdit: { name: "Canvas edits", description: "Design changes requested in chat while the canvas is open" },
+  structure: { name: "Screenshot structure", description: "Headlines, layouts and backgrounds per screen" },
+  promptAnalysis: { name: "Titles & subtitles", description: "Five screenshot titles from your prompt" },
+  promptStrategy: { name: "Prompt strategy", description: "Category, audience and storytelling analysis" },
+  screenshotVisuals: { name: "Screenshot visuals", description: "Backgrounds, text color and font from uploads" },
+  translation: { name: "Translation", description: "Headlines and subtitles for other store languages" },
+}
+
+export const LLM_PROVIDER_LABELS: Record<LLMProviderId, { name: string; models: string[] }> = {
+  openai: { name: "OpenAI", models: ["gpt-4o-mini", "gpt-4o", "gpt-4-turbo-preview"] },
+  gemini: { name: "Gemini", models: ["gemini-2.0-flash-exp", "gemini-2.0-flash", "gemini-1.5-pro"] },
+  local: { name: "Local (OpenAI-compatible)", models: ["llama3.1", "qwen2.5", "mistral"] },
+}
+
+// Request header carrying the settings to the /api/ai routes
+export const AI_SETTINGS_HEADER = "x-lume-ai-settings"
+
+const FeatureModelSchema = z.object({
+  provider: z.enum(LLM_PROVIDERS),
+  model: z.string().trim().min(1).max(100).regex(/^[\w.:/-]+$/),
+})
+
+// Partial: features not listed keep their defaults
+export const AISettingsSchema = z.object(
+  Object.fromEntries(AI_FEATURES.map(feature => [feature, FeatureModelSchema.optional()])) as Record<
+    AIFeature,
+    z.ZodOptional<typeof FeatureModelSchema>
+  >
+)
+
+/**
+ * Merge stored or transmitted settings over the defaults, ignoring
+ * anything malformed
+ */
+export function resolveAISettings(raw: unknown): AISettings {
+  const parsed = AISettingsSchema.safeParse(raw)
+  if (!parsed.success) return DEFAULT_AI_SETTINGS
+
+  const settings = { ...DEFAULT_AI_SETTINGS }
+  for (const feature of AI_FEATURES) {
+    const value = parsed.data[feature]
+    if (value) settings[feature] = value
+  }
+  return settings
+}
+
+// ===========================
+// BROWSER PERSISTENCE
+// ===========================
+
+const STORAGE_KEY = "lume-ai-settings"
+
+export function loadAISettings(): AISettings {
+  if (typeof window === "undefined") return DEFAULT_AI_SETTINGS
+  try {
+    return resolveAISettings(JSON.parse(localStorage.getItem(STORAGE_KEY) || "null"))
+  } catch {
+    return DEFAULT_AI_SETTINGS
+  }
+}
+
+export function saveAISettings(settings: AISettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+}
@@ -0,0 +1,125 @@
+/**
+ * Route handler helpers for app/api
+ * Request validation, JSON errors and SSE streaming in one place so every
+ * route responds with the same shapes.
+ */
+
+import { NextResponse } from "next/server"
+import type { z } from "zod"
+import { AIProviderError } from "./ai-provider"
+import { AI_SETTINGS_HEADER, resolveAISettings, type AISettings } from "./ai-settings"
+import { StoreAPIError } from "./store-api"
+
+export interface ApiErrorBody {
+  error: string
+  issues?: z.ZodError["issues"]
+}
+
+export function jsonError(message: string, status: number, issues?: z.ZodError["issues"]) {
+  return NextResponse.json<ApiErrorBody>({ error: message, ...(issues && { issues }) }, { status })
+}
+
+/**
+ * Parse and validate a JSON request body. Returns either the data or a
+ * 400 response to send back as-is.
+ */
+export async function parseBody<T extends z.ZodType>(
+  req: Request,
+  schema: T
+): Promise<{ data: z.infer<T>; response?: never } | { data?: never; response: NextResponse }> {
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    return { response: jsonError("Request body must be valid JSON", 400) }
+  }
+
+  const result = schema.safeParse(body)
+  if (!result.success) {
+    return { response: jsonError("Invalid request", 400, result.error.issues) }
+  }
+  return { data: result.data }
+}
+
+/**
+ * Parse a multipart body: a JSON `body` field validated like parseBody,
+ * plus the uploaded `file`
+ */
+export async function parseFormBody<T extends z.ZodType>(
+  req: Request,
+  schema: T
+): Promise<{ data: z.infer<T>; file: File; response?: never } | { data?: never; file?: never; response: NextResponse }> {
+  let form: FormData
+  let body: unknown
+  try {
+    form = await req.formData()
+    body = JSON.parse(String(form.get("body")))
+  } catch {
+    return { response: jsonError("Request body must be multipart with a JSON body field", 400) }
+  }
+
+  const file = form.get("file")
+  if (!(file instanceof File)) {
+    return { response: jsonError("A file is required", 400) }
+  }
+  const result = schema.safeParse(body)
+  if (!result.success) {
+    return { response: jsonError("Invalid request", 400, result.error.issues) }
+  }
+  return { data: result.data, file }
+}
+
+/**
+ * Per-feature model choices sent by the client; defaults when absent
+ */
+export function readAISettings(req: Request): AISettings {
+  try {
+    return resolveAISettings(JSON.parse(req.headers.get(AI_SETTINGS_HEADER) || "null"))
+  } catch {
+    return resolveAISettings(null)
+  }
+}
+
+/**
+ * Map a thrown error to a JSON response without leaking upstream details
+ */
+export function errorResponse(error: unknown) {
+  if (error instanceof AIProviderError || error instanceof StoreAPIError) {
+    return jsonError(error.message, error.status)
+  }
+  console.error("Unhandled route error:", error)
+  return jsonError("Internal server error", 500)
+}
+
+/**
+ * Server-sent events response: one `data: {"token"}` event per chunk,
+ * an `{"error"}` event if the source fails, then `data: [DONE]`.
+ */
+export function sseResponse(source: AsyncIterable<string>): Response {
+  const encoder = new TextEncoder()
+  const send = (controller: ReadableStreamDefaultController, data: unknown) =>
+    controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`))
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      try {
+        for await (const token of source) {
+          send(controller, { token })
+        }
+      } catch (error) {
+        console.error("Stream failed:", error)
+        send(controller, { error: error instanceof AIProviderError ? error.message : "Stream failed" })
+      }
+      controller.enqueue(encoder.encode("data: [DONE]\n\n"))
+      controller.close()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
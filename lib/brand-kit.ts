@@ -0,0 +1,232 @@
+/**
+ * Brand Kits - a workspace's palette, fonts, logos, house layout and tone
+ *
+ * Kept on the workspace's entry in `lume-workspaces`. Screens generated in a
+ * workspace with a kit start from it instead of colors and fonts guessed
+ * from the screenshots, and the prompt analyzers write within it.
+ */
+
+import { z } from 'zod'
+import type { PromptAnalysis } from './ai-helpers'
+import { BrandConstraintsSchema, COPY_TONES, type BrandConstraints } from './ai-schemas'
+import type { PromptAnalysisResult } from './prompt-analyzer'
+
+export type BrandTone = (typeof COPY_TONES)[number]
+
+// Which background a logo is drawn for
+export type BrandLogoVariant = 'primary' | 'onDark' | 'icon'
+
+export interface BrandLogo {
+  variant: BrandLogoVariant
+  image: string // Data URL, scaled down to MAX_LOGO_SIZE
+}
+
+export interface BrandKit {
+  backgrounds: string[] // Screen backgrounds, the first is the default
+  accents: string[]
+  textColor: string
+  primaryFont: string // Headlines
+  secondaryFont: string // Subtitles
+  logos: BrandLogo[]
+  defaultTemplateId?: string // Built-in or custom layout template
+  tone?: BrandTone
+}
+
+export const BRAND_LOGO_VARIANTS: Array<{ value: BrandLogoVariant; label: string; description: string }> = [
+  { value: 'primary', label: 'Primary', description: 'On light backgrounds' },
+  { value: 'onDark', label: 'On dark', description: 'On dark backgrounds' },
+  { value: 'icon', label: 'Icon', description: 'Mark without the word' },
+]
+
+// Offered in the font fields; any installed or web font name works
+export const BRAND_FONT_SUGGESTIONS = [
+  'Inter', 'SF Pro Display', 'Roboto', 'Poppins', 'Montserrat', 'Open Sans', 'Lato', 'Nunito',
+  'DM Sans', 'Manrope', 'Plus Jakarta Sans', 'Space Grotesk', 'Outfit', 'Playfair Display', 'Merriweather',
+]
+
+// Longest side of a stored logo; keeps the kit small enough for localStorage
+export const MAX_LOGO_SIZE = 512
+
+export const DEFAULT_BRAND_KIT: BrandKit = {
+  backgrounds: ['#F5F5F5'],
+  accents: [],
+  textColor: '#1A1A1A',
+  primaryFont: 'Inter',
+  secondaryFont: 'Inter',
+  logos: [],
+}
+
+const HexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/)
+
+const BrandKitSchema = z.object({
+  backgrounds: z.array(HexColor).min(1).catch(DEFAULT_BRAND_KIT.backgrounds),
+  accents: z.array(HexColor).catch([]),
+  textColor: HexColor.catch(DEFAULT_BRAND_KIT.textColor),
+  primaryFont: z.string().trim().min(1).catch(DEFAULT_BRAND_KIT.primaryFont),
+  secondaryFont: z.string().trim().min(1).catch(DEFAULT_BRAND_KIT.secondaryFont),
+  logos: z.array(z.object({
+    variant: z.enum(['primary', 'onDark', 'icon']),
+    image: z.string().startsWith('data:image/'),
+  })).catch([]),
+  defaultTemplateId: z.string().optional().catch(undefined),
+  tone: z.enum(COPY_TONES).optional().catch(undefined),
+})
+
+/**
+ * Workspace id used in URLs and storage keys ("Fitness App" → "fitness-app")
+ */
+export function getWorkspaceId(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, '-')
+}
+
+/**
+ * Whether a color reads as dark, so light text and logos go on it
+ */
+export function isDarkColor(hex: string): boolean {
+  const value = hex.replace('#', '')
+  const r = parseInt(value.slice(0, 2), 16)
+  const g = parseInt(value.slice(2, 4), 16)
+  const b = parseInt(value.slice(4, 6), 16)
+  return (0.299 * r + 0.587 * g + 0.114 * b) / 255 <= 0.5
+}
+
+/**
+ * Logo for a background: the on-dark variant on dark colors, the primary
+ * one otherwise, falling back to whatever the kit has
+ */
+export function pickBrandLogo(kit: BrandKit, backgroundColor: string): string | undefined {
+  const find = (variant: BrandLogoVariant) => kit.logos.find(logo => logo.variant === variant)?.image
+  const preferred = isDarkColor(backgroundColor) ? find('onDark') : find('primary')
+  return preferred ?? find('primary') ?? kit.logos[0]?.image
+}
+
+/**
+ * Colors offered for screen backgrounds, brand backgrounds first
+ */
+export function getBrandPalette(kit: BrandKit): string[] {
+  return [...new Set([...kit.backgrounds, ...kit.accents])]
+}
+
+// ===========================
+// ANALYZER CONSTRAINTS
+// ===========================
+
+/**
+ * What the prompt analyzers are told about a kit (logos stay in the browser)
+ */
+export function getBrandConstraints(kit: BrandKit | null): BrandConstraints | undefined {
+  if (!kit) return undefined
+  return BrandConstraintsSchema.parse({
+    colors: getBrandPalette(kit).slice(0, 20),
+    textColor: kit.textColor,
+    primaryFont: kit.primaryFont,
+    secondaryFont: kit.secondaryFont,
+    tone: kit.tone,
+  })
+}
+
+/**
+ * Kit constraints to append to an analyzer prompt
+ */
+export function describeBrandConstraints(brand: BrandConstraints | undefined): string {
+  if (!brand) return ''
+  const rules = [
+    brand.tone && `- Tone of voice: ${brand.tone}`,
+    brand.colors.length > 0 && `- Brand colors (use only these): ${brand.colors.join(', ')}`,
+    brand.primaryFont && `- Headline font: ${brand.primaryFont}`,
+    brand.secondaryFont && `- Body font: ${brand.secondaryFont}`,
+  ].filter(Boolean)
+  return rules.length > 0 ? `\n\nThe app has a fixed brand kit; stay within it:\n${rules.join('\n')}` : ''
+}
+
+/**
+ * Prompt analysis with the kit's tone, whatever the model chose
+ */
+export function applyBrandToPromptAnalysis(result: PromptAnalysisResult, brand: BrandConstraints | undefined): PromptAnalysisResult {
+  return brand?.tone ? { ...result, tone: brand.tone } : result
+}
+
+/**
+ * Strategy analysis with the kit's colors as its color scheme
+ */
+export function applyBrandToStrategy(result: PromptAnalysis, brand: BrandConstraints | undefined): PromptAnalysis {
+  if (!brand || brand.colors.length === 0) return result
+  return { ...result, visualStyle: { ...result.visualStyle, colorScheme: brand.colors } }
+}
+
+// ===========================
+// STORAGE
+// ===========================
+
+const WORKSPACES_KEY = 'lume-workspaces'
+
+type StoredWorkspace = { name: string; emoji?: string; brandKit?: unknown } & Record<string, unknown>
+
+function readWorkspaces(): StoredWorkspace[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(WORKSPACES_KEY) || '[]')
+    return Array.isArray(stored) ? stored : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Workspaces a kit can be attached to
+ */
+export function listWorkspaces(): Array<{ id: string; name: string; emoji?: string; hasBrandKit: boolean }> {
+  if (typeof window === 'undefined') return []
+  return readWorkspaces().map(workspace => ({
+    id: getWorkspaceId(workspace.name),
+    name: workspace.name,
+    emoji: workspace.emoji,
+    hasBrandKit: !!workspace.brandKit,
+  }))
+}
+
+export function getBrandKit(workspaceId: string): BrandKit | null {
+  if (typeof window === 'undefined') return null
+  const workspace = readWorkspaces().find(item => getWorkspaceId(item.name) === workspaceId)
+  return workspace?.brandKit ? BrandKitSchema.parse(workspace.brandKit) : null
+}
+
+/**
+ * Attach a kit to a workspace, or remove it with null
+ */
+export function saveBrandKit(workspaceId: string, kit: BrandKit | null): void {
+  const workspaces = readWorkspaces().map(workspace => {
+    if (getWorkspaceId(workspace.name) !== workspaceId) return workspace
+    // An undefined kit is left out of the JSON
+    return { ...workspace, brandKit: kit ?? undefined }
+  })
+  localStorage.setItem(WORKSPACES_KEY, JSON.stringify(workspaces))
+}
+
+/**
+ * Logo file as a data URL no larger than MAX_LOGO_SIZE on its longest side
+ */
+export async function readLogoFile(file: File): Promise<string> {
+  const source = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onloadend = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+  // Vector logos scale without losing anything
+  if (file.type === 'image/svg+xml') return source
+
+  const image = new Image()
+  await new Promise((resolve, reject) => {
+    image.onload = resolve
+    image.onerror = reject
+    image.src = source
+  })
+  const scale = Math.min(1, MAX_LOGO_SIZE / Math.max(image.width, image.height))
+  if (scale === 1) return source
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(image.width * scale)
+  canvas.height = Math.round(image.height * scale)
+  canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height)
+  return canvas.toDataURL('image/png')
+}
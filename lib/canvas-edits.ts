@@ -0,0 +1,343 @@
+/**
+ * Canvas Edits - structured changes the chat assistant makes to the open design
+ *
+ * The assistant answers an instruction with operations (CanvasEditOperation
+ * in lib/ai-schemas.ts) instead of prose. They are validated against the
+ * canvas, previewed as a before/after diff in the chat and only applied to
+ * the DesignCanvas screens once the user accepts them.
+ */
+
+import { postAI } from './ai-client'
+import type { CanvasEditOperation, CanvasEditProposal, CanvasSummary, ChatContext } from './ai-schemas'
+import { LAYOUT_TEMPLATES, getTemplateById, relayoutScreen, type LayoutTemplate } from './layout-templates'
+import type { Layer, Screen } from './scene-graph'
+import { replaceTextContent } from './text-layout'
+
+// Screens open in the DesignCanvas
+export interface CanvasSnapshot {
+  screens: Screen[]
+  templateId?: string
+  // The workspace's saved templates (lib/custom-templates.ts)
+  customTemplates?: LayoutTemplate[]
+}
+
+// Enough of a template to name it in edits
+type TemplateRef = Pick<LayoutTemplate, 'id' | 'name'>
+
+export interface CanvasEditChange {
+  label: string
+  kind: 'text' | 'color' | 'font' | 'layout' | 'order'
+  before: string
+  after: string
+}
+
+// Edit attached to an assistant chat message
+export interface ChatCanvasEdit {
+  operations: CanvasEditOperation[]
+  status: 'pending' | 'applied' | 'dismissed'
+  // Diff as it was when the user decided; pending edits are diffed live
+  changes?: CanvasEditChange[]
+}
+
+// ===========================
+// CANVAS STATE
+// ===========================
+
+/**
+ * Headline or subtitle of a screen. Template screens tag them by layer id;
+ * hand-built screens fall back to the first and second text layer.
+ */
+export function findTextLayer(screen: Screen, target: 'headline' | 'subtitle'): Layer | undefined {
+  const tagged = screen.layers.find(l => l.type === 'text' && l.id.includes(target))
+  if (tagged) return tagged
+  return screen.layers.filter(l => l.type === 'text')[target === 'headline' ? 0 : 1]
+}
+
+/**
+ * Built-in template, or one of the workspace's custom templates
+ */
+function findTemplate<T extends TemplateRef>(templateId: string, customTemplates: T[]): T | LayoutTemplate | undefined {
+  return getTemplateById(templateId) ?? customTemplates.find(template => template.id === templateId)
+}
+
+export function summarizeCanvas({ screens, templateId, customTemplates = [] }: CanvasSnapshot): CanvasSummary {
+  return {
+    templateId: templateId ?? screens[0]?.templateId ?? '',
+    customTemplates: customTemplates.map(({ id, name }) => ({ id, name })),
+    screens: screens.map(screen => {
+      const headline = findTextLayer(screen, 'headline')
+      return {
+        name: screen.name,
+        headline: headline?.content ?? '',
+        subtitle: findTextLayer(screen, 'subtitle')?.content ?? '',
+        backgroundColor: screen.backgroundColor,
+        textColor: headline?.color ?? '',
+        fontFamily: headline?.fontFamily ?? '',
+      }
+    }),
+  }
+}
+
+/**
+ * Drop operations that don't fit a canvas of `screenCount` screens, or
+ * apply a template that is neither built in nor in `customTemplates`
+ */
+export function validateCanvasEdits(
+  operations: CanvasEditOperation[],
+  screenCount: number,
+  customTemplates: TemplateRef[] = []
+): { operations: CanvasEditOperation[]; rejected: CanvasEditOperation[] } {
+  const isValid = (operation: CanvasEditOperation) => {
+    switch (operation.type) {
+      case 'reorder_screens': {
+        const order = operation.order
+        return order.length === screenCount && new Set(order).size === screenCount && order.every(n => n <= screenCount)
+      }
+      case 'apply_template':
+        return !!findTemplate(operation.templateId, customTemplates)
+      default:
+        return operation.screen === undefined || operation.screen <= screenCount
+    }
+  }
+
+  return {
+    operations: operations.filter(isValid),
+    rejected: operations.filter(operation => !isValid(operation)),
+  }
+}
+
+// ===========================
+// APPLY & PREVIEW
+// ===========================
+
+// Screen numbers in operations refer to the canvas before the edit, so
+// reordering runs last
+function inApplyOrder(operations: CanvasEditOperation[]): CanvasEditOperation[] {
+  return [
+    ...operations.filter(op => op.type !== 'reorder_screens'),
+    ...operations.filter(op => op.type === 'reorder_screens'),
+  ]
+}
+
+function targetsScreen(operation: { screen?: number }, index: number): boolean {
+  return operation.screen === undefined || operation.screen === index + 1
+}
+
+function applyOperation(
+  screens: Screen[],
+  operation: CanvasEditOperation,
+  options: { logo?: string; customTemplates: LayoutTemplate[] }
+): Screen[] {
+  switch (operation.type) {
+    case 'set_text':
+      return screens.map((screen, index) => {
+        const layer = targetsScreen(operation, index) ? findTextLayer(screen, operation.target) : undefined
+        if (!layer) return screen
+        return { ...screen, layers: screen.layers.map(l => l.id === layer.id ? { ...l, ...replaceTextContent(l, operation.text) } : l) }
+      })
+
+    case 'set_background':
+      return screens.map((screen, index) => targetsScreen(operation, index)
+        ? {
+            ...screen,
+            backgroundColor: operation.color,
+            layers: screen.layers.map(l => l.type === 'background'
+              ? { ...l, backgroundColor: operation.color, backgroundGradient: undefined }
+              : l)
+          }
+        : screen)
+
+    case 'set_text_color':
+    case 'set_font': {
+      const style: Partial<Layer> = operation.type === 'set_font'
+        ? { fontFamily: operation.fontFamily }
+        : { color: operation.color }
+      return screens.map((screen, index) => targetsScreen(operation, index)
+        ? { ...screen, layers: screen.layers.map(l => l.type === 'text' ? { ...l, ...style } : l) }
+        : screen)
+    }
+
+    case 'apply_template': {
+      const template = findTemplate(operation.templateId, options.customTemplates)
+      if (!template) return screens
+      return screens.map((screen, index) => relayoutScreen(screen, template, index, { logo: options.logo }))
+    }
+
+    case 'reorder_screens':
+      return operation.order.map(n => screens[n - 1])
+  }
+}
+
+/**
+ * Screens after the operations that fit them
+ */
+export function applyCanvasEdits(
+  screens: Screen[],
+  operations: CanvasEditOperation[],
+  options: { logo?: string; customTemplates?: LayoutTemplate[] } = {}
+): Screen[] {
+  const customTemplates = options.customTemplates ?? []
+  const valid = validateCanvasEdits(operations, screens.length, customTemplates).operations
+  return inApplyOrder(valid).reduce(
+    (current, operation) => applyOperation(current, operation, { logo: options.logo, customTemplates }),
+    screens
+  )
+}
+
+/**
+ * Layout template an edit switches to, if it swaps templates
+ */
+export function editedTemplateId(operations: CanvasEditOperation[]): string | undefined {
+  return operations.flatMap(op => op.type === 'apply_template' ? [op.templateId] : []).pop()
+}
+
+/**
+ * Before/after diff of an edit against the current screens, for the chat preview
+ */
+export function describeCanvasEdits(
+  screens: Screen[],
+  operations: CanvasEditOperation[],
+  customTemplates: TemplateRef[] = []
+): CanvasEditChange[] {
+  const screenLabel = (operation: { screen?: number }) =>
+    operation.screen === undefined ? 'All screens' : `Screen ${operation.screen}`
+  const firstTargeted = (operation: { screen?: number }) => screens[(operation.screen ?? 1) - 1]
+
+  const templateName = (templateId: string) => findTemplate(templateId, customTemplates)?.name ?? templateId
+
+  return validateCanvasEdits(operations, screens.length, customTemplates).operations.map((operation): CanvasEditChange => {
+    switch (operation.type) {
+      case 'set_text': {
+        const screen = firstTargeted(operation)
+        return {
+          label: `${screenLabel(operation)} ${operation.target}`,
+          kind: 'text',
+          before: (screen && findTextLayer(screen, operation.target)?.content) || '',
+          after: operation.text,
+        }
+      }
+      case 'set_background':
+        return {
+          label: `${screenLabel(operation)} background`,
+          kind: 'color',
+          before: firstTargeted(operation)?.backgroundColor ?? '',
+          after: operation.color,
+        }
+      case 'set_text_color': {
+        const screen = firstTargeted(operation)
+        return {
+          label: `${screenLabel(operation)} text color`,
+          kind: 'color',
+          before: (screen && findTextLayer(screen, 'headline')?.color) || '',
+          after: operation.color,
+        }
+      }
+      case 'set_font': {
+        const screen = firstTargeted(operation)
+        return {
+          label: `${screenLabel(operation)} font`,
+          kind: 'font',
+          before: (screen && findTextLayer(screen, 'headline')?.fontFamily) || '',
+          after: operation.fontFamily,
+        }
+      }
+      case 'apply_template':
+        return {
+          label: 'Layout template',
+          kind: 'layout',
+          before: screens[0]?.templateId ? templateName(screens[0].templateId) : '',
+          after: templateName(operation.templateId),
+        }
+      case 'reorder_screens':
+        return {
+          label: 'Screen order',
+          kind: 'order',
+          before: screens.map((_, index) => index + 1).join(', '),
+          after: operation.order.join(', '),
+        }
+    }
+  })
+}
+
+// ===========================
+// REQUESTS
+// ===========================
+
+/**
+ * Ask the assistant for edits to the open canvas (/api/ai/canvas-edit)
+ */
+export async function proposeCanvasEdits(
+  instruction: string,
+  canvas: CanvasSummary,
+  context: ChatContext
+): Promise<CanvasEditProposal> {
+  const proposal = await postAI<CanvasEditProposal>('canvas-edit', { message: instruction, canvas, ...context })
+  return {
+    ...proposal,
+    operations: validateCanvasEdits(proposal.operations, canvas.screens.length, canvas.customTemplates).operations,
+  }
+}
+
+/**
+ * Keyword-based edits for the fake provider. Understands quoted copy
+ * ("headline 2 to \"Plan faster\""), hex colors, "font <name>", layout
+ * names and "swap screen 1 and 2".
+ */
+export function generateMockCanvasEdits(instruction: string, canvas: CanvasSummary): CanvasEditProposal {
+  const input = instruction.toLowerCase()
+  const operations: CanvasEditOperation[] = []
+
+  const screenMatch = input.match(/screen\s+(\d+)/)
+  const screen = screenMatch ? Number(screenMatch[1]) : undefined
+
+  const textMatch = instruction.match(/(headline|title|subtitle)\s*(\d+)?[^"“]*["“]([^"”]+)["”]/i)
+  if (textMatch) {
+    operations.push({
+      type: 'set_text',
+      screen: Number(textMatch[2] ?? screen ?? 1),
+      target: textMatch[1].toLowerCase() === 'subtitle' ? 'subtitle' : 'headline',
+      text: textMatch[3].trim(),
+    })
+  }
+
+  const color = instruction.match(/#[0-9a-fA-F]{6}\b/)?.[0]
+  if (color && input.includes('background')) {
+    operations.push({ type: 'set_background', screen, color: color.toUpperCase() })
+  } else if (color && /text|font color|headline color/.test(input)) {
+    operations.push({ type: 'set_text_color', screen, color: color.toUpperCase() })
+  }
+
+  const fontMatch = instruction.match(/font\s+(?:to\s+)?([A-Z][\w-]*(?:\s+[A-Z][\w-]*)*)/)
+  if (fontMatch) {
+    operations.push({ type: 'set_font', screen, fontFamily: fontMatch[1] })
+  }
+
+  // Templates by id or name, the two alternating layouts also by description
+  const template = [...LAYOUT_TEMPLATES, ...canvas.customTemplates].find(({ id, name }) =>
+    input.includes(id.toLowerCase()) || input.includes(name.toLowerCase())
+  )
+  if (template) {
+    operations.push({ type: 'apply_template', templateId: template.id })
+  } else if (/layout\s*2|centered/.test(input)) {
+    operations.push({ type: 'apply_template', templateId: 'layout2' })
+  } else if (/layout\s*1|alternating|left[- ]aligned/.test(input)) {
+    operations.push({ type: 'apply_template', templateId: 'layout1' })
+  }
+
+  const swapMatch = input.match(/swap\s+screens?\s+(\d+)\s+(?:and|with)\s+(?:screen\s+)?(\d+)/)
+  if (swapMatch) {
+    const [a, b] = [Number(swapMatch[1]), Number(swapMatch[2])]
+    operations.push({
+      type: 'reorder_screens',
+      order: canvas.screens.map((_, index) => index + 1 === a ? b : index + 1 === b ? a : index + 1),
+    })
+  }
+
+  const valid = validateCanvasEdits(operations, canvas.screens.length, canvas.customTemplates).operations
+  return {
+    summary: valid.length > 0
+      ? `Here's what I'd change on your design:`
+      : `I couldn't turn that into a canvas edit. Try something like: headline 2 to "Plan in seconds", background #0F172A, font Poppins, use layout 2, or swap screen 1 and 2.`,
+    operations: valid,
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Canvas History - patch-based undo/redo for the design canvas
+ *
+ * Each entry only keeps the screens that changed (before/after), so
+ * unchanged screens and their base64 images are never duplicated.
+ * Continuous gestures (drags, slider scrubs, typing) share a coalesce key
+ * and collapse into a single entry.
+ */
+
+import type { Screen } from './scene-graph'
+
+export interface HistoryPatch {
+  before: Record<string, Screen | null>
+  after: Record<string, Screen | null>
+  orderBefore: string[]
+  orderAfter: string[]
+}
+
+export interface HistoryEntry {
+  id: number
+  label: string
+  timestamp: number
+  coalesceKey?: string
+  patch: HistoryPatch
+  size: number // Estimated bytes retained by this entry
+}
+
+export interface HistoryState {
+  entries: HistoryEntry[]
+  pointer: number // Number of applied entries (entries[pointer - 1] is the latest)
+  totalSize: number
+  nextId: number
+}
+
+export interface HistoryMeta {
+  label: string
+  coalesceKey?: string
+}
+
+export const MAX_HISTORY_ENTRIES = 100
+export const MAX_HISTORY_BYTES = 32 * 1024 * 1024
+
+export function createHistory(): HistoryState {
+  return { entries: [], pointer: 0, totalSize: 0, nextId: 1 }
+}
+
+/**
+ * Record the change between two screen lists.
+ * Redo entries are discarded; the oldest entries are evicted once the
+ * entry count or estimated memory budget is exceeded.
+ */
+export function recordChange(
+  history: HistoryState,
+  prev: Screen[],
+  next: Screen[],
+  meta: HistoryMeta
+): HistoryState {
+  if (prev === next) return history
+
+  let entries = history.entries.slice(0, history.pointer)
+  let totalSize = entries.reduce((sum, e) => sum + e.size, 0)
+  const last = entries[entries.length - 1]
+
+  // Coalesce with the previous entry when it belongs to the same gesture
+  if (last && meta.coalesceKey && last.coalesceKey === meta.coalesceKey && history.pointer === history.entries.length) {
+    const merged = mergePatches(last.patch, diffScreens(prev, next))
+    if (isEmptyPatch(merged)) {
+      // The gesture ended where it started, nothing left to undo
+      entries = entries.slice(0, -1)
+      totalSize -= last.size
+      return { ...history, entries, pointer: entries.length, totalSize }
+    }
+    const size = estimatePatchSize(merged)
+    entries = [...entries.slice(0, -1), { ...last, patch: merged, size, timestamp: Date.now() }]
+    totalSize += size - last.size
+    return { ...history, entries, pointer: entries.length, totalSize }
+  }
+
+  const patch = diffScreens(prev, next)
+  if (isEmptyPatch(patch)) return history
+
+  const entry: HistoryEntry = {
+    id: history.nextId,
+    label: meta.label,
+    timestamp: Date.now(),
+    coalesceKey: meta.coalesceKey,
+    patch,
+    size: estimatePatchSize(patch),
+  }
+  entries = [...entries, entry]
+  totalSize += entry.size
+
+  while (entries.length > 1 && (entries.length > MAX_HISTORY_ENTRIES || totalSize > MAX_HISTORY_BYTES)) {
+    totalSize -= entries[0].size
+    entries = entries.slice(1)
+  }
+
+  return { entries, pointer: entries.length, totalSize, nextId: history.nextId + 1 }
+}
+
+export function canUndo(history: HistoryState): boolean {
+  return history.pointer > 0
+}
+
+export function canRedo(history: HistoryState): boolean {
+  return history.pointer < history.entries.length
+}
+
+/**
+ * Move the history pointer to `target` (0 = before the first entry),
+ * applying or reverting every entry in between
+ */
+export function travelTo(
+  history: HistoryState,
+  screens: Screen[],
+  target: number
+): { history: HistoryState; screens: Screen[] } {
+  const clamped = Math.max(0, Math.min(history.entries.length, target))
+  if (clamped === history.pointer) return { history, screens }
+  let result = screens
+
+  for (let i = history.pointer - 1; i >= clamped; i--) {
+    result = applyPatch(result, history.entries[i].patch, 'undo')
+  }
+  for (let i = history.pointer; i < clamped; i++) {
+    result = applyPatch(result, history.entries[i].patch, 'redo')
+  }
+
+  // Stop coalescing across an undo/redo boundary
+  const entries = history.entries.map((entry, i) =>
+    i === clamped - 1 && entry.coalesceKey ? { ...entry, coalesceKey: undefined } : entry
+  )
+
+  return { history: { ...history, entries, pointer: clamped }, screens: result }
+}
+
+export function undo(history: HistoryState, screens: Screen[]) {
+  return travelTo(history, screens, history.pointer - 1)
+}
+
+export function redo(history: HistoryState, screens: Screen[]) {
+  return travelTo(history, screens, history.pointer + 1)
+}
+
+// ===========================
+// PATCHES
+// ===========================
+
+export function diffScreens(prev: Screen[], next: Screen[]): HistoryPatch {
+  const before: Record<string, Screen | null> = {}
+  const after: Record<string, Screen | null> = {}
+  const prevById = new Map(prev.map(s => [s.id, s]))
+  const nextById = new Map(next.map(s => [s.id, s]))
+
+  for (const [id, screen] of prevById) {
+    const nextScreen = nextById.get(id) ?? null
+    if (nextScreen !== screen) {
+      before[id] = screen
+      after[id] = nextScreen
+    }
+  }
+  for (const [id, screen] of nextById) {
+    if (!prevById.has(id)) {
+      before[id] = null
+      after[id] = screen
+    }
+  }
+
+  return {
+    before,
+    after,
+    orderBefore: prev.map(s => s.id),
+    orderAfter: next.map(s => s.id),
+  }
+}
+
+function applyPatch(screens: Screen[], patch: HistoryPatch, direction: 'undo' | 'redo'): Screen[] {
+  const target = direction === 'undo' ? patch.before : patch.after
+  const order = direction === 'undo' ? patch.orderBefore : patch.orderAfter
+  const byId = new Map(screens.map(s => [s.id, s]))
+
+  for (const [id, screen] of Object.entries(target)) {
+    if (screen) {
+      byId.set(id, screen)
+    } else {
+      byId.delete(id)
+    }
+  }
+
+  return order.map(id => byId.get(id)).filter((s): s is Screen => !!s)
+}
+
+function mergePatches(first: HistoryPatch, second: HistoryPatch): HistoryPatch {
+  const before = { ...first.before }
+  const after = { ...first.after, ...second.after }
+
+  for (const [id, screen] of Object.entries(second.before)) {
+    if (!(id in before)) before[id] = screen
+  }
+  // Drop screens that are back to their original state
+  for (const id of Object.keys(after)) {
+    if (before[id] === after[id]) {
+      delete before[id]
+      delete after[id]
+    }
+  }
+
+  return { before, after, orderBefore: first.orderBefore, orderAfter: second.orderAfter }
+}
+
+function isEmptyPatch(patch: HistoryPatch): boolean {
+  return (
+    Object.keys(patch.after).length === 0 &&
+    patch.orderBefore.join('\u0000') === patch.orderAfter.join('\u0000')
+  )
+}
+
+/**
+ * Rough memory footprint of a patch. Layers shared by reference between
+ * both sides cost nothing, and image content that exists on both sides is
+ * the same string in memory, so only genuinely new data is counted.
+ */
+function estimatePatchSize(patch: HistoryPatch): number {
+  let size = 256
+
+  for (const id of Object.keys(patch.after)) {
+    const before = patch.before[id]
+    const after = patch.after[id]
+    const beforeLayers = new Set(before?.layers ?? [])
+    const afterLayers = new Set(after?.layers ?? [])
+    const beforeContent = new Set(before?.layers.map(l => l.content) ?? [])
+    const afterContent = new Set(after?.layers.map(l => l.content) ?? [])
+
+    for (const layer of beforeLayers) {
+      if (!afterLayers.has(layer)) size += layerSize(layer, afterContent)
+    }
+    for (const layer of afterLayers) {
+      if (!beforeLayers.has(layer)) size += layerSize(layer, beforeContent)
+    }
+  }
+
+  return size
+}
+
+function layerSize(layer: Screen['layers'][number], sharedContent: Set<string>): number {
+  // Strings are UTF-16 in memory: two bytes per character
+  const contentSize = sharedContent.has(layer.content) ? 0 : layer.content.length * 2
+  return 512 + contentSize
+}
@@ -0,0 +1,113 @@
+/**
+ * Canvas Snapping - snap dragged layers to other layers, the screen and ruler guides
+ *
+ * Targets are lines in logical canvas units: "x" lines are vertical (left,
+ * center and right edges), "y" lines horizontal (top, middle and bottom).
+ */
+
+import { CANVAS_WIDTH, CANVAS_HEIGHT, type Screen, type ScreenGuide } from './scene-graph'
+import type { LayerBounds } from './layer-align'
+import { DESIGN_SIZE, type LayoutSize } from './responsive-layout'
+
+// How close an edge has to get before it snaps, in screen pixels
+export const SNAP_THRESHOLD = 6
+
+export interface SnapLine {
+  axis: 'x' | 'y'
+  position: number
+}
+
+export interface SnapTargets {
+  x: number[]
+  y: number[]
+}
+
+export interface SnapResult {
+  dx: number
+  dy: number
+  lines: SnapLine[] // Alignment guides to show
+}
+
+/**
+ * Lines a drag can snap to: screen edges and center, ruler guides and the
+ * edges and centers of every layer not being moved (backgrounds excluded).
+ * `size` is the canvas the screen is laid out on.
+ */
+export function getSnapTargets(screen: Screen, movingIds: string[], size: LayoutSize = DESIGN_SIZE): SnapTargets {
+  const targets: SnapTargets = {
+    x: [0, size.width / 2, size.width],
+    y: [0, size.height / 2, size.height],
+  }
+
+  for (const guide of screen.guides ?? []) {
+    targets[guide.axis].push(guide.position)
+  }
+
+  for (const layer of screen.layers) {
+    if (layer.type === 'background' || movingIds.includes(layer.id)) continue
+    targets.x.push(layer.x, layer.x + layer.width / 2, layer.x + layer.width)
+    targets.y.push(layer.y, layer.y + layer.height / 2, layer.y + layer.height)
+  }
+
+  return targets
+}
+
+function snapAxis(edges: number[], targets: number[], threshold: number): { delta: number; lines: number[] } {
+  let delta = Infinity
+  for (const edge of edges) {
+    for (const target of targets) {
+      if (Math.abs(target - edge) < Math.abs(delta)) delta = target - edge
+    }
+  }
+  if (Math.abs(delta) > threshold) return { delta: 0, lines: [] }
+
+  // Every target the snapped edges now touch gets a guide
+  const lines = targets.filter(target => edges.some(edge => Math.abs(edge + delta - target) < 0.5))
+  return { delta, lines: Array.from(new Set(lines)) }
+}
+
+/**
+ * Offset that snaps a moving box to the nearest targets on each axis
+ */
+export function snapBounds(bounds: LayerBounds, targets: SnapTargets, threshold: number): SnapResult {
+  const x = snapAxis([bounds.x, bounds.x + bounds.width / 2, bounds.x + bounds.width], targets.x, threshold)
+  const y = snapAxis([bounds.y, bounds.y + bounds.height / 2, bounds.y + bounds.height], targets.y, threshold)
+
+  return {
+    dx: x.delta,
+    dy: y.delta,
+    lines: [
+      ...x.lines.map((position): SnapLine => ({ axis: 'x', position })),
+      ...y.lines.map((position): SnapLine => ({ axis: 'y', position })),
+    ],
+  }
+}
+
+// ===========================
+// RULER GUIDES
+// ===========================
+
+/**
+ * Add or move a guide
+ */
+export function setScreenGuide(screen: Screen, guide: ScreenGuide): Screen {
+  const guides = screen.guides ?? []
+  return {
+    ...screen,
+    guides: guides.some(g => g.id === guide.id)
+      ? guides.map(g => g.id === guide.id ? guide : g)
+      : [...guides, guide],
+  }
+}
+
+export function removeScreenGuide(screen: Screen, guideId: string): Screen {
+  return { ...screen, guides: (screen.guides ?? []).filter(g => g.id !== guideId) }
+}
+
+/**
+ * Guides dragged back off the screen (onto the ruler) are deleted
+ */
+export function isGuideOnScreen(guide: Pick<ScreenGuide, 'axis' | 'position'>): boolean {
+  const size = guide.axis === 'x' ? CANVAS_WIDTH : CANVAS_HEIGHT
+  return guide.position >= 0 && guide.position <= size
+}
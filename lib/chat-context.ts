@@ -0,0 +1,145 @@
+/**
+ * Chat Context - conversation history for multi-turn chat
+ * The client turns its message list into the turns sent with each
+ * /api/ai/chat request; the server fits them into the chat model's token
+ * budget and summarises whatever no longer fits. Regenerating a reply
+ * branches the conversation at that message instead of discarding the old
+ * continuation.
+ */
+
+import type { ChatContext, ChatTurn } from "./ai-schemas"
+
+// Rough token budget for earlier turns; the system prompt and reply use the rest
+export const CHAT_HISTORY_TOKEN_BUDGET = 6000
+
+// A single turn longer than this is clipped before budgeting
+const MAX_TURN_TOKENS = 1500
+// User requests listed in the summary of trimmed turns
+const SUMMARY_MAX_REQUESTS = 10
+
+// Ids of the screenshot analysis messages posted by ChatConversation
+const ANALYSIS_MESSAGE_PREFIX = "analysis-"
+// Content of an analysis message while its thinking animation runs
+const THINKING_PREFIX = "__THINKING__"
+
+export interface BranchedMessage<T> {
+  id: string
+  role: "user" | "assistant"
+  content: string
+  isStreaming?: boolean
+  // Alternative continuations after this message. The active one lives in
+  // the message list itself; its slot here is left empty.
+  branches?: T[][]
+  branchIndex?: number
+}
+
+// ===========================
+// CLIENT: MESSAGES → CONTEXT
+// ===========================
+
+/**
+ * Context for a reply to the message after `messages`: every finished turn,
+ * plus the latest screenshot analysis pinned separately
+ */
+export function toChatContext<T extends BranchedMessage<T>>(messages: T[]): ChatContext {
+  const finished = messages.filter(m => !m.isStreaming && m.content.trim() && !m.content.startsWith(THINKING_PREFIX))
+  const analysis = finished.filter(m => m.id.startsWith(ANALYSIS_MESSAGE_PREFIX)).pop()
+
+  return {
+    history: finished
+      .filter(m => !m.id.startsWith(ANALYSIS_MESSAGE_PREFIX))
+      .map(({ role, content }) => ({ role, content })),
+    ...(analysis && { screenshotAnalysis: analysis.content.slice(0, 8000) }),
+  }
+}
+
+// ===========================
+// SERVER: TOKEN BUDGET
+// ===========================
+
+export interface FittedHistory {
+  turns: ChatTurn[]
+  // Short recap of the turns that were trimmed
+  summary?: string
+}
+
+// ~4 characters per token for English text; close enough for budgeting
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Keep the most recent turns that fit `budget` tokens. Older turns are
+ * replaced by a summary of what the user asked in them.
+ */
+export function fitChatHistory(history: ChatTurn[], budget = CHAT_HISTORY_TOKEN_BUDGET): FittedHistory {
+  const turns = history.map(turn => ({ ...turn, content: clip(turn.content, MAX_TURN_TOKENS * 4) }))
+
+  let start = turns.length
+  let used = 0
+  while (start > 0) {
+    const cost = estimateTokens(turns[start - 1].content)
+    if (used + cost > budget) break
+    used += cost
+    start--
+  }
+
+  // Start on a user turn so the model never sees a reply without its question
+  while (start < turns.length && turns[start].role !== "user") start++
+
+  return { turns: turns.slice(start), summary: summarizeTurns(history.slice(0, start)) }
+}
+
+function summarizeTurns(turns: ChatTurn[]): string | undefined {
+  const requests = turns
+    .filter(turn => turn.role === "user")
+    .slice(-SUMMARY_MAX_REQUESTS)
+    .map(turn => `- ${clip(turn.content.trim().split("\n")[0], 160)}`)
+
+  if (requests.length === 0) return undefined
+  return `Earlier in this conversation (older messages omitted), the user asked:\n${requests.join("\n")}`
+}
+
+function clip(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text
+}
+
+// ===========================
+// BRANCHING
+// ===========================
+
+/**
+ * Cut the conversation after message `id` to start a new branch there.
+ * The current continuation is kept in the message's branches.
+ */
+export function branchAt<T extends BranchedMessage<T>>(messages: T[], id: string): T[] {
+  const index = messages.findIndex(m => m.id === id)
+  if (index < 0) return messages
+
+  const message = messages[index]
+  const tail = messages.slice(index + 1)
+  if (tail.length === 0) return messages
+
+  const branches = [...(message.branches ?? [[]])]
+  branches[message.branchIndex ?? 0] = tail
+  branches.push([])
+
+  return [...messages.slice(0, index), { ...message, branches, branchIndex: branches.length - 1 }]
+}
+
+/**
+ * Show another continuation of message `id`
+ */
+export function switchBranch<T extends BranchedMessage<T>>(messages: T[], id: string, branchIndex: number): T[] {
+  const index = messages.findIndex(m => m.id === id)
+  const message = messages[index]
+  const current = message?.branchIndex ?? 0
+  if (!message?.branches?.[branchIndex] || branchIndex === current) return messages
+
+  const branches = [...message.branches]
+  branches[current] = messages.slice(index + 1)
+  const tail = branches[branchIndex]
+  branches[branchIndex] = []
+
+  return [...messages.slice(0, index), { ...message, branches, branchIndex }, ...tail]
+}
@@ -1,8 +1,23 @@
+import {
+  getStorageBackend,
+  runMigrationOnce,
+  reviveChat,
+  LEGACY_CHAT_HISTORY_KEY,
+  LEGACY_CHAT_MESSAGES_PREFIX,
+  type StorageBackend,
+} from "./storage-backend"
+import type { ChatCanvasEdit } from "./canvas-edits"
+
 export interface ChatMessage {
   id: string
   role: "user" | "assistant"
   content: string
   timestamp: Date
+  // Alternative continuations after this message (see lib/chat-context.ts)
+  branches?: ChatMessage[][]
+  branchIndex?: number
+  // Canvas edit proposed in this message (see lib/canvas-edits.ts)
+  canvasEdit?: ChatCanvasEdit
 }
 
 export interface ChatHistory {
@@ -17,57 +32,87 @@ export interface ChatHistory {
   updatedAt: Date
 }
 
-const STORAGE_KEY = "lume-chat-history"
-
-export function saveChatToHistory(chat: ChatHistory): void {
-  const history = getChatHistory()
-  const existingIndex = history.findIndex((c) => c.id === chat.id)
+async function getBackend(): Promise<StorageBackend> {
+  const backend = await getStorageBackend()
+  await runMigrationOnce(backend, "chats", () => migrateLegacyChats(backend))
+  return backend
+}
 
-  if (existingIndex >= 0) {
-    history[existingIndex] = chat
-  } else {
-    history.push(chat)
-  }
+export async function saveChatToHistory(chat: ChatHistory): Promise<void> {
+  const backend = await getBackend()
+  await backend.putChat(chat)
+}
 
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(history))
+export async function getChatHistory(): Promise<ChatHistory[]> {
+  if (typeof window === "undefined") return []
+  const backend = await getBackend()
+  return backend.getChats()
 }
 
-export function getChatHistory(): ChatHistory[] {
+export async function getChatsByWorkspace(workspaceId: string): Promise<ChatHistory[]> {
   if (typeof window === "undefined") return []
-  
-  const stored = localStorage.getItem(STORAGE_KEY)
-  if (!stored) return []
-
-  try {
-    const parsed = JSON.parse(stored)
-    return parsed.map((chat: any) => ({
-      ...chat,
-      createdAt: new Date(chat.createdAt),
-      updatedAt: new Date(chat.updatedAt),
-      messages: chat.messages.map((m: any) => ({
-        ...m,
-        timestamp: new Date(m.timestamp),
-      })),
-    }))
-  } catch {
-    return []
-  }
+  const backend = await getBackend()
+  return backend.getChatsByWorkspace(workspaceId)
 }
 
-export function getChatsByWorkspace(workspaceId: string): ChatHistory[] {
-  return getChatHistory()
-    .filter((chat) => chat.workspaceId === workspaceId)
-    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+export async function getChatById(chatId: string): Promise<ChatHistory | null> {
+  if (typeof window === "undefined") return null
+  const backend = await getBackend()
+  return backend.getChat(chatId)
 }
 
-export function getChatById(chatId: string): ChatHistory | null {
-  const history = getChatHistory()
-  return history.find((c) => c.id === chatId) || null
+export async function deleteChatFromHistory(chatId: string): Promise<void> {
+  const backend = await getBackend()
+  await backend.deleteChat(chatId)
+  await backend.deleteProject(chatId)
 }
 
-export function deleteChatFromHistory(chatId: string): void {
-  const history = getChatHistory().filter((c) => c.id !== chatId)
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(history))
+/**
+ * Move chats saved by older versions out of localStorage: the
+ * `lume-chat-history` array and the standalone `chat-${id}` message lists
+ */
+async function migrateLegacyChats(backend: StorageBackend): Promise<void> {
+  const migratedKeys: string[] = []
+
+  const stored = localStorage.getItem(LEGACY_CHAT_HISTORY_KEY)
+  if (stored) {
+    const chats: ChatHistory[] = JSON.parse(stored)
+    for (const chat of chats) {
+      await backend.putChat(reviveChat(chat))
+    }
+    migratedKeys.push(LEGACY_CHAT_HISTORY_KEY)
+  }
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    if (!key?.startsWith(LEGACY_CHAT_MESSAGES_PREFIX)) continue
+
+    const chatId = key.slice(LEGACY_CHAT_MESSAGES_PREFIX.length)
+    migratedKeys.push(key)
+    if (await backend.getChat(chatId)) continue
+
+    try {
+      const messages: ChatMessage[] = JSON.parse(localStorage.getItem(key) || "[]").map(
+        (m: ChatMessage) => ({ ...m, timestamp: new Date(m.timestamp) })
+      )
+      if (messages.length === 0) continue
+      await backend.putChat({
+        id: chatId,
+        workspaceId: "default",
+        title: generateChatTitle(messages),
+        messages,
+        screenshots: [],
+        assets: [],
+        createdAt: messages[0].timestamp,
+        updatedAt: messages[messages.length - 1].timestamp,
+      })
+    } catch (error) {
+      console.warn(`Skipping unreadable legacy chat ${chatId}:`, error)
+    }
+  }
+
+  // Only clear localStorage once everything is safely in IndexedDB
+  migratedKeys.forEach((key) => localStorage.removeItem(key))
 }
 
 export function generateChatTitle(messages: ChatMessage[]): string {
@@ -0,0 +1,263 @@
+/**
+ * Color Palette - background palettes derived from an app's colors
+ *
+ * Works in OKLCH, where equal steps in lightness and hue look equal, so
+ * colors rotated around the wheel keep the brightness of the one they came
+ * from. Every background comes with a text color that reads on it at the
+ * WCAG AA ratio, and backgrounds too mid-toned for either are nudged lighter
+ * or darker until one does.
+ */
+
+export interface Oklch {
+  l: number // Lightness, 0-1
+  c: number // Chroma, 0 to about 0.37
+  h: number // Hue in degrees
+}
+
+export type PaletteRelation = 'tint' | 'shade' | 'analogous' | 'complementary' | 'triadic'
+
+export interface PaletteSwatch {
+  background: string
+  textColor: string
+  relation: PaletteRelation
+}
+
+export interface PaletteGradient {
+  colors: [string, string] // Top to bottom
+  textColor: string // Readable on both ends
+}
+
+export const DARK_TEXT = '#1A1A1A'
+export const LIGHT_TEXT = '#FFFFFF'
+
+// WCAG AA for body text
+export const MIN_TEXT_CONTRAST = 4.5
+
+// Below this chroma a color is a gray and its hue means nothing
+const ACHROMATIC_CHROMA = 0.02
+
+// Backgrounds closer than this (OKLab distance) count as the same color
+const MIN_SWATCH_DISTANCE = 0.03
+
+// ===========================
+// CONVERSION
+// ===========================
+
+const toLinear = (channel: number) =>
+  channel <= 0.04045 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4)
+
+const fromLinear = (channel: number) =>
+  channel <= 0.0031308 ? channel * 12.92 : 1.055 * Math.pow(channel, 1 / 2.4) - 0.055
+
+function parseHex(hex: string): [number, number, number] | null {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim())
+  if (!match) return null
+  const value = parseInt(match[1], 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+function toOklab(hex: string): [number, number, number] | null {
+  const rgb = parseHex(hex)
+  if (!rgb) return null
+  const [r, g, b] = rgb.map(channel => toLinear(channel / 255))
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b)
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b)
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b)
+
+  return [
+    0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s,
+  ]
+}
+
+// Linear sRGB, possibly outside 0-1 when the color is out of gamut
+function toLinearRgb({ l: lightness, c, h }: Oklch): [number, number, number] {
+  const a = c * Math.cos((h * Math.PI) / 180)
+  const b = c * Math.sin((h * Math.PI) / 180)
+
+  const l = Math.pow(lightness + 0.3963377774 * a + 0.2158037573 * b, 3)
+  const m = Math.pow(lightness - 0.1055613458 * a - 0.0638541728 * b, 3)
+  const s = Math.pow(lightness - 0.0894841775 * a - 1.2914855480 * b, 3)
+
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.7076372211 * s,
+  ]
+}
+
+const inGamut = (rgb: number[]) => rgb.every(channel => channel >= -1e-4 && channel <= 1 + 1e-4)
+
+export function hexToOklch(hex: string): Oklch | null {
+  const lab = toOklab(hex)
+  if (!lab) return null
+  const [l, a, b] = lab
+  const h = (Math.atan2(b, a) * 180) / Math.PI
+  return { l, c: Math.hypot(a, b), h: h < 0 ? h + 360 : h }
+}
+
+/**
+ * Nearest sRGB color, keeping lightness and hue and giving up chroma when
+ * the color can't be shown
+ */
+export function oklchToHex(color: Oklch): string {
+  const l = Math.min(1, Math.max(0, color.l))
+  const h = ((color.h % 360) + 360) % 360
+  let c = Math.max(0, color.c)
+
+  if (!inGamut(toLinearRgb({ l, c, h }))) {
+    let low = 0
+    let high = c
+    for (let i = 0; i < 20; i++) {
+      const mid = (low + high) / 2
+      if (inGamut(toLinearRgb({ l, c: mid, h }))) low = mid
+      else high = mid
+    }
+    c = low
+  }
+
+  const channels = toLinearRgb({ l, c, h }).map(channel =>
+    Math.round(Math.min(1, Math.max(0, fromLinear(channel))) * 255)
+  )
+  return `#${channels.map(channel => channel.toString(16).padStart(2, '0')).join('').toUpperCase()}`
+}
+
+// ===========================
+// CONTRAST
+// ===========================
+
+function relativeLuminance(hex: string): number {
+  const [r, g, b] = (parseHex(hex) ?? [0, 0, 0]).map(channel => toLinear(channel / 255))
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b
+}
+
+/**
+ * WCAG contrast ratio between two colors, from 1 to 21
+ */
+export function getContrastRatio(first: string, second: string): number {
+  const [light, dark] = [relativeLuminance(first), relativeLuminance(second)].sort((a, b) => b - a)
+  return (light + 0.05) / (dark + 0.05)
+}
+
+/**
+ * Dark or light text, whichever contrasts more with the background(s)
+ */
+export function getReadableTextColor(...backgrounds: string[]): string {
+  const worst = (text: string) => Math.min(...backgrounds.map(bg => getContrastRatio(bg, text)))
+  return worst(DARK_TEXT) >= worst(LIGHT_TEXT) ? DARK_TEXT : LIGHT_TEXT
+}
+
+// Lighten (for dark text) or darken (for light text) until the text reads
+function makeReadable(color: Oklch, textColor: string): string {
+  const step = textColor === DARK_TEXT ? 0.02 : -0.02
+  let adjusted = color
+  let hex = oklchToHex(adjusted)
+  while (getContrastRatio(hex, textColor) < MIN_TEXT_CONTRAST && adjusted.l > 0 && adjusted.l < 1) {
+    adjusted = { ...adjusted, l: adjusted.l + step }
+    hex = oklchToHex(adjusted)
+  }
+  return hex
+}
+
+function readableSwatch(color: Oklch, relation: PaletteRelation): PaletteSwatch {
+  const textColor = getReadableTextColor(oklchToHex(color))
+  return { background: makeReadable(color, textColor), textColor, relation }
+}
+
+// ===========================
+// PALETTES
+// ===========================
+
+const rotate = (color: Oklch, degrees: number, l: number, maxChroma: number): Oklch => ({
+  l,
+  c: Math.min(color.c, maxChroma),
+  h: color.h + degrees,
+})
+
+// Backgrounds built from the most common app color
+function harmonies(seed: Oklch): Array<[Oklch, PaletteRelation]> {
+  const neutral = seed.c < ACHROMATIC_CHROMA
+  const swatches: Array<[Oklch, PaletteRelation]> = [
+    [rotate(seed, 0, 0.96, 0.03), 'tint'],
+    [rotate(seed, 0, 0.24, 0.08), 'shade'],
+  ]
+  // Rotating a gray only gives the same gray again
+  if (neutral) return swatches
+
+  return [
+    ...swatches,
+    [rotate(seed, 30, 0.92, 0.06), 'analogous'],
+    [rotate(seed, -30, 0.92, 0.06), 'analogous'],
+    [rotate(seed, 180, 0.92, 0.06), 'complementary'],
+    [rotate(seed, 180, 0.28, 0.08), 'complementary'],
+    [rotate(seed, 120, 0.9, 0.06), 'triadic'],
+    [rotate(seed, 240, 0.9, 0.06), 'triadic'],
+    [rotate(seed, 0, 0.88, 0.08), 'tint'],
+  ]
+}
+
+function gradientPairs(seed: Oklch): Array<[Oklch, Oklch]> {
+  const pairs: Array<[Oklch, Oklch]> = [
+    [rotate(seed, 0, 0.97, 0.02), rotate(seed, 0, 0.88, 0.06)],
+    [rotate(seed, 0, 0.34, 0.1), rotate(seed, 0, 0.18, 0.06)],
+  ]
+  if (seed.c < ACHROMATIC_CHROMA) return pairs
+
+  return [
+    ...pairs,
+    [rotate(seed, 0, 0.95, 0.04), rotate(seed, 30, 0.87, 0.07)],
+    [rotate(seed, 0, 0.36, 0.12), rotate(seed, -40, 0.24, 0.1)],
+    [rotate(seed, 0, 0.94, 0.05), rotate(seed, 180, 0.9, 0.05)],
+  ]
+}
+
+function distance(first: string, second: string): number {
+  const [l1, a1, b1] = toOklab(first) ?? [0, 0, 0]
+  const [l2, a2, b2] = toOklab(second) ?? [0, 0, 0]
+  return Math.hypot(l1 - l2, a1 - a2, b1 - b2)
+}
+
+/**
+ * Backgrounds and gradients for screens, from the colors found in the
+ * screenshots (most common first). The first colorful one sets the
+ * harmonies; the next two add their own tint and shade.
+ */
+export function generatePalette(dominantColors: string[]): {
+  swatches: PaletteSwatch[]
+  gradients: PaletteGradient[]
+} {
+  const seeds = dominantColors
+    .map(hexToOklch)
+    .filter((color): color is Oklch => color !== null)
+    .slice(0, 3)
+  if (seeds.length === 0) return { swatches: [], gradients: [] }
+
+  // Harmonies come from the first colorful seed; a gray one only tints and shades
+  const primary = seeds.find(seed => seed.c >= ACHROMATIC_CHROMA) ?? seeds[0]
+  const candidates = [
+    ...harmonies(primary),
+    ...seeds
+      .filter(seed => seed !== primary)
+      .flatMap((seed): Array<[Oklch, PaletteRelation]> => [
+        [rotate(seed, 0, 0.95, 0.04), 'tint'],
+        [rotate(seed, 0, 0.26, 0.08), 'shade'],
+      ]),
+  ]
+
+  const swatches: PaletteSwatch[] = []
+  for (const [color, relation] of candidates) {
+    const swatch = readableSwatch(color, relation)
+    if (swatches.every(existing => distance(existing.background, swatch.background) >= MIN_SWATCH_DISTANCE)) {
+      swatches.push(swatch)
+    }
+  }
+
+  const gradients = gradientPairs(primary).map(([from, to]): PaletteGradient => {
+    const textColor = getReadableTextColor(oklchToHex(from), oklchToHex(to))
+    return { colors: [makeReadable(from, textColor), makeReadable(to, textColor)], textColor }
+  })
+
+  return { swatches, gradients }
+}
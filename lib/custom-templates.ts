@@ -0,0 +1,303 @@
+/**
+ * Custom Templates - screens saved as reusable templates
+ *
+ * Saving a screen keeps its layer geometry and styling and turns the copy,
+ * screenshot and logo into slots, filled from whichever screen the template
+ * is applied to. Templates are stored per workspace and travel as JSON
+ * files so a team can share its house style and version it in git.
+ */
+
+import { z } from "zod"
+import { findTextLayer } from "./canvas-edits"
+import { DEVICE_FRAMES, FRAME_COLORS, type DeviceFrameId, type MockupVariant } from "./device-frames"
+import { applyDeviceFrame, getTemplateById, type LayoutTemplate } from "./layout-templates"
+import { LAYER_BLEND_MODES, type Layer, type Screen } from "./scene-graph"
+import { getStorageBackend } from "./storage-backend"
+
+export type TemplateSlot = "headline" | "subtitle" | "screenshot" | "logo"
+
+// Slot layers are saved without content
+export type CustomTemplateLayer = Layer & { slot?: TemplateSlot }
+
+export interface CustomTemplate {
+  id: string
+  name: string
+  backgroundColor: string
+  textColor: string
+  layers: CustomTemplateLayer[]
+  createdAt: string
+  updatedAt: string
+}
+
+// Written into exported files and checked on import
+export const TEMPLATE_FILE_FORMAT = "lume-templates"
+export const TEMPLATE_FILE_VERSION = 1
+
+// Template-local ids of slot layers; relayoutScreen finds the copy by them
+const SLOT_LAYER_IDS: Record<TemplateSlot, string> = {
+  headline: "headline",
+  subtitle: "subtitle",
+  screenshot: "mockup",
+  logo: "logo",
+}
+
+// Imported files come from other people, so every field the renderer and
+// editor read is checked; anything else on a layer is dropped
+
+// Hex, rgb()/hsl() or a named color; nothing that CSS could load (url(), var())
+const ColorSchema = z.string().max(50).regex(/^(#[0-9a-fA-F]{3,8}|(rgb|hsl)a?\([\d\s.,%/deg-]+\)|[a-zA-Z]+)$/)
+const FiniteNumber = z.number().finite()
+const Coordinate = FiniteNumber.min(-10_000).max(10_000)
+
+// Images embedded in the file; templates never load anything from the network
+const EmbeddedImageSchema = z.string().startsWith("data:image/").max(15_000_000)
+
+const CustomTemplateLayerSchema = z.object({
+  id: z.string().min(1).max(100),
+  type: z.enum(["text", "image", "mockup", "background", "decoration", "shape"]),
+  content: z.string().max(5000).or(EmbeddedImageSchema).catch(""),
+  x: Coordinate,
+  y: Coordinate,
+  width: Coordinate,
+  height: Coordinate,
+  rotation: FiniteNumber.optional(),
+  opacity: FiniteNumber.min(0).max(1).optional(),
+  shadow: z.object({
+    offsetX: Coordinate,
+    offsetY: Coordinate,
+    blur: FiniteNumber.min(0).max(500),
+    color: ColorSchema,
+  }).optional(),
+  blendMode: z.enum(LAYER_BLEND_MODES).optional(),
+  cornerRadius: FiniteNumber.min(0).max(10_000).optional(),
+  fontSize: FiniteNumber.min(1).max(1000).optional(),
+  fontFamily: z.string().max(200).regex(/^[\w\s,'"-]+$/).optional(),
+  color: ColorSchema.optional(),
+  bold: z.boolean().optional(),
+  italic: z.boolean().optional(),
+  underline: z.boolean().optional(),
+  align: z.enum(["left", "center", "right"]).optional(),
+  lineHeight: FiniteNumber.min(0.1).max(10).optional(),
+  letterSpacing: FiniteNumber.min(-100).max(100).optional(),
+  textTransform: z.enum(["none", "uppercase", "lowercase", "capitalize"]).optional(),
+  spans: z.array(z.object({
+    start: z.number().int().min(0),
+    end: z.number().int().min(0),
+    color: ColorSchema.optional(),
+    bold: z.boolean().optional(),
+    italic: z.boolean().optional(),
+    underline: z.boolean().optional(),
+  })).max(500).optional(),
+  autoFit: z.boolean().optional(),
+  translations: z.record(z.string().max(20), z.string().max(5000)).optional(),
+  textDirection: z.literal("rtl").optional(),
+  imageCrop: z.object({
+    fit: z.enum(["fill", "fit"]),
+    zoom: FiniteNumber.min(0.01).max(100),
+    x: FiniteNumber.min(0).max(1),
+    y: FiniteNumber.min(0).max(1),
+  }).optional(),
+  deviceFrame: z.custom<DeviceFrameId>(value => DEVICE_FRAMES.some(frame => frame.id === value)).optional(),
+  mockupVariant: z.custom<MockupVariant>(value => typeof value === "string" && Object.hasOwn(FRAME_COLORS, value)).optional(),
+  backgroundColor: ColorSchema.optional(),
+  backgroundGradient: z.object({
+    type: z.enum(["linear", "radial"]),
+    colors: z.array(ColorSchema).max(10),
+    angle: FiniteNumber.optional(),
+  }).optional(),
+  shape: z.enum(["rectangle", "ellipse", "line"]).optional(),
+  fill: ColorSchema.optional(),
+  stroke: ColorSchema.optional(),
+  strokeWidth: FiniteNumber.min(0).max(500).optional(),
+  lineDirection: z.enum(["down", "up"]).optional(),
+  constraints: z.object({
+    horizontal: z.enum(["left", "right", "left-right", "center", "scale"]).optional(),
+    vertical: z.enum(["top", "bottom", "top-bottom", "center", "scale"]).optional(),
+    aspectLock: z.boolean().optional(),
+  }).optional(),
+  overrides: z.record(z.string().max(100), z.object({
+    x: Coordinate.optional(),
+    y: Coordinate.optional(),
+    width: Coordinate.optional(),
+    height: Coordinate.optional(),
+  })).optional(),
+  slot: z.enum(["headline", "subtitle", "screenshot", "logo"]).optional(),
+}).refine(
+  // Only text keeps its content as plain text; image content must be embedded
+  layer => layer.type === "text" || layer.slot !== undefined || layer.content === "" || layer.content.startsWith("data:image/"),
+  { message: "Layer content must be an embedded image" }
+).transform(
+  // Slots are filled per screen; translated copy in a file would end up on every screen
+  layer => layer.slot ? { ...layer, translations: undefined } : layer
+)
+
+const CustomTemplateSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1).max(100),
+  backgroundColor: ColorSchema,
+  textColor: ColorSchema,
+  layers: z.array(CustomTemplateLayerSchema).max(200),
+  createdAt: z.string().catch(() => new Date().toISOString()),
+  updatedAt: z.string().catch(() => new Date().toISOString()),
+})
+
+const TemplateFileSchema = z.object({
+  format: z.literal(TEMPLATE_FILE_FORMAT),
+  version: z.number().int(),
+  templates: z.array(CustomTemplateSchema),
+})
+
+// ===========================
+// SAVE & APPLY
+// ===========================
+
+/**
+ * Template from a screen. The headline, subtitle, every mockup and the
+ * logo become slots; all other layers are kept as they are.
+ */
+export function createTemplateFromScreen(
+  screen: Screen,
+  template: { id: string; name: string; logo?: string }
+): CustomTemplate {
+  const headline = findTextLayer(screen, "headline")
+  const subtitle = findTextLayer(screen, "subtitle")
+
+  const slotOf = (layer: Layer): TemplateSlot | undefined => {
+    if (layer === headline) return "headline"
+    if (layer === subtitle) return "subtitle"
+    if (layer.type === "mockup") return "screenshot"
+    if (layer.type === "image" && (layer.id.includes("logo") || (!!template.logo && layer.content === template.logo))) return "logo"
+    return undefined
+  }
+
+  const now = new Date().toISOString()
+  return {
+    id: template.id,
+    name: template.name,
+    backgroundColor: screen.backgroundColor,
+    textColor: headline?.color || "#1A1A1A",
+    layers: screen.layers.map((layer, index) => {
+      const slot = slotOf(layer)
+      return {
+        ...layer,
+        id: slot ? SLOT_LAYER_IDS[slot] : `layer_${index}`,
+        content: slot ? "" : layer.content,
+        spans: slot ? undefined : layer.spans,
+        translations: slot ? undefined : layer.translations, // Copy of this screen only
+        groupId: undefined, // Applied templates start ungrouped, like relayoutScreen
+        slot,
+      }
+    }),
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+/**
+ * Custom template in the shape the canvas template registry uses
+ */
+export function toLayoutTemplate(template: CustomTemplate): LayoutTemplate {
+  return {
+    id: template.id,
+    name: template.name,
+    description: "Saved from a screen",
+    category: "custom",
+    backgroundColor: template.backgroundColor,
+    textColor: template.textColor,
+    generateLayers: (content) => template.layers.flatMap(({ slot, ...layer }): Layer[] => {
+      const textStyle = {
+        ...(content.textColor && { color: content.textColor }),
+        ...(content.fontFamily && { fontFamily: content.fontFamily }),
+      }
+      switch (slot) {
+        case "headline":
+          return [{ ...layer, ...textStyle, content: content.headline, translations: undefined }]
+        case "subtitle":
+          return content.subtitle ? [{ ...layer, ...textStyle, content: content.subtitle, translations: undefined }] : []
+        case "screenshot":
+          return [applyDeviceFrame({ ...layer, content: content.screenshot, mockupVariant: content.mockupVariant || layer.mockupVariant }, content)]
+        case "logo":
+          return content.logo ? [{ ...layer, content: content.logo }] : []
+        default:
+          return layer.type === "background" && content.backgroundColor
+            ? [{ ...layer, backgroundColor: content.backgroundColor }]
+            : [layer]
+      }
+    }),
+  }
+}
+
+/**
+ * Add templates, replacing saved ones with the same id (re-importing an
+ * updated file updates the template instead of duplicating it)
+ */
+export function mergeTemplates(existing: CustomTemplate[], incoming: CustomTemplate[]): CustomTemplate[] {
+  const incomingIds = new Set(incoming.map(template => template.id))
+  return [...existing.filter(template => !incomingIds.has(template.id)), ...incoming]
+}
+
+// ===========================
+// IMPORT & EXPORT
+// ===========================
+
+/**
+ * JSON file for a set of templates, formatted to diff well in git
+ */
+export function serializeTemplates(templates: CustomTemplate[]): string {
+  return JSON.stringify({ format: TEMPLATE_FILE_FORMAT, version: TEMPLATE_FILE_VERSION, templates }, null, 2) + "\n"
+}
+
+/**
+ * Templates from an exported file; throws a readable error for anything else
+ */
+export function parseTemplateFile(json: string): CustomTemplate[] {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new Error("The file is not valid JSON")
+  }
+
+  const result = TemplateFileSchema.safeParse(data)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    const isExport = (data as { format?: unknown } | null)?.format === TEMPLATE_FILE_FORMAT
+    throw new Error(isExport
+      ? `The file has an invalid value at ${issue.path.join(".")}: ${issue.message}`
+      : "The file is not a template export")
+  }
+  if (result.data.version > TEMPLATE_FILE_VERSION) {
+    throw new Error("The templates were exported by a newer version of the app")
+  }
+  // A file can't replace a built-in template; its clashing ids get a prefix
+  return result.data.templates.map(template => getTemplateById(template.id)
+    ? { ...template, id: `custom_${template.id}` }
+    : template)
+}
+
+/**
+ * File name for an export ("House Style" → "house-style.template.json")
+ */
+export function getTemplateFileName(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "")
+  return `${slug || "templates"}.template.json`
+}
+
+// ===========================
+// STORAGE
+// ===========================
+
+const templatesKey = (workspaceId: string) => `templates:${workspaceId}`
+
+export async function getCustomTemplates(workspaceId: string): Promise<CustomTemplate[]> {
+  if (typeof window === "undefined") return []
+
+  const backend = await getStorageBackend()
+  const stored = await backend.getMeta(templatesKey(workspaceId))
+  return Array.isArray(stored) ? (stored as CustomTemplate[]) : []
+}
+
+export async function saveCustomTemplates(workspaceId: string, templates: CustomTemplate[]): Promise<void> {
+  const backend = await getStorageBackend()
+  await backend.setMeta(templatesKey(workspaceId), templates)
+}
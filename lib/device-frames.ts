@@ -0,0 +1,459 @@
+/**
+ * Device Frames - the devices a mockup layer can be shown in
+ *
+ * Every frame is a set of filled SVG paths in its own units plus the screen
+ * cutout the screenshot shows through, so the <DeviceMockup /> SVG and the
+ * raster scene renderer draw the same thing from one description. Parts
+ * marked `punched` are cut away where the screen is once there is a
+ * screenshot behind them.
+ */
+
+import {
+  PHONE_WIDTH,
+  PHONE_HEIGHT,
+  SCREEN_X,
+  SCREEN_Y,
+  SCREEN_WIDTH,
+  SCREEN_HEIGHT,
+  SCREEN_RADIUS,
+  BODY_PATHS,
+  INNER_BEZEL_PATH,
+  SPEAKER_PATH,
+  SCREEN_EDGE_PATH,
+  ISLAND_PATH,
+  CAMERA_RING_PATH,
+  CAMERA_LENS_PATH,
+} from './iphone-frame'
+
+export type DeviceFrameId =
+  | 'iphone-15-pro'
+  | 'iphone-15-pro-max'
+  | 'ipad-pro'
+  | 'pixel-8'
+  | 'galaxy-s24'
+  | 'android-tablet'
+  | 'apple-watch'
+  | 'mac-window'
+  | 'none'
+
+export type DeviceCategory = 'phone' | 'tablet' | 'watch' | 'desktop' | 'none'
+
+// Frame colors; every device comes in black and white
+export type MockupVariant = 'black' | 'white' | 'silver' | 'titanium' | 'blue' | 'green'
+
+export const FRAME_COLORS: Record<MockupVariant, { name: string; border: string; inner: string }> = {
+  black: { name: 'Black', border: '#1A1A1A', inner: '#0A0A0A' },
+  white: { name: 'White', border: '#FFFFFF', inner: '#F5F5F5' },
+  silver: { name: 'Silver', border: '#E3E4E6', inner: '#1A1A1A' },
+  titanium: { name: 'Natural titanium', border: '#9A958C', inner: '#1A1A1A' },
+  blue: { name: 'Blue', border: '#3D4A5C', inner: '#0A0A0A' },
+  green: { name: 'Green', border: '#B8C7B0', inner: '#1A1A1A' },
+}
+
+// What a part is filled with; body parts take the variant's colors
+export type FramePartFill =
+  | 'border'
+  | 'inner'
+  | 'edge'
+  | 'island'
+  | 'lens'
+  | 'camera'
+  | 'close'
+  | 'minimize'
+  | 'zoom'
+
+const PART_COLORS: Record<Exclude<FramePartFill, 'border' | 'inner'>, string> = {
+  edge: '#E5E5E5',
+  island: '#F5F5F5',
+  lens: '#E5E5E5',
+  camera: '#0A0A0A',
+  close: '#FF5F57',
+  minimize: '#FEBC2E',
+  zoom: '#28C840',
+}
+
+export interface FramePart {
+  d: string
+  fill: FramePartFill
+  opacity?: number
+  punched?: boolean
+  outlined?: boolean // Also stroked half a unit wide in its fill color
+}
+
+export interface DeviceFrame {
+  id: DeviceFrameId
+  name: string
+  category: DeviceCategory
+  width: number
+  height: number
+  screen: { x: number; y: number; width: number; height: number; radius: number }
+  parts: FramePart[]
+  variants: MockupVariant[]
+  // Native screenshot resolutions (portrait, or landscape for desktops)
+  screenshotSizes: Array<[number, number]>
+}
+
+export const DEFAULT_DEVICE_FRAME: DeviceFrameId = 'iphone-15-pro'
+
+// ===========================
+// GEOMETRY
+// ===========================
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * SVG path of a rounded rectangle; `bottomRadius` defaults to `radius`
+ */
+function rectPath(x: number, y: number, width: number, height: number, radius: number, bottomRadius = radius): string {
+  const r = round(Math.min(radius, width / 2, height / 2))
+  const b = round(Math.min(bottomRadius, width / 2, height / 2))
+  const [left, top, right, bottom] = [x, y, x + width, y + height].map(round)
+  return [
+    `M${left + r} ${top}H${right - r}`,
+    r ? `A${r} ${r} 0 0 1 ${right} ${top + r}` : '',
+    `V${bottom - b}`,
+    b ? `A${b} ${b} 0 0 1 ${right - b} ${bottom}` : '',
+    `H${left + b}`,
+    b ? `A${b} ${b} 0 0 1 ${left} ${bottom - b}` : '',
+    `V${top + r}`,
+    r ? `A${r} ${r} 0 0 1 ${left + r} ${top}` : '',
+    'Z',
+  ].join('')
+}
+
+function circlePath(cx: number, cy: number, r: number): string {
+  return rectPath(cx - r, cy - r, r * 2, r * 2, r)
+}
+
+interface HandheldSpec {
+  id: DeviceFrameId
+  name: string
+  category: DeviceCategory
+  screenWidth: number
+  screenHeight: number
+  bezel: number // Body edge to screen
+  bodyRadius: number
+  screenRadius: number
+  camera?: 'island' | 'punch-hole' | 'bezel'
+  // Buttons sticking out of the body; `y` from the top of the frame
+  buttons: Array<{ side: 'left' | 'right'; y: number; length: number; depth?: number }>
+  variants: MockupVariant[]
+  screenshotSizes: Array<[number, number]>
+}
+
+/**
+ * Phones, tablets and watches: a rounded body with buttons on its sides,
+ * an inner bezel and a camera in or above the screen
+ */
+function handheldFrame(spec: HandheldSpec): DeviceFrame {
+  const depth = Math.max(3, ...spec.buttons.map(button => button.depth ?? 3))
+  const bodyWidth = spec.screenWidth + spec.bezel * 2
+  const width = bodyWidth + depth * 2
+  const height = spec.screenHeight + spec.bezel * 2
+  const screen = {
+    x: depth + spec.bezel,
+    y: spec.bezel,
+    width: spec.screenWidth,
+    height: spec.screenHeight,
+    radius: spec.screenRadius,
+  }
+  const rim = Math.min(4, spec.bezel / 3)
+
+  const parts: FramePart[] = [
+    ...spec.buttons.map(({ side, y, length, depth: buttonDepth = 3 }): FramePart => ({
+      d: rectPath(side === 'left' ? depth - buttonDepth : depth + bodyWidth - 1, y, buttonDepth + 1, length, 1),
+      fill: 'border',
+    })),
+    { d: rectPath(depth, 0, bodyWidth, height, spec.bodyRadius), fill: 'border', punched: true },
+    { d: rectPath(depth + rim, rim, bodyWidth - rim * 2, height - rim * 2, spec.bodyRadius - rim), fill: 'inner', punched: true },
+    { d: rectPath(screen.x, screen.y, screen.width, screen.height, screen.radius), fill: 'edge', punched: true, outlined: true },
+  ]
+
+  const centerX = screen.x + screen.width / 2
+  switch (spec.camera) {
+    case 'island': {
+      const islandWidth = screen.width * 0.29
+      const islandHeight = screen.width * 0.085
+      parts.push({
+        d: rectPath(centerX - islandWidth / 2, screen.y + screen.width * 0.03, islandWidth, islandHeight, islandHeight / 2),
+        fill: 'camera',
+      })
+      break
+    }
+    case 'punch-hole':
+      parts.push({ d: circlePath(centerX, screen.y + screen.width * 0.055, screen.width * 0.026), fill: 'camera' })
+      break
+    case 'bezel':
+      parts.push({ d: circlePath(centerX, spec.bezel / 2, Math.min(4, spec.bezel / 4)), fill: 'camera' })
+      break
+  }
+
+  return {
+    id: spec.id,
+    name: spec.name,
+    category: spec.category,
+    width,
+    height,
+    screen,
+    parts,
+    variants: spec.variants,
+    screenshotSizes: spec.screenshotSizes,
+  }
+}
+
+/**
+ * A macOS window: title bar with traffic lights over the screenshot
+ */
+function macWindowFrame(): DeviceFrame {
+  const width = 800
+  const titleBar = 28
+  const height = 500 + titleBar
+  return {
+    id: 'mac-window',
+    name: 'Mac window',
+    category: 'desktop',
+    width,
+    height,
+    screen: { x: 0, y: titleBar, width, height: height - titleBar, radius: 0 },
+    parts: [
+      { d: rectPath(0, 0, width, height, 12, 0), fill: 'border', punched: true },
+      { d: circlePath(20, titleBar / 2, 6), fill: 'close' },
+      { d: circlePath(40, titleBar / 2, 6), fill: 'minimize' },
+      { d: circlePath(60, titleBar / 2, 6), fill: 'zoom' },
+    ],
+    variants: ['black', 'white'],
+    screenshotSizes: [[2880, 1800], [2560, 1600], [1440, 900], [1280, 800]],
+  }
+}
+
+// ===========================
+// REGISTRY
+// ===========================
+
+export const DEVICE_FRAMES: DeviceFrame[] = [
+  {
+    // The original mockup, drawn from its hand-tuned paths
+    id: 'iphone-15-pro',
+    name: 'iPhone 15 Pro',
+    category: 'phone',
+    width: PHONE_WIDTH,
+    height: PHONE_HEIGHT,
+    screen: { x: SCREEN_X, y: SCREEN_Y, width: SCREEN_WIDTH, height: SCREEN_HEIGHT, radius: SCREEN_RADIUS },
+    parts: [
+      ...BODY_PATHS.map((d): FramePart => ({ d, fill: 'border', punched: true })),
+      { d: INNER_BEZEL_PATH, fill: 'inner', punched: true },
+      { d: SPEAKER_PATH, fill: 'border', opacity: 0.5 },
+      { d: SCREEN_EDGE_PATH, fill: 'edge', punched: true, outlined: true },
+      { d: ISLAND_PATH, fill: 'island' },
+      { d: CAMERA_RING_PATH, fill: 'island' },
+      { d: CAMERA_LENS_PATH, fill: 'lens' },
+    ],
+    variants: ['black', 'white', 'titanium', 'blue'],
+    screenshotSizes: [[1179, 2556], [1170, 2532], [1125, 2436]],
+  },
+  handheldFrame({
+    id: 'iphone-15-pro-max',
+    name: 'iPhone 15 Pro Max',
+    category: 'phone',
+    screenWidth: 430,
+    screenHeight: 932,
+    bezel: 20,
+    bodyRadius: 78,
+    screenRadius: 60,
+    camera: 'island',
+    buttons: [
+      { side: 'left', y: 170, length: 34 },
+      { side: 'left', y: 240, length: 66 },
+      { side: 'left', y: 322, length: 66 },
+      { side: 'right', y: 280, length: 106 },
+    ],
+    variants: ['black', 'white', 'titanium', 'blue'],
+    screenshotSizes: [[1290, 2796], [1284, 2778], [1242, 2688]],
+  }),
+  handheldFrame({
+    id: 'pixel-8',
+    name: 'Pixel 8',
+    category: 'phone',
+    screenWidth: 412,
+    screenHeight: 915,
+    bezel: 16,
+    bodyRadius: 58,
+    screenRadius: 44,
+    camera: 'punch-hole',
+    buttons: [
+      { side: 'right', y: 230, length: 52 },
+      { side: 'right', y: 310, length: 100 },
+    ],
+    variants: ['black', 'white', 'green'],
+    screenshotSizes: [[1080, 2400], [1344, 2992], [1280, 2856]],
+  }),
+  handheldFrame({
+    id: 'galaxy-s24',
+    name: 'Galaxy S24',
+    category: 'phone',
+    screenWidth: 360,
+    screenHeight: 780,
+    bezel: 11,
+    bodyRadius: 40,
+    screenRadius: 30,
+    camera: 'punch-hole',
+    buttons: [
+      { side: 'right', y: 200, length: 90 },
+      { side: 'right', y: 320, length: 50 },
+    ],
+    variants: ['black', 'white', 'silver'],
+    screenshotSizes: [[1080, 2340], [1440, 3120], [1440, 3088]],
+  }),
+  handheldFrame({
+    id: 'ipad-pro',
+    name: 'iPad Pro',
+    category: 'tablet',
+    screenWidth: 1024,
+    screenHeight: 1366,
+    bezel: 36,
+    bodyRadius: 60,
+    screenRadius: 26,
+    camera: 'bezel',
+    buttons: [
+      { side: 'right', y: 100, length: 60 },
+      { side: 'right', y: 170, length: 60 },
+    ],
+    variants: ['black', 'white', 'silver'],
+    screenshotSizes: [[2048, 2732], [1668, 2388], [1640, 2360], [1620, 2160]],
+  }),
+  handheldFrame({
+    id: 'android-tablet',
+    name: 'Android tablet',
+    category: 'tablet',
+    screenWidth: 800,
+    screenHeight: 1280,
+    bezel: 40,
+    bodyRadius: 44,
+    screenRadius: 16,
+    camera: 'bezel',
+    buttons: [
+      { side: 'right', y: 150, length: 60 },
+      { side: 'right', y: 230, length: 80 },
+    ],
+    variants: ['black', 'white', 'silver'],
+    screenshotSizes: [[1600, 2560], [1200, 1920], [1800, 2880]],
+  }),
+  handheldFrame({
+    id: 'apple-watch',
+    name: 'Apple Watch',
+    category: 'watch',
+    screenWidth: 198,
+    screenHeight: 242,
+    bezel: 20,
+    bodyRadius: 70,
+    screenRadius: 48,
+    buttons: [
+      { side: 'right', y: 70, length: 50, depth: 10 },
+      { side: 'right', y: 150, length: 40, depth: 4 },
+    ],
+    variants: ['black', 'white', 'silver', 'titanium'],
+    screenshotSizes: [[396, 484], [410, 502], [416, 496], [368, 448]],
+  }),
+  macWindowFrame(),
+  {
+    // Just the screenshot; the layer's corner radius rounds it
+    id: 'none',
+    name: 'No frame',
+    category: 'none',
+    width: 1,
+    height: 1,
+    screen: { x: 0, y: 0, width: 1, height: 1, radius: 0 },
+    parts: [],
+    variants: [],
+    screenshotSizes: [],
+  },
+]
+
+export function getDeviceFrame(id: DeviceFrameId | undefined): DeviceFrame {
+  return DEVICE_FRAMES.find(frame => frame.id === (id ?? DEFAULT_DEVICE_FRAME)) ?? DEVICE_FRAMES[0]
+}
+
+export function getFramePartColor(fill: FramePartFill, variant: MockupVariant): string {
+  if (fill === 'border' || fill === 'inner') return FRAME_COLORS[variant][fill]
+  return PART_COLORS[fill]
+}
+
+/**
+ * Screen cutout as fractions of the frame box (the DOM positions the
+ * screenshot with these percentages)
+ */
+export function getScreenRectFractions(frame: DeviceFrame) {
+  return {
+    left: frame.screen.x / frame.width,
+    top: frame.screen.y / frame.height,
+    width: frame.screen.width / frame.width,
+    height: frame.screen.height / frame.height,
+    radiusH: frame.screen.radius / frame.screen.width,
+    radiusV: frame.screen.radius / frame.screen.height,
+  }
+}
+
+/**
+ * Frame for a screenshot of `width` x `height` pixels: the device with that
+ * native resolution, otherwise the one whose screen has the closest shape
+ */
+export function suggestDeviceFrame(width: number, height: number): DeviceFrameId {
+  const framed = DEVICE_FRAMES.filter(frame => frame.parts.length > 0)
+  const exact = framed.find(frame => frame.screenshotSizes.some(([w, h]) => w === width && h === height))
+  if (exact) return exact.id
+
+  const ratio = width / height
+  const distance = (frame: DeviceFrame) => Math.abs(Math.log(frame.screen.width / frame.screen.height / ratio))
+  return framed.reduce((best, frame) => distance(frame) < distance(best) ? frame : best).id
+}
+
+/**
+ * A mockup layer's box for another frame, centered where the old box was.
+ * "contain" fits the frame inside the old box (a template's mockup slot);
+ * "area" keeps the size on the canvas, so switching back and forth doesn't
+ * shrink the layer. Frameless keeps the box.
+ */
+export function fitLayerToFrame<T extends { x: number; y: number; width: number; height: number }>(
+  layer: T,
+  frameId: DeviceFrameId,
+  mode: 'contain' | 'area' = 'contain'
+): T {
+  const frame = getDeviceFrame(frameId)
+  if (frame.parts.length === 0) return layer
+
+  const scale = mode === 'area'
+    ? Math.sqrt((layer.width * layer.height) / (frame.width * frame.height))
+    : Math.min(layer.width / frame.width, layer.height / frame.height)
+  const width = frame.width * scale
+  const height = frame.height * scale
+  return {
+    ...layer,
+    x: layer.x + (layer.width - width) / 2,
+    y: layer.y + (layer.height - height) / 2,
+    width,
+    height,
+  }
+}
+
+/**
+ * Pixel size of an image, for suggesting a frame (browser only)
+ */
+export function getImageSize(src: string): Promise<{ width: number; height: number } | null> {
+  if (typeof Image === 'undefined') return Promise.resolve(null)
+  return new Promise((resolve) => {
+    const img = new Image()
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight })
+    img.onerror = () => resolve(null)
+    img.src = src
+  })
+}
+
+/**
+ * Suggested frame for each screenshot; undefined where it can't be loaded
+ */
+export async function suggestDeviceFrames(screenshots: string[]): Promise<Array<DeviceFrameId | undefined>> {
+  return Promise.all(screenshots.map(async (src) => {
+    const size = await getImageSize(src)
+    return size ? suggestDeviceFrame(size.width, size.height) : undefined
+  }))
+}
@@ -0,0 +1,154 @@
+/**
+ * Export Pipeline
+ * Renders every screen at every selected store size (laid out for that
+ * size's aspect ratio) and bundles the results into a single ZIP, one
+ * folder per device size. Localized sets go one folder per locale, with
+ * the size folders inside.
+ *
+ * The fastlane layout instead writes the folders `deliver` (App Store) and
+ * `supply` (Google Play) upload from, so the ZIP can be unpacked into a
+ * repository as is.
+ */
+
+import JSZip from 'jszip'
+import { generateExportFilename, type ExportOptions, type ExportSize } from './ai-helpers'
+import { BASE_LOCALE, getLocale } from './localization'
+import { renderScreenToBlob } from './scene-renderer'
+import type { Screen } from './scene-graph'
+
+export type ExportLayout = 'folders' | 'fastlane'
+
+export interface ExportProgress {
+  completed: number
+  total: number
+  current: string // Path of the file being rendered
+}
+
+export interface ZipExportOptions extends ExportOptions {
+  projectName: string
+  sizes: ExportSize[]
+  layout?: ExportLayout // Defaults to 'folders'
+  // Store locales to render; unset renders the base language only, without locale folders
+  locales?: string[]
+  onProgress?: (progress: ExportProgress) => void
+}
+
+// One image in the archive
+interface ExportEntry {
+  path: string
+  screen: Screen
+  size: ExportSize
+  locale?: string
+}
+
+/**
+ * Folder name used for a device size inside the ZIP
+ */
+export function getSizeFolderName(sizeName: string): string {
+  return sizeName.replace(/\s+/g, '_')
+}
+
+/**
+ * Where fastlane expects a screen, or null when the slot takes no more
+ * images (Google Play has a single feature graphic, made from the first screen):
+ *   fastlane/screenshots/<locale>/<device>_<n>.png
+ *   fastlane/metadata/android/<locale>/images/<type>/<n>_<locale>.png
+ */
+export function getFastlanePath(
+  size: ExportSize,
+  locale: string,
+  screenIndex: number,
+  format: ExportOptions['format']
+): string | null {
+  if (size.store === 'app_store') {
+    // deliver orders screenshots by file name, so the number is padded
+    const number = String(screenIndex + 1).padStart(2, '0')
+    return `fastlane/screenshots/${locale}/${size.fastlane}_${number}.${format}`
+  }
+
+  const playLocale = getLocale(locale)?.playCode ?? locale
+  const images = `fastlane/metadata/android/${playLocale}/images`
+  if (size.fastlane === 'featureGraphic') {
+    return screenIndex === 0 ? `${images}/featureGraphic.${format}` : null
+  }
+  return `${images}/${size.fastlane}/${screenIndex + 1}_${playLocale}.${format}`
+}
+
+function planExport(screens: Screen[], options: ZipExportOptions): ExportEntry[] {
+  const fastlane = options.layout === 'fastlane'
+  // fastlane always needs a locale folder
+  const locales: Array<string | undefined> = options.locales ?? [fastlane ? BASE_LOCALE : undefined]
+
+  return locales.flatMap(locale => options.sizes.flatMap(size => screens.flatMap((screen, index): ExportEntry[] => {
+    const path = fastlane
+      ? getFastlanePath(size, locale ?? BASE_LOCALE, index, options.format)
+      : [
+          ...(locale ? [locale] : []),
+          getSizeFolderName(size.name),
+          generateExportFilename(options.projectName, index, size.name, options.format),
+        ].join('/')
+    return path ? [{ path, screen, size, locale }] : []
+  })))
+}
+
+/**
+ * Number of images an export writes
+ */
+export function countExportImages(screens: Screen[], options: ZipExportOptions): number {
+  return planExport(screens, options).length
+}
+
+/**
+ * Render all screens at all sizes and return the ZIP archive
+ */
+export async function exportScreensAsZip(
+  screens: Screen[],
+  options: ZipExportOptions
+): Promise<Blob> {
+  if (screens.length === 0) {
+    throw new Error('No screens to export')
+  }
+  if (options.sizes.length === 0) {
+    throw new Error('Select at least one export size')
+  }
+  if (options.locales?.length === 0) {
+    throw new Error('Select at least one language')
+  }
+
+  const zip = new JSZip()
+  const entries = planExport(screens, options)
+  const total = entries.length
+
+  // Render sequentially: full-resolution canvases are large
+  for (const [completed, entry] of entries.entries()) {
+    options.onProgress?.({ completed, total, current: entry.path })
+
+    const blob = await renderScreenToBlob(entry.screen, {
+      width: entry.size.width,
+      height: entry.size.height,
+      device: entry.size.name,
+      locale: entry.locale,
+      format: options.format,
+      quality: options.quality,
+    })
+    zip.file(entry.path, blob)
+  }
+
+  options.onProgress?.({ completed: total, total, current: '' })
+
+  return zip.generateAsync({ type: 'blob' })
+}
+
+/**
+ * Trigger a browser download for a blob
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,99 @@
+/**
+ * Image Crop - pan and zoom the picture inside an image or mockup layer
+ *
+ * The picture is sized to cover ("fill") or fit inside ("fit") its box,
+ * scaled by `zoom` and positioned like CSS object-position. The DOM gets
+ * the same result from object-fit/object-position plus a scale around the
+ * position point, so the editor needs no image sizes; the renderer computes
+ * the drawn rectangle directly.
+ */
+
+import { getDeviceFrame, getScreenRectFractions } from './device-frames'
+import type { ImageCrop, Layer } from './scene-graph'
+
+export const MIN_IMAGE_ZOOM = 1
+export const MAX_IMAGE_ZOOM = 4
+
+interface Size {
+  width: number
+  height: number
+}
+
+/**
+ * Crop of a layer, falling back to how each type always showed its picture:
+ * screenshots cover the screen from the top, images fit their box
+ */
+export function getImageCrop(layer: Layer): ImageCrop {
+  if (layer.imageCrop) return layer.imageCrop
+  return layer.type === 'mockup'
+    ? { fit: 'fill', zoom: 1, x: 0.5, y: 0 }
+    : { fit: 'fit', zoom: 1, x: 0.5, y: 0.5 }
+}
+
+/**
+ * Size of the box the picture is cropped to: a mockup's screen, or the
+ * whole box of an image layer
+ */
+export function getImageCropBox(layer: Layer): Size {
+  if (layer.type !== 'mockup') return { width: layer.width, height: layer.height }
+  const fractions = getScreenRectFractions(getDeviceFrame(layer.deviceFrame))
+  return { width: fractions.width * layer.width, height: fractions.height * layer.height }
+}
+
+/**
+ * Where the picture is drawn, relative to the top-left of its box
+ */
+export function getImageDrawRect(crop: ImageCrop, box: Size, image: Size): { x: number; y: number; width: number; height: number } {
+  const base = crop.fit === 'fill'
+    ? Math.max(box.width / image.width, box.height / image.height)
+    : Math.min(box.width / image.width, box.height / image.height)
+  const width = image.width * base * crop.zoom
+  const height = image.height * base * crop.zoom
+  return { x: (box.width - width) * crop.x, y: (box.height - height) * crop.y, width, height }
+}
+
+/**
+ * CSS for an <img> filling the box that shows the same crop
+ */
+export function getImageCropStyle(crop: ImageCrop): {
+  objectFit: 'cover' | 'contain'
+  objectPosition: string
+  transform?: string
+  transformOrigin: string
+} {
+  const position = `${crop.x * 100}% ${crop.y * 100}%`
+  return {
+    objectFit: crop.fit === 'fill' ? 'cover' : 'contain',
+    objectPosition: position,
+    transform: crop.zoom !== 1 ? `scale(${crop.zoom})` : undefined,
+    transformOrigin: position,
+  }
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+/**
+ * Crop after dragging the picture by (dx, dy) box units; it follows the
+ * pointer until an edge of the picture reaches the box
+ */
+export function panImageCrop(crop: ImageCrop, box: Size, image: Size, dx: number, dy: number): ImageCrop {
+  const rect = getImageDrawRect(crop, box, image)
+  const freeX = box.width - rect.width
+  const freeY = box.height - rect.height
+  return {
+    ...crop,
+    x: Math.abs(freeX) < 0.5 ? crop.x : clamp((rect.x + dx) / freeX, 0, 1),
+    y: Math.abs(freeY) < 0.5 ? crop.y : clamp((rect.y + dy) / freeY, 0, 1),
+  }
+}
+
+export function zoomImageCrop(crop: ImageCrop, zoom: number): ImageCrop {
+  return { ...crop, zoom: clamp(zoom, MIN_IMAGE_ZOOM, MAX_IMAGE_ZOOM) }
+}
+
+/**
+ * Preset: show the whole picture or cover the box, centered and unzoomed
+ */
+export function presetImageCrop(fit: ImageCrop['fit']): ImageCrop {
+  return { fit, zoom: 1, x: 0.5, y: 0.5 }
+}
@@ -0,0 +1,345 @@
+/**
+ * IndexedDB Storage
+ * Chats and projects are stored as metadata records; every embedded
+ * base64 image is moved into a separate `images` store as a Blob, keyed by
+ * its SHA-256 hash so the same screenshot is only ever stored once.
+ */
+
+import type { ChatHistory } from "./chat-storage"
+import type { StorageBackend, StoredProject } from "./storage-backend"
+
+const DB_NAME = "lume"
+const DB_VERSION = 1
+
+const CHATS = "chats"
+const PROJECTS = "projects"
+const IMAGES = "images"
+const META = "meta"
+
+// Stored in place of a data URL inside chat and project records
+const IMAGE_REF_PREFIX = "lume-image:"
+
+interface ImageRecord {
+  hash: string
+  blob: Blob
+  size: number
+  createdAt: Date
+}
+
+export async function createIndexedDBBackend(): Promise<StorageBackend> {
+  const db = await openDatabase()
+  // Resolved data URLs, so repeated reads (sidebar polling) skip blob decoding
+  const dataUrlCache = new Map<string, string>()
+
+  // ===========================
+  // IMAGES
+  // ===========================
+
+  /**
+   * Replace every data URL in `value` with an image reference. Returns the
+   * referenced images by hash, to be written in the same transaction as the
+   * record referencing them.
+   */
+  const externalizeImages = async <T>(value: T): Promise<{ record: T; images: Map<string, string> }> => {
+    const found = new Map<string, string>() // data URL -> hash
+    collectDataUrls(value, found)
+    const images = new Map<string, string>() // hash -> data URL
+    if (found.size === 0) return { record: value, images }
+
+    // Hashing is async, so it happens before the transaction opens (awaiting
+    // anything but IndexedDB requests would let the transaction commit)
+    await Promise.all([...found.keys()].map(async (dataUrl) => {
+      const hash = await hashString(dataUrl)
+      found.set(dataUrl, hash)
+      images.set(hash, dataUrl)
+    }))
+
+    const record = mapStrings(value, (s) => {
+      const hash = found.get(s)
+      return hash ? IMAGE_REF_PREFIX + hash : s
+    })
+    return { record, images }
+  }
+
+  /**
+   * Write a record and whichever of its images are missing. The existence
+   * check runs in the write transaction, so garbage collection (here or in
+   * another tab) can't delete an image between the check and the write.
+   */
+  const putWithImages = async (storeName: string, value: unknown) => {
+    const { record, images } = await externalizeImages(value)
+    const tx = db.transaction([storeName, IMAGES], "readwrite")
+    const entries = [...images]
+    const existing = await Promise.all(entries.map(([hash]) => request(tx.objectStore(IMAGES).getKey(hash))))
+
+    entries.forEach(([hash, dataUrl], i) => {
+      if (existing[i] === undefined) {
+        const blob = dataUrlToBlob(dataUrl)
+        tx.objectStore(IMAGES).put({ hash, blob, size: blob.size, createdAt: new Date() } satisfies ImageRecord)
+      }
+      dataUrlCache.set(hash, dataUrl)
+    })
+    tx.objectStore(storeName).put(record)
+    await transactionDone(tx)
+  }
+
+  const resolveImages = async <T>(value: T): Promise<T> => {
+    const refs = new Set<string>()
+    collectRefs(value, refs)
+
+    await Promise.all([...refs].filter(hash => !dataUrlCache.has(hash)).map(async (hash) => {
+      const record = await request<ImageRecord | undefined>(
+        db.transaction(IMAGES).objectStore(IMAGES).get(hash)
+      )
+      if (record) {
+        dataUrlCache.set(hash, await blobToDataUrl(record.blob))
+      }
+    }))
+
+    return mapStrings(value, (s) =>
+      s.startsWith(IMAGE_REF_PREFIX) ? dataUrlCache.get(s.slice(IMAGE_REF_PREFIX.length)) ?? "" : s
+    )
+  }
+
+  /**
+   * Delete images no longer referenced by any chat or project
+   */
+  const collectGarbage = async () => {
+    const tx = db.transaction([CHATS, PROJECTS, IMAGES], "readwrite")
+    const [chats, projects, hashes] = await Promise.all([
+      request(tx.objectStore(CHATS).getAll()),
+      request(tx.objectStore(PROJECTS).getAll()),
+      request(tx.objectStore(IMAGES).getAllKeys()),
+    ])
+    const referenced = new Set<string>()
+    collectRefs(chats, referenced)
+    collectRefs(projects, referenced)
+
+    for (const hash of hashes) {
+      if (!referenced.has(hash as string)) {
+        tx.objectStore(IMAGES).delete(hash)
+        dataUrlCache.delete(hash as string)
+      }
+    }
+    await transactionDone(tx)
+  }
+
+  // Clean up after saves that replaced images in earlier sessions
+  collectGarbage().catch(error => console.warn("Image cleanup failed:", error))
+
+  // ===========================
+  // BACKEND
+  // ===========================
+
+  return {
+    name: "indexeddb",
+
+    async getChats() {
+      const chats = await request<ChatHistory[]>(db.transaction(CHATS).objectStore(CHATS).getAll())
+      return resolveImages(chats)
+    },
+
+    async getChatsByWorkspace(workspaceId) {
+      const index = db.transaction(CHATS).objectStore(CHATS).index("workspaceId_updatedAt")
+      const range = IDBKeyRange.bound([workspaceId, new Date(0)], [workspaceId, new Date(8.64e15)])
+      const chats = await request<ChatHistory[]>(index.getAll(range))
+      return resolveImages(chats.reverse())
+    },
+
+    async getChat(chatId) {
+      const chat = await request<ChatHistory | undefined>(db.transaction(CHATS).objectStore(CHATS).get(chatId))
+      return chat ? resolveImages(chat) : null
+    },
+
+    async putChat(chat) {
+      await putWithImages(CHATS, chat)
+    },
+
+    async deleteChat(chatId) {
+      const tx = db.transaction(CHATS, "readwrite")
+      tx.objectStore(CHATS).delete(chatId)
+      await transactionDone(tx)
+      await collectGarbage()
+    },
+
+    async getProject(chatId) {
+      const project = await request<StoredProject | undefined>(
+        db.transaction(PROJECTS).objectStore(PROJECTS).get(chatId)
+      )
+      return project ? resolveImages(project) : null
+    },
+
+    async putProject(project) {
+      await putWithImages(PROJECTS, project)
+    },
+
+    async deleteProject(chatId) {
+      const tx = db.transaction(PROJECTS, "readwrite")
+      tx.objectStore(PROJECTS).delete(chatId)
+      await transactionDone(tx)
+      await collectGarbage()
+    },
+
+    async getMeta(key) {
+      const entry = await request<{ key: string; value: unknown } | undefined>(
+        db.transaction(META).objectStore(META).get(key)
+      )
+      return entry?.value
+    },
+
+    async setMeta(key, value) {
+      const tx = db.transaction(META, "readwrite")
+      tx.objectStore(META).put({ key, value })
+      await transactionDone(tx)
+    },
+
+    async getUsage() {
+      const tx = db.transaction([CHATS, PROJECTS, IMAGES])
+      const [chats, projects, images] = await Promise.all([
+        request(tx.objectStore(CHATS).count()),
+        request(tx.objectStore(PROJECTS).count()),
+        request<ImageRecord[]>(tx.objectStore(IMAGES).getAll()),
+      ])
+      const imageBytes = images.reduce((sum, image) => sum + image.size, 0)
+      const estimate = await navigator.storage?.estimate?.()
+
+      return {
+        backend: "indexeddb",
+        usage: estimate?.usage ?? imageBytes,
+        quota: estimate?.quota ?? 0,
+        chats,
+        projects,
+        images: images.length,
+        imageBytes,
+      }
+    },
+  }
+}
+
+// ===========================
+// HELPERS
+// ===========================
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const open = indexedDB.open(DB_NAME, DB_VERSION)
+
+    open.onupgradeneeded = () => {
+      const db = open.result
+      if (!db.objectStoreNames.contains(CHATS)) {
+        const chats = db.createObjectStore(CHATS, { keyPath: "id" })
+        chats.createIndex("workspaceId", "workspaceId")
+        chats.createIndex("updatedAt", "updatedAt")
+        chats.createIndex("workspaceId_updatedAt", ["workspaceId", "updatedAt"])
+      }
+      if (!db.objectStoreNames.contains(PROJECTS)) {
+        db.createObjectStore(PROJECTS, { keyPath: "chatId" })
+      }
+      if (!db.objectStoreNames.contains(IMAGES)) {
+        db.createObjectStore(IMAGES, { keyPath: "hash" })
+      }
+      if (!db.objectStoreNames.contains(META)) {
+        db.createObjectStore(META, { keyPath: "key" })
+      }
+    }
+
+    open.onsuccess = () => resolve(open.result)
+    open.onerror = () => reject(open.error)
+    open.onblocked = () => reject(new Error("IndexedDB upgrade blocked by another tab"))
+  })
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"))
+  })
+}
+
+async function hashString(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("")
+}
+
+function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, data] = dataUrl.split(",", 2)
+  const mimeType = header.match(/^data:([^;,]+)/)?.[1] || "application/octet-stream"
+
+  if (!header.includes(";base64")) {
+    return new Blob([decodeURIComponent(data)], { type: mimeType })
+  }
+  const binary = atob(data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return new Blob([bytes], { type: mimeType })
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onloadend = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+function isImageDataUrl(value: string): boolean {
+  return value.startsWith("data:image/")
+}
+
+function collectDataUrls(value: unknown, found: Map<string, string>): void {
+  walkStrings(value, (s) => {
+    if (isImageDataUrl(s)) found.set(s, "")
+  })
+}
+
+function collectRefs(value: unknown, refs: Set<string>): void {
+  walkStrings(value, (s) => {
+    if (s.startsWith(IMAGE_REF_PREFIX)) refs.add(s.slice(IMAGE_REF_PREFIX.length))
+  })
+}
+
+function walkStrings(value: unknown, visit: (s: string) => void): void {
+  if (typeof value === "string") {
+    visit(value)
+  } else if (Array.isArray(value)) {
+    value.forEach(item => walkStrings(item, visit))
+  } else if (isPlainObject(value)) {
+    Object.values(value).forEach(item => walkStrings(item, visit))
+  }
+}
+
+/**
+ * Copy `value` with every string passed through `map`.
+ * Dates, Blobs and other non-plain objects are kept as-is.
+ */
+function mapStrings<T>(value: T, map: (s: string) => string): T {
+  if (typeof value === "string") {
+    return map(value) as T
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => mapStrings(item, map)) as T
+  }
+  if (isPlainObject(value)) {
+    const result: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = mapStrings(item, map)
+    }
+    return result as T
+  }
+  return value
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype
+}
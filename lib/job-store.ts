@@ -0,0 +1,113 @@
+/**
+ * Job Store - async jobs behind the public REST API
+ * Jobs live in server memory, scoped to the API key that created them.
+ * Kept on globalThis so dev-mode module reloads do not drop running jobs.
+ */
+
+export type JobStatus = "queued" | "processing" | "completed" | "failed"
+export type JobKind = "screenshots" | "video"
+
+export interface JobError {
+  code: string
+  message: string
+}
+
+// Rendered output kept with a job, downloaded from GET /jobs/{id}/files/{name}
+export interface JobFile {
+  contentType: string
+  data: Buffer
+}
+
+export interface Job<T = unknown> {
+  id: string
+  kind: JobKind
+  owner: string // API key that created the job
+  status: JobStatus
+  progress: number // 0-100
+  result: T | null
+  error: JobError | null
+  createdAt: Date
+  updatedAt: Date
+  videoId?: string // Upstream id of a video still being generated
+  files?: Map<string, JobFile>
+}
+
+// Finished and abandoned jobs are dropped after a day
+const JOB_TTL_MS = 24 * 60 * 60 * 1000
+
+const ID_PREFIX: Record<JobKind, string> = {
+  screenshots: "gen",
+  video: "vid",
+}
+
+const globalForJobs = globalThis as typeof globalThis & { lumeJobs?: Map<string, Job> }
+const jobs = globalForJobs.lumeJobs ?? (globalForJobs.lumeJobs = new Map())
+
+export function createJob(kind: JobKind, owner: string): Job {
+  pruneJobs()
+
+  const now = new Date()
+  const job: Job = {
+    id: `${ID_PREFIX[kind]}_${crypto.randomUUID().replace(/-/g, "").slice(0, 16)}`,
+    kind,
+    owner,
+    status: "queued",
+    progress: 0,
+    result: null,
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+  }
+  jobs.set(job.id, job)
+  return job
+}
+
+/**
+ * Job by id, or null when it does not exist or belongs to another key
+ */
+export function getJob(id: string, owner: string): Job | null {
+  const job = jobs.get(id)
+  return job && job.owner === owner ? job : null
+}
+
+export function updateJob(id: string, update: Partial<Omit<Job, "id" | "kind" | "owner" | "createdAt">>): Job | null {
+  const job = jobs.get(id)
+  if (!job) return null
+  Object.assign(job, update, { updatedAt: new Date() })
+  return job
+}
+
+export interface JobOutcome<T> {
+  result: T
+  // Still running upstream (e.g. a video rendering); polled via GET /jobs
+  pending?: boolean
+}
+
+/**
+ * Run `task` in the background, moving the job through
+ * processing → completed | failed. Never throws.
+ */
+export function runJob<T>(job: Job, task: (job: Job) => Promise<JobOutcome<T>>): void {
+  updateJob(job.id, { status: "processing", progress: 10 })
+
+  task(job)
+    .then(({ result, pending }) => {
+      updateJob(job.id, pending
+        ? { result, progress: 50 }
+        : { status: "completed", progress: 100, result })
+    })
+    .catch((error) => {
+      console.error(`Job ${job.id} failed:`, error)
+      updateJob(job.id, {
+        status: "failed",
+        error: { code: "job_failed", message: error instanceof Error ? error.message : "Job failed" },
+      })
+    })
+}
+
+function pruneJobs() {
+  const cutoff = Date.now() - JOB_TTL_MS
+  for (const [id, job] of jobs) {
+    if (job.updatedAt.getTime() < cutoff) jobs.delete(id)
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Layer Align - align and distribute a selection of layers
+ *
+ * Work on selection units (see getSelectionUnits) so a selected group moves
+ * as one block. Boxes ignore rotation, like the editor's selection outline.
+ */
+
+import { CANVAS_WIDTH, CANVAS_HEIGHT, type Layer, type Screen } from './scene-graph'
+import { getSelectionUnits } from './layer-groups'
+
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom'
+export type DistributeAxis = 'horizontal' | 'vertical'
+export type ArrangeTarget = 'selection' | 'screen'
+
+export interface LayerBounds {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+const SCREEN_BOUNDS: LayerBounds = { x: 0, y: 0, width: CANVAS_WIDTH, height: CANVAS_HEIGHT }
+
+/**
+ * Box around a set of layers
+ */
+export function getLayersBounds(layers: Layer[]): LayerBounds | null {
+  if (layers.length === 0) return null
+  const left = Math.min(...layers.map(l => l.x))
+  const top = Math.min(...layers.map(l => l.y))
+  const right = Math.max(...layers.map(l => l.x + l.width))
+  const bottom = Math.max(...layers.map(l => l.y + l.height))
+  return { x: left, y: top, width: right - left, height: bottom - top }
+}
+
+/**
+ * Layers a marquee touches, background layers excluded
+ */
+export function getLayersInBounds(layers: Layer[], bounds: LayerBounds): Layer[] {
+  return layers.filter(layer =>
+    layer.type !== 'background' &&
+    layer.x < bounds.x + bounds.width &&
+    layer.x + layer.width > bounds.x &&
+    layer.y < bounds.y + bounds.height &&
+    layer.y + layer.height > bounds.y
+  )
+}
+
+interface Unit {
+  ids: Set<string>
+  bounds: LayerBounds
+}
+
+function getUnits(screen: Screen, layerIds: string[]): Unit[] {
+  return getSelectionUnits(screen, layerIds).flatMap(ids => {
+    const bounds = getLayersBounds(screen.layers.filter(l => ids.includes(l.id)))
+    return bounds ? [{ ids: new Set(ids), bounds }] : []
+  })
+}
+
+function moveUnits(screen: Screen, offsets: Array<{ unit: Unit; dx: number; dy: number }>): Screen {
+  return {
+    ...screen,
+    layers: screen.layers.map(layer => {
+      const offset = offsets.find(({ unit }) => unit.ids.has(layer.id))
+      return offset && (offset.dx || offset.dy)
+        ? { ...layer, x: layer.x + offset.dx, y: layer.y + offset.dy }
+        : layer
+    }),
+  }
+}
+
+/**
+ * Whether an arrange action has anything to line up against. A single
+ * unit can only be arranged relative to the screen; distributing needs three.
+ */
+export function canArrange(screen: Screen, layerIds: string[], target: ArrangeTarget, minUnits = 2): boolean {
+  const units = getSelectionUnits(screen, layerIds).length
+  return target === 'screen' ? units > 0 : units >= minUnits
+}
+
+/**
+ * Line up the selected units on an edge or center of the selection box or the screen
+ */
+export function alignLayers(screen: Screen, layerIds: string[], edge: AlignEdge, target: ArrangeTarget): Screen {
+  const units = getUnits(screen, layerIds)
+  const frame = target === 'screen' ? SCREEN_BOUNDS : getLayersBounds(screen.layers.filter(l => layerIds.includes(l.id)))
+  if (!frame || units.length === 0) return screen
+
+  return moveUnits(screen, units.map(unit => {
+    const { bounds } = unit
+    switch (edge) {
+      case 'left': return { unit, dx: frame.x - bounds.x, dy: 0 }
+      case 'center': return { unit, dx: frame.x + (frame.width - bounds.width) / 2 - bounds.x, dy: 0 }
+      case 'right': return { unit, dx: frame.x + frame.width - bounds.width - bounds.x, dy: 0 }
+      case 'top': return { unit, dx: 0, dy: frame.y - bounds.y }
+      case 'middle': return { unit, dx: 0, dy: frame.y + (frame.height - bounds.height) / 2 - bounds.y }
+      case 'bottom': return { unit, dx: 0, dy: frame.y + frame.height - bounds.height - bounds.y }
+    }
+  }))
+}
+
+/**
+ * Space the selected units with equal gaps. Against the selection the outer
+ * units stay put; against the screen they move to its edges.
+ */
+export function distributeLayers(screen: Screen, layerIds: string[], axis: DistributeAxis, target: ArrangeTarget): Screen {
+  const units = getUnits(screen, layerIds)
+  const frame = target === 'screen' ? SCREEN_BOUNDS : getLayersBounds(screen.layers.filter(l => layerIds.includes(l.id)))
+  if (!frame || units.length < (target === 'screen' ? 1 : 3)) return screen
+
+  const horizontal = axis === 'horizontal'
+  const start = (b: LayerBounds) => horizontal ? b.x : b.y
+  const size = (b: LayerBounds) => horizontal ? b.width : b.height
+
+  const sorted = [...units].sort((a, b) => start(a.bounds) - start(b.bounds))
+  const used = sorted.reduce((sum, unit) => sum + size(unit.bounds), 0)
+  // A lone unit is centered rather than pinned to one edge
+  const gap = sorted.length > 1 ? (size(frame) - used) / (sorted.length - 1) : 0
+  let cursor = sorted.length > 1 ? start(frame) : start(frame) + (size(frame) - used) / 2
+
+  return moveUnits(screen, sorted.map(unit => {
+    const delta = cursor - start(unit.bounds)
+    cursor += size(unit.bounds) + gap
+    return horizontal ? { unit, dx: delta, dy: 0 } : { unit, dx: 0, dy: delta }
+  }))
+}
@@ -0,0 +1,203 @@
+/**
+ * Layer Groups - nested grouping of a screen's layers
+ *
+ * Layers stay a flat, z-ordered list; a layer points at its innermost group
+ * and groups point at their parent. Everything here is a pure Screen → Screen
+ * transform so the canvas can run it through its undo history.
+ */
+
+import type { Layer, LayerGroup, Screen } from './scene-graph'
+
+export type LayerTreeNode =
+  | { kind: 'layer'; layer: Layer }
+  | { kind: 'group'; group: LayerGroup; children: LayerTreeNode[] }
+
+// ===========================
+// LOOKUPS
+// ===========================
+
+function groupMap(screen: Screen): Map<string, LayerGroup> {
+  return new Map((screen.groups ?? []).map(group => [group.id, group]))
+}
+
+/**
+ * Groups containing a layer, innermost first
+ */
+export function getGroupPath(screen: Screen, layer: Layer): LayerGroup[] {
+  const groups = groupMap(screen)
+  const path: LayerGroup[] = []
+  let group = layer.groupId ? groups.get(layer.groupId) : undefined
+  while (group && !path.includes(group)) {
+    path.push(group)
+    group = group.parentId ? groups.get(group.parentId) : undefined
+  }
+  return path
+}
+
+/**
+ * Ids of every layer inside a group, including nested groups
+ */
+export function getGroupLayerIds(screen: Screen, groupId: string): string[] {
+  return screen.layers
+    .filter(layer => getGroupPath(screen, layer).some(group => group.id === groupId))
+    .map(layer => layer.id)
+}
+
+/**
+ * What clicking a layer on the canvas selects: its outermost group, or the layer itself
+ */
+export function getSelectableLayerIds(screen: Screen, layerId: string): string[] {
+  const layer = screen.layers.find(l => l.id === layerId)
+  if (!layer) return []
+  const outermost = getGroupPath(screen, layer).pop()
+  return outermost ? getGroupLayerIds(screen, outermost.id) : [layerId]
+}
+
+// Outermost group of a layer whose layers are all selected
+function outermostSelectedGroup(screen: Screen, layer: Layer, selected: Set<string>): LayerGroup | undefined {
+  return getGroupPath(screen, layer)
+    .reverse()
+    .find(group => getGroupLayerIds(screen, group.id).every(id => selected.has(id)))
+}
+
+/**
+ * Outermost groups the selection covers completely (what "Ungroup" dissolves)
+ */
+export function getSelectedGroups(screen: Screen, layerIds: string[]): LayerGroup[] {
+  const selected = new Set(layerIds)
+  const groups = new Map<string, LayerGroup>()
+  for (const layer of screen.layers) {
+    const group = selected.has(layer.id) ? outermostSelectedGroup(screen, layer, selected) : undefined
+    if (group) groups.set(group.id, group)
+  }
+  return Array.from(groups.values())
+}
+
+/**
+ * Split a selection into the items that move as one: fully selected
+ * groups (outermost) and loose layers
+ */
+export function getSelectionUnits(screen: Screen, layerIds: string[]): string[][] {
+  const selected = new Set(layerIds)
+  const units: string[][] = []
+  const claimed = new Set<string>()
+
+  for (const layer of screen.layers) {
+    if (!selected.has(layer.id) || claimed.has(layer.id)) continue
+    const group = outermostSelectedGroup(screen, layer, selected)
+    const unit = group ? getGroupLayerIds(screen, group.id) : [layer.id]
+    unit.forEach(id => claimed.add(id))
+    units.push(unit)
+  }
+
+  return units
+}
+
+/**
+ * Layers panel tree. A group sits where its first layer is in the stack;
+ * groups without layers are left out.
+ */
+export function buildLayerTree(screen: Screen): LayerTreeNode[] {
+  const roots: LayerTreeNode[] = []
+  const groupNodes = new Map<string, Extract<LayerTreeNode, { kind: 'group' }>>()
+
+  for (const layer of screen.layers) {
+    // Outermost group first, so parents exist before their children
+    let siblings = roots
+    for (const group of getGroupPath(screen, layer).reverse()) {
+      let node = groupNodes.get(group.id)
+      if (!node) {
+        node = { kind: 'group', group, children: [] }
+        groupNodes.set(group.id, node)
+        siblings.push(node)
+      }
+      siblings = node.children
+    }
+    siblings.push({ kind: 'layer', layer })
+  }
+
+  return roots
+}
+
+// ===========================
+// EDITS
+// ===========================
+
+/**
+ * Group the selected layers under a new group. Selected groups are nested
+ * whole, the new group goes into the innermost group all of them share, and
+ * the members are stacked together at the topmost member's position.
+ */
+export function groupLayers(screen: Screen, layerIds: string[], group: Omit<LayerGroup, 'parentId'>): Screen {
+  const selected = new Set(layerIds)
+  const members = screen.layers.filter(layer => selected.has(layer.id))
+  if (members.length < 2) return screen
+
+  // Innermost group shared by every member becomes the parent
+  const paths = members.map(layer => getGroupPath(screen, layer))
+  const parent = paths[0].find(candidate => paths.every(path => path.some(g => g.id === candidate.id)))
+
+  // Direct children of the parent that are fully selected move under the new group
+  const movedGroupIds = new Set<string>()
+  for (const path of paths) {
+    const belowParent = parent ? path.slice(0, path.findIndex(g => g.id === parent.id)) : path
+    const child = belowParent[belowParent.length - 1]
+    if (child && getGroupLayerIds(screen, child.id).every(id => selected.has(id))) {
+      movedGroupIds.add(child.id)
+    }
+  }
+
+  const regrouped = screen.layers.map(layer => {
+    if (!selected.has(layer.id)) return layer
+    const inMovedGroup = getGroupPath(screen, layer).some(g => movedGroupIds.has(g.id))
+    return inMovedGroup ? layer : { ...layer, groupId: group.id }
+  })
+
+  const topIndex = Math.max(...members.map(layer => screen.layers.indexOf(layer)))
+  const below = regrouped.filter((layer, index) => index <= topIndex && !selected.has(layer.id))
+  const above = regrouped.filter((layer, index) => index > topIndex)
+
+  return {
+    ...screen,
+    layers: [...below, ...regrouped.filter(layer => selected.has(layer.id)), ...above],
+    groups: [
+      ...(screen.groups ?? []).map(g => movedGroupIds.has(g.id) ? { ...g, parentId: group.id } : g),
+      { ...group, parentId: parent?.id },
+    ],
+  }
+}
+
+/**
+ * Dissolve a group, handing its layers and subgroups to its parent
+ */
+export function ungroupLayers(screen: Screen, groupId: string): Screen {
+  const group = screen.groups?.find(g => g.id === groupId)
+  if (!group) return screen
+
+  return {
+    ...screen,
+    layers: screen.layers.map(layer => layer.groupId === groupId ? { ...layer, groupId: group.parentId } : layer),
+    groups: (screen.groups ?? [])
+      .filter(g => g.id !== groupId)
+      .map(g => g.parentId === groupId ? { ...g, parentId: group.parentId } : g),
+  }
+}
+
+/**
+ * Drop groups that no longer contain any layer (after deletes)
+ */
+export function pruneEmptyGroups(screen: Screen): Screen {
+  if (!screen.groups?.length) return screen
+  const groups = screen.groups.filter(group => getGroupLayerIds(screen, group.id).length > 0)
+  return groups.length === screen.groups.length ? screen : { ...screen, groups }
+}
+
+/**
+ * Name for the next group on a screen ("Group 3")
+ */
+export function nextGroupName(screen: Screen): string {
+  const names = new Set((screen.groups ?? []).map(group => group.name))
+  let n = names.size + 1
+  while (names.has(`Group ${n}`)) n++
+  return `Group ${n}`
+}
@@ -1,96 +1,217 @@
 /**
  * App Store Screenshot Layout Templates
- * TWO layout templates with different configurations
+ * One registry for every template the canvas offers: the two alternating
+ * layouts below plus the designs from template-library.ts
  */
 
+import { CANVAS_WIDTH, CANVAS_HEIGHT, type Layer, type LayerConstraints, type Screen } from './scene-graph'
+import { AVAILABLE_TEMPLATES, type LibraryTemplate } from './template-library'
+import { DEFAULT_DEVICE_FRAME, fitLayerToFrame, type DeviceFrameId, type MockupVariant } from './device-frames'
+
+// What a template fills in; unset styling falls back to the template's own
+export interface TemplateContent {
+  screenshot: string
+  headline: string
+  subtitle?: string
+  logo?: string
+  textColor?: string
+  fontFamily?: string
+  mockupVariant?: MockupVariant
+  deviceFrame?: DeviceFrameId
+  backgroundColor?: string
+}
+
 export interface LayoutTemplate {
   id: string
   name: string
-  category: 'minimal' | 'bold' | 'elegant' | 'playful' | 'dark' | 'modern'
+  description: string
+  category: 'minimal' | 'bold' | 'elegant' | 'playful' | 'dark' | 'modern' | 'custom'
   backgroundColor: string
   textColor: string
-  mockup: {
-    x: number
-    y: number
-    width: number
-    height: number
-  }   
-  title: {
-    x: number
-    y: number
-    width: number
-    height: number
-    fontSize: number
-    align: 'left' | 'center' | 'right'
-  }
-  subtitle: {
-    x: number
-    y: number
-    width: number
-    height: number
-    fontSize: number
-    align: 'left' | 'center' | 'right'
-  }
-  logo?: {
-    x: number
-    y: number
-    size: number
-  }
-  preview: string
+  // Layers of the screen at `screenIndex` with template-local ids
+  // ("headline", "subtitle", ...); templates may vary from screen to screen
+  generateLayers: (content: TemplateContent, screenIndex: number) => Layer[]
+}
+
+interface ScreenConfig {
+  mockup: { x: number; y: number; width: number; height: number }
+  title: { x: number; y: number; width: number; height: number; fontSize: number; align: 'left' | 'center' | 'right' }
+  subtitle: { x: number; y: number; width: number; height: number; fontSize: number; align: 'left' | 'center' | 'right' }
 }
 
 // Layout 1: Left-aligned text with alternating mockup positions
-const SCREEN_CONFIGS_1 = [
+const SCREEN_CONFIGS_1: ScreenConfig[] = [
   {
     mockup: { x: 34, y: 245, width: 307, height: 622 },
-    title: { x: 26, y: 45, width: 300, height: 50, fontSize: 34, align: 'left' as const },
-    subtitle: { x: 26, y: 115, width: 340, height: 20, fontSize: 16, align: 'left' as const }
+    title: { x: 26, y: 45, width: 300, height: 50, fontSize: 34, align: 'left' },
+    subtitle: { x: 26, y: 115, width: 340, height: 20, fontSize: 16, align: 'left' }
   },
   {
     mockup: { x: 34, y: -66, width: 307, height: 622 },
-    title: { x: 26, y: 612, width: 300, height: 50, fontSize: 34, align: 'left' as const },
-    subtitle: { x: 26, y: 680, width: 340, height: 20, fontSize: 16, align: 'left' as const }
+    title: { x: 26, y: 612, width: 300, height: 50, fontSize: 34, align: 'left' },
+    subtitle: { x: 26, y: 680, width: 340, height: 20, fontSize: 16, align: 'left' }
   }
 ]
 
 // Layout 2: Center-aligned text with centered mockup
-const SCREEN_CONFIGS_2 = [
+const SCREEN_CONFIGS_2: ScreenConfig[] = [
   {
     mockup: { x: 34, y: 170, width: 307, height: 622 },
-    title: { x: 49, y: 42, width: 300, height: 50, fontSize: 34, align: 'center' as const },
-    subtitle: { x: 19, y: 89, width: 340, height: 20, fontSize: 16, align: 'center' as const }
+    title: { x: 49, y: 42, width: 300, height: 50, fontSize: 34, align: 'center' },
+    subtitle: { x: 19, y: 89, width: 340, height: 20, fontSize: 16, align: 'center' }
   },
   {
     mockup: { x: 34, y: 170, width: 307, height: 622 },
-    title: { x: 49, y: 42, width: 300, height: 50, fontSize: 34, align: 'center' as const },
-    subtitle: { x: 19, y: 89, width: 340, height: 20, fontSize: 16, align: 'center' as const }
+    title: { x: 49, y: 42, width: 300, height: 50, fontSize: 34, align: 'center' },
+    subtitle: { x: 19, y: 89, width: 340, height: 20, fontSize: 16, align: 'center' }
   },
 ]
 
-// TWO layout templates
+// Get screen configuration by index and template ID (for alternating)
+export function getScreenConfig(index: number, templateId: string = 'layout1') {
+  const configs = templateId === 'layout2' ? SCREEN_CONFIGS_2 : SCREEN_CONFIGS_1
+  return configs[index % 2]
+}
+
+// Layers of the two alternating layouts
+function generateConfigLayers(
+  templateId: string,
+  defaults: { backgroundColor: string; textColor: string }
+): LayoutTemplate['generateLayers'] {
+  return (content, screenIndex) => {
+    const config = getScreenConfig(screenIndex, templateId)
+    const layers: Layer[] = []
+    // On other aspect ratios the copy stays at its edge and widens with the
+    // canvas; the mockup keeps bleeding off the opposite edge
+    const textAtTop = config.title.y < config.mockup.y
+    const textConstraints: LayerConstraints = { horizontal: 'left-right', vertical: textAtTop ? 'top' : 'bottom' }
+    
+    // Background (solid color)
+    layers.push({
+      id: 'bg',
+      type: 'background',
+      content: '',
+      x: 0,
+      y: 0,
+      width: CANVAS_WIDTH,
+      height: CANVAS_HEIGHT,
+      backgroundColor: content.backgroundColor || defaults.backgroundColor
+    })
+    
+    // Device mockup with screenshot inside
+    layers.push(applyDeviceFrame({
+      id: 'mockup',
+      type: 'mockup',
+      content: content.screenshot,
+      x: config.mockup.x,
+      y: config.mockup.y,
+      width: config.mockup.width,
+      height: config.mockup.height,
+      mockupVariant: content.mockupVariant || 'black',
+      constraints: { horizontal: 'center', vertical: textAtTop ? 'bottom' : 'top', aspectLock: true }
+    }, content))
+    
+    // Determine the font to use (prioritize provided font from AI)
+    const selectedFont = content.fontFamily || 'Inter, -apple-system, BlinkMacSystemFont, sans-serif'
+    
+    // Title - AI provides color and font (MUST use the same font for consistency)
+    layers.push({
+      id: 'headline',
+      type: 'text',
+      content: content.headline,
+      x: config.title.x,
+      y: config.title.y,
+      width: config.title.width,
+      height: config.title.height,
+      fontSize: config.title.fontSize,
+      fontFamily: selectedFont,
+      color: content.textColor || defaults.textColor,
+      bold: true,
+      align: config.title.align,
+      constraints: textConstraints
+    })
+    
+    // Subtitle - AI provides color and font (MUST use the SAME font as title)
+    if (content.subtitle) {
+      layers.push({
+        id: 'subtitle',
+        type: 'text',
+        content: content.subtitle,
+        x: config.subtitle.x,
+        y: config.subtitle.y,
+        width: config.subtitle.width,
+        height: config.subtitle.height,
+        fontSize: config.subtitle.fontSize,
+        fontFamily: selectedFont, // Use the SAME font as the title
+        color: content.textColor || defaults.textColor,
+        bold: false,
+        align: config.subtitle.align,
+        constraints: textConstraints
+      })
+    }
+    
+    return layers
+  }
+}
+
+/**
+ * Mockup in the content's device frame, fitted into the box the template
+ * made for its default iPhone
+ */
+export function applyDeviceFrame(layer: Layer, content: Pick<TemplateContent, 'deviceFrame'>): Layer {
+  if (!content.deviceFrame || content.deviceFrame === (layer.deviceFrame ?? DEFAULT_DEVICE_FRAME)) return layer
+  return fitLayerToFrame({ ...layer, deviceFrame: content.deviceFrame }, content.deviceFrame)
+}
+
+// Library designs keep their own layout; the content only swaps in copy,
+// colors, font and mockup color
+function generateLibraryLayers(template: LibraryTemplate): LayoutTemplate['generateLayers'] {
+  return (content) => template
+    .generator(content.screenshot, content.headline, content.subtitle ?? '', content.backgroundColor || template.backgroundColor, content.logo)
+    .filter(layer => layer.id !== 'subtitle' || layer.content)
+    .map(layer => {
+      if (layer.type === 'text') {
+        return {
+          ...layer,
+          ...(content.textColor && { color: content.textColor }),
+          ...(content.fontFamily && { fontFamily: content.fontFamily }),
+        }
+      }
+      if (layer.type === 'mockup') {
+        return applyDeviceFrame({ ...layer, mockupVariant: content.mockupVariant || 'black' }, content)
+      }
+      return layer
+    })
+}
+
 export const LAYOUT_TEMPLATES: LayoutTemplate[] = [
   {
     id: 'layout1',
     name: 'Layout 1 - Alternating',
+    description: 'Left-aligned with alternating mockup positions',
     category: 'minimal',
     backgroundColor: '#F5F5F5',
     textColor: '#1A1A1A',
-    mockup: { x: 34, y: 245, width: 307, height: 622 },
-    title: { x: 26, y: 45, width: 300, height: 50, fontSize: 34, align: 'left' },
-    subtitle: { x: 26, y: 100, width: 340, height: 20, fontSize: 16, align: 'left' },
-    preview: 'Left-aligned with alternating mockup positions'
+    generateLayers: generateConfigLayers('layout1', { backgroundColor: '#F5F5F5', textColor: '#1A1A1A' }),
   },
   {
     id: 'layout2',
     name: 'Layout 2 - Centered',
+    description: 'Center-aligned with centered mockup',
     category: 'modern',
     backgroundColor: '#F5F5F5',
     textColor: '#1A1A1A',
-    mockup: { x: 34, y: 170, width: 307, height: 622 },
-    title: { x: 26, y: 45, width: 300, height: 50, fontSize: 34, align: 'center' },
-    subtitle: { x: 26, y: 115, width: 340, height: 20, fontSize: 16, align: 'center' },
-    preview: 'Center-aligned with centered mockup'
-  }
+    generateLayers: generateConfigLayers('layout2', { backgroundColor: '#F5F5F5', textColor: '#1A1A1A' }),
+  },
+  ...AVAILABLE_TEMPLATES.map((template): LayoutTemplate => ({
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    category: template.category,
+    backgroundColor: template.backgroundColor,
+    textColor: template.textColor,
+    generateLayers: generateLibraryLayers(template),
+  })),
 ]
 
 // Get template by ID
@@ -98,102 +219,66 @@ export function getTemplateById(id: string): LayoutTemplate | undefined {
   return LAYOUT_TEMPLATES.find(t => t.id === id)
 }
 
-// Get screen configuration by index and template ID (for alternating)
-export function getScreenConfig(index: number, templateId: string = 'layout1') {
-  const configs = templateId === 'layout2' ? SCREEN_CONFIGS_2 : SCREEN_CONFIGS_1
-  return configs[index % 2]
-}
-
 // Generate layers from template with screen-specific config
 export function generateLayersFromTemplate(
   template: LayoutTemplate,
-  content: {
-    screenshot: string
-    headline: string
-    subtitle?: string
-    logo?: string
-    textColor?: string
-    fontFamily?: string
-    mockupVariant?: 'white' | 'black'
-  },
+  content: TemplateContent,
   screenIndex: number = 0
-) {
-  const config = getScreenConfig(screenIndex, template.id)
-  const layers = []
-  
-  // Background (solid color)
-  layers.push({
-    id: 'bg',
-    type: 'background',
-    content: '',
-    x: 0,
-    y: 0,
-    width: 1242,
-    height: 2688,
-    backgroundColor: template.backgroundColor
-  })
+): Layer[] {
+  return template.generateLayers(content, screenIndex)
+}
+
+// Re-lay out an existing screen with another template, keeping its
+// screenshot, copy, text styling and background
+export function relayoutScreen(
+  screen: Screen,
+  template: LayoutTemplate,
+  screenIndex: number,
+  options: { screenshot?: string; logo?: string; fontFamily?: string; defaultFontFamily?: string } = {}
+): Screen {
+  // Find mockup layer or use uploaded screenshot
+  const mockupLayer = screen.layers.find(l => l.type === "mockup")
+  const screenshot = mockupLayer?.content || options.screenshot || ""
+  const mockupVariant = mockupLayer?.mockupVariant || 'black'
+  const deviceFrame = mockupLayer?.deviceFrame
   
-  // iPhone mockup with screenshot inside
-  layers.push({
-    id: 'mockup',
-    type: 'mockup',
-    content: content.screenshot,
-    x: config.mockup.x,
-    y: config.mockup.y,
-    width: config.mockup.width,
-    height: config.mockup.height,
-    mockupVariant: content.mockupVariant || 'black'
-  })
+  // Preserve existing text content (headlines and subtitles)
+  const headlineLayer = screen.layers.find(l => l.id.includes("headline"))
+  const subtitleLayer = screen.layers.find(l => l.id.includes("subtitle"))
+  const headline = headlineLayer?.content || `Feature ${screenIndex + 1}`
+  const subtitle = subtitleLayer?.content || ""
   
-  // Determine the font to use (prioritize provided font from AI)
-  const selectedFont = content.fontFamily || 'Inter, -apple-system, BlinkMacSystemFont, sans-serif'
+  // Preserve existing text styling (color and font)
+  const existingTextLayer = screen.layers.find(l => l.type === "text")
+  const textColor = existingTextLayer?.color || headlineLayer?.color || '#1A1A1A'
+  const fontFamily = options.fontFamily || existingTextLayer?.fontFamily || options.defaultFontFamily || 'Inter'
   
-  // Title - AI provides color and font (MUST use the same font for consistency)
-  layers.push({
-    id: 'headline',
-    type: 'text',
-    content: content.headline,
-    x: config.title.x,
-    y: config.title.y,
-    width: config.title.width,
-    height: config.title.height,
-    fontSize: config.title.fontSize,
-    fontFamily: selectedFont,
-    color: content.textColor || template.textColor,
-    bold: true,
-    align: config.title.align
-  })
+  const newLayers = generateLayersFromTemplate(template, {
+    screenshot,
+    headline,
+    subtitle,
+    logo: options.logo,
+    mockupVariant,
+    deviceFrame,
+    textColor,
+    fontFamily,
+    backgroundColor: screen.backgroundColor
+  }, screenIndex)
   
-  // Subtitle - AI provides color and font (MUST use the SAME font as title)
-  if (content.subtitle) {
-    layers.push({
-      id: 'subtitle',
-      type: 'text',
-      content: content.subtitle,
-      x: config.subtitle.x,
-      y: config.subtitle.y,
-      width: config.subtitle.width,
-      height: config.subtitle.height,
-      fontSize: config.subtitle.fontSize,
-      fontFamily: selectedFont, // Use the SAME font as the title
-      color: content.textColor || template.textColor,
-      bold: false,
-      align: config.subtitle.align
-    })
-  }
-  
-  // Logo (optional)
-  if (content.logo && template.logo) {
-    layers.push({
-      id: 'logo',
-      type: 'image',
-      content: content.logo,
-      x: template.logo.x,
-      y: template.logo.y,
-      width: template.logo.size,
-      height: template.logo.size
-    })
+  return {
+    ...screen,
+    templateId: template.id,
+    groups: undefined, // Regenerated layers start ungrouped
+    layers: newLayers.map((l, idx) => ({
+      ...l,
+      id: `${l.id}_${screenIndex}_${idx}`,
+      // Preserve existing background color
+      ...(l.type === 'background' && { backgroundColor: screen.backgroundColor }),
+      // Keep highlighted words and the copy in every locale
+      ...(l.id === 'headline' && headlineLayer?.content && { spans: headlineLayer.spans, translations: headlineLayer.translations }),
+      ...(l.id === 'subtitle' && { spans: subtitleLayer?.spans, translations: subtitleLayer?.translations }),
+      // Keep how the screenshot is framed inside the mockup
+      ...(l.type === 'mockup' && mockupLayer?.imageCrop && { imageCrop: mockupLayer.imageCrop })
+    }))
   }
-  
-  return layers
 }
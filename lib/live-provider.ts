@@ -0,0 +1,566 @@
+/**
+ * Live Provider - every AI feature on real models
+ * Each feature runs on the backend and model picked in AI settings
+ * (lib/ai-settings.ts) through the LLM adapters in lib/llm-provider.ts.
+ * Video generation always uses OpenAI Sora. Server-side only.
+ */
+
+import { z } from "zod"
+import { AIResponseSchema, fallbackPromptAnalysis } from "./ai-helpers"
+import { AIProviderError, type AIProvider } from "./ai-provider"
+import {
+  CanvasEditProposalSchema,
+  PromptAnalysisResultSchema,
+  PromptStrategySchema,
+  ScreenshotVisualsResponseSchema,
+  TranslationResultSchema,
+  type ChatContext,
+  type StructureRequest,
+} from "./ai-schemas"
+import type { AIFeature, AISettings } from "./ai-settings"
+import { describeBrandConstraints } from "./brand-kit"
+import { fitChatHistory } from "./chat-context"
+import { LAYOUT_TEMPLATES } from "./layout-templates"
+import { generateJSON, getLLM, upstreamError, type LLMMessage, type LLMRequest } from "./llm-provider"
+import { COPY_LIMITS, getLocale } from "./localization"
+import { generateFallbackPromptAnalysis } from "./prompt-analyzer"
+import { generateFallbackVisuals } from "./screenshot-analyzer"
+import type { VideoGenerationRequest, VideoGenerationResult } from "./video-generator"
+
+const OPENAI_API_BASE = "https://api.openai.com/v1"
+
+// Built-in layout templates, one "- id: name (description)" line each
+const TEMPLATE_LIST = LAYOUT_TEMPLATES
+  .map(template => `- ${template.id}: ${template.name} (${template.description})`)
+  .join("\n")
+
+// Screenshots attached to the visual analysis request
+const MAX_VISION_IMAGES = 3
+
+// ===========================
+// PROMPTS
+// ===========================
+
+// Chat system prompt (clean markdown, conversational)
+const CHAT_SYSTEM_PROMPT = `You are a seasoned App Store marketing consultant who's helped hundreds of apps succeed.
+
+Think like a real marketing strategist, not a template. Every app is different - analyze what they're actually building and give relevant, specific advice.
+
+Your job:
+- Understand their app concept deeply
+- Think about what makes it different from competitors
+- Suggest 5 compelling screenshot titles and subtitles that highlight their actual features
+- Give strategic advice that actually helps
+- Be conversational and human
+
+CRITICAL: Always include 5 screenshot suggestions in this format:
+
+**Suggested Screenshots:**
+
+1. **Title One** - Subtitle explaining the benefit (8-12 words)
+2. **Title Two** - Subtitle explaining the benefit (8-12 words)
+3. **Title Three** - Subtitle explaining the benefit (8-12 words)
+4. **Title Four** - Subtitle explaining the benefit (8-12 words)
+5. **Title Five** - Subtitle explaining the benefit (8-12 words)
+
+Rules:
+- Titles: EXACTLY 2 words, extracted from THEIR features (e.g., "AI Workouts", "Bill Splitting")
+- Subtitles: 8-12 words explaining the actual benefit
+- Each one should be different and represent a real feature they mentioned
+- Use App Store keywords that users search for
+
+Think for yourself. Don't follow a rigid template. Respond naturally based on what they're building.
+
+Keep it conversational, strategic, and under 300 words. No emojis.`
+
+// Canvas edit system prompt (JSON only)
+const CANVAS_EDIT_SYSTEM_PROMPT = `You edit App Store screenshot designs on behalf of the user. You receive the current canvas and an instruction, and answer with structured edit operations.
+
+CRITICAL: Output ONLY valid JSON matching this exact schema.
+
+{
+  "summary": "One or two sentences telling the user what you changed and why",
+  "operations": [
+    { "type": "set_text", "screen": 1, "target": "headline" | "subtitle", "text": "New copy" },
+    { "type": "set_background", "screen": 2, "color": "#RRGGBB" },
+    { "type": "set_text_color", "screen": 2, "color": "#RRGGBB" },
+    { "type": "set_font", "screen": 2, "fontFamily": "Poppins" },
+    { "type": "apply_template", "templateId": "layout1" },
+    { "type": "reorder_screens", "order": [2, 1, 3] }
+  ]
+}
+
+RULES:
+- Screens are numbered from 1 in canvas order. Omit "screen" to change every screen (not allowed for set_text)
+- Screen numbers always refer to the canvas as given, even when you also reorder
+- "reorder_screens" lists every screen number exactly once
+- "templateId" is one of the built-in templates below or an id from the canvas's "customTemplates"
+- Headlines stay under 30 characters, subtitles under 80
+- Colors are 6-digit hex; keep text readable on its background
+- Only change what the instruction asks for. If nothing on the canvas should change, return an empty "operations" array and answer in "summary"
+
+BUILT-IN TEMPLATES:
+${TEMPLATE_LIST}`
+
+// Structure system prompt (JSON only)
+const STRUCTURE_SYSTEM_PROMPT = `You are an App Store marketing expert who creates compelling, unique screenshot copy.
+
+CRITICAL: Output ONLY valid JSON matching this exact schema.
+
+VALID VALUES (use EXACTLY as shown):
+- tone: MUST be one of: "clean", "bold", "professional", "playful", "minimal"
+- layout: MUST be one of: "iphone_centered", "iphone_offset", "iphone_feature_list", "iphone_comparison", "iphone_hero"
+- background: MUST be one of: "soft_gradient", "solid_light", "solid_dark", "branded", "minimal"
+- emphasis: MUST be one of: "dashboard", "charts", "social", "onboarding", "feature"
+
+OUTPUT FORMAT:
+{
+  "theme": "finance",
+  "tone": "professional",
+  "targetAudience": "young professionals",
+  "screens": [
+    {
+      "id": "screen_1",
+      "headline": "Track Every Expense",
+      "subheadline": "Stay on top of your spending",
+      "layout": "iphone_centered",
+      "background": "soft_gradient",
+      "emphasis": "dashboard"
+    }
+  ]
+}
+
+CRITICAL - READ USER INPUT CAREFULLY:
+1. Headlines MUST be EXACTLY 2 WORDS extracted from their description
+2. Subheadlines: 8-12 words explaining the benefit THEY described  
+3. Extract REAL features - DO NOT INVENT features they didn't mention
+4. Use their vocabulary, not generic marketing speak
+5. Each screen = different feature they ACTUALLY described
+
+EXAMPLES:
+- User: "AI workout plans" → "AI Workouts" + "Personalized training adapts to your level"
+- User: "split bills instantly" → "Bill Splitting" + "Share expenses with friends in seconds"  
+- User: "track calories" → "Calorie Tracking" + "Log meals instantly with photos"
+
+STORYTELLING STRUCTURE:
+- Screen 1: Lead with their strongest differentiator (what makes THIS app different?)
+- Screen 2: Show the core experience or main feature in action
+- Screen 3: Secondary benefit or complementary feature
+- Screen 4+: Social proof, additional features, or outcome
+
+AVOID at all costs:
+- Generic templates ("Stay on top of...", "Reach your goals", "Built for you")
+- Repeating the same benefit multiple times
+- Vague promises without specific context
+- Copy that could work for any competitor
+
+Use ONLY the exact enum values listed above. No markdown, no explanations, ONLY JSON.`
+
+// Prompt analysis prompt (titles and subtitles, JSON)
+const PROMPT_ANALYSIS_SYSTEM_PROMPT = `You are an expert App Store marketing consultant with 10+ years of experience.
+
+Your job is to analyze the user's app concept and create compelling screenshot titles and subtitles that will maximize App Store conversion.
+
+CRITICAL RULES:
+1. Generate EXACTLY 5 titles and 5 subtitles
+2. Titles MUST be EXACTLY 2 words (e.g., "Smart Budgeting", "Instant Sync")
+3. Extract features DIRECTLY from what the user describes - DO NOT invent features
+4. Subtitles should be 8-12 words explaining the specific benefit
+5. Each title/subtitle pair should represent a DIFFERENT feature
+6. Use App Store keywords that users actually search for
+7. Focus on BENEFITS, not technical features
+8. "suggestedLayout" is the id of the template below that suits the app best
+
+TEMPLATES:
+${TEMPLATE_LIST}
+
+Return ONLY valid JSON in this exact format:
+{
+  "titles": ["Title One", "Title Two", "Title Three", "Title Four", "Title Five"],
+  "subtitles": ["Benefit of title one in 8-12 words", "Benefit of title two...", "Benefit of title three...", "Benefit of title four...", "Benefit of title five..."],
+  "appCategory": "detected category (e.g., finance, fitness, social, productivity)",
+  "tone": "professional",
+  "targetAudience": "description of target users",
+  "suggestedLayout": "layout1"
+}
+
+EXAMPLES:
+
+User: "fitness app with AI workout plans and progress tracking"
+CORRECT:
+{
+  "titles": ["AI Workouts", "Progress Tracking", "Custom Plans", "Form Coaching", "Smart Goals"],
+  "subtitles": [
+    "Get personalized workout routines powered by artificial intelligence",
+    "Monitor your fitness journey with detailed charts and statistics",
+    "Create custom workout plans tailored to your fitness level",
+    "Receive real-time feedback on your exercise form and technique",
+    "Set and achieve your fitness goals with intelligent tracking"
+  ],
+  "appCategory": "fitness",
+  "tone": "bold",
+  "targetAudience": "fitness enthusiasts and beginners",
+  "suggestedLayout": "layout2"
+}
+
+User: "finance app to track expenses and split bills with friends"
+CORRECT:
+{
+  "titles": ["Expense Tracking", "Bill Splitting", "Smart Budgets", "Instant Payments", "Group Balance"],
+  "subtitles": [
+    "Automatically categorize and track all your expenses in real time",
+    "Split bills with friends and settle up instantly with one tap",
+    "Create intelligent budgets that adapt to your spending patterns",
+    "Send money to anyone instantly without fees or delays",
+    "See who owes what in your groups with crystal clear balances"
+  ],
+  "appCategory": "finance",
+  "tone": "professional",
+  "targetAudience": "young professionals and students",
+  "suggestedLayout": "layout1"
+}
+
+Now analyze the user's prompt and return valid JSON.`
+
+// Screenshot visual analysis prompt (JSON)
+const SCREENSHOT_VISUALS_PROMPT = `You are a visual design expert analyzing app screenshots to extract styling information.
+
+Analyze the VISUAL characteristics and suggest:
+1. Background color scheme (5 colors that complement the screenshot's visual style)
+2. Text color with good contrast
+3. Font family that matches the visual aesthetic
+
+Consider:
+- Color saturation and brightness
+- Whether the design is minimal, bold, playful, or professional
+- Dark vs light themes
+- Modern vs traditional aesthetics
+- Energy level (calm vs energetic)
+
+Available fonts to choose from:
+- Modern & Clean: Inter, SF Pro Display, Roboto, Lato
+- Bold & Energetic: Poppins, Montserrat, Nunito, Work Sans
+- Tech & Professional: IBM Plex Sans, Manrope, Space Grotesk, Plus Jakarta Sans
+- Elegant & Refined: DM Sans, Rubik, Outfit, Lexend
+
+Return ONLY valid JSON:
+{
+  "backgrounds": ["#F5F5F5", "#FFFFFF", "#FAFAFA", "#F8F8F8", "#FCFCFC"],
+  "textColor": "#1A1A1A",
+  "fontFamily": "Inter"
+}
+
+Analyze based purely on visual characteristics - ignore any text content in the screenshots.`
+
+// Translation prompt (JSON)
+function buildTranslationPrompt(language: string): string {
+  return `You localize App Store screenshot copy into ${language}.
+
+Write copy a native marketer would use in the ${language} App Store, not a word-for-word translation. Keep product names, brand names and numbers as they are.
+
+LIMITS (characters, including spaces):
+- "headline" items: at most ${COPY_LIMITS.headline}
+- "subtitle" items: at most ${COPY_LIMITS.subtitle}
+Shorten the wording rather than exceed a limit.
+
+You receive a JSON array of items with "id", "kind" and "text". Return ONLY valid JSON:
+{
+  "translations": { "<id>": "translated text" }
+}
+
+Include every id exactly once.`
+}
+
+// Prompt strategy analysis prompt (JSON)
+function buildStrategyPrompt(userPrompt: string): string {
+  return `You are an expert App Store marketing analyst. Analyze the following user prompt for creating app screenshots and provide a detailed analysis.
+
+User Prompt: "${userPrompt}"
+
+Provide a comprehensive analysis in JSON format with the following structure:
+{
+  "appCategory": "primary category (e.g., fitness, finance, social, productivity, etc.)",
+  "appName": "detected or inferred app name",
+  "keyFeatures": ["list", "of", "main", "features", "to", "highlight"],
+  "targetAudience": "description of target users",
+  "visualStyle": {
+    "mood": "overall mood (e.g., energetic, calm, professional, playful)",
+    "colorScheme": ["primary", "colors", "suggested"],
+    "designStyle": "design approach (e.g., minimal, bold, gradient, glassmorphic)"
+  },
+  "screenshotStrategy": {
+    "recommendedCount": 3-5,
+    "focusAreas": ["what", "to", "emphasize", "in", "each", "screenshot"],
+    "storytellingArc": ["screen 1 purpose", "screen 2 purpose", "screen 3 purpose"]
+  },
+  "confidence": 0.0-1.0,
+  "suggestions": ["actionable", "suggestions", "for", "better", "screenshots"]
+}
+
+Provide ONLY the JSON response, no markdown or explanations.`
+}
+
+/**
+ * Build a prompt for Sora based on request parameters
+ */
+function buildVideoPrompt(request: VideoGenerationRequest): string {
+  const styleDescriptions = {
+    smooth: 'smooth, elegant transitions with a professional feel',
+    dynamic: 'energetic, fast-paced with exciting motion effects',
+    minimal: 'clean, minimal movements with subtle animations',
+    cinematic: 'cinematic quality with dramatic lighting and depth'
+  }
+
+  const transitionDescriptions = {
+    fade: 'gentle fade transitions between screens',
+    slide: 'sliding transitions from left to right',
+    zoom: 'zoom in/out transitions focusing on key elements',
+    morph: 'morphing transitions that seamlessly blend screens'
+  }
+
+  // If user provided a custom prompt, combine it with our style settings
+  const userPrompt = request.prompt 
+    ? `${request.prompt}\n\n` 
+    : ''
+
+  return `${userPrompt}Create a ${request.duration}-second promotional video for a mobile app. 
+Style: ${styleDescriptions[request.style]}. 
+Transitions: ${transitionDescriptions[request.transitions || 'fade']}.
+The video should showcase the app's key features in a visually appealing way,
+with smooth animations that highlight the user interface.`
+}
+
+// ===========================
+// PROVIDER
+// ===========================
+
+export function createLiveProvider(settings: AISettings): AIProvider {
+  // Adapter and request for a feature, using its configured model
+  const llmFor = (feature: AIFeature, messages: LLMMessage[], options: Omit<LLMRequest, "model" | "messages"> = {}) => ({
+    llm: getLLM(settings[feature].provider),
+    request: { model: settings[feature].model, messages, ...options },
+  })
+
+  return {
+    name: "live",
+
+    async *streamChat(message, context) {
+      const { llm, request } = llmFor("chat", [
+        { role: "system", content: CHAT_SYSTEM_PROMPT },
+        ...buildChatHistory(context),
+        { role: "user", content: message },
+      ])
+      yield* llm.stream(request)
+    },
+
+    async proposeCanvasEdits(instruction, canvas, context) {
+      const { llm, request } = llmFor("canvasEdit", [
+        { role: "system", content: CANVAS_EDIT_SYSTEM_PROMPT },
+        ...buildChatHistory(context),
+        {
+          role: "user",
+          content: `Current canvas:\n${JSON.stringify(canvas, null, 2)}\n\nInstruction: ${instruction}`,
+        },
+      ], { temperature: 0.4 })
+      return generateJSON(llm, request, CanvasEditProposalSchema)
+    },
+
+    async generateStructure(prompt, promptAnalysis) {
+      const { llm, request } = llmFor("structure", [
+        { role: "system", content: STRUCTURE_SYSTEM_PROMPT },
+        { role: "user", content: buildStructurePrompt(prompt, promptAnalysis) },
+      ])
+      return generateJSON(llm, request, z.preprocess(sanitizeAIResponse, AIResponseSchema))
+    },
+
+    async analyzePrompt(prompt, brand) {
+      try {
+        const { llm, request } = llmFor("promptAnalysis", [
+          { role: "system", content: PROMPT_ANALYSIS_SYSTEM_PROMPT },
+          {
+            role: "user",
+            content: `Analyze this app concept and generate screenshot titles/subtitles:\n\n"${prompt}"${describeBrandConstraints(brand)}`,
+          },
+        ])
+        return await generateJSON(llm, request, PromptAnalysisResultSchema)
+      } catch (error) {
+        console.error("Prompt analysis failed:", error)
+        return generateFallbackPromptAnalysis(prompt)
+      }
+    },
+
+    async analyzePromptStrategy(prompt, brand) {
+      try {
+        const { llm, request } = llmFor("promptStrategy", [
+          { role: "user", content: buildStrategyPrompt(prompt) + describeBrandConstraints(brand) },
+        ], { temperature: 0.4, maxTokens: 2048 })
+        return await generateJSON(llm, request, PromptStrategySchema)
+      } catch (error) {
+        console.error("Prompt strategy analysis failed:", error instanceof Error ? error.message : error)
+        return fallbackPromptAnalysis(prompt)
+      }
+    },
+
+    async analyzeScreenshotVisuals(screenshots) {
+      try {
+        const { llm, request } = llmFor("screenshotVisuals", [
+          { role: "system", content: "You are a visual design expert. Return only JSON." },
+          { role: "user", content: SCREENSHOT_VISUALS_PROMPT, images: screenshots.slice(0, MAX_VISION_IMAGES) },
+        ], { temperature: 0.5, maxTokens: 500 })
+        return await generateJSON(llm, request, ScreenshotVisualsResponseSchema)
+      } catch (error) {
+        console.error("Visual analysis failed:", error)
+        return generateFallbackVisuals()
+      }
+    },
+
+    async translateCopy(items, locale) {
+      const { llm, request } = llmFor("translation", [
+        { role: "system", content: buildTranslationPrompt(getLocale(locale)?.name ?? locale) },
+        { role: "user", content: JSON.stringify(items, null, 2) },
+      ], { temperature: 0.3 })
+      const result = await generateJSON(llm, request, TranslationResultSchema)
+      return result.translations
+    },
+
+    async createVideo(request) {
+      const seconds = request.duration
+
+      const formData = new FormData()
+      formData.append("model", request.model || "sora-2")
+      formData.append("prompt", buildVideoPrompt(request))
+      formData.append("seconds", seconds.toString())
+      // Default to vertical mobile format
+      formData.append("size", request.size || "720x1280")
+
+      // First screenshot as input reference
+      if (request.screenshots[0]) {
+        try {
+          formData.append("input_reference", dataUrlToFile(request.screenshots[0], "input-reference.png"))
+        } catch (error) {
+          console.warn("Failed to add screenshot reference:", error)
+        }
+      }
+
+      const response = await soraFetch("/videos", { method: "POST", body: formData })
+      const data = await response.json()
+
+      return {
+        ...toVideoResult(data),
+        thumbnailUrl: request.screenshots[0] || "/images/video-thumbnail.png",
+        duration: seconds,
+      }
+    },
+
+    async getVideo(videoId) {
+      const response = await soraFetch(`/videos/${encodeURIComponent(videoId)}`, { method: "GET" })
+      return toVideoResult(await response.json())
+    },
+  }
+}
+
+// ===========================
+// HELPERS
+// ===========================
+
+/**
+ * Sanitize and coerce AI response to match schema
+ */
+function sanitizeAIResponse(value: unknown): unknown {
+  if (typeof value !== "object" || value === null) return value
+  const response = value as Record<string, unknown>
+
+  // Valid enum values
+  const validTones = ["clean", "bold", "professional", "playful", "minimal"]
+  const validEmphases = ["dashboard", "charts", "social", "onboarding", "feature"]
+  const validLayouts = ["iphone_centered", "iphone_offset", "iphone_feature_list", "iphone_comparison", "iphone_hero"]
+  const validBackgrounds = ["soft_gradient", "solid_light", "solid_dark", "branded", "minimal"]
+
+  const coerce = (value: unknown, valid: string[], fallback: string, field: string) => {
+    if (value && !valid.includes(value as string)) {
+      console.warn(`Invalid ${field} "${value}", defaulting to "${fallback}"`)
+      return fallback
+    }
+    return value
+  }
+
+  const screens = Array.isArray(response.screens)
+    ? (response.screens as Array<Record<string, unknown>>).map((screen) => ({
+        ...screen,
+        emphasis: coerce(screen.emphasis, validEmphases, "feature", "emphasis"),
+        layout: coerce(screen.layout, validLayouts, "iphone_centered", "layout"),
+        background: coerce(screen.background, validBackgrounds, "soft_gradient", "background"),
+      }))
+    : response.screens
+
+  return {
+    ...response,
+    tone: coerce(response.tone, validTones, "professional", "tone") || "professional",
+    screens,
+  }
+}
+
+// Earlier turns within the token budget, preceded by a recap of trimmed
+// turns and the latest screenshot analysis
+function buildChatHistory(context?: ChatContext): LLMMessage[] {
+  if (!context) return []
+
+  const { turns, summary } = fitChatHistory(context.history)
+  const notes = [
+    summary,
+    context.screenshotAnalysis && `Screenshot analysis shared earlier in this conversation:\n\n${context.screenshotAnalysis}`,
+  ].filter((note): note is string => !!note)
+
+  return [
+    ...notes.map(content => ({ role: "system" as const, content })),
+    ...turns,
+  ]
+}
+
+function buildStructurePrompt(prompt: string, promptAnalysis?: StructureRequest["promptAnalysis"]): string {
+  if (!promptAnalysis) return prompt
+
+  return `User Request: ${prompt}
+
+Analysis Context:
+- App Category: ${promptAnalysis.appCategory}
+- Target Audience: ${promptAnalysis.targetAudience}
+- Visual Style: ${promptAnalysis.visualStyle.mood}, ${promptAnalysis.visualStyle.designStyle}
+- Key Features: ${promptAnalysis.keyFeatures.join(", ")}
+- Recommended Screenshots: ${promptAnalysis.screenshotStrategy.recommendedCount}
+- Story Arc: ${promptAnalysis.screenshotStrategy.storytellingArc.join(" → ")}
+
+Please generate screenshot structures that align with this analysis.`
+}
+
+async function soraFetch(path: string, init: RequestInit): Promise<Response> {
+  const apiKey = process.env.OPENAI_API_KEY
+  if (!apiKey) {
+    throw new AIProviderError("OpenAI API key not configured", 503)
+  }
+  const response = await fetch(`${OPENAI_API_BASE}${path}`, {
+    ...init,
+    headers: { ...init.headers, Authorization: `Bearer ${apiKey}` },
+  })
+  if (!response.ok) {
+    throw await upstreamError("OpenAI", response)
+  }
+  return response
+}
+
+function dataUrlToFile(dataUrl: string, filename: string): File {
+  const [header, data] = dataUrl.split(",", 2)
+  const mimeType = header.match(/^data:([^;,]+)/)?.[1] || "image/png"
+  return new File([Buffer.from(data, "base64")], filename, { type: mimeType })
+}
+
+function toVideoResult(data: Record<string, unknown>): VideoGenerationResult {
+  return {
+    videoUrl: (data.url as string) || (data.video_url as string) || "",
+    thumbnailUrl: "/images/video-thumbnail.png",
+    duration: Number(data.seconds) || 10,
+    status: data.status === "completed" ? "completed" : data.status === "failed" ? "failed" : "processing",
+    videoId: data.id as string,
+    estimatedTime: data.estimated_time as number | undefined,
+  }
+}
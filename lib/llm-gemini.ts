@@ -0,0 +1,117 @@
+/**
+ * Gemini generateContent adapter
+ * System messages become the system instruction; images are sent inline.
+ * Rate-limited requests (429) are retried once after 2 seconds.
+ */
+
+import { AIProviderError } from "./ai-provider"
+import { parseUpstreamJSON, readSSELines, upstreamError, type LLMMessage, type LLMProvider, type LLMRequest } from "./llm-provider"
+
+const GEMINI_API_BASE = "https://generativelanguage.googleapis.com/v1beta"
+
+interface GeminiLLMConfig {
+  apiKey: string
+}
+
+export function createGeminiLLM({ apiKey }: GeminiLLMConfig): LLMProvider {
+  const generate = async (
+    request: LLMRequest,
+    method: "generateContent" | "streamGenerateContent?alt=sse",
+    config: Record<string, unknown> = {},
+    retryCount = 0
+  ): Promise<Response> => {
+    if (!apiKey) {
+      throw new AIProviderError("Gemini API key not configured", 503)
+    }
+
+    const system = request.messages.filter(m => m.role === "system").map(m => m.content).join("\n\n")
+    let response: Response
+    try {
+      // Model names are user settings; keep them to one path segment
+      response = await fetch(`${GEMINI_API_BASE}/models/${encodeURIComponent(request.model)}:${method}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-goog-api-key": apiKey,
+        },
+        body: JSON.stringify({
+          ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+          contents: request.messages.filter(m => m.role !== "system").map(toGeminiContent),
+          generationConfig: {
+            temperature: request.temperature ?? 0.7,
+            maxOutputTokens: request.maxTokens ?? 1000,
+            ...config,
+          },
+        }),
+      })
+    } catch (error) {
+      throw new AIProviderError(`Gemini unreachable: ${error instanceof Error ? error.message : error}`)
+    }
+
+    if (response.status === 429 && retryCount === 0) {
+      console.warn("Gemini API rate limit, retrying in 2 seconds")
+      await new Promise(resolve => setTimeout(resolve, 2000))
+      return generate(request, method, config, retryCount + 1)
+    }
+    if (!response.ok) {
+      throw await upstreamError("Gemini", response)
+    }
+    return response
+  }
+
+  const chat = async (request: LLMRequest, config?: Record<string, unknown>) => {
+    const response = await generate(request, "generateContent", config)
+    const text = extractText(parseUpstreamJSON("Gemini", await response.text()) as GeminiResponse | null)
+    if (!text) {
+      throw new AIProviderError("No response from Gemini")
+    }
+    return text
+  }
+
+  return {
+    id: "gemini",
+
+    chat: (request) => chat(request),
+
+    async *stream(request) {
+      const response = await generate(request, "streamGenerateContent?alt=sse")
+      if (!response.body) {
+        throw new AIProviderError("No response body")
+      }
+
+      for await (const data of readSSELines(response.body)) {
+        try {
+          const text = extractText(JSON.parse(data))
+          if (text) yield text
+        } catch {
+          // Skip invalid JSON
+        }
+      }
+    },
+
+    async completeJSON(request) {
+      const text = await chat(request, { responseMimeType: "application/json" })
+      // Clean up potential markdown formatting
+      return parseUpstreamJSON("Gemini", text.replace(/```json\n?|\n?```/g, "").trim())
+    },
+  }
+}
+
+function toGeminiContent(message: LLMMessage) {
+  return {
+    role: message.role === "assistant" ? "model" : "user",
+    parts: [
+      { text: message.content },
+      ...(message.images ?? []).map(dataUrl => {
+        const [header, data] = dataUrl.split(",", 2)
+        return { inlineData: { mimeType: header.match(/^data:([^;,]+)/)?.[1] || "image/png", data } }
+      }),
+    ],
+  }
+}
+
+type GeminiResponse = { candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }> }
+
+function extractText(data: GeminiResponse | null): string {
+  return data?.candidates?.[0]?.content?.parts?.map(part => part.text ?? "").join("") ?? ""
+}
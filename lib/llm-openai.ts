@@ -0,0 +1,107 @@
+/**
+ * OpenAI Chat Completions adapter
+ * Also serves any OpenAI-compatible endpoint (Ollama, LM Studio, vLLM)
+ * through a different base URL.
+ */
+
+import { AIProviderError } from "./ai-provider"
+import type { LLMProviderId } from "./ai-settings"
+import { parseUpstreamJSON, readSSELines, upstreamError, type LLMMessage, type LLMProvider, type LLMRequest } from "./llm-provider"
+
+interface OpenAILLMConfig {
+  id: LLMProviderId
+  baseUrl: string
+  apiKey: string
+  keyRequired?: boolean // Local servers usually run without a key
+}
+
+const NAMES: Partial<Record<LLMProviderId, string>> = {
+  openai: "OpenAI",
+  local: "Local LLM",
+}
+
+export function createOpenAILLM({ id, baseUrl, apiKey, keyRequired = true }: OpenAILLMConfig): LLMProvider {
+  const name = NAMES[id] ?? id
+
+  const complete = async (request: LLMRequest, extra: Record<string, unknown>): Promise<Response> => {
+    if (keyRequired && !apiKey) {
+      throw new AIProviderError(`${name} API key not configured`, 503)
+    }
+
+    let response: Response
+    try {
+      response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages: request.messages.map(toOpenAIMessage),
+          temperature: request.temperature ?? 0.7,
+          max_tokens: request.maxTokens ?? 1000,
+          ...extra,
+        }),
+      })
+    } catch (error) {
+      throw new AIProviderError(`${name} unreachable: ${error instanceof Error ? error.message : error}`)
+    }
+
+    if (!response.ok) {
+      throw await upstreamError(name, response)
+    }
+    return response
+  }
+
+  const chat = async (request: LLMRequest, extra: Record<string, unknown> = {}) => {
+    const response = await complete(request, extra)
+    const data = parseUpstreamJSON(name, await response.text()) as { choices?: Array<{ message?: { content?: string } }> }
+    const content = data?.choices?.[0]?.message?.content
+    if (!content) {
+      throw new AIProviderError(`No response from ${name}`)
+    }
+    return content as string
+  }
+
+  return {
+    id,
+
+    chat: (request) => chat(request),
+
+    async *stream(request) {
+      const response = await complete(request, { stream: true })
+      if (!response.body) {
+        throw new AIProviderError("No response body")
+      }
+
+      for await (const data of readSSELines(response.body)) {
+        if (data === "[DONE]") return
+        try {
+          const content = JSON.parse(data).choices?.[0]?.delta?.content
+          if (content) yield content as string
+        } catch {
+          // Skip invalid JSON
+        }
+      }
+    },
+
+    async completeJSON(request) {
+      const content = await chat(request, { response_format: { type: "json_object" } })
+      return parseUpstreamJSON(name, content)
+    },
+  }
+}
+
+function toOpenAIMessage(message: LLMMessage) {
+  if (!message.images?.length) {
+    return { role: message.role, content: message.content }
+  }
+  return {
+    role: message.role,
+    content: [
+      { type: "text", text: message.content },
+      ...message.images.map(url => ({ type: "image_url", image_url: { url } })),
+    ],
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * LLM Provider - one interface over every model backend
+ * Feature code (lib/live-provider.ts) describes a request once; adapters
+ * translate it for OpenAI, Gemini or a local OpenAI-compatible server
+ * such as Ollama. Server-side only.
+ */
+
+import { z } from "zod"
+import { AIProviderError } from "./ai-provider"
+import type { LLMProviderId } from "./ai-settings"
+import { createGeminiLLM } from "./llm-gemini"
+import { createOpenAILLM } from "./llm-openai"
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+  // Data URLs attached to a user message (vision)
+  images?: string[]
+}
+
+export interface LLMRequest {
+  model: string
+  messages: LLMMessage[]
+  temperature?: number
+  maxTokens?: number
+}
+
+export interface LLMProvider {
+  id: LLMProviderId
+  // Full text reply
+  chat(request: LLMRequest): Promise<string>
+  // Text reply, yielded as it is generated
+  stream(request: LLMRequest): AsyncIterable<string>
+  // Reply forced to a JSON object; returns the parsed, unvalidated value
+  completeJSON(request: LLMRequest): Promise<unknown>
+}
+
+/**
+ * JSON-mode completion validated against `schema`
+ */
+export async function generateJSON<T extends z.ZodType>(
+  llm: LLMProvider,
+  request: LLMRequest,
+  schema: T
+): Promise<z.infer<T>> {
+  const raw = await llm.completeJSON(request)
+  const result = schema.safeParse(raw)
+  if (!result.success) {
+    console.error("Validation error:", result.error.issues)
+    throw new AIProviderError(`${llm.id} response did not match expected format`)
+  }
+  return result.data
+}
+
+/**
+ * Adapter for a backend, configured from the server environment:
+ * OPENAI_API_KEY, GEMINI_API_KEY, LOCAL_LLM_BASE_URL (+ LOCAL_LLM_API_KEY)
+ */
+export function getLLM(id: LLMProviderId): LLMProvider {
+  switch (id) {
+    case "openai":
+      return createOpenAILLM({
+        id,
+        baseUrl: "https://api.openai.com/v1",
+        apiKey: process.env.OPENAI_API_KEY || "",
+      })
+    case "local":
+      return createOpenAILLM({
+        id,
+        baseUrl: process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+        apiKey: process.env.LOCAL_LLM_API_KEY || "",
+        keyRequired: false,
+      })
+    case "gemini":
+      return createGeminiLLM({ apiKey: process.env.GEMINI_API_KEY || "" })
+  }
+}
+
+/**
+ * Whether any backend is configured; without one the fake provider runs
+ */
+export function hasLLMConfigured(): boolean {
+  return !!(process.env.OPENAI_API_KEY || process.env.GEMINI_API_KEY || process.env.LOCAL_LLM_BASE_URL)
+}
+
+/**
+ * Error for a non-2xx upstream response, with the provider's message when
+ * it sent one
+ */
+export async function upstreamError(name: string, response: Response): Promise<AIProviderError> {
+  const errorText = await response.text().catch(() => "")
+  let message = `${name} API error: ${response.status}`
+  try {
+    message = JSON.parse(errorText).error?.message || message
+  } catch {
+    // Non-JSON error body
+  }
+  console.error(`${name} API error:`, response.status, errorText)
+  return new AIProviderError(message, response.status === 429 ? 429 : 502)
+}
+
+/**
+ * Parsed JSON from an upstream response body or JSON-mode reply; malformed
+ * JSON is an upstream failure like any other
+ */
+export function parseUpstreamJSON(name: string, text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    console.error(`${name} returned invalid JSON:`, text.slice(0, 500))
+    throw new AIProviderError(`${name} returned invalid JSON`)
+  }
+}
+
+/**
+ * Lines of a server-sent event stream, split correctly across chunks
+ */
+export async function* readSSELines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split("\n")
+    buffer = lines.pop() ?? ""
+
+    for (const line of lines) {
+      if (line.startsWith("data: ")) yield line.slice(6).trim()
+    }
+  }
+}
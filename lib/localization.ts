@@ -0,0 +1,210 @@
+/**
+ * Localization - one screenshot set, every store language
+ *
+ * Text layers keep the base language in `content` and every other locale
+ * in `translations`. A screen is localized on the fly for preview and
+ * export; right-to-left languages also get the layout mirrored, so a
+ * headline on the left sits on the right in Arabic and Hebrew.
+ */
+
+import { postAI } from './ai-client'
+import { ScreenLayoutSchema } from './ai-helpers'
+import { findTextLayer } from './canvas-edits'
+import { CANVAS_WIDTH, type Layer, type Screen } from './scene-graph'
+
+export interface Locale {
+  code: string // App Store Connect locale code
+  playCode: string // Google Play's code for the same language
+  name: string
+  rtl?: boolean
+}
+
+// Language the copy is written in
+export const BASE_LOCALE = 'en-US'
+
+export const LOCALES: Locale[] = [
+  { code: 'en-US', playCode: 'en-US', name: 'English (U.S.)' },
+  { code: 'en-GB', playCode: 'en-GB', name: 'English (U.K.)' },
+  { code: 'de-DE', playCode: 'de-DE', name: 'German' },
+  { code: 'fr-FR', playCode: 'fr-FR', name: 'French' },
+  { code: 'es-ES', playCode: 'es-ES', name: 'Spanish (Spain)' },
+  { code: 'es-MX', playCode: 'es-419', name: 'Spanish (Mexico)' },
+  { code: 'it', playCode: 'it-IT', name: 'Italian' },
+  { code: 'pt-BR', playCode: 'pt-BR', name: 'Portuguese (Brazil)' },
+  { code: 'nl-NL', playCode: 'nl-NL', name: 'Dutch' },
+  { code: 'sv', playCode: 'sv-SE', name: 'Swedish' },
+  { code: 'pl', playCode: 'pl-PL', name: 'Polish' },
+  { code: 'tr', playCode: 'tr-TR', name: 'Turkish' },
+  { code: 'ru', playCode: 'ru-RU', name: 'Russian' },
+  { code: 'ja', playCode: 'ja-JP', name: 'Japanese' },
+  { code: 'ko', playCode: 'ko-KR', name: 'Korean' },
+  { code: 'zh-Hans', playCode: 'zh-CN', name: 'Chinese (Simplified)' },
+  { code: 'zh-Hant', playCode: 'zh-TW', name: 'Chinese (Traditional)' },
+  { code: 'ar-SA', playCode: 'ar', name: 'Arabic', rtl: true },
+  { code: 'he', playCode: 'iw-IL', name: 'Hebrew', rtl: true },
+]
+
+export type CopyKind = 'headline' | 'subtitle'
+
+// Longest copy a screen holds, the same limits generated structures follow
+export const COPY_LIMITS: Record<CopyKind, number> = {
+  headline: ScreenLayoutSchema.shape.headline.maxLength ?? 50,
+  subtitle: ScreenLayoutSchema.shape.subheadline.unwrap().maxLength ?? 100,
+}
+
+export function getLocale(code: string): Locale | undefined {
+  return LOCALES.find(locale => locale.code === code)
+}
+
+export function isRTLLocale(code: string | null | undefined): boolean {
+  return !!code && !!getLocale(code)?.rtl
+}
+
+/**
+ * Copy cut down to `limit` characters, at a word break where there is one
+ */
+export function clampCopy(text: string, limit: number): string {
+  const trimmed = text.trim()
+  if (trimmed.length <= limit) return trimmed
+  const cut = trimmed.slice(0, limit + 1)
+  const lastSpace = cut.lastIndexOf(' ')
+  return (lastSpace > 0 ? cut.slice(0, lastSpace) : trimmed.slice(0, limit)).trim()
+}
+
+// ===========================
+// TEXT PER LOCALE
+// ===========================
+
+/**
+ * Locales the screens have copy for besides the base language, in LOCALES order
+ */
+export function getProjectLocales(screens: Screen[]): string[] {
+  const codes = new Set(screens.flatMap(screen => screen.layers.flatMap(layer => Object.keys(layer.translations ?? {}))))
+  return LOCALES.map(locale => locale.code).filter(code => codes.has(code))
+}
+
+/**
+ * Text of a layer in a locale; untranslated layers show the base language
+ */
+export function getLayerText(layer: Layer, locale: string | null | undefined): string {
+  return (locale && layer.translations?.[locale]) || layer.content
+}
+
+export function setLayerTranslation(layer: Layer, locale: string, text: string): Layer {
+  return { ...layer, translations: { ...layer.translations, [locale]: text } }
+}
+
+/**
+ * Screens without any copy for `locale`
+ */
+export function removeLocale(screens: Screen[], locale: string): Screen[] {
+  return screens.map(screen => ({
+    ...screen,
+    layers: screen.layers.map(layer => {
+      if (!layer.translations?.[locale]) return layer
+      const rest = { ...layer.translations }
+      delete rest[locale]
+      return { ...layer, translations: Object.keys(rest).length > 0 ? rest : undefined }
+    }),
+  }))
+}
+
+// Mirror image of a layer across a canvas `width` wide
+function mirrorLayer(layer: Layer, width: number): Layer {
+  const mirrored: Layer = { ...layer, x: width - layer.x - layer.width }
+  if (layer.rotation) mirrored.rotation = -layer.rotation
+  if (layer.type === 'shape' && layer.shape === 'line') {
+    mirrored.lineDirection = layer.lineDirection === 'up' ? 'down' : 'up'
+  }
+  if (layer.type === 'text') {
+    mirrored.align = layer.align === 'center' ? 'center' : layer.align === 'right' ? 'left' : 'right'
+    mirrored.textDirection = 'rtl'
+  }
+  return mirrored
+}
+
+/**
+ * A screen in `locale`: translated text, and for right-to-left languages
+ * the layout mirrored across a canvas `width` wide. The base language
+ * returns the screen itself.
+ */
+export function localizeScreen(screen: Screen, locale: string | null | undefined, width = CANVAS_WIDTH): Screen {
+  if (!locale || locale === BASE_LOCALE) return screen
+  const rtl = isRTLLocale(locale)
+
+  return {
+    ...screen,
+    guides: rtl ? undefined : screen.guides,
+    layers: screen.layers.map(layer => {
+      const translation = layer.type === 'text' ? layer.translations?.[locale] : undefined
+      // Styled spans index the base text, so they don't carry over
+      const localized = translation ? { ...layer, content: translation, spans: undefined } : layer
+      return rtl ? mirrorLayer(localized, width) : localized
+    }),
+  }
+}
+
+// ===========================
+// AI TRANSLATION
+// ===========================
+
+export interface CopyItem {
+  id: string // "<screen id>:<layer id>"
+  kind: CopyKind
+  text: string
+}
+
+/**
+ * Every piece of copy on the screens, tagged with the limit it has to fit
+ */
+export function collectCopy(screens: Screen[]): CopyItem[] {
+  return screens.flatMap(screen => {
+    const headline = findTextLayer(screen, 'headline')
+    return screen.layers
+      .filter(layer => layer.type === 'text' && layer.content.trim())
+      .map(layer => ({
+        id: `${screen.id}:${layer.id}`,
+        kind: layer === headline ? 'headline' as const : 'subtitle' as const,
+        text: layer.content,
+      }))
+  })
+}
+
+/**
+ * Translations as the model returned them, limited to the requested items
+ * and cut to their copy limits
+ */
+export function fitTranslations(items: CopyItem[], translations: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(items.flatMap(item => {
+    const text = translations[item.id]
+    return typeof text === 'string' && text.trim() ? [[item.id, clampCopy(text, COPY_LIMITS[item.kind])]] : []
+  }))
+}
+
+/**
+ * Offline stand-in for the translation model: the copy tagged with its
+ * locale, so languages can be told apart in previews and exports
+ */
+export function generateMockTranslations(items: CopyItem[], locale: string): Record<string, string> {
+  return Object.fromEntries(items.map(item => [item.id, `${item.text} (${locale})`]))
+}
+
+export function applyTranslations(screens: Screen[], locale: string, translations: Record<string, string>): Screen[] {
+  return screens.map(screen => ({
+    ...screen,
+    layers: screen.layers.map(layer => {
+      const text = translations[`${screen.id}:${layer.id}`]
+      return text ? setLayerTranslation(layer, locale, text) : layer
+    }),
+  }))
+}
+
+// Translated server-side by /api/ai/translate. Returns the copy by item id
+// rather than screens, so it can be applied to whatever the screens are by
+// the time the model answers (see applyTranslations).
+export async function requestTranslations(screens: Screen[], locale: string): Promise<Record<string, string>> {
+  const items = collectCopy(screens)
+  if (items.length === 0) return {}
+  const { translations } = await postAI<{ translations: Record<string, string> }>('translate', { locale, items })
+  return translations
+}
@@ -1,95 +1,13 @@
 /**
  * OpenAI Service for Lume AI
  * Chat responses (markdown) + Structure generation (JSON)
+ * Requests go through the /api/ai route handlers; mock generators here
+ * back the fake provider used when no API key is configured.
  */
 
-import { AIResponseSchema, type AIResponse, type ScreenLayout } from './ai-helpers'
-
-// Chat system prompt (clean markdown, conversational)
-const CHAT_SYSTEM_PROMPT = `You are a seasoned App Store marketing consultant who's helped hundreds of apps succeed.
-
-Think like a real marketing strategist, not a template. Every app is different - analyze what they're actually building and give relevant, specific advice.
-
-Your job:
-- Understand their app concept deeply
-- Think about what makes it different from competitors
-- Suggest 5 compelling screenshot titles and subtitles that highlight their actual features
-- Give strategic advice that actually helps
-- Be conversational and human
-
-CRITICAL: Always include 5 screenshot suggestions in this format:
-
-**Suggested Screenshots:**
-
-1. **Title One** - Subtitle explaining the benefit (8-12 words)
-2. **Title Two** - Subtitle explaining the benefit (8-12 words)
-3. **Title Three** - Subtitle explaining the benefit (8-12 words)
-4. **Title Four** - Subtitle explaining the benefit (8-12 words)
-5. **Title Five** - Subtitle explaining the benefit (8-12 words)
-
-Rules:
-- Titles: EXACTLY 2 words, extracted from THEIR features (e.g., "AI Workouts", "Bill Splitting")
-- Subtitles: 8-12 words explaining the actual benefit
-- Each one should be different and represent a real feature they mentioned
-- Use App Store keywords that users search for
-
-Think for yourself. Don't follow a rigid template. Respond naturally based on what they're building.
-
-Keep it conversational, strategic, and under 300 words. No emojis.`
-
-// Structure system prompt (JSON only)
-const STRUCTURE_SYSTEM_PROMPT = `You are an App Store marketing expert who creates compelling, unique screenshot copy.
-
-CRITICAL: Output ONLY valid JSON matching this exact schema.
-
-VALID VALUES (use EXACTLY as shown):
-- tone: MUST be one of: "clean", "bold", "professional", "playful", "minimal"
-- layout: MUST be one of: "iphone_centered", "iphone_offset", "iphone_feature_list", "iphone_comparison", "iphone_hero"
-- background: MUST be one of: "soft_gradient", "solid_light", "solid_dark", "branded", "minimal"
-- emphasis: MUST be one of: "dashboard", "charts", "social", "onboarding", "feature"
-
-OUTPUT FORMAT:
-{
-  "theme": "finance",
-  "tone": "professional",
-  "targetAudience": "young professionals",
-  "screens": [
-    {
-      "id": "screen_1",
-      "headline": "Track Every Expense",
-      "subheadline": "Stay on top of your spending",
-      "layout": "iphone_centered",
-      "background": "soft_gradient",
-      "emphasis": "dashboard"
-    }
-  ]
-}
-
-CRITICAL - READ USER INPUT CAREFULLY:
-1. Headlines MUST be EXACTLY 2 WORDS extracted from their description
-2. Subheadlines: 8-12 words explaining the benefit THEY described  
-3. Extract REAL features - DO NOT INVENT features they didn't mention
-4. Use their vocabulary, not generic marketing speak
-5. Each screen = different feature they ACTUALLY described
-
-EXAMPLES:
-- User: "AI workout plans" → "AI Workouts" + "Personalized training adapts to your level"
-- User: "split bills instantly" → "Bill Splitting" + "Share expenses with friends in seconds"  
-- User: "track calories" → "Calorie Tracking" + "Log meals instantly with photos"
-
-STORYTELLING STRUCTURE:
-- Screen 1: Lead with their strongest differentiator (what makes THIS app different?)
-- Screen 2: Show the core experience or main feature in action
-- Screen 3: Secondary benefit or complementary feature
-- Screen 4+: Social proof, additional features, or outcome
-
-AVOID at all costs:
-- Generic templates ("Stay on top of...", "Reach your goals", "Built for you")
-- Repeating the same benefit multiple times
-- Vague promises without specific context
-- Copy that could work for any competitor
-
-Use ONLY the exact enum values listed above. No markdown, no explanations, ONLY JSON.`
+import { streamAI } from './ai-client'
+import type { ChatContext } from './ai-schemas'
+import type { AIResponse, ScreenLayout } from './ai-helpers'
 
 export interface StreamCallbacks {
   onStart?: () => void
@@ -99,79 +17,23 @@ export interface StreamCallbacks {
 }
 
 /**
- * Stream chat response from OpenAI (markdown)
+ * Stream chat response (markdown) from /api/ai/chat
+ * `context` carries the earlier turns (see toChatContext in lib/chat-context.ts)
  */
 export async function streamAIResponse(
   userMessage: string,
-  callbacks: StreamCallbacks
+  callbacks: StreamCallbacks,
+  context?: ChatContext
 ): Promise<void> {
   const { onStart, onToken, onComplete, onError } = callbacks
 
   try {
     onStart?.()
 
-    const apiKey = process.env.NEXT_PUBLIC_OPENAI_API_KEY
-    
-    if (!apiKey) {
-      throw new Error('OpenAI API key not configured')
-    }
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: CHAT_SYSTEM_PROMPT },
-          { role: 'user', content: userMessage }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000,
-        stream: true,
-      }),
-    })
-
-    if (!response.ok) {
-      throw new Error('OpenAI API error')
-    }
-
-    const reader = response.body?.getReader()
-    if (!reader) {
-      throw new Error('No response body')
-    }
-
-    const decoder = new TextDecoder()
     let fullText = ''
-
-    while (true) {
-      const { done, value } = await reader.read()
-      if (done) break
-
-      const chunk = decoder.decode(value, { stream: true })
-      const lines = chunk.split('\n').filter(line => line.trim() !== '')
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6)
-          
-          if (data === '[DONE]') continue
-
-          try {
-            const json = JSON.parse(data)
-            const content = json.choices?.[0]?.delta?.content
-
-            if (content) {
-              fullText += content
-              onToken?.(content, fullText)
-            }
-          } catch (e) {
-            // Skip invalid JSON
-          }
-        }
-      }
+    for await (const token of streamAI('chat', { message: userMessage, ...context })) {
+      fullText += token
+      onToken?.(token, fullText)
     }
 
     onComplete?.(fullText)
@@ -180,29 +42,15 @@ export async function streamAIResponse(
   }
 }
 
-/**
- * Mock streaming response (fallback)
- */
-export async function mockStreamAIResponse(
-  userMessage: string,
-  callbacks: StreamCallbacks
-): Promise<void> {
-  const { onStart, onToken, onComplete } = callbacks
-
-  onStart?.()
-
-  const response = generateMockMarkdownResponse(userMessage)
-  const words = response.split(' ')
-  
-  let fullText = ''
-
-  for (let i = 0; i < words.length; i++) {
-    fullText += (i === 0 ? '' : ' ') + words[i]
-    onToken?.(words[i], fullText)
-    await new Promise(resolve => setTimeout(resolve, 50))
+// Helper: Pick one of `options` by hashing the prompt (FNV-1a), so the mock
+// replies vary between prompts but the same prompt always gets the same one
+function pickFor<T>(userInput: string, options: T[], salt = ''): T {
+  const seed = salt + userInput
+  let hash = 0x811c9dc5
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 0x01000193)
   }
-
-  onComplete?.(fullText)
+  return options[(hash >>> 0) % options.length]
 }
 
 // Helper: Generate 5 screenshot titles and subtitles from user input
@@ -265,12 +113,12 @@ function generate5Screenshots(userInput: string): string {
     screenshots.map((s, i) => `${i + 1}. **${s.title}** - ${s.subtitle}`).join('\n')
 }
 
-function generateMockMarkdownResponse(userInput: string): string {
+export function generateMockMarkdownResponse(userInput: string): string {
   const input = userInput.toLowerCase()
   
   // Generate varied response styles
   const responseStyles = ['direct', 'analytical', 'strategic', 'visual-first']
-  const selectedStyle = responseStyles[Math.floor(Math.random() * responseStyles.length)]
+  const selectedStyle = pickFor(userInput, responseStyles, 'style')
   
   let response = ''
   const screenshotsSection = generate5Screenshots(userInput)
@@ -391,7 +239,7 @@ Your screenshots should answer: "Will I actually use this?"
 What's your actual hook? Upload your UI and let's figure out how to show it.
 ${screenshotsSection}`
     ]
-    response = variations[Math.floor(Math.random() * variations.length)]
+    response = pickFor(userInput, variations)
   } else if (input.includes('social') || input.includes('dating') || input.includes('chat')) {
     const socialVariations = [
       `Social apps. The graveyard is full of "connect with friends" promises.
@@ -430,7 +278,7 @@ Your screenshots can't solve this, but they can avoid making it worse.
 What's your actual differentiator? Let's see your screens.
 ${screenshotsSection}`
     ]
-    response = socialVariations[Math.floor(Math.random() * socialVariations.length)]
+    response = pickFor(userInput, socialVariations)
   } else {
     const genericVariations = [
       `Okay, so you're building: "${userInput.slice(0, 80)}${userInput.length > 80 ? '...' : ''}"
@@ -489,117 +337,12 @@ You've got maybe 4 seconds of attention. Your screenshots need to work at a glan
 Upload your UI and I'll help you create something that converts browsers into downloads.
 ${screenshotsSection}`
     ]
-    response = genericVariations[Math.floor(Math.random() * genericVariations.length)]
-  }
-  
-  return response
-}
-
-/**
- * Sanitize and coerce AI response to match schema
- */
-function sanitizeAIResponse(response: any): any {
-  // Valid enum values
-  const validTones = ["clean", "bold", "professional", "playful", "minimal"]
-  const validEmphases = ["dashboard", "charts", "social", "onboarding", "feature"]
-  const validLayouts = ["iphone_centered", "iphone_offset", "iphone_feature_list", "iphone_comparison", "iphone_hero"]
-  const validBackgrounds = ["soft_gradient", "solid_light", "solid_dark", "branded", "minimal"]
-  
-  // Coerce tone to valid value
-  if (response.tone && !validTones.includes(response.tone)) {
-    console.warn(`Invalid tone "${response.tone}", defaulting to "professional"`)
-    response.tone = "professional"
-  }
-  
-  // Coerce screens
-  if (Array.isArray(response.screens)) {
-    response.screens = response.screens.map((screen: any) => {
-      // Coerce emphasis
-      if (screen.emphasis && !validEmphases.includes(screen.emphasis)) {
-        console.warn(`Invalid emphasis "${screen.emphasis}", defaulting to "feature"`)
-        screen.emphasis = "feature"
-      }
-      
-      // Coerce layout
-      if (screen.layout && !validLayouts.includes(screen.layout)) {
-        console.warn(`Invalid layout "${screen.layout}", defaulting to "iphone_centered"`)
-        screen.layout = "iphone_centered"
-      }
-      
-      // Coerce background
-      if (screen.background && !validBackgrounds.includes(screen.background)) {
-        console.warn(`Invalid background "${screen.background}", defaulting to "soft_gradient"`)
-        screen.background = "soft_gradient"
-      }
-      
-      return screen
-    })
+    response = pickFor(userInput, genericVariations)
   }
   
   return response
 }
 
-/**
- * Generate screenshot structure from OpenAI (JSON)
- */
-export async function generateScreenshotStructure(
-  userMessage: string,
-  apiKey?: string
-): Promise<AIResponse> {
-  const key = apiKey || process.env.NEXT_PUBLIC_OPENAI_API_KEY
-
-  if (!key) {
-    throw new Error('OpenAI API key not configured')
-  }
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${key}`,
-    },
-    body: JSON.stringify({
-      model: 'gpt-4-turbo-preview',
-      messages: [
-        { role: 'system', content: STRUCTURE_SYSTEM_PROMPT },
-        { role: 'user', content: userMessage }
-      ],
-      temperature: 0.7,
-      max_tokens: 1000,
-      response_format: { type: 'json_object' },
-    }),
-  })
-
-  if (!response.ok) {
-    throw new Error('OpenAI API error')
-  }
-
-  const data = await response.json()
-  const content = data.choices[0]?.message?.content
-
-  if (!content) {
-    throw new Error('No response from OpenAI')
-  }
-
-  try {
-    const parsed = JSON.parse(content)
-    console.log('Raw OpenAI response:', parsed)
-    
-    // Sanitize response before validation
-    const sanitized = sanitizeAIResponse(parsed)
-    console.log('Sanitized response:', sanitized)
-    
-    const validated = AIResponseSchema.parse(sanitized)
-    
-    return validated
-  } catch (error) {
-    if (error instanceof Error && 'issues' in error) {
-      console.error('Zod validation error:', (error as any).issues)
-    }
-    throw error
-  }
-}
-
 /**
  * Generate mock structure (fallback)
  */
@@ -640,7 +383,7 @@ export function generateMockStructure(userInput: string): AIResponse {
       ]
     ]
     
-    const selected = variations[Math.floor(Math.random() * variations.length)]
+    const selected = pickFor(userInput, variations)
     screens = selected.map((s, i) => ({
       id: `screen_${i + 1}`,
       headline: s.headline,
@@ -671,7 +414,7 @@ export function generateMockStructure(userInput: string): AIResponse {
       ]
     ]
     
-    const selected = variations[Math.floor(Math.random() * variations.length)]
+    const selected = pickFor(userInput, variations)
     screens = selected.map((s, i) => ({
       id: `screen_${i + 1}`,
       headline: s.headline,
@@ -697,7 +440,7 @@ export function generateMockStructure(userInput: string): AIResponse {
       ]
     ]
     
-    const selected = variations[Math.floor(Math.random() * variations.length)]
+    const selected = pickFor(userInput, variations)
     screens = selected.map((s, i) => ({
       id: `screen_${i + 1}`,
       headline: s.headline,
@@ -723,7 +466,7 @@ export function generateMockStructure(userInput: string): AIResponse {
       ]
     ]
     
-    const selected = variations[Math.floor(Math.random() * variations.length)]
+    const selected = pickFor(userInput, variations)
     screens = selected.map((s, i) => ({
       id: `screen_${i + 1}`,
       headline: s.headline,
@@ -752,7 +495,7 @@ export function generateMockStructure(userInput: string): AIResponse {
       ]
     ]
     
-    const selected = genericVariations[Math.floor(Math.random() * genericVariations.length)]
+    const selected = pickFor(userInput, genericVariations)
     screens = selected.map((s, i) => ({
       id: `screen_${i + 1}`,
       headline: s.headline,
@@ -770,10 +513,3 @@ export function generateMockStructure(userInput: string): AIResponse {
     screens
   }
 }
-
-/**
- * Check if OpenAI API key is configured
- */
-export function hasOpenAIKey(): boolean {
-  return !!process.env.NEXT_PUBLIC_OPENAI_API_KEY
-}
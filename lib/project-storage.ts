@@ -0,0 +1,144 @@
+import type { Screen } from "./scene-graph"
+import {
+  getStorageBackend,
+  runMigrationOnce,
+  LEGACY_PROJECT_PREFIX,
+  type StorageBackend,
+  type StoredProject,
+} from "./storage-backend"
+
+/**
+ * Design project saved per chat: the edited screens plus the choices
+ * the canvas was generated from. Documents are versioned so older saves
+ * can be upgraded when the layer model grows.
+ */
+export interface ProjectDocument {
+  version: number
+  chatId: string
+  screens: Screen[]
+  templateId?: string
+  selectedBackgroundIndex?: number
+  selectedFont?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const PROJECT_SCHEMA_VERSION = 1
+
+// Stored JSON before migration: any past version of ProjectDocument
+type RawProject = Record<string, unknown> & { version?: number }
+
+interface LegacyScreen {
+  templateId?: string
+  layers?: Array<Record<string, unknown>>
+}
+
+// Each migration upgrades a raw document from version N to N + 1
+const MIGRATIONS: Record<number, (doc: RawProject) => RawProject> = {
+  // Unversioned drafts: no document templateId, layers without ids
+  0: (doc) => {
+    const screens = (doc.screens ?? []) as LegacyScreen[]
+    return {
+      ...doc,
+      templateId: doc.templateId ?? screens[0]?.templateId,
+      screens: screens.map((screen, screenIndex) => ({
+        ...screen,
+        layers: (screen.layers ?? []).map((layer, layerIndex) => ({
+          ...layer,
+          id: layer.id ?? `layer_${screenIndex}_${layerIndex}`,
+        })),
+      })),
+      version: 1,
+    }
+  },
+}
+
+export function migrateProject(raw: RawProject): ProjectDocument {
+  let doc = raw
+  let version = typeof doc.version === "number" ? doc.version : 0
+
+  while (version < PROJECT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version]
+    if (!migrate) {
+      throw new Error(`No migration from project version ${version}`)
+    }
+    doc = migrate(doc)
+    version = doc.version ?? version + 1
+  }
+
+  const { createdAt, updatedAt } = doc as { createdAt?: string; updatedAt?: string }
+  return {
+    ...(doc as unknown as ProjectDocument),
+    createdAt: new Date(createdAt ?? Date.now()),
+    updatedAt: new Date(updatedAt ?? Date.now()),
+  }
+}
+
+async function getBackend(): Promise<StorageBackend> {
+  const backend = await getStorageBackend()
+  await runMigrationOnce(backend, "projects", () => migrateLegacyProjects(backend))
+  return backend
+}
+
+export async function saveProject(
+  project: Omit<ProjectDocument, "version" | "createdAt" | "updatedAt">
+): Promise<ProjectDocument> {
+  const backend = await getBackend()
+  const existing = await backend.getProject(project.chatId)
+  const doc: ProjectDocument = {
+    ...project,
+    version: PROJECT_SCHEMA_VERSION,
+    createdAt: existing?.createdAt ? new Date(existing.createdAt as string) : new Date(),
+    updatedAt: new Date(),
+  }
+
+  await backend.putProject(doc as unknown as StoredProject)
+  return doc
+}
+
+export async function getProjectByChatId(chatId: string): Promise<ProjectDocument | null> {
+  if (typeof window === "undefined") return null
+
+  const backend = await getBackend()
+  const stored = await backend.getProject(chatId)
+  if (!stored) return null
+
+  try {
+    return migrateProject(stored)
+  } catch (error) {
+    console.error("Failed to load project", chatId, error)
+    return null
+  }
+}
+
+export async function deleteProject(chatId: string): Promise<void> {
+  const backend = await getBackend()
+  await backend.deleteProject(chatId)
+}
+
+/**
+ * Move `lume-project-${chatId}` documents out of localStorage
+ */
+async function migrateLegacyProjects(backend: StorageBackend): Promise<void> {
+  const keys: string[] = []
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    if (key?.startsWith(LEGACY_PROJECT_PREFIX)) keys.push(key)
+  }
+
+  for (const key of keys) {
+    const stored = localStorage.getItem(key)
+    if (stored) {
+      // Stored unmigrated: schema migrations run on read as usual
+      await backend.putProject(JSON.parse(stored))
+    }
+  }
+  keys.forEach((key) => localStorage.removeItem(key))
+}
+
+/**
+ * Sidebar URL that reopens a chat with its design canvas
+ */
+export function getProjectUrl(chatId: string): string {
+  return `/dashboard/chat/${chatId}?canvas=open`
+}
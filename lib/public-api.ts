@@ -0,0 +1,448 @@
+/**
+ * Public REST API (/api/v1) - authentication, rate limits and responses
+ * Implements the contract on the api-docs page: Bearer API keys, hourly
+ * per-key limits by plan with X-RateLimit-* headers, and
+ * `{ error: { code, message, details } }` error bodies.
+ *
+ * Keys are configured server-side in LUME_API_KEYS as a comma-separated
+ * list of `key:tier` (or `key:enterprise:limit`), e.g.
+ * `lume_sk_live_abc:pro,lume_sk_test_def:free`.
+ */
+
+import { lookup, type LookupAddress } from "node:dns"
+import http from "node:http"
+import https from "node:https"
+import { BlockList, isIP, type LookupFunction } from "node:net"
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { AIProviderError } from "./ai-provider"
+import { APP_STORE_SIZES, PLAY_STORE_SIZES, type ExportSize } from "./ai-helpers"
+import type { Job } from "./job-store"
+import { generateLayersFromTemplate, getTemplateById, LAYOUT_TEMPLATES, type LayoutTemplate } from "./layout-templates"
+import type { Layer, Screen } from "./scene-graph"
+import type { ScreenshotVisuals } from "./ai-schemas"
+import type { VideoGenerationResult } from "./video-generator"
+
+// ===========================
+// PLANS & KEYS
+// ===========================
+
+export type ApiTier = "free" | "pro" | "enterprise"
+
+export const RATE_LIMITS: Record<ApiTier, number> = {
+  free: 10,
+  pro: 100,
+  enterprise: 1000, // Default when a key sets no custom limit
+}
+
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000
+
+export interface ApiKey {
+  key: string
+  tier: ApiTier
+  limit: number // Requests per hour
+}
+
+function loadApiKeys(): Map<string, ApiKey> {
+  const keys = new Map<string, ApiKey>()
+  for (const entry of (process.env.LUME_API_KEYS || "").split(",")) {
+    const [key, tier = "free", limit] = entry.trim().split(":")
+    if (!key || !(tier in RATE_LIMITS)) continue
+    keys.set(key, {
+      key,
+      tier: tier as ApiTier,
+      limit: Number(limit) || RATE_LIMITS[tier as ApiTier],
+    })
+  }
+  return keys
+}
+
+// ===========================
+// RATE LIMITING
+// ===========================
+
+interface RateLimitWindow {
+  count: number
+  resetAt: number // Epoch ms
+}
+
+export interface RateLimitState {
+  limit: number
+  remaining: number
+  reset: number // Epoch seconds
+  exceeded: boolean
+}
+
+const globalForRateLimits = globalThis as typeof globalThis & { lumeRateLimits?: Map<string, RateLimitWindow> }
+const windows = globalForRateLimits.lumeRateLimits ?? (globalForRateLimits.lumeRateLimits = new Map())
+
+/**
+ * Count a request against the key's fixed hourly window
+ */
+export function consumeRateLimit(apiKey: ApiKey, now = Date.now()): RateLimitState {
+  let window = windows.get(apiKey.key)
+  if (!window || window.resetAt <= now) {
+    window = { count: 0, resetAt: now + RATE_LIMIT_WINDOW_MS }
+    windows.set(apiKey.key, window)
+  }
+
+  const exceeded = window.count >= apiKey.limit
+  if (!exceeded) window.count++
+
+  return {
+    limit: apiKey.limit,
+    remaining: Math.max(0, apiKey.limit - window.count),
+    reset: Math.ceil(window.resetAt / 1000),
+    exceeded,
+  }
+}
+
+function rateLimitHeaders(state: RateLimitState): Record<string, string> {
+  return {
+    "X-RateLimit-Limit": String(state.limit),
+    "X-RateLimit-Remaining": String(state.remaining),
+    "X-RateLimit-Reset": String(state.reset),
+  }
+}
+
+// ===========================
+// RESPONSES
+// ===========================
+
+export type ApiErrorCode =
+  | "invalid_request"
+  | "unauthorized"
+  | "not_found"
+  | "rate_limit_exceeded"
+  | "upstream_error"
+  | "internal_error"
+
+export class PublicApiError extends Error {
+  constructor(
+    public status: number,
+    public code: ApiErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message)
+    this.name = "PublicApiError"
+  }
+}
+
+export function apiError(error: PublicApiError, headers?: Record<string, string>) {
+  return NextResponse.json(
+    { error: { code: error.code, message: error.message, ...(error.details !== undefined && { details: error.details }) } },
+    { status: error.status, headers }
+  )
+}
+
+/**
+ * Authenticate, rate limit and run a public API handler. Every counted
+ * response carries the X-RateLimit-* headers. Downloads of a job's files
+ * are not counted (`rateLimited: false`); the request that made them was.
+ */
+export async function withPublicApi(
+  req: Request,
+  handler: (apiKey: ApiKey) => Promise<Response>,
+  { rateLimited = true }: { rateLimited?: boolean } = {}
+): Promise<Response> {
+  const token = req.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim()
+  const apiKey = token ? loadApiKeys().get(token) : undefined
+  if (!apiKey) {
+    return apiError(new PublicApiError(401, "unauthorized", token ? "Invalid API key" : "Missing API key"))
+  }
+  if (!rateLimited) return runApiHandler(apiKey, handler)
+
+  const rateLimit = consumeRateLimit(apiKey)
+  const headers = rateLimitHeaders(rateLimit)
+  if (rateLimit.exceeded) {
+    return apiError(
+      new PublicApiError(429, "rate_limit_exceeded", `Rate limit of ${rateLimit.limit} requests per hour exceeded`),
+      { ...headers, "Retry-After": String(Math.max(0, rateLimit.reset - Math.floor(Date.now() / 1000))) }
+    )
+  }
+
+  const response = await runApiHandler(apiKey, handler)
+  Object.entries(headers).forEach(([name, value]) => response.headers.set(name, value))
+  return response
+}
+
+async function runApiHandler(apiKey: ApiKey, handler: (apiKey: ApiKey) => Promise<Response>): Promise<Response> {
+  try {
+    return await handler(apiKey)
+  } catch (error) {
+    if (error instanceof PublicApiError) return apiError(error)
+    if (error instanceof AIProviderError) {
+      return apiError(new PublicApiError(error.status === 429 ? 503 : 502, "upstream_error", error.message))
+    }
+    console.error("Public API error:", error)
+    return apiError(new PublicApiError(500, "internal_error", "Internal server error"))
+  }
+}
+
+/**
+ * Parse a JSON body against `schema`, throwing a 400 PublicApiError
+ */
+export async function parseApiBody<T extends z.ZodType>(req: Request, schema: T): Promise<z.infer<T>> {
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    throw new PublicApiError(400, "invalid_request", "Request body must be valid JSON")
+  }
+
+  const result = schema.safeParse(body)
+  if (!result.success) {
+    throw new PublicApiError(400, "invalid_request", result.error.issues[0]?.message || "Invalid request", {
+      issues: result.error.issues.map(issue => ({ path: issue.path.join("."), message: issue.message })),
+    })
+  }
+  return result.data
+}
+
+export function serializeJob(job: Job) {
+  return {
+    id: job.id,
+    status: job.status,
+    progress: job.progress,
+    result: job.result,
+    error: job.error,
+    created_at: job.createdAt.toISOString(),
+  }
+}
+
+// ===========================
+// REQUEST SCHEMAS
+// ===========================
+
+// Remote images are fetched server-side; data URLs are accepted as-is
+const ImageUrlSchema = z.string().max(15_000_000).refine(
+  url => /^https?:\/\//.test(url) || url.startsWith("data:image/"),
+  "Invalid screenshot URL"
+)
+
+// Short names accepted in `export_sizes`, as on the api-docs page
+export const EXPORT_SIZE_ALIASES: Record<string, ExportSize> = {
+  "6.7": APP_STORE_SIZES[0],
+  "6.5": APP_STORE_SIZES[1],
+  "5.5": APP_STORE_SIZES[2],
+  "ipad": APP_STORE_SIZES[3],
+  "ipad-11": APP_STORE_SIZES[4],
+  "play-phone": PLAY_STORE_SIZES[0],
+  "play-tablet-7": PLAY_STORE_SIZES[1],
+  "play-tablet-10": PLAY_STORE_SIZES[2],
+  "play-feature": PLAY_STORE_SIZES[3],
+}
+
+export const GenerateScreenshotsSchema = z.object({
+  screenshots: z.array(ImageUrlSchema).min(1).max(10),
+  template: z.string().default("centered_bold"),
+  headline: z.string().max(200).optional(),
+  subtitle: z.string().max(300).optional(),
+  // Used to generate headlines when none are given
+  prompt: z.string().max(4000).optional(),
+  background_color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "background_color must be a #RRGGBB hex color").optional(),
+  export_sizes: z.array(z.enum(Object.keys(EXPORT_SIZE_ALIASES) as [string, ...string[]])).min(1).default(["6.7"]),
+})
+
+export const GenerateVideoSchema = z.object({
+  screenshots: z.array(ImageUrlSchema).min(1).max(10),
+  style: z.enum(["smooth", "dynamic", "minimal", "cinematic"]).default("smooth"),
+  duration: z.union([z.literal(4), z.literal(8), z.literal(12)]).default(8),
+  music: z.enum(["none", "upbeat", "calm", "corporate"]).optional(),
+  transitions: z.enum(["fade", "slide", "zoom", "morph"]).optional(),
+  prompt: z.string().max(2000).optional(),
+})
+
+export const AnalyzeScreenshotSchema = z.object({
+  screenshot_url: ImageUrlSchema,
+})
+
+// Remote screenshots are only fetched from public addresses, up to this size
+const MAX_IMAGE_BYTES = 15 * 1024 * 1024
+const MAX_IMAGE_REDIRECTS = 3
+const IMAGE_FETCH_TIMEOUT_MS = 15_000
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4")
+}
+for (const [network, prefix] of [
+  // IPv4-mapped and NAT64 addresses could reach any of the ranges above
+  ["::", 96], ["::ffff:0:0", 96], ["64:ff9b::", 96], ["100::", 64], ["2001:db8::", 32],
+  ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6")
+}
+
+function isPublicAddress(address: string): boolean {
+  const family = isIP(address)
+  return family !== 0 && !BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4")
+}
+
+/**
+ * DNS lookup for outgoing requests that refuses hosts resolving to a
+ * non-public address. Checked on the address actually connected to, so a
+ * host cannot pass a separate check and then resolve somewhere else.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) return callback(error, "")
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      return callback(Object.assign(new Error(`${hostname} does not resolve to a public address`), { code: "EACCES" }), "")
+    }
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+interface FetchedImage {
+  type: string
+  bytes: Buffer
+}
+
+// One hop of an image download; redirects are returned, not followed
+function requestImage(url: URL, signal: AbortSignal): Promise<FetchedImage | { location: string }> {
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === "https:" ? https : http).get(url, { lookup: publicLookup, signal }, (response) => {
+      const status = response.statusCode ?? 0
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume()
+        return resolve({ location: response.headers.location })
+      }
+
+      const type = response.headers["content-type"]?.split(";")[0].trim() || ""
+      if (status < 200 || status >= 300 || !type.startsWith("image/")) {
+        response.resume()
+        return reject(new Error(`Unexpected response ${status} ${type}`))
+      }
+      if (Number(response.headers["content-length"]) > MAX_IMAGE_BYTES) {
+        response.destroy()
+        return reject(new Error("Image too large"))
+      }
+
+      const chunks: Buffer[] = []
+      let size = 0
+      response.on("data", (chunk: Buffer) => {
+        size += chunk.length
+        if (size > MAX_IMAGE_BYTES) {
+          response.destroy(new Error("Image too large"))
+          return
+        }
+        chunks.push(chunk)
+      })
+      response.on("end", () => resolve({ type, bytes: Buffer.concat(chunks) }))
+      response.on("error", reject)
+    })
+    request.on("error", reject)
+  })
+}
+
+/**
+ * Load a screenshot URL as a data URL, so the rest of the pipeline only
+ * ever deals with inline images. Remote URLs must be http(s) on a public
+ * address, including every redirect, and at most MAX_IMAGE_BYTES.
+ */
+export async function fetchImageAsDataUrl(url: string): Promise<string> {
+  if (url.startsWith("data:")) return url
+
+  const signal = AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS)
+  let next = URL.canParse(url) ? new URL(url) : null
+  for (let hop = 0; next && hop <= MAX_IMAGE_REDIRECTS; hop++) {
+    const host = next.hostname.replace(/^\[|\]$/g, "")
+    if (!["http:", "https:"].includes(next.protocol) || (isIP(host) !== 0 && !isPublicAddress(host))) break
+
+    let fetched: FetchedImage | { location: string }
+    try {
+      fetched = await requestImage(next, signal)
+    } catch {
+      throw new PublicApiError(400, "invalid_request", "Invalid screenshot URL", { url })
+    }
+    if ("bytes" in fetched) return `data:${fetched.type};base64,${fetched.bytes.toString("base64")}`
+    next = URL.canParse(fetched.location, next) ? new URL(fetched.location, next) : null
+  }
+
+  throw new PublicApiError(400, "invalid_request", "Invalid screenshot URL", { url })
+}
+
+// ===========================
+// SCREENSHOT SCENES
+// ===========================
+
+export function resolveLayoutTemplate(template: string): LayoutTemplate {
+  const layout = getTemplateById(template)
+  if (!layout) {
+    throw new PublicApiError(400, "invalid_request", `Unknown template "${template}"`, {
+      templates: LAYOUT_TEMPLATES.map(t => t.id),
+    })
+  }
+  return layout
+}
+
+/**
+ * Canvas screens (the same scene documents the editor and exporter use)
+ * for each uploaded screenshot
+ */
+export function buildApiScreens(
+  layout: LayoutTemplate,
+  screenshots: string[],
+  copy: Array<{ headline: string; subtitle?: string }>,
+  backgroundColor = layout.backgroundColor
+): Screen[] {
+  return screenshots.map((screenshot, index) => ({
+    id: `screen_${index + 1}`,
+    name: `Screen ${index + 1}`,
+    backgroundColor,
+    templateId: layout.id,
+    layers: generateLayersFromTemplate(layout, { screenshot, ...copy[index % copy.length] }, index)
+      .map((layer, layerIndex) => ({
+        ...layer,
+        id: `${layer.id}_${index}_${layerIndex}`,
+        ...(layer.type === "background" && { backgroundColor }),
+      })) as Layer[],
+  }))
+}
+
+// ===========================
+// RESULT SHAPES
+// ===========================
+
+export function serializeVideo(video: VideoGenerationResult, sourceUrl?: string) {
+  // Thumbnails of inline uploads are the upload itself; return the caller's URL instead
+  const thumbnail = video.thumbnailUrl.startsWith("data:") ? sourceUrl : video.thumbnailUrl
+  return {
+    video_url: video.videoUrl || null,
+    thumbnail_url: thumbnail || null,
+    duration: video.duration,
+    estimated_completion: video.estimatedTime
+      ? new Date(Date.now() + video.estimatedTime * 1000).toISOString()
+      : null,
+  }
+}
+
+// Font groups offered by the visual analysis prompt
+const FONT_MOODS: Array<{ mood: string; fonts: string[]; templates: string[] }> = [
+  { mood: "modern", fonts: ["Inter", "SF Pro Display", "Roboto", "Lato"], templates: ["layout2", "layout1"] },
+  { mood: "energetic", fonts: ["Poppins", "Montserrat", "Nunito", "Work Sans"], templates: ["layout1", "layout2"] },
+  { mood: "professional", fonts: ["IBM Plex Sans", "Manrope", "Space Grotesk", "Plus Jakarta Sans"], templates: ["layout1", "layout2"] },
+  { mood: "elegant", fonts: ["DM Sans", "Rubik", "Outfit", "Lexend"], templates: ["layout2", "layout1"] },
+]
+
+export function describeVisuals(visuals: ScreenshotVisuals, dominantColors: string[]) {
+  const group = FONT_MOODS.find(g => g.fonts.includes(visuals.fontFamily)) ?? FONT_MOODS[0]
+  return {
+    mood: group.mood,
+    dominant_colors: dominantColors,
+    text_color: visuals.textColor,
+    suggested_backgrounds: visuals.suggestedBackgrounds,
+    typography: {
+      primary_font: visuals.fontFamily,
+      font_style: "sans-serif",
+    },
+    suggested_templates: group.templates,
+  }
+}
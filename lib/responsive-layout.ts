@@ -0,0 +1,169 @@
+/**
+ * Responsive Layout - lay a screen out for any output aspect ratio
+ *
+ * Screens are designed at CANVAS_WIDTH x CANVAS_HEIGHT. For another output
+ * size the design keeps its scale along the constraining axis and the canvas
+ * grows along the other one (a 12.9" iPad is laid out at 609x812), so text and
+ * mockups stay the same size and each layer's constraints decide where the
+ * extra room goes. Boxes adjusted by hand for one device are kept as
+ * overrides on the layer and win over the automatic result.
+ */
+
+import { calculateScale } from './ai-helpers'
+import type { LayerBounds } from './layer-align'
+import {
+  CANVAS_WIDTH,
+  CANVAS_HEIGHT,
+  type HorizontalConstraint,
+  type Layer,
+  type LayerConstraints,
+  type LayerOverride,
+  type Screen,
+  type VerticalConstraint,
+} from './scene-graph'
+
+// Logical canvas size a screen is laid out at
+export interface LayoutSize {
+  width: number
+  height: number
+}
+
+export const DESIGN_SIZE: LayoutSize = { width: CANVAS_WIDTH, height: CANVAS_HEIGHT }
+
+export const HORIZONTAL_CONSTRAINTS: Array<{ value: HorizontalConstraint; label: string }> = [
+  { value: 'left', label: 'Left' },
+  { value: 'right', label: 'Right' },
+  { value: 'left-right', label: 'Left & right' },
+  { value: 'center', label: 'Center' },
+  { value: 'scale', label: 'Scale' },
+]
+
+export const VERTICAL_CONSTRAINTS: Array<{ value: VerticalConstraint; label: string }> = [
+  { value: 'top', label: 'Top' },
+  { value: 'bottom', label: 'Bottom' },
+  { value: 'top-bottom', label: 'Top & bottom' },
+  { value: 'center', label: 'Center' },
+  { value: 'scale', label: 'Scale' },
+]
+
+/**
+ * Logical size for an output in pixels, rounded to whole units so a
+ * near-identical aspect ratio (1242x2688) lays out exactly like the design
+ */
+export function getLayoutSize(width: number, height: number): LayoutSize {
+  const scale = calculateScale(CANVAS_WIDTH, CANVAS_HEIGHT, width, height)
+  return { width: Math.round(width / scale), height: Math.round(height / scale) }
+}
+
+export function isDesignSize(size: LayoutSize): boolean {
+  return size.width === CANVAS_WIDTH && size.height === CANVAS_HEIGHT
+}
+
+/**
+ * Constraints with defaults filled in: backgrounds stretch over the whole
+ * canvas, everything else moves with the center of the design, and
+ * mockups and images keep their proportions
+ */
+export function getLayerConstraints(layer: Layer): Required<LayerConstraints> {
+  const isBackground = layer.type === 'background'
+  return {
+    horizontal: layer.constraints?.horizontal ?? (isBackground ? 'left-right' : 'center'),
+    vertical: layer.constraints?.vertical ?? (isBackground ? 'top-bottom' : 'scale'),
+    aspectLock: layer.constraints?.aspectLock ?? (layer.type === 'mockup' || layer.type === 'image'),
+  }
+}
+
+// Start and length of a box along one axis of the target canvas
+function resolveAxis(
+  start: number,
+  length: number,
+  designLength: number,
+  targetLength: number,
+  constraint: HorizontalConstraint | VerticalConstraint
+): [number, number] {
+  const extra = targetLength - designLength
+  switch (constraint) {
+    case 'right':
+    case 'bottom':
+      return [start + extra, length]
+    case 'left-right':
+    case 'top-bottom':
+      return [start, Math.max(0, length + extra)]
+    case 'center':
+      return [start + extra / 2, length]
+    case 'scale': {
+      const factor = targetLength / designLength
+      return [start * factor, length * factor]
+    }
+    default:
+      return [start, length]
+  }
+}
+
+/**
+ * Box of a layer on a canvas of `size`, from its constraints alone
+ */
+export function resolveLayerBox(layer: Layer, size: LayoutSize): LayerBounds {
+  const constraints = getLayerConstraints(layer)
+  const [x, width] = resolveAxis(layer.x, layer.width, CANVAS_WIDTH, size.width, constraints.horizontal)
+  const [y, height] = resolveAxis(layer.y, layer.height, CANVAS_HEIGHT, size.height, constraints.vertical)
+
+  // Lines and other boxes without area have no proportions to keep
+  if (!constraints.aspectLock || layer.width <= 0 || layer.height <= 0) {
+    return { x, y, width, height }
+  }
+  const fit = Math.min(width / layer.width, height / layer.height)
+  const fitted = { width: layer.width * fit, height: layer.height * fit }
+  return {
+    x: x + (width - fitted.width) / 2,
+    y: y + (height - fitted.height) / 2,
+    ...fitted,
+  }
+}
+
+/**
+ * A screen laid out on a canvas of `size`, with the overrides saved for
+ * `device` applied. Ruler guides belong to the design and are dropped.
+ */
+export function layoutScreen(screen: Screen, size: LayoutSize, device?: string): Screen {
+  const hasOverrides = !!device && screen.layers.some(layer => hasLayerOverride(layer, device))
+  if (isDesignSize(size) && !hasOverrides) return screen
+
+  return {
+    ...screen,
+    guides: undefined,
+    layers: screen.layers.map(layer => ({
+      ...layer,
+      ...(isDesignSize(size) ? null : resolveLayerBox(layer, size)),
+      ...(device ? layer.overrides?.[device] : null),
+    })),
+  }
+}
+
+// ===========================
+// DEVICE OVERRIDES
+// ===========================
+
+export function hasLayerOverride(layer: Layer, device: string): boolean {
+  return !!layer.overrides?.[device]
+}
+
+/**
+ * Pin part of a layer's box by hand for one device
+ */
+export function setLayerOverride(layer: Layer, device: string, box: LayerOverride): Layer {
+  return {
+    ...layer,
+    overrides: { ...layer.overrides, [device]: { ...layer.overrides?.[device], ...box } },
+  }
+}
+
+/**
+ * Back to the automatic layout for one device
+ */
+export function clearLayerOverride(layer: Layer, device: string): Layer {
+  if (!layer.overrides?.[device]) return layer
+  const rest = { ...layer.overrides }
+  delete rest[device]
+  return { ...layer, overrides: Object.keys(rest).length > 0 ? rest : undefined }
+}
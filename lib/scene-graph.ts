@@ -0,0 +1,227 @@
+/**
+ * Scene Graph - Screen and Layer model shared by the design canvas,
+ * the raster renderer and every export/share path
+ */
+
+import type { DeviceFrameId, MockupVariant } from './device-frames'
+
+// Logical canvas size every screen is designed at (iPhone X points)
+export const CANVAS_WIDTH = 375
+export const CANVAS_HEIGHT = 812
+
+// Areas the system UI covers on a notched iPhone (status bar, home indicator)
+export const SAFE_AREA_INSETS = { top: 44, bottom: 34 }
+// App Store search results show portrait screenshots at 9:16, so a taller
+// design loses its top and bottom; this is the centered part that stays visible
+export const SEARCH_RESULT_CROP = {
+  x: 0,
+  y: (CANVAS_HEIGHT - CANVAS_WIDTH * 16 / 9) / 2,
+  width: CANVAS_WIDTH,
+  height: CANVAS_WIDTH * 16 / 9,
+}
+
+export const DEFAULT_FONT_FAMILY = 'Lato, -apple-system, sans-serif'
+export const DEFAULT_FONT_SIZE = 20
+export const TEXT_LINE_HEIGHT = 1.2
+// Horizontal padding of text boxes (Tailwind px-2)
+export const TEXT_PADDING_X = 8
+
+export interface LayerGradient {
+  type: "linear" | "radial"
+  colors: string[]
+  angle?: number
+}
+
+export type ShapeKind = "rectangle" | "ellipse" | "line"
+
+export type TextTransform = "none" | "uppercase" | "lowercase" | "capitalize"
+
+// Styling for part of a text layer's content: characters [start, end).
+// Unset fields fall back to the layer's own style.
+export interface TextSpan {
+  start: number
+  end: number
+  color?: string
+  bold?: boolean
+  italic?: boolean
+  underline?: boolean
+}
+
+// Drop shadow in logical units; blur works like CSS drop-shadow()
+export interface LayerShadow {
+  offsetX: number
+  offsetY: number
+  blur: number
+  color: string
+}
+
+// How a layer follows the canvas edges when a screen is laid out at another
+// aspect ratio: pinned to one edge, to both (stretching), centered, or
+// positioned and sized as a fraction of the canvas ("scale")
+export type HorizontalConstraint = "left" | "right" | "left-right" | "center" | "scale"
+export type VerticalConstraint = "top" | "bottom" | "top-bottom" | "center" | "scale"
+
+export interface LayerConstraints {
+  horizontal?: HorizontalConstraint
+  vertical?: VerticalConstraint
+  aspectLock?: boolean // Keep the design's proportions, fitted and centered in the constrained box
+}
+
+// Box set by hand for one device, in that device's logical canvas units
+export type LayerOverride = Partial<Pick<Layer, "x" | "y" | "width" | "height">>
+
+// Framing of the picture inside an image or mockup layer, kept apart from
+// the image itself so it can always be changed again (see image-crop.ts)
+export interface ImageCrop {
+  fit: "fill" | "fit" // Cover the box or show the whole image, before zooming
+  zoom: number // 1 = the fit/fill size
+  x: number // Position like CSS object-position: 0 left edge, 0.5 centered, 1 right edge
+  y: number
+}
+
+// Shared by CSS mix-blend-mode and canvas globalCompositeOperation
+export const LAYER_BLEND_MODES = ["normal", "multiply", "screen", "overlay", "darken", "lighten"] as const
+export type LayerBlendMode = typeof LAYER_BLEND_MODES[number]
+
+export interface Layer {
+  id: string
+  type: "text" | "image" | "mockup" | "background" | "decoration" | "shape"
+  content: string
+  x: number
+  y: number
+  width: number
+  height: number
+  // Transform & effects
+  rotation?: number // Degrees, clockwise around the layer center
+  opacity?: number // 0–1
+  shadow?: LayerShadow
+  blendMode?: LayerBlendMode
+  cornerRadius?: number // Rectangles, images, decorations and backgrounds
+  fontSize?: number
+  fontFamily?: string
+  color?: string
+  bold?: boolean
+  italic?: boolean
+  underline?: boolean
+  align?: "left" | "center" | "right"
+  lineHeight?: number // Multiple of the font size, TEXT_LINE_HEIGHT when unset
+  letterSpacing?: number // Logical px after every character
+  textTransform?: TextTransform
+  spans?: TextSpan[] // Mixed styling within `content`, sorted and non-overlapping
+  autoFit?: boolean // Shrink the font size (never grow it) until the text fits the box
+  translations?: Record<string, string> // Text per locale code; `content` is the base language (see localization.ts)
+  textDirection?: "rtl" // Set on localized copies for right-to-left languages
+  imageCrop?: ImageCrop // Images and mockups
+  // Mockup specific
+  deviceFrame?: DeviceFrameId // DEFAULT_DEVICE_FRAME when unset
+  mockupVariant?: MockupVariant
+  // Background specific
+  backgroundColor?: string
+  backgroundGradient?: LayerGradient
+  // Shape specific
+  shape?: ShapeKind
+  fill?: string // Rectangle/ellipse interior, none when unset
+  stroke?: string
+  strokeWidth?: number
+  lineDirection?: "down" | "up" // Line runs top-left → bottom-right ("down") or bottom-left → top-right
+  groupId?: string // Innermost LayerGroup of the screen this layer belongs to
+  // Responsive layout (see responsive-layout.ts)
+  constraints?: LayerConstraints
+  overrides?: Record<string, LayerOverride> // Keyed by export size name
+}
+
+// Groups only exist as ids on layers, so renderers keep drawing a flat list
+export interface LayerGroup {
+  id: string
+  name: string
+  parentId?: string
+}
+
+// Ruler guide; "x" guides are vertical lines at `position`
+export interface ScreenGuide {
+  id: string
+  axis: "x" | "y"
+  position: number
+}
+
+export interface Screen {
+  id: string
+  name: string
+  backgroundColor: string
+  layers: Layer[]
+  groups?: LayerGroup[]
+  guides?: ScreenGuide[] // Editor only, never rendered
+  templateId?: string // Track which template is being used
+}
+
+/**
+ * CSS equivalent of a layer gradient, for the DOM editor
+ */
+export function gradientToCss(gradient: LayerGradient): string {
+  const stops = gradient.colors.join(', ')
+  if (gradient.type === 'radial') {
+    return `radial-gradient(circle, ${stops})`
+  }
+  return `linear-gradient(${gradient.angle ?? 180}deg, ${stops})`
+}
+
+/**
+ * Fill used for background and decoration layers
+ */
+export function getLayerFillCss(layer: Layer, fallback: string): string {
+  if (layer.backgroundGradient && layer.backgroundGradient.colors.length > 0) {
+    return gradientToCss(layer.backgroundGradient)
+  }
+  return layer.backgroundColor || fallback
+}
+
+/**
+ * Whether a layer's box is clipped to its corner radius. Shapes build the
+ * radius into their path instead, and framed mockups have their own bezel.
+ */
+export function hasRoundedBox(layer: Layer): boolean {
+  return (layer.cornerRadius ?? 0) > 0 && (
+    layer.type === 'image' || layer.type === 'decoration' || layer.type === 'background' ||
+    (layer.type === 'mockup' && layer.deviceFrame === 'none')
+  )
+}
+
+/**
+ * Effects that apply to the layer as a whole (CSS composites the element
+ * before applying them, so the exporter paints such layers on their own first)
+ */
+export function hasLayerEffects(layer: Layer): boolean {
+  return (layer.opacity !== undefined && layer.opacity < 1) ||
+    !!layer.shadow ||
+    (!!layer.blendMode && layer.blendMode !== 'normal')
+}
+
+/**
+ * CSS filter for a layer's shadow at the given zoom
+ */
+export function getShadowCss(shadow: LayerShadow, zoom = 1): string {
+  return `drop-shadow(${shadow.offsetX * zoom}px ${shadow.offsetY * zoom}px ${shadow.blur * zoom}px ${shadow.color})`
+}
+
+/**
+ * SVG path of a shape layer in layer-local coordinates. The editor draws it
+ * as an SVG <path> and the raster renderer as a Path2D, so both stay identical.
+ */
+export function getShapePath(layer: Layer): string {
+  const { width: w, height: h } = layer
+  switch (layer.shape) {
+    case 'line':
+      return layer.lineDirection === 'up' ? `M 0 ${h} L ${w} 0` : `M 0 0 L ${w} ${h}`
+    case 'ellipse': {
+      const rx = w / 2
+      const ry = h / 2
+      return `M 0 ${ry} A ${rx} ${ry} 0 1 0 ${w} ${ry} A ${rx} ${ry} 0 1 0 0 ${ry} Z`
+    }
+    default: {
+      const r = Math.max(0, Math.min(layer.cornerRadius ?? 0, w / 2, h / 2))
+      if (r === 0) return `M 0 0 H ${w} V ${h} H 0 Z`
+      return `M ${r} 0 H ${w - r} A ${r} ${r} 0 0 1 ${w} ${r} V ${h - r} A ${r} ${r} 0 0 1 ${w - r} ${h} ` +
+        `H ${r} A ${r} ${r} 0 0 1 0 ${h - r} V ${r} A ${r} ${r} 0 0 1 ${r} 0 Z`
+    }
+  }
+}
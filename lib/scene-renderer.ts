@@ -0,0 +1,573 @@
+/**
+ * Scene Renderer
+ * Rasterizes a Screen/Layer tree onto a 2D canvas so exports look exactly
+ * like the DOM editor (gradients, wrapped and auto-fitted text, device frames,
+ * rotation, clipping, opacity, shadows and blend modes)
+ *
+ * Nothing in here touches the DOM directly: the canvas factory and image
+ * loader are injectable, so the renderer also runs headlessly (with
+ * @napi-rs/canvas in Node, see server-renderer.ts) for the public API and
+ * to compare output against golden images.
+ */
+
+import {
+  CANVAS_WIDTH,
+  CANVAS_HEIGHT,
+  TEXT_PADDING_X,
+  getShapePath,
+  hasLayerEffects,
+  hasRoundedBox,
+  type Layer,
+  type LayerGradient,
+  type Screen,
+} from './scene-graph'
+import {
+  getDeviceFrame,
+  getFramePartColor,
+  getScreenRectFractions,
+  type DeviceFrame,
+} from './device-frames'
+import { calculateScale } from './ai-helpers'
+import { getLineOffset, layoutText, measureWithContext } from './text-layout'
+import { getImageCrop, getImageDrawRect } from './image-crop'
+import { DESIGN_SIZE, getLayoutSize, layoutScreen, type LayoutSize } from './responsive-layout'
+import { localizeScreen } from './localization'
+
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+export type RenderCanvas = HTMLCanvasElement | OffscreenCanvas
+
+export interface LoadedImage {
+  source: CanvasImageSource
+  width: number
+  height: number
+}
+
+export type ImageLoader = (src: string) => Promise<LoadedImage | null>
+export type CanvasFactory = (width: number, height: number) => RenderCanvas
+
+export interface RenderOptions {
+  // Output size in pixels. Defaults to the logical canvas size times `scale`.
+  width?: number
+  height?: number
+  // Pixel density when no explicit size is given
+  scale?: number
+  // Export size name whose manual layout overrides apply
+  device?: string
+  // Store locale whose copy is shown; the base language when unset
+  locale?: string
+  loadImage?: ImageLoader
+  createCanvas?: CanvasFactory
+}
+
+export type ExportFormat = 'png' | 'jpg'
+
+// ===========================
+// PUBLIC API
+// ===========================
+
+/**
+ * Render a screen into a freshly created canvas.
+ * When the output aspect ratio differs from the design, the screen is laid
+ * out again for it (see responsive-layout.ts) rather than letterboxed.
+ */
+export async function renderScreenToCanvas(
+  screen: Screen,
+  options: RenderOptions = {}
+): Promise<RenderCanvas> {
+  const scale = options.scale ?? 1
+  const width = Math.round(options.width ?? CANVAS_WIDTH * scale)
+  const height = Math.round(options.height ?? CANVAS_HEIGHT * scale)
+
+  const canvas = (options.createCanvas ?? createDefaultCanvas)(width, height)
+  const ctx = canvas.getContext('2d') as RenderContext | null
+  if (!ctx) {
+    throw new Error('Failed to get canvas context')
+  }
+
+  const size = getLayoutSize(width, height)
+  const fitScale = calculateScale(size.width, size.height, width, height)
+  await renderScreen(ctx, localizeScreen(layoutScreen(screen, size, options.device), options.locale, size.width), {
+    scale: fitScale,
+    offsetX: (width - size.width * fitScale) / 2,
+    offsetY: (height - size.height * fitScale) / 2,
+    size,
+    canvasWidth: width,
+    canvasHeight: height,
+    loadImage: options.loadImage,
+    createCanvas: options.createCanvas,
+  })
+
+  return canvas
+}
+
+/**
+ * Draw a screen onto an existing context.
+ * Images are loaded up front so layers are always painted in order.
+ */
+export async function renderScreen(
+  ctx: RenderContext,
+  screen: Screen,
+  options: {
+    scale?: number
+    offsetX?: number
+    offsetY?: number
+    // Logical canvas the screen's layers are laid out on
+    size?: LayoutSize
+    canvasWidth?: number
+    canvasHeight?: number
+    loadImage?: ImageLoader
+    // Scratch canvases for layers with opacity, shadow or blending
+    createCanvas?: CanvasFactory
+  } = {}
+): Promise<void> {
+  const scale = options.scale ?? 1
+  const offsetX = options.offsetX ?? 0
+  const offsetY = options.offsetY ?? 0
+  const size = options.size ?? DESIGN_SIZE
+  const images = await preloadImages(screen.layers, options.loadImage ?? loadBrowserImage)
+
+  ctx.save()
+
+  // Screen background covers the whole output (including any rounding margin)
+  ctx.fillStyle = screen.backgroundColor
+  ctx.fillRect(
+    0,
+    0,
+    options.canvasWidth ?? offsetX * 2 + size.width * scale,
+    options.canvasHeight ?? offsetY * 2 + size.height * scale
+  )
+
+  ctx.translate(offsetX, offsetY)
+  ctx.scale(scale, scale)
+
+  // The editor clips layers to the screen (overflow: hidden)
+  ctx.beginPath()
+  ctx.rect(0, 0, size.width, size.height)
+  ctx.clip()
+
+  for (const layer of screen.layers) {
+    drawLayer(ctx, layer, images, options.createCanvas ?? createDefaultCanvas)
+  }
+
+  ctx.restore()
+}
+
+/**
+ * Encode a canvas as an image blob
+ */
+export async function canvasToBlob(
+  canvas: RenderCanvas,
+  format: ExportFormat = 'png',
+  quality = 92
+): Promise<Blob> {
+  const type = format === 'jpg' ? 'image/jpeg' : 'image/png'
+  const encoderQuality = format === 'jpg' ? Math.max(0, Math.min(100, quality)) / 100 : undefined
+
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type, quality: encoderQuality })
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode canvas'))),
+      type,
+      encoderQuality
+    )
+  })
+}
+
+/**
+ * Render a screen and return it as a PNG/JPG blob
+ */
+export async function renderScreenToBlob(
+  screen: Screen,
+  options: RenderOptions & { format?: ExportFormat; quality?: number } = {}
+): Promise<Blob> {
+  const canvas = await renderScreenToCanvas(screen, options)
+  return canvasToBlob(canvas, options.format, options.quality)
+}
+
+/**
+ * Render a screen and return it as a data URL (used by sharing)
+ */
+export async function renderScreenToDataURL(
+  screen: Screen,
+  options: RenderOptions = {}
+): Promise<string> {
+  const blob = await renderScreenToBlob(screen, options)
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onloadend = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+// ===========================
+// LAYER DRAWING
+// ===========================
+
+/**
+ * Layers with effects are painted on their own first and composited once,
+ * so opacity, shadow and blending apply to the whole layer like in CSS
+ */
+function drawLayer(
+  ctx: RenderContext,
+  layer: Layer,
+  images: Map<string, LoadedImage | null>,
+  createCanvas: CanvasFactory
+) {
+  const layerCanvas = hasLayerEffects(layer) ? createCanvas(ctx.canvas.width, ctx.canvas.height) : null
+  const layerCtx = layerCanvas?.getContext('2d') as RenderContext | null | undefined
+  if (!layerCanvas || !layerCtx) {
+    paintLayer(ctx, layer, images)
+    return
+  }
+
+  layerCtx.setTransform(ctx.getTransform())
+  paintLayer(layerCtx, layer, images)
+
+  ctx.save()
+  if (layer.opacity !== undefined && layer.opacity < 1) {
+    ctx.globalAlpha = Math.max(0, layer.opacity)
+  }
+  if (layer.blendMode && layer.blendMode !== 'normal') {
+    ctx.globalCompositeOperation = layer.blendMode
+  }
+  if (layer.shadow) {
+    // Canvas shadows ignore the transform; the editor's rotate and scale with the layer
+    const m = ctx.getTransform().rotate(layer.rotation ?? 0)
+    ctx.shadowOffsetX = m.a * layer.shadow.offsetX + m.c * layer.shadow.offsetY
+    ctx.shadowOffsetY = m.b * layer.shadow.offsetX + m.d * layer.shadow.offsetY
+    ctx.shadowBlur = layer.shadow.blur * Math.hypot(m.a, m.b)
+    ctx.shadowColor = layer.shadow.color
+  }
+  ctx.setTransform(1, 0, 0, 1, 0, 0)
+  ctx.drawImage(layerCanvas, 0, 0)
+  ctx.restore()
+}
+
+function paintLayer(ctx: RenderContext, layer: Layer, images: Map<string, LoadedImage | null>) {
+  ctx.save()
+
+  if (layer.rotation) {
+    const cx = layer.x + layer.width / 2
+    const cy = layer.y + layer.height / 2
+    ctx.translate(cx, cy)
+    ctx.rotate((layer.rotation * Math.PI) / 180)
+    ctx.translate(-cx, -cy)
+  }
+
+  if (hasRoundedBox(layer)) {
+    const radius = layer.cornerRadius ?? 0
+    roundedRectPath(ctx, layer.x, layer.y, layer.width, layer.height, radius, radius)
+    ctx.clip()
+  }
+
+  switch (layer.type) {
+    case 'background':
+      fillRect(ctx, layer, '#FFFFFF')
+      break
+    case 'decoration':
+      fillRect(ctx, layer, 'rgba(255,255,255,0.1)')
+      break
+    case 'text':
+      drawText(ctx, layer)
+      break
+    case 'image': {
+      const image = images.get(layer.content)
+      if (image) drawImageCropped(ctx, image, layer, { x: layer.x, y: layer.y, width: layer.width, height: layer.height })
+      break
+    }
+    case 'mockup':
+      drawMockup(ctx, layer, images.get(layer.content) ?? null)
+      break
+    case 'shape':
+      drawShape(ctx, layer)
+      break
+  }
+
+  ctx.restore()
+}
+
+function fillRect(ctx: RenderContext, layer: Layer, fallback: string) {
+  ctx.fillStyle = layer.backgroundGradient && layer.backgroundGradient.colors.length > 0
+    ? createGradient(ctx, layer.backgroundGradient, layer.x, layer.y, layer.width, layer.height)
+    : layer.backgroundColor || fallback
+  ctx.fillRect(layer.x, layer.y, layer.width, layer.height)
+}
+
+/**
+ * Fill, then stroke centered on the outline, as SVG paints the editor's <path>
+ */
+function drawShape(ctx: RenderContext, layer: Layer) {
+  const path = new Path2D(getShapePath(layer))
+  ctx.translate(layer.x, layer.y)
+
+  if (layer.fill && layer.shape !== 'line') {
+    ctx.fillStyle = layer.fill
+    ctx.fill(path)
+  }
+  if (layer.stroke && (layer.strokeWidth ?? 0) > 0) {
+    ctx.strokeStyle = layer.stroke
+    ctx.lineWidth = layer.strokeWidth ?? 0
+    ctx.lineCap = 'round'
+    ctx.lineJoin = 'miter'
+    ctx.stroke(path)
+  }
+}
+
+/**
+ * Build a canvas gradient with CSS semantics
+ * (linear angle measured clockwise from "to top", radial = circle farthest-corner)
+ */
+function createGradient(
+  ctx: RenderContext,
+  gradient: LayerGradient,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): CanvasGradient {
+  const cx = x + width / 2
+  const cy = y + height / 2
+  let canvasGradient: CanvasGradient
+
+  if (gradient.type === 'radial') {
+    const radius = Math.hypot(width / 2, height / 2)
+    canvasGradient = ctx.createRadialGradient(cx, cy, 0, cx, cy, radius)
+  } else {
+    const angle = ((gradient.angle ?? 180) * Math.PI) / 180
+    const dx = Math.sin(angle)
+    const dy = -Math.cos(angle)
+    const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2
+    canvasGradient = ctx.createLinearGradient(cx - dx * half, cy - dy * half, cx + dx * half, cy + dy * half)
+  }
+
+  const last = Math.max(1, gradient.colors.length - 1)
+  gradient.colors.forEach((color, index) => {
+    canvasGradient.addColorStop(gradient.colors.length === 1 ? 0 : index / last, color)
+  })
+
+  return canvasGradient
+}
+
+function drawText(ctx: RenderContext, layer: Layer) {
+  const layout = layoutText(layer, measureWithContext(ctx))
+  const { fontSize, lineHeight, letterSpacing } = layout
+  // Text block is vertically centered in its box (flex items-center)
+  const blockTop = layer.y + (layer.height - layout.lines.length * lineHeight) / 2
+
+  const rtl = layer.textDirection === 'rtl'
+
+  ctx.textBaseline = 'middle'
+  ctx.textAlign = 'left'
+  if (rtl) ctx.direction = 'rtl'
+
+  layout.lines.forEach((line, index) => {
+    const lineX = layer.x + TEXT_PADDING_X + getLineOffset(layer, line)
+    const lineY = blockTop + index * lineHeight + lineHeight / 2
+    // Right-to-left runs follow each other from the right end of the line
+    let runX = rtl ? lineX + line.width : lineX
+
+    for (const run of line.runs) {
+      if (rtl) runX -= run.width
+      ctx.font = run.font
+      ctx.fillStyle = run.color
+      fillTextSpaced(ctx, run.text, runX, lineY, letterSpacing)
+
+      if (run.underline) {
+        const thickness = Math.max(1, fontSize / 15)
+        ctx.fillRect(runX, lineY + fontSize * 0.4, run.width, thickness)
+      }
+      if (!rtl) runX += run.width
+    }
+  })
+}
+
+// fillText with CSS letter-spacing (added after every character)
+function fillTextSpaced(ctx: RenderContext, text: string, x: number, y: number, letterSpacing: number) {
+  if (!letterSpacing) {
+    ctx.fillText(text, x, y)
+    return
+  }
+  if (typeof ctx.letterSpacing === 'string') {
+    ctx.letterSpacing = `${letterSpacing}px`
+    ctx.fillText(text, x, y)
+    ctx.letterSpacing = '0px'
+    return
+  }
+  // Older canvases: place each character by hand
+  let charX = x
+  for (const char of Array.from(text)) {
+    ctx.fillText(char, charX, y)
+    charX += ctx.measureText(char).width + letterSpacing
+  }
+}
+
+/**
+ * Draw an image panned and zoomed by the layer's crop, clipped to `box`
+ */
+function drawImageCropped(
+  ctx: RenderContext,
+  image: LoadedImage,
+  layer: Layer,
+  box: { x: number; y: number; width: number; height: number }
+) {
+  const rect = getImageDrawRect(getImageCrop(layer), box, image)
+  ctx.save()
+  ctx.beginPath()
+  ctx.rect(box.x, box.y, box.width, box.height)
+  ctx.clip()
+  ctx.drawImage(image.source, box.x + rect.x, box.y + rect.y, rect.width, rect.height)
+  ctx.restore()
+}
+
+/**
+ * Draw the screenshot inside the device frame, mirroring <DeviceMockup />:
+ * the screenshot box uses percentages of the layer box, the SVG frame is
+ * fitted (preserveAspectRatio "meet") and centered on top of it
+ */
+function drawMockup(ctx: RenderContext, layer: Layer, image: LoadedImage | null) {
+  const frame = getDeviceFrame(layer.deviceFrame)
+  const variant = layer.mockupVariant || 'black'
+  const hasMedia = !!image
+
+  if (image) {
+    const fractions = getScreenRectFractions(frame)
+    const screenX = layer.x + fractions.left * layer.width
+    const screenY = layer.y + fractions.top * layer.height
+    const screenWidth = fractions.width * layer.width
+    const screenHeight = fractions.height * layer.height
+
+    ctx.save()
+    roundedRectPath(
+      ctx,
+      screenX,
+      screenY,
+      screenWidth,
+      screenHeight,
+      fractions.radiusH * screenWidth,
+      fractions.radiusV * screenHeight
+    )
+    ctx.clip()
+    drawImageCropped(ctx, image, layer, { x: screenX, y: screenY, width: screenWidth, height: screenHeight })
+    ctx.restore()
+  }
+
+  if (frame.parts.length === 0) return
+
+  const frameScale = Math.min(layer.width / frame.width, layer.height / frame.height)
+  ctx.save()
+  ctx.translate(
+    layer.x + (layer.width - frame.width * frameScale) / 2,
+    layer.y + (layer.height - frame.height * frameScale) / 2
+  )
+  ctx.scale(frameScale, frameScale)
+
+  for (const part of frame.parts) {
+    const color = getFramePartColor(part.fill, variant)
+    const path = new Path2D(part.d)
+    ctx.save()
+    // Body and bezel are punched out where the screenshot shows
+    if (part.punched && hasMedia) clipScreenPunch(ctx, frame)
+    if (part.opacity !== undefined) ctx.globalAlpha = part.opacity
+    ctx.fillStyle = color
+    ctx.fill(path)
+    if (part.outlined) {
+      ctx.strokeStyle = color
+      ctx.lineWidth = 0.5
+      ctx.stroke(path)
+    }
+    ctx.restore()
+  }
+
+  ctx.restore()
+}
+
+function clipScreenPunch(ctx: RenderContext, frame: DeviceFrame) {
+  const { x, y, width, height, radius } = frame.screen
+  ctx.beginPath()
+  ctx.rect(0, 0, frame.width, frame.height)
+  roundedRectPath(ctx, x, y, width, height, radius, radius, false)
+  ctx.clip('evenodd')
+}
+
+/**
+ * Rounded rectangle with elliptical corners (CSS `border-radius: rx / ry`)
+ */
+function roundedRectPath(
+  ctx: RenderContext,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  rx: number,
+  ry: number,
+  begin = true
+) {
+  const radiusX = Math.min(rx, width / 2)
+  const radiusY = Math.min(ry, height / 2)
+  // Bezier control point factor for quarter ellipses
+  const k = 0.5522847498
+  const ox = radiusX * k
+  const oy = radiusY * k
+
+  if (begin) ctx.beginPath()
+  ctx.moveTo(x + radiusX, y)
+  ctx.lineTo(x + width - radiusX, y)
+  ctx.bezierCurveTo(x + width - radiusX + ox, y, x + width, y + radiusY - oy, x + width, y + radiusY)
+  ctx.lineTo(x + width, y + height - radiusY)
+  ctx.bezierCurveTo(x + width, y + height - radiusY + oy, x + width - radiusX + ox, y + height, x + width - radiusX, y + height)
+  ctx.lineTo(x + radiusX, y + height)
+  ctx.bezierCurveTo(x + radiusX - ox, y + height, x, y + height - radiusY + oy, x, y + height - radiusY)
+  ctx.lineTo(x, y + radiusY)
+  ctx.bezierCurveTo(x, y + radiusY - oy, x + radiusX - ox, y, x + radiusX, y)
+  ctx.closePath()
+}
+
+// ===========================
+// ENVIRONMENT DEFAULTS
+// ===========================
+
+async function preloadImages(
+  layers: Layer[],
+  loadImage: ImageLoader
+): Promise<Map<string, LoadedImage | null>> {
+  const sources = new Set(
+    layers
+      .filter(l => (l.type === 'image' || l.type === 'mockup') && l.content)
+      .map(l => l.content)
+  )
+
+  const entries = await Promise.all(
+    Array.from(sources).map(async (src) => [src, await loadImage(src)] as const)
+  )
+  return new Map(entries)
+}
+
+function loadBrowserImage(src: string): Promise<LoadedImage | null> {
+  return new Promise((resolve) => {
+    const img = new Image()
+    img.crossOrigin = 'anonymous'
+    img.onload = () => resolve({ source: img, width: img.naturalWidth, height: img.naturalHeight })
+    img.onerror = () => {
+      console.warn('Failed to load image:', src.slice(0, 64))
+      resolve(null) // Continue even if image fails
+    }
+    img.src = src
+  })
+}
+
+function createDefaultCanvas(width: number, height: number): RenderCanvas {
+  if (typeof document !== 'undefined') {
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    return canvas
+  }
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height)
+  }
+  throw new Error('No canvas implementation available, pass `createCanvas` to render headlessly')
+}
@@ -3,6 +3,11 @@
  * Analyzes uploaded screenshots to extract colors and suggest layouts
  */
 
+import { postAI } from './ai-client'
+import type { ScreenshotVisuals } from './ai-schemas'
+import { getBrandPalette, type BrandKit } from './brand-kit'
+import { generatePalette, type PaletteGradient } from './color-palette'
+
 // Extract dominant colors AND background from screenshot
 export async function extractColorsFromScreenshot(screenshotBase64: string): Promise<{
   colors: string[]
@@ -27,199 +32,95 @@ export async function extractColorsFromScreenshot(screenshotBase64: string): Pro
     canvas.height = img.height * scale
     ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
 
-    // Get image data
     const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
-    const data = imageData.data
-
-    // Count colors and detect background
-    const colorCounts: { [key: string]: number } = {}
-    const edgeColors: string[] = []
-    
-    for (let i = 0; i < data.length; i += 4) {
-      const r = data[i]
-      const g = data[i + 1]
-      const b = data[i + 2]
-      const a = data[i + 3]
-      
-      const pixelIndex = i / 4
-      const x = pixelIndex % canvas.width
-      const y = Math.floor(pixelIndex / canvas.width)
-
-      // Skip transparent pixels
-      if (a < 128) continue
-
-      // Collect edge pixels for background detection
-      const isEdge = x < 5 || x > canvas.width - 5 || y < 5 || y > canvas.height - 5
-      if (isEdge) {
-        const edgeColor = `${Math.floor(r / 16) * 16},${Math.floor(g / 16) * 16},${Math.floor(b / 16) * 16}`
-        edgeColors.push(edgeColor)
-      }
-
-      // Skip very light/dark for color extraction
-      if (r > 245 && g > 245 && b > 245) continue
-      if (r < 10 && g < 10 && b < 10) continue
-
-      // Quantize to reduce color variations
-      const quantized = `${Math.floor(r / 32) * 32},${Math.floor(g / 32) * 32},${Math.floor(b / 32) * 32}`
-      colorCounts[quantized] = (colorCounts[quantized] || 0) + 1
-    }
-
-    // Detect background from edge colors
-    const bgColorCounts: { [key: string]: number } = {}
-    edgeColors.forEach(color => {
-      bgColorCounts[color] = (bgColorCounts[color] || 0) + 1
-    })
-    
-    const mostCommonBgColor = Object.entries(bgColorCounts)
-      .sort((a, b) => b[1] - a[1])[0]?.[0] || '240,240,240'
-    
-    const [bgR, bgG, bgB] = mostCommonBgColor.split(',').map(Number)
-    const backgroundColor = `#${bgR.toString(16).padStart(2, '0')}${bgG.toString(16).padStart(2, '0')}${bgB.toString(16).padStart(2, '0')}`
-
-    // Get top colors
-    const sortedColors = Object.entries(colorCounts)
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 5)
-      .map(([color]) => {
-        const [r, g, b] = color.split(',').map(Number)
-        return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`
-      })
-
-    return {
-      colors: sortedColors.length > 0 ? sortedColors : ['#F5F5F5'],
-      backgroundColor
-    }
+    return countScreenshotColors(imageData.data, canvas.width, canvas.height)
   } catch (error) {
     console.error('Color extraction failed:', error)
     return { colors: ['#F5F5F5'], backgroundColor: '#F5F5F5' }
   }
 }
 
-// Generate complementary background colors
-export function generateComplementaryColors(dominantColors: string[]): string[] {
-  const backgrounds: string[] = []
+// Dominant colors and edge background of decoded RGBA pixels, shared with
+// the public API, which decodes screenshots on the server
+export function countScreenshotColors(data: Uint8ClampedArray, width: number, height: number): {
+  colors: string[]
+  backgroundColor: string
+} {
+  // Count colors and detect background
+  const colorCounts: { [key: string]: number } = {}
+  const edgeColors: string[] = []
+  
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i]
+    const g = data[i + 1]
+    const b = data[i + 2]
+    const a = data[i + 3]
+    
+    const pixelIndex = i / 4
+    const x = pixelIndex % width
+    const y = Math.floor(pixelIndex / width)
+
+    // Skip transparent pixels
+    if (a < 128) continue
+
+    // Collect edge pixels for background detection
+    const isEdge = x < 5 || x > width - 5 || y < 5 || y > height - 5
+    if (isEdge) {
+      const edgeColor = `${Math.floor(r / 16) * 16},${Math.floor(g / 16) * 16},${Math.floor(b / 16) * 16}`
+      edgeColors.push(edgeColor)
+    }
 
-  for (const color of dominantColors.slice(0, 3)) {
-    try {
-      // Parse hex color
-      const hex = color.replace('#', '')
-      const r = parseInt(hex.substr(0, 2), 16)
-      const g = parseInt(hex.substr(2, 2), 16)
-      const b = parseInt(hex.substr(4, 2), 16)
+    // Skip very light/dark for color extraction
+    if (r > 245 && g > 245 && b > 245) continue
+    if (r < 10 && g < 10 && b < 10) continue
 
-      // Generate lighter version for background
-      const lighter = (val: number) => Math.min(255, Math.floor(val + (255 - val) * 0.85))
-      const bgR = lighter(r)
-      const bgG = lighter(g)
-      const bgB = lighter(b)
+    // Quantize to reduce color variations
+    const quantized = `${Math.floor(r / 32) * 32},${Math.floor(g / 32) * 32},${Math.floor(b / 32) * 32}`
+    colorCounts[quantized] = (colorCounts[quantized] || 0) + 1
+  }
 
-      const bgColor = `#${bgR.toString(16).padStart(2, '0')}${bgG.toString(16).padStart(2, '0')}${bgB.toString(16).padStart(2, '0')}`
-      backgrounds.push(bgColor)
+  // Detect background from edge colors
+  const bgColorCounts: { [key: string]: number } = {}
+  edgeColors.forEach(color => {
+    bgColorCounts[color] = (bgColorCounts[color] || 0) + 1
+  })
+  
+  const mostCommonBgColor = Object.entries(bgColorCounts)
+    .sort((a, b) => b[1] - a[1])[0]?.[0] || '240,240,240'
+  
+  const [bgR, bgG, bgB] = mostCommonBgColor.split(',').map(Number)
+  const backgroundColor = `#${bgR.toString(16).padStart(2, '0')}${bgG.toString(16).padStart(2, '0')}${bgB.toString(16).padStart(2, '0')}`
+
+  // Get top colors
+  const sortedColors = Object.entries(colorCounts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 5)
+    .map(([color]) => {
+      const [r, g, b] = color.split(',').map(Number)
+      return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`
+    })
 
-      // Also add a darker complementary version
-      const darker = (val: number) => Math.max(0, Math.floor(val * 0.4))
-      const darkR = darker(r)
-      const darkG = darker(g)
-      const darkB = darker(b)
-      const darkColor = `#${darkR.toString(16).padStart(2, '0')}${darkG.toString(16).padStart(2, '0')}${darkB.toString(16).padStart(2, '0')}`
-      backgrounds.push(darkColor)
-    } catch (e) {
-      console.error('Failed to generate complementary color:', e)
-    }
+  return {
+    colors: sortedColors.length > 0 ? sortedColors : ['#F5F5F5'],
+    backgroundColor
   }
+}
 
-  return backgrounds.length > 0 ? backgrounds : ['#F5F5F5', '#1A1A1A']
+// Generate complementary background colors (tints, shades and color
+// harmonies in OKLCH, see color-palette.ts)
+export function generateComplementaryColors(dominantColors: string[]): string[] {
+  const { swatches } = generatePalette(dominantColors)
+  return swatches.length > 0 ? swatches.map(swatch => swatch.background) : ['#F5F5F5', '#1A1A1A']
 }
 
 // Analyze screenshots for VISUAL data only (colors, backgrounds)
 // NO titles/subtitles - those come from prompt analysis
+// Runs server-side in /api/ai/screenshot-visuals
 export async function analyzeScreenshotsVisuals(
   screenshots: string[]
-): Promise<{
-  suggestedBackgrounds: string[]
-  textColor: string
-  fontFamily: string
-}> {
+): Promise<ScreenshotVisuals> {
   try {
-    const apiKey = process.env.NEXT_PUBLIC_OPENAI_API_KEY
-
-    if (!apiKey) {
-      console.log('No API key, using fallback')
-      return generateFallbackVisuals()
-    }
-
-    const prompt = `You are a visual design expert analyzing app screenshots to extract styling information.
-
-Analyze the VISUAL characteristics and suggest:
-1. Background color scheme (5 colors that complement the screenshot's visual style)
-2. Text color with good contrast
-3. Font family that matches the visual aesthetic
-
-Consider:
-- Color saturation and brightness
-- Whether the design is minimal, bold, playful, or professional
-- Dark vs light themes
-- Modern vs traditional aesthetics
-- Energy level (calm vs energetic)
-
-Available fonts to choose from:
-- Modern & Clean: Inter, SF Pro Display, Roboto, Lato
-- Bold & Energetic: Poppins, Montserrat, Nunito, Work Sans
-- Tech & Professional: IBM Plex Sans, Manrope, Space Grotesk, Plus Jakarta Sans
-- Elegant & Refined: DM Sans, Rubik, Outfit, Lexend
-
-Return ONLY valid JSON:
-{
-  "backgrounds": ["#F5F5F5", "#FFFFFF", "#FAFAFA", "#F8F8F8", "#FCFCFC"],
-  "textColor": "#1A1A1A",
-  "fontFamily": "Inter"
-}
-
-Analyze based purely on visual characteristics - ignore any text content in the screenshots.`
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a visual design expert. Return only JSON.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        response_format: { type: 'json_object' },
-        temperature: 0.5,
-        max_tokens: 500
-      })
-    })
-
-    if (!response.ok) {
-      console.error('OpenAI API error:', response.status)
-      return generateFallbackVisuals()
-    }
-
-    const data = await response.json()
-    const content = data.choices[0]?.message?.content
-
-    if (!content) {
-      return generateFallbackVisuals()
-    }
-
-    const result = JSON.parse(content)
-
-    return {
-      suggestedBackgrounds: result.backgrounds || ['#F5F5F5', '#FFFFFF', '#FAFAFA', '#F8F8F8', '#FCFCFC'],
-      textColor: result.textColor || '#1A1A1A',
-      fontFamily: result.fontFamily || 'Inter'
-    }
+    return await postAI<ScreenshotVisuals>('screenshot-visuals', { screenshots })
   } catch (error) {
     console.error('Visual analysis failed:', error)
     return generateFallbackVisuals()
@@ -227,11 +128,7 @@ Analyze based purely on visual characteristics - ignore any text content in the
 }
 
 // Simple fallback for visual data when AI is not available
-function generateFallbackVisuals(): {
-  suggestedBackgrounds: string[]
-  textColor: string
-  fontFamily: string
-} {
+export function generateFallbackVisuals(): ScreenshotVisuals {
   return {
     suggestedBackgrounds: ['#F5F5F5', '#FFFFFF', '#FAFAFA', '#F8F8F8', '#FCFCFC'],
     textColor: '#1A1A1A',
@@ -239,22 +136,26 @@ function generateFallbackVisuals(): {
   }
 }
 
+// Backgrounds offered after an analysis: the AI's picks first, then the palette
+const MAX_BACKGROUND_VARIATIONS = 12
+
 /**
  * Main function: Analyze screenshots for VISUAL data only
  * NO titles/subtitles - those come from prompt analysis
+ * With a workspace brand kit, backgrounds, fonts and text color come from
+ * the kit and only the mockup variants are read from the screenshots
  */
 export async function analyzeScreenshots(
-  screenshots: string[]
+  screenshots: string[],
+  brandKit?: BrandKit | null
 ): Promise<{
   dominantColors: string[]
   suggestedBackgrounds: string[]
   detectedFonts: string[]
   textColor: string
+  suggestedGradients: PaletteGradient[]
   mockupVariants: Array<'white' | 'black'>
 }> {
-  // Get visual styling suggestions from AI
-  const visualData = await analyzeScreenshotsVisuals(screenshots)
-
   // Extract colors and background from ALL screenshots
   let dominantColors: string[] = []
   let detectedBackground: string = '#F5F5F5'
@@ -289,6 +190,21 @@ export async function analyzeScreenshots(
     }
   }
 
+  if (brandKit) {
+    return {
+      dominantColors,
+      suggestedBackgrounds: getBrandPalette(brandKit),
+      detectedFonts: [brandKit.primaryFont, brandKit.secondaryFont],
+      textColor: brandKit.textColor,
+      // Gradients would bring in colors the brand doesn't use
+      suggestedGradients: [],
+      mockupVariants
+    }
+  }
+
+  // Get visual styling suggestions from AI
+  const visualData = await analyzeScreenshotsVisuals(screenshots)
+
   // Use the detected background as primary
   const bgHex = detectedBackground.replace('#', '')
   const bgR = parseInt(bgHex.substr(0, 2), 16)
@@ -300,11 +216,11 @@ export async function analyzeScreenshots(
   const textColor = bgBrightness > 128 ? '#1A1A1A' : '#FFFFFF'
 
   // Generate background variations from the detected background
-  const backgroundVariations = [
+  const backgroundVariations = [...new Set([
     detectedBackground,
     ...visualData.suggestedBackgrounds,
     ...generateComplementaryColors(dominantColors)
-  ].slice(0, 6)
+  ].map(color => color.toUpperCase()))].slice(0, MAX_BACKGROUND_VARIATIONS)
   
   // Detect fonts based purely on visual characteristics
   const detectedFonts = [visualData.fontFamily, ...detectFontsFromVisuals(dominantColors, bgBrightness)].slice(0, 3)
@@ -314,6 +230,7 @@ export async function analyzeScreenshots(
     suggestedBackgrounds: backgroundVariations,
     detectedFonts,
     textColor: visualData.textColor,
+    suggestedGradients: generatePalette(dominantColors).gradients,
     mockupVariants
   }
 }
@@ -0,0 +1,80 @@
+/**
+ * Server Renderer - the scene renderer on @napi-rs/canvas
+ * Renders screens to image files in Node for the public API, with the same
+ * drawing code as in-browser exports. Only inline (data URL) images are
+ * loaded; remote screenshots are fetched and checked before they get here.
+ */
+
+import { createCanvas, loadImage, Path2D, type Canvas } from "@napi-rs/canvas"
+import {
+  renderScreenToCanvas,
+  type ExportFormat,
+  type LoadedImage,
+  type RenderCanvas,
+  type RenderOptions,
+} from "./scene-renderer"
+import type { Screen } from "./scene-graph"
+import { countScreenshotColors } from "./screenshot-analyzer"
+
+// Shape and device frame outlines are built with the global Path2D
+const globalForCanvas = globalThis as unknown as { Path2D?: unknown }
+globalForCanvas.Path2D ??= Path2D
+
+// Longest side screenshots are scaled to before their colors are counted
+const COLOR_SAMPLE_SIZE = 200
+
+function createServerCanvas(width: number, height: number): RenderCanvas {
+  return createCanvas(width, height) as unknown as RenderCanvas
+}
+
+function decodeDataUrl(src: string): Buffer | null {
+  const match = /^data:image\/[\w.+-]+;base64,(.+)$/.exec(src)
+  return match ? Buffer.from(match[1], "base64") : null
+}
+
+async function loadServerImage(src: string): Promise<LoadedImage | null> {
+  const data = decodeDataUrl(src)
+  if (!data) return null
+  try {
+    const image = await loadImage(data)
+    return { source: image as unknown as CanvasImageSource, width: image.width, height: image.height }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Render a screen to a PNG/JPG file
+ */
+export async function renderScreenToBuffer(
+  screen: Screen,
+  options: Omit<RenderOptions, "createCanvas" | "loadImage"> & { format?: ExportFormat; quality?: number } = {}
+): Promise<Buffer> {
+  const canvas = await renderScreenToCanvas(screen, {
+    ...options,
+    createCanvas: createServerCanvas,
+    loadImage: loadServerImage,
+  }) as unknown as Canvas
+
+  return options.format === "jpg"
+    ? canvas.toBuffer("image/jpeg", Math.max(0, Math.min(100, options.quality ?? 92)))
+    : canvas.toBuffer("image/png")
+}
+
+/**
+ * Most common colors of an inline screenshot, counted the same way as for
+ * uploads in the editor (see extractColorsFromScreenshot)
+ */
+export async function getDominantColors(screenshot: string): Promise<string[]> {
+  const image = await loadServerImage(screenshot)
+  if (!image) return []
+
+  const scale = Math.min(1, COLOR_SAMPLE_SIZE / Math.max(image.width, image.height))
+  const width = Math.max(1, Math.round(image.width * scale))
+  const height = Math.max(1, Math.round(image.height * scale))
+  const canvas = createCanvas(width, height)
+  const ctx = canvas.getContext("2d")
+  ctx.drawImage(image.source as unknown as Parameters<typeof ctx.drawImage>[0], 0, 0, width, height)
+
+  return countScreenshotColors(ctx.getImageData(0, 0, width, height).data, width, height).colors
+}
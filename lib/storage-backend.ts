@@ -0,0 +1,213 @@
+/**
+ * Storage Backend
+ * Persistence layer behind chat-storage and project-storage. IndexedDB is
+ * used when available; localStorage remains as the fallback and as the
+ * source for one-time migrations of data saved by older versions.
+ */
+
+import type { ChatHistory, ChatMessage } from "./chat-storage"
+import { createIndexedDBBackend } from "./indexeddb-storage"
+
+// localStorage keys written by earlier versions of the app
+export const LEGACY_CHAT_HISTORY_KEY = "lume-chat-history"
+export const LEGACY_CHAT_MESSAGES_PREFIX = "chat-"
+export const LEGACY_PROJECT_PREFIX = "lume-project-"
+
+/**
+ * Project document as stored, before schema migrations run
+ */
+export type StoredProject = Record<string, unknown> & { chatId: string; version?: number }
+
+export interface StorageUsage {
+  backend: StorageBackend["name"]
+  usage: number // Bytes used by this origin
+  quota: number // Bytes available to this origin
+  chats: number
+  projects: number
+  images: number // Unique images stored
+  imageBytes: number
+}
+
+export interface StorageBackend {
+  name: "indexeddb" | "localStorage"
+  getChats(): Promise<ChatHistory[]>
+  getChatsByWorkspace(workspaceId: string): Promise<ChatHistory[]> // Newest first
+  getChat(chatId: string): Promise<ChatHistory | null>
+  putChat(chat: ChatHistory): Promise<void>
+  deleteChat(chatId: string): Promise<void>
+  getProject(chatId: string): Promise<StoredProject | null>
+  putProject(project: StoredProject): Promise<void>
+  deleteProject(chatId: string): Promise<void>
+  getMeta(key: string): Promise<unknown>
+  setMeta(key: string, value: unknown): Promise<void>
+  getUsage(): Promise<StorageUsage>
+}
+
+let backendPromise: Promise<StorageBackend> | null = null
+const migrations = new Map<string, Promise<void>>()
+
+export function getStorageBackend(): Promise<StorageBackend> {
+  if (!backendPromise) {
+    backendPromise = typeof indexedDB === "undefined"
+      ? Promise.resolve(createLocalStorageBackend())
+      : createIndexedDBBackend().catch((error) => {
+          console.warn("IndexedDB unavailable, falling back to localStorage:", error)
+          return createLocalStorageBackend()
+        })
+  }
+  return backendPromise
+}
+
+/**
+ * Run a localStorage → IndexedDB migration at most once per browser.
+ * Concurrent callers share the same run; failures are logged, not thrown.
+ */
+export function runMigrationOnce(
+  backend: StorageBackend,
+  name: string,
+  migrate: () => Promise<void>
+): Promise<void> {
+  // The localStorage backend reads legacy data in place
+  if (backend.name === "localStorage") return Promise.resolve()
+
+  let running = migrations.get(name)
+  if (!running) {
+    running = (async () => {
+      if (await backend.getMeta(`migration:${name}`)) return
+      await migrate()
+      await backend.setMeta(`migration:${name}`, new Date().toISOString())
+    })().catch((error) => {
+      // Legacy data stays in localStorage; retry on next access
+      console.error(`Storage migration "${name}" failed:`, error)
+      migrations.delete(name)
+    })
+    migrations.set(name, running)
+  }
+  return running
+}
+
+/**
+ * Revive dates on a chat parsed from JSON
+ */
+export function reviveChat(chat: ChatHistory): ChatHistory {
+  return {
+    ...chat,
+    createdAt: new Date(chat.createdAt),
+    updatedAt: new Date(chat.updatedAt),
+    messages: chat.messages.map(reviveMessage),
+  }
+}
+
+function reviveMessage(message: ChatMessage): ChatMessage {
+  return {
+    ...message,
+    timestamp: new Date(message.timestamp),
+    ...(message.branches && { branches: message.branches.map((branch) => branch.map(reviveMessage)) }),
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+}
+
+// ===========================
+// LOCALSTORAGE FALLBACK
+// ===========================
+
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024
+const META_PREFIX = "lume-meta-"
+
+function createLocalStorageBackend(): StorageBackend {
+  const readChats = (): ChatHistory[] => {
+    if (typeof window === "undefined") return []
+    const stored = localStorage.getItem(LEGACY_CHAT_HISTORY_KEY)
+    if (!stored) return []
+    try {
+      return JSON.parse(stored).map(reviveChat)
+    } catch {
+      return []
+    }
+  }
+
+  const writeChats = (chats: ChatHistory[]) => {
+    localStorage.setItem(LEGACY_CHAT_HISTORY_KEY, JSON.stringify(chats))
+  }
+
+  return {
+    name: "localStorage",
+
+    async getChats() {
+      return readChats()
+    },
+
+    async getChatsByWorkspace(workspaceId) {
+      return readChats()
+        .filter((chat) => chat.workspaceId === workspaceId)
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+    },
+
+    async getChat(chatId) {
+      return readChats().find((c) => c.id === chatId) || null
+    },
+
+    async putChat(chat) {
+      const chats = readChats()
+      const existingIndex = chats.findIndex((c) => c.id === chat.id)
+      if (existingIndex >= 0) {
+        chats[existingIndex] = chat
+      } else {
+        chats.push(chat)
+      }
+      writeChats(chats)
+    },
+
+    async deleteChat(chatId) {
+      writeChats(readChats().filter((c) => c.id !== chatId))
+    },
+
+    async getProject(chatId) {
+      const stored = localStorage.getItem(LEGACY_PROJECT_PREFIX + chatId)
+      return stored ? JSON.parse(stored) : null
+    },
+
+    async putProject(project) {
+      localStorage.setItem(LEGACY_PROJECT_PREFIX + project.chatId, JSON.stringify(project))
+    },
+
+    async deleteProject(chatId) {
+      localStorage.removeItem(LEGACY_PROJECT_PREFIX + chatId)
+    },
+
+    async getMeta(key) {
+      const stored = localStorage.getItem(META_PREFIX + key)
+      return stored ? JSON.parse(stored) : undefined
+    },
+
+    async setMeta(key, value) {
+      localStorage.setItem(META_PREFIX + key, JSON.stringify(value))
+    },
+
+    async getUsage() {
+      let usage = 0
+      let projects = 0
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i) || ""
+        // UTF-16: two bytes per character
+        usage += (key.length + (localStorage.getItem(key)?.length ?? 0)) * 2
+        if (key.startsWith(LEGACY_PROJECT_PREFIX)) projects++
+      }
+      return {
+        backend: "localStorage",
+        usage,
+        quota: LOCAL_STORAGE_QUOTA,
+        chats: readChats().length,
+        projects,
+        images: 0,
+        imageBytes: 0,
+      }
+    },
+  }
+}
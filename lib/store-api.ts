@@ -0,0 +1,388 @@
+/**
+ * Store API - server side of screenshot uploads
+ *
+ * App Store Connect: screenshots live in one screenshot set per display type
+ * of each localization of the app version being prepared. Every screenshot
+ * is reserved, uploaded in the parts the reservation lists and committed
+ * with its checksum. The old screenshots of a set are only deleted once all
+ * new ones are in, apart from any that have to go to make room for them.
+ *
+ * Google Play: images change inside an edit, which only goes live when
+ * committed, so a failed upload leaves the listing as it was.
+ *
+ * With STORE_API=mock requests go to the stand-in under /api/store-mock
+ * instead (see lib/store-mock), which accepts any key.
+ */
+
+import { createHash, sign } from "node:crypto"
+import { z } from "zod"
+import {
+  AppStoreCredentialsSchema,
+  GooglePlayCredentialsSchema,
+  parseServiceAccount,
+  type AppStoreCredentials,
+  type GooglePlayCredentials,
+  type ServiceAccount,
+} from "./store-credentials"
+import { APP_STORE_MAX_SCREENSHOTS } from "./store-rules"
+
+export class StoreAPIError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = "StoreAPIError"
+  }
+}
+
+export type StoreTarget = "live" | "mock"
+
+export function getStoreTarget(): StoreTarget {
+  return process.env.STORE_API === "mock" ? "mock" : "live"
+}
+
+// ===========================
+// REQUESTS FROM THE CLIENT
+// ===========================
+
+const LocaleSchema = z.string().regex(/^[a-z]{2,3}(-[A-Za-z0-9]{2,4})?$/)
+
+export const AppStorePrepareRequestSchema = z.object({
+  credentials: AppStoreCredentialsSchema,
+  sets: z.array(z.object({
+    locale: LocaleSchema,
+    displayType: z.string().regex(/^APP_[A-Z0-9_]+$/),
+    count: z.number().int().min(1).max(APP_STORE_MAX_SCREENSHOTS), // Screenshots about to be uploaded
+  })).min(1).max(200),
+})
+
+export const AppStoreScreenshotRequestSchema = z.object({
+  credentials: AppStoreCredentialsSchema,
+  setId: z.string().min(1).max(100),
+})
+
+export const AppStoreCleanupRequestSchema = z.object({
+  credentials: AppStoreCredentialsSchema,
+  screenshotIds: z.array(z.string().min(1).max(100)).max(2000),
+})
+
+export const PlayEditRequestSchema = z.object({
+  credentials: GooglePlayCredentialsSchema,
+  listings: z.array(z.object({ language: LocaleSchema, imageType: z.string().regex(/^[a-zA-Z]+$/) })).min(1).max(200),
+})
+
+export const PlayImageRequestSchema = z.object({
+  credentials: GooglePlayCredentialsSchema,
+  editId: z.string().min(1).max(100),
+  language: LocaleSchema,
+  imageType: z.string().regex(/^[a-zA-Z]+$/),
+})
+
+export const PlayCommitRequestSchema = z.object({
+  credentials: GooglePlayCredentialsSchema,
+  editId: z.string().min(1).max(100),
+})
+
+export type AppStorePrepareRequest = z.infer<typeof AppStorePrepareRequestSchema>
+
+export interface PreparedScreenshotSet {
+  locale: string
+  displayType: string
+  id: string
+  replaces: string[] // Old screenshots to delete after the upload
+}
+export type PlayEditRequest = z.infer<typeof PlayEditRequestSchema>
+
+// ===========================
+// SIGNING
+// ===========================
+
+function base64url(data: string | Buffer): string {
+  return Buffer.from(data).toString("base64url")
+}
+
+// The stand-in doesn't check signatures, so any key works offline
+function signJWT(alg: "ES256" | "RS256", header: object, payload: object, privateKey: string): string {
+  const body = `${base64url(JSON.stringify({ alg, typ: "JWT", ...header }))}.${base64url(JSON.stringify(payload))}`
+  if (getStoreTarget() === "mock") return `${body}.${base64url("mock")}`
+
+  try {
+    // App Store Connect wants the raw r||s form of the ECDSA signature
+    const signature = sign("sha256", Buffer.from(body), alg === "ES256" ? { key: privateKey, dsaEncoding: "ieee-p1363" } : privateKey)
+    return `${body}.${base64url(signature)}`
+  } catch {
+    throw new StoreAPIError("The private key could not be read; paste the whole key including its BEGIN and END lines", 400)
+  }
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000)
+}
+
+// Upstream error body as a readable message
+async function readUpstreamError(response: Response, store: string): Promise<StoreAPIError> {
+  const body = await response.json().catch(() => null)
+  const detail = body?.errors?.[0]?.detail || body?.errors?.[0]?.title || body?.error?.message || body?.error_description
+  const status = response.status === 401 || response.status === 403 ? 401 : 502
+  return new StoreAPIError(`${store}: ${detail || `request failed (${response.status})`}`, status)
+}
+
+// ===========================
+// APP STORE CONNECT
+// ===========================
+
+// Versions whose screenshots can still be changed
+const EDITABLE_VERSION_STATES = ["PREPARE_FOR_SUBMISSION", "DEVELOPER_REJECTED", "REJECTED", "METADATA_REJECTED", "INVALID_BINARY"]
+
+interface ResourceList<T> {
+  data: Array<{ id: string; attributes: T }>
+}
+
+interface UploadOperation {
+  method: string
+  url: string
+  offset: number
+  length: number
+  requestHeaders: Array<{ name: string; value: string }>
+}
+
+interface ScreenshotAttributes {
+  uploadOperations?: UploadOperation[]
+  assetDeliveryState?: { state: string; errors?: Array<{ description?: string }> }
+}
+
+export function createAppStoreConnectClient(credentials: AppStoreCredentials, origin: string) {
+  const baseUrl = getStoreTarget() === "mock"
+    ? `${origin}/api/store-mock/app-store-connect`
+    : "https://api.appstoreconnect.apple.com"
+
+  // Tokens may live up to 20 minutes; one per client is plenty
+  const token = signJWT(
+    "ES256",
+    { kid: credentials.keyId },
+    { iss: credentials.issuerId, iat: nowSeconds(), exp: nowSeconds() + 15 * 60, aud: "appstoreconnect-v1" },
+    credentials.privateKey
+  )
+
+  async function request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...(body !== undefined && { "Content-Type": "application/json" }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+    if (!response.ok) throw await readUpstreamError(response, "App Store Connect")
+    return response.status === 204 ? (null as T) : response.json()
+  }
+
+  const related = (type: string, id: string) => ({ data: { type, id } })
+
+  return {
+    /**
+     * Screenshot set for every locale and display type, creating
+     * localizations and sets that don't exist yet. Returns the set ids and
+     * the old screenshots to delete once the new ones are uploaded; old
+     * ones the new wouldn't fit next to are deleted right away.
+     */
+    async prepareScreenshotSets(targets: AppStorePrepareRequest["sets"]): Promise<PreparedScreenshotSet[]> {
+      const versions = await request<ResourceList<{ versionString: string }>>(
+        "GET",
+        `/v1/apps/${credentials.appId}/appStoreVersions?filter[platform]=IOS&filter[appStoreState]=${EDITABLE_VERSION_STATES.join(",")}&limit=1`
+      )
+      const version = versions.data[0]
+      if (!version) {
+        throw new StoreAPIError("App Store Connect: the app has no version being prepared; add one before uploading", 409)
+      }
+
+      const localizations = await request<ResourceList<{ locale: string }>>(
+        "GET",
+        `/v1/appStoreVersions/${version.id}/appStoreVersionLocalizations?limit=200`
+      )
+
+      const prepared: PreparedScreenshotSet[] = []
+      for (const locale of [...new Set(targets.map(target => target.locale))]) {
+        let localization = localizations.data.find(item => item.attributes.locale === locale)
+        if (!localization) {
+          const created = await request<{ data: { id: string; attributes: { locale: string } } }>("POST", "/v1/appStoreVersionLocalizations", {
+            data: {
+              type: "appStoreVersionLocalizations",
+              attributes: { locale },
+              relationships: { appStoreVersion: related("appStoreVersions", version.id) },
+            },
+          })
+          localization = created.data
+        }
+
+        const sets = await request<ResourceList<{ screenshotDisplayType: string }>>(
+          "GET",
+          `/v1/appStoreVersionLocalizations/${localization.id}/appScreenshotSets?limit=50`
+        )
+        for (const { displayType, count } of targets.filter(target => target.locale === locale)) {
+          const existing = sets.data.find(set => set.attributes.screenshotDisplayType === displayType)
+          if (existing) {
+            // Replace what's there, like deliver --overwrite_screenshots, but
+            // keep as much of it as fits until the new screenshots are in
+            const screenshots = await request<ResourceList<unknown>>("GET", `/v1/appScreenshotSets/${existing.id}/appScreenshots?limit=50`)
+            const kept = Math.max(0, APP_STORE_MAX_SCREENSHOTS - count)
+            for (const screenshot of screenshots.data.slice(kept)) {
+              await request("DELETE", `/v1/appScreenshots/${screenshot.id}`)
+            }
+            prepared.push({ locale, displayType, id: existing.id, replaces: screenshots.data.slice(0, kept).map(item => item.id) })
+          } else {
+            const created = await request<{ data: { id: string } }>("POST", "/v1/appScreenshotSets", {
+              data: {
+                type: "appScreenshotSets",
+                attributes: { screenshotDisplayType: displayType },
+                relationships: { appStoreVersionLocalization: related("appStoreVersionLocalizations", localization.id) },
+              },
+            })
+            prepared.push({ locale, displayType, id: created.data.id, replaces: [] })
+          }
+        }
+      }
+      return prepared
+    },
+
+    /**
+     * Add a screenshot to the end of a set
+     */
+    async uploadScreenshot(setId: string, fileName: string, bytes: Uint8Array): Promise<{ id: string; state: string }> {
+      const reserved = await request<{ data: { id: string; attributes: ScreenshotAttributes } }>("POST", "/v1/appScreenshots", {
+        data: {
+          type: "appScreenshots",
+          attributes: { fileName, fileSize: bytes.byteLength },
+          relationships: { appScreenshotSet: related("appScreenshotSets", setId) },
+        },
+      })
+
+      for (const operation of reserved.data.attributes.uploadOperations ?? []) {
+        const response = await fetch(operation.url, {
+          method: operation.method,
+          headers: Object.fromEntries(operation.requestHeaders.map(header => [header.name, header.value])),
+          body: Buffer.from(bytes.subarray(operation.offset, operation.offset + operation.length)),
+        })
+        if (!response.ok) {
+          throw new StoreAPIError(`App Store Connect: uploading ${fileName} failed (${response.status})`, 502)
+        }
+      }
+
+      const committed = await request<{ data: { attributes: ScreenshotAttributes } }>("PATCH", `/v1/appScreenshots/${reserved.data.id}`, {
+        data: {
+          type: "appScreenshots",
+          id: reserved.data.id,
+          attributes: { uploaded: true, sourceFileChecksum: createHash("md5").update(bytes).digest("hex") },
+        },
+      })
+      const delivery = committed.data.attributes.assetDeliveryState
+      if (delivery?.state === "FAILED") {
+        throw new StoreAPIError(`App Store Connect: ${delivery.errors?.[0]?.description || `${fileName} was rejected`}`, 422)
+      }
+      return { id: reserved.data.id, state: delivery?.state ?? "UPLOAD_COMPLETE" }
+    },
+
+    /**
+     * Delete screenshots the upload replaced
+     */
+    async deleteScreenshots(screenshotIds: string[]): Promise<void> {
+      for (const id of screenshotIds) {
+        await request("DELETE", `/v1/appScreenshots/${encodeURIComponent(id)}`)
+      }
+    },
+  }
+}
+
+// ===========================
+// GOOGLE PLAY
+// ===========================
+
+const PLAY_SCOPE = "https://www.googleapis.com/auth/androidpublisher"
+const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token"
+
+// Access tokens by service account key, reused until shortly before they expire
+const globalForTokens = globalThis as typeof globalThis & { lumePlayTokens?: Map<string, { token: string; expiresAt: number }> }
+const playTokens = globalForTokens.lumePlayTokens ?? (globalForTokens.lumePlayTokens = new Map())
+
+function readServiceAccount(json: string): ServiceAccount {
+  try {
+    return parseServiceAccount(json)
+  } catch (error) {
+    throw new StoreAPIError((error as Error).message, 400)
+  }
+}
+
+export function createGooglePlayClient(credentials: GooglePlayCredentials, origin: string) {
+  const mock = getStoreTarget() === "mock"
+  const baseUrl = mock ? `${origin}/api/store-mock/google-play` : "https://androidpublisher.googleapis.com"
+  const app = `/androidpublisher/v3/applications/${credentials.packageName}`
+
+  const serviceAccount = readServiceAccount(credentials.serviceAccountJson)
+  // The key file's token_uri is ignored; the signed assertion only goes to Google
+  const tokenUrl = mock ? `${baseUrl}/token` : GOOGLE_TOKEN_URL
+
+  async function getAccessToken(): Promise<string> {
+    // Keyed by the private key too, so a token is only reused by whoever holds the key
+    const keyHash = createHash("sha256").update(serviceAccount.private_key).digest("hex")
+    const cacheKey = `${tokenUrl} ${serviceAccount.client_email} ${keyHash}`
+    const cached = playTokens.get(cacheKey)
+    if (cached && cached.expiresAt > Date.now() + 60_000) return cached.token
+
+    const assertion = signJWT(
+      "RS256",
+      {},
+      { iss: serviceAccount.client_email, scope: PLAY_SCOPE, aud: tokenUrl, iat: nowSeconds(), exp: nowSeconds() + 3600 },
+      serviceAccount.private_key
+    )
+    const response = await fetch(tokenUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer", assertion }),
+    })
+    if (!response.ok) throw await readUpstreamError(response, "Google Play")
+    const { access_token, expires_in } = await response.json()
+    playTokens.set(cacheKey, { token: access_token, expiresAt: Date.now() + expires_in * 1000 })
+    return access_token
+  }
+
+  async function request<T>(method: string, path: string, body?: { bytes: Uint8Array; contentType: string }): Promise<T> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${await getAccessToken()}`,
+        ...(body && { "Content-Type": body.contentType }),
+      },
+      body: body ? Buffer.from(body.bytes) : undefined,
+    })
+    if (!response.ok) throw await readUpstreamError(response, "Google Play")
+    return response.status === 204 ? (null as T) : response.json()
+  }
+
+  const listing = (editId: string, language: string, imageType: string) =>
+    `${app}/edits/${editId}/listings/${language}/${imageType}`
+
+  return {
+    /**
+     * New edit with the images of every listed language and image type
+     * removed, ready for the new ones
+     */
+    async createEdit(listings: PlayEditRequest["listings"]): Promise<string> {
+      const edit = await request<{ id: string }>("POST", `${app}/edits`)
+      for (const { language, imageType } of listings) {
+        await request("DELETE", listing(edit.id, language, imageType))
+      }
+      return edit.id
+    },
+
+    async uploadImage(editId: string, language: string, imageType: string, bytes: Uint8Array, contentType: string): Promise<{ id: string }> {
+      const result = await request<{ image: { id: string } }>(
+        "POST",
+        `/upload${listing(editId, language, imageType)}?uploadType=media`,
+        { bytes, contentType }
+      )
+      return result.image
+    },
+
+    async commitEdit(editId: string): Promise<void> {
+      await request("POST", `${app}/edits/${editId}:commit`)
+    },
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Store Credentials - App Store Connect and Google Play API access
+ *
+ * Entered in Settings → API Keys and kept in this browser. They are sent to
+ * the /api/stores routes only for an upload, where requests to the stores
+ * are signed; the stores' APIs can't be called from a web page.
+ */
+
+import { z } from "zod"
+
+// App Store Connect API key (Users and Access → Integrations)
+export const AppStoreCredentialsSchema = z.object({
+  issuerId: z.string().trim().min(1).max(100),
+  keyId: z.string().trim().min(1).max(50),
+  privateKey: z.string().trim().min(1).max(10_000), // Contents of AuthKey_<keyId>.p8
+  appId: z.string().trim().regex(/^\d+$/, "The Apple ID of the app is a number"),
+})
+
+// Google Cloud service account with access to the app in Play Console
+export const GooglePlayCredentialsSchema = z.object({
+  packageName: z.string().trim().regex(/^[a-zA-Z][\w]*(\.[a-zA-Z][\w]*)+$/, "Package names look like com.example.app"),
+  serviceAccountJson: z.string().trim().min(1).max(20_000),
+})
+
+export type AppStoreCredentials = z.infer<typeof AppStoreCredentialsSchema>
+export type GooglePlayCredentials = z.infer<typeof GooglePlayCredentialsSchema>
+
+export interface StoreCredentials {
+  appStore: AppStoreCredentials
+  googlePlay: GooglePlayCredentials
+}
+
+export const EMPTY_STORE_CREDENTIALS: StoreCredentials = {
+  appStore: { issuerId: "", keyId: "", privateKey: "", appId: "" },
+  googlePlay: { packageName: "", serviceAccountJson: "" },
+}
+
+// Fields of a service account key file the upload needs
+export const ServiceAccountSchema = z.object({
+  client_email: z.string().min(1),
+  private_key: z.string().min(1),
+  token_uri: z.url().optional(),
+})
+
+export type ServiceAccount = z.infer<typeof ServiceAccountSchema>
+
+/**
+ * Service account from the pasted key file; throws a readable error for anything else
+ */
+export function parseServiceAccount(json: string): ServiceAccount {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new Error("The service account key is not valid JSON")
+  }
+  const result = ServiceAccountSchema.safeParse(data)
+  if (!result.success) {
+    throw new Error("The service account key has no client_email or private_key")
+  }
+  return result.data
+}
+
+export function hasAppStoreCredentials(credentials: StoreCredentials): boolean {
+  return AppStoreCredentialsSchema.safeParse(credentials.appStore).success
+}
+
+export function hasGooglePlayCredentials(credentials: StoreCredentials): boolean {
+  return GooglePlayCredentialsSchema.safeParse(credentials.googlePlay).success
+}
+
+// ===========================
+// BROWSER PERSISTENCE
+// ===========================
+
+const STORAGE_KEY = "lume-store-credentials"
+
+export function loadStoreCredentials(): StoreCredentials {
+  if (typeof window === "undefined") return EMPTY_STORE_CREDENTIALS
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null")
+    return {
+      appStore: { ...EMPTY_STORE_CREDENTIALS.appStore, ...stored?.appStore },
+      googlePlay: { ...EMPTY_STORE_CREDENTIALS.googlePlay, ...stored?.googlePlay },
+    }
+  } catch {
+    return EMPTY_STORE_CREDENTIALS
+  }
+}
+
+export function saveStoreCredentials(credentials: StoreCredentials): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(credentials))
+}
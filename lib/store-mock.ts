@@ -0,0 +1,344 @@
+/**
+ * Store Mock - local stand-in for App Store Connect and Google Play
+ *
+ * Implements the endpoints lib/store-api calls, with the same request and
+ * response shapes, so uploads can be developed and tested offline. Enabled
+ * with STORE_API=mock and served from /api/store-mock. State lives in server
+ * memory and is kept on globalThis so dev-mode module reloads don't drop it.
+ * Signatures are not checked, but images are held to the store rules.
+ */
+
+import { createHash, randomUUID } from "node:crypto"
+import { NextResponse } from "next/server"
+import { PLAY_MAX_SCREENSHOTS, checkImageCount, checkImageSize, isAppStoreDisplayType } from "./store-rules"
+
+// Upload parts App Store Connect-style reservations are split into
+const MOCK_UPLOAD_PART_SIZE = 1024 * 1024
+
+interface MockScreenshot {
+  id: string
+  setId: string
+  fileName: string
+  fileSize: number
+  parts: Map<number, Uint8Array> // By offset
+  state: "AWAITING_UPLOAD" | "COMPLETE" | "FAILED"
+  errors: Array<{ code: string; description: string }>
+}
+
+interface MockPlayImage {
+  id: string
+  sha256: string
+  width: number
+  height: number
+}
+
+interface MockState {
+  // App Store Connect
+  versions: Map<string, { id: string; appId: string }>
+  localizations: Map<string, { id: string; versionId: string; locale: string }>
+  screenshotSets: Map<string, { id: string; localizationId: string; displayType: string }>
+  screenshots: Map<string, MockScreenshot>
+  // Google Play: images per "<package>/<language>/<imageType>", live and per edit
+  listings: Map<string, MockPlayImage[]>
+  edits: Map<string, { id: string; packageName: string; listings: Map<string, MockPlayImage[]> }>
+}
+
+const globalForMock = globalThis as typeof globalThis & { lumeStoreMock?: MockState }
+const state = globalForMock.lumeStoreMock ?? (globalForMock.lumeStoreMock = {
+  versions: new Map(),
+  localizations: new Map(),
+  screenshotSets: new Map(),
+  screenshots: new Map(),
+  listings: new Map(),
+  edits: new Map(),
+})
+
+function newId(): string {
+  return randomUUID()
+}
+
+/**
+ * Pixel size of a PNG or JPEG, or null for anything else
+ */
+export function readImageSize(bytes: Uint8Array): { width: number; height: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  // PNG: signature, then the IHDR chunk
+  if (bytes.length >= 24 && view.getUint32(0) === 0x89504e47) {
+    return { width: view.getUint32(16), height: view.getUint32(20) }
+  }
+  // JPEG: walk the segments to the first start-of-frame
+  if (bytes.length >= 4 && view.getUint16(0) === 0xffd8) {
+    let offset = 2
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null
+      const marker = bytes[offset + 1]
+      const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc
+      if (isFrame) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) }
+      }
+      offset += 2 + view.getUint16(offset + 2)
+    }
+  }
+  return null
+}
+
+function isAuthorized(req: Request): boolean {
+  return /^Bearer \S+$/.test(req.headers.get("authorization") ?? "")
+}
+
+// ===========================
+// APP STORE CONNECT
+// ===========================
+
+function ascError(status: number, detail: string) {
+  return NextResponse.json({ errors: [{ status: String(status), title: detail, detail }] }, { status })
+}
+
+function resource(type: string, id: string, attributes: object) {
+  return { type, id, attributes }
+}
+
+function screenshotResource(screenshot: MockScreenshot, origin: string) {
+  const operations = []
+  for (let offset = 0; offset < screenshot.fileSize; offset += MOCK_UPLOAD_PART_SIZE) {
+    operations.push({
+      method: "PUT",
+      url: `${origin}/api/store-mock/app-store-connect/uploads/${screenshot.id}?offset=${offset}`,
+      offset,
+      length: Math.min(MOCK_UPLOAD_PART_SIZE, screenshot.fileSize - offset),
+      requestHeaders: [{ name: "Content-Type", value: "application/octet-stream" }],
+    })
+  }
+  return resource("appScreenshots", screenshot.id, {
+    fileName: screenshot.fileName,
+    fileSize: screenshot.fileSize,
+    uploadOperations: screenshot.state === "AWAITING_UPLOAD" ? operations : null,
+    assetDeliveryState: {
+      state: screenshot.state,
+      errors: screenshot.errors,
+    },
+  })
+}
+
+// Checksum, dimensions and set size of an uploaded screenshot, as App Store Connect processes it
+function commitScreenshot(screenshot: MockScreenshot, checksum: string | undefined) {
+  const bytes = new Uint8Array(screenshot.fileSize)
+  let received = 0
+  for (const [offset, part] of screenshot.parts) {
+    bytes.set(part.subarray(0, Math.max(0, screenshot.fileSize - offset)), offset)
+    received += part.byteLength
+  }
+  screenshot.parts.clear()
+
+  const set = state.screenshotSets.get(screenshot.setId)
+  const size = readImageSize(bytes)
+  const inSet = [...state.screenshots.values()].filter(item => item.setId === screenshot.setId && item.state !== "FAILED")
+  const problem =
+    received !== screenshot.fileSize ? `Received ${received} of ${screenshot.fileSize} bytes` :
+    checksum !== createHash("md5").update(bytes).digest("hex") ? "The checksum doesn't match the uploaded file" :
+    !size ? "The file is not a PNG or JPEG image" :
+    checkImageSize("app_store", set?.displayType ?? "", size.width, size.height) ??
+    checkImageCount("app_store", set?.displayType ?? "", inSet.length)
+
+  screenshot.state = problem ? "FAILED" : "COMPLETE"
+  screenshot.errors = problem ? [{ code: "IMAGE_INCORRECT", description: problem }] : []
+}
+
+/**
+ * Requests to /api/store-mock/app-store-connect/<path>
+ */
+export async function handleAppStoreConnectMock(req: Request, path: string[]): Promise<Response> {
+  const origin = new URL(req.url).origin
+  const [root, collection, id, relation] = path
+
+  // Upload parts carry no token, like the real upload URLs
+  if (root === "uploads" && req.method === "PUT") {
+    const screenshot = state.screenshots.get(collection)
+    if (!screenshot || screenshot.state !== "AWAITING_UPLOAD") return ascError(404, "Unknown upload")
+    const offset = Number(new URL(req.url).searchParams.get("offset") ?? 0)
+    screenshot.parts.set(offset, new Uint8Array(await req.arrayBuffer()))
+    return new Response(null, { status: 200 })
+  }
+
+  if (root !== "v1") return ascError(404, "Not found")
+  if (!isAuthorized(req)) return ascError(401, "Authentication credentials are missing or invalid")
+
+  const body = req.method === "POST" || req.method === "PATCH" ? await req.json().catch(() => null) : null
+  const route = `${req.method} ${[collection, id && ":id", relation].filter(Boolean).join("/")}`
+
+  switch (route) {
+    // Every app has one version being prepared
+    case "GET apps/:id/appStoreVersions": {
+      let version = [...state.versions.values()].find(item => item.appId === id)
+      if (!version) {
+        version = { id: newId(), appId: id }
+        state.versions.set(version.id, version)
+        const localization = { id: newId(), versionId: version.id, locale: "en-US" }
+        state.localizations.set(localization.id, localization)
+      }
+      return NextResponse.json({
+        data: [resource("appStoreVersions", version.id, { platform: "IOS", versionString: "1.0", appStoreState: "PREPARE_FOR_SUBMISSION" })],
+      })
+    }
+
+    case "GET appStoreVersions/:id/appStoreVersionLocalizations":
+      return NextResponse.json({
+        data: [...state.localizations.values()]
+          .filter(item => item.versionId === id)
+          .map(item => resource("appStoreVersionLocalizations", item.id, { locale: item.locale })),
+      })
+
+    case "POST appStoreVersionLocalizations": {
+      const versionId = body?.data?.relationships?.appStoreVersion?.data?.id
+      const locale = body?.data?.attributes?.locale
+      if (!state.versions.has(versionId) || typeof locale !== "string") return ascError(409, "A locale and an app store version are required")
+      if ([...state.localizations.values()].some(item => item.versionId === versionId && item.locale === locale)) {
+        return ascError(409, `The version already has a ${locale} localization`)
+      }
+      const localization = { id: newId(), versionId, locale }
+      state.localizations.set(localization.id, localization)
+      return NextResponse.json({ data: resource("appStoreVersionLocalizations", localization.id, { locale }) }, { status: 201 })
+    }
+
+    case "GET appStoreVersionLocalizations/:id/appScreenshotSets":
+      return NextResponse.json({
+        data: [...state.screenshotSets.values()]
+          .filter(item => item.localizationId === id)
+          .map(item => resource("appScreenshotSets", item.id, { screenshotDisplayType: item.displayType })),
+      })
+
+    case "POST appScreenshotSets": {
+      const localizationId = body?.data?.relationships?.appStoreVersionLocalization?.data?.id
+      const displayType = body?.data?.attributes?.screenshotDisplayType
+      if (!state.localizations.has(localizationId)) return ascError(409, "Unknown app store version localization")
+      if (!isAppStoreDisplayType(displayType)) {
+        return ascError(409, `${displayType} is not a valid screenshotDisplayType`)
+      }
+      const set = { id: newId(), localizationId, displayType }
+      state.screenshotSets.set(set.id, set)
+      return NextResponse.json({ data: resource("appScreenshotSets", set.id, { screenshotDisplayType: displayType }) }, { status: 201 })
+    }
+
+    case "GET appScreenshotSets/:id/appScreenshots":
+      return NextResponse.json({
+        data: [...state.screenshots.values()]
+          .filter(item => item.setId === id)
+          .map(item => screenshotResource(item, origin)),
+      })
+
+    case "POST appScreenshots": {
+      const setId = body?.data?.relationships?.appScreenshotSet?.data?.id
+      const { fileName, fileSize } = body?.data?.attributes ?? {}
+      if (!state.screenshotSets.has(setId)) return ascError(409, "Unknown app screenshot set")
+      if (typeof fileName !== "string" || !Number.isInteger(fileSize) || fileSize <= 0) {
+        return ascError(409, "fileName and fileSize are required")
+      }
+      const screenshot: MockScreenshot = { id: newId(), setId, fileName, fileSize, parts: new Map(), state: "AWAITING_UPLOAD", errors: [] }
+      state.screenshots.set(screenshot.id, screenshot)
+      return NextResponse.json({ data: screenshotResource(screenshot, origin) }, { status: 201 })
+    }
+
+    case "PATCH appScreenshots/:id": {
+      const screenshot = state.screenshots.get(id)
+      if (!screenshot) return ascError(404, "Unknown app screenshot")
+      if (body?.data?.attributes?.uploaded && screenshot.state === "AWAITING_UPLOAD") {
+        commitScreenshot(screenshot, body.data.attributes.sourceFileChecksum)
+      }
+      return NextResponse.json({ data: screenshotResource(screenshot, origin) })
+    }
+
+    case "DELETE appScreenshots/:id":
+      if (!state.screenshots.delete(id)) return ascError(404, "Unknown app screenshot")
+      return new Response(null, { status: 204 })
+
+    default:
+      return ascError(404, `${route} is not implemented by the stand-in`)
+  }
+}
+
+// ===========================
+// GOOGLE PLAY
+// ===========================
+
+function playError(status: number, message: string) {
+  return NextResponse.json({ error: { code: status, message } }, { status })
+}
+
+/**
+ * Requests to /api/store-mock/google-play/<path>
+ */
+export async function handleGooglePlayMock(req: Request, path: string[]): Promise<Response> {
+  // OAuth token exchange for the service account
+  if (path[0] === "token" && req.method === "POST") {
+    const form = await req.formData().catch(() => null)
+    if (form?.get("grant_type") !== "urn:ietf:params:oauth:grant-type:jwt-bearer" || !form.get("assertion")) {
+      return NextResponse.json({ error: "invalid_grant", error_description: "A signed JWT assertion is required" }, { status: 400 })
+    }
+    return NextResponse.json({ access_token: `mock-${newId()}`, expires_in: 3600, token_type: "Bearer" })
+  }
+
+  if (!isAuthorized(req)) return playError(401, "Request is missing a valid access token")
+
+  // [upload/]androidpublisher/v3/applications/<package>/edits[/<edit>[/listings/<language>/<imageType>]]
+  const upload = path[0] === "upload"
+  const [api, version, applications, packageName, edits, editPart, listings, language, imageType] = upload ? path.slice(1) : path
+  if (api !== "androidpublisher" || version !== "v3" || applications !== "applications" || edits !== "edits") {
+    return playError(404, "Not found")
+  }
+
+  if (!editPart) {
+    if (req.method !== "POST") return playError(405, "Method not allowed")
+    const edit = { id: newId(), packageName, listings: new Map<string, MockPlayImage[]>() }
+    state.edits.set(edit.id, edit)
+    return NextResponse.json({ id: edit.id, expiryTimeSeconds: String(Math.floor(Date.now() / 1000) + 3600) })
+  }
+
+  const [editId, action] = editPart.split(":")
+  const edit = state.edits.get(editId)
+  if (!edit || edit.packageName !== packageName) return playError(404, "Edit not found")
+
+  // Listings start from what's live when an edit first touches them
+  const key = `${packageName}/${language}/${imageType}`
+  const images = () => edit.listings.get(key) ?? state.listings.get(key) ?? []
+
+  if (action === "commit" && req.method === "POST") {
+    for (const [listingKey, listingImages] of edit.listings) {
+      const [, , type] = listingKey.split("/")
+      const problem = type !== "featureGraphic" && listingImages.length > 0 && checkImageCount("play_store", type, listingImages.length)
+      if (problem) return playError(400, `${listingKey}: ${problem}`)
+    }
+    for (const [listingKey, listingImages] of edit.listings) state.listings.set(listingKey, listingImages)
+    state.edits.delete(editId)
+    return NextResponse.json({ id: editId })
+  }
+
+  if (listings !== "listings" || !language || !imageType) return playError(404, "Not found")
+
+  if (req.method === "GET") {
+    return NextResponse.json({ images: images() })
+  }
+
+  if (req.method === "DELETE") {
+    const deleted = images()
+    edit.listings.set(key, [])
+    return NextResponse.json({ deleted })
+  }
+
+  if (upload && req.method === "POST") {
+    const bytes = new Uint8Array(await req.arrayBuffer())
+    const size = readImageSize(bytes)
+    if (!size) return playError(400, "The image must be a PNG or JPEG")
+    const problem = checkImageSize("play_store", imageType, size.width, size.height)
+    if (problem) return playError(400, problem)
+
+    const image: MockPlayImage = { id: newId(), sha256: createHash("sha256").update(bytes).digest("hex"), ...size }
+    const next = imageType === "featureGraphic" ? [image] : [...images(), image]
+    if (next.length > PLAY_MAX_SCREENSHOTS) {
+      return playError(400, `Google Play takes at most ${PLAY_MAX_SCREENSHOTS} ${imageType} per language`)
+    }
+    edit.listings.set(key, next)
+    return NextResponse.json({ image })
+  }
+
+  return playError(405, "Method not allowed")
+}
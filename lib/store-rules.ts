@@ -0,0 +1,140 @@
+/**
+ * Store Rules - what App Store Connect and Google Play accept
+ *
+ * Image dimensions per display type and how many images each slot takes,
+ * checked before an upload starts (and by the local stand-in server, so it
+ * rejects what the stores would).
+ */
+
+import type { ExportSize } from './ai-helpers'
+import { getLocale } from './localization'
+import type { Screen } from './scene-graph'
+
+export type StoreId = ExportSize['store']
+
+export const STORE_NAMES: Record<StoreId, string> = {
+  app_store: 'App Store Connect',
+  play_store: 'Google Play',
+}
+
+// Screenshots per screenshot set (one display type in one locale)
+export const APP_STORE_MAX_SCREENSHOTS = 10
+
+// Portrait sizes accepted per display type; landscape is the same swapped
+const APP_STORE_DIMENSIONS: Record<string, Array<[number, number]>> = {
+  APP_IPHONE_67: [[1290, 2796], [1284, 2778]],
+  APP_IPHONE_65: [[1242, 2688], [1284, 2778]],
+  APP_IPHONE_55: [[1242, 2208]],
+  APP_IPAD_PRO_3GEN_129: [[2048, 2732]],
+  APP_IPAD_PRO_3GEN_11: [[1668, 2388]],
+}
+
+// Screenshots per image type and language
+export const PLAY_MIN_SCREENSHOTS = 2
+export const PLAY_MAX_SCREENSHOTS = 8
+
+const PLAY_MIN_SIDE = 320
+const PLAY_MAX_SIDE = 3840
+const PLAY_FEATURE_GRAPHIC = { width: 1024, height: 500 }
+
+// One image to upload
+export interface UploadItem {
+  locale: string
+  size: ExportSize
+  screen: Screen
+  screenIndex: number
+}
+
+export interface UploadIssue {
+  size: string // Export size name
+  locale: string
+  message: string
+}
+
+/**
+ * Language code a store lists a locale under (Google Play has its own)
+ */
+export function getStoreLanguage(store: StoreId, locale: string): string {
+  return store === 'play_store' ? getLocale(locale)?.playCode ?? locale : locale
+}
+
+export function isAppStoreDisplayType(slot: string): boolean {
+  return slot in APP_STORE_DIMENSIONS
+}
+
+/**
+ * Why an image of this size is refused for a display or image type, or null
+ */
+export function checkImageSize(store: StoreId, slot: string, width: number, height: number): string | null {
+  if (store === 'app_store') {
+    if (!isAppStoreDisplayType(slot)) return `${slot} is not a screenshot display type`
+    const sizes = APP_STORE_DIMENSIONS[slot]
+    const accepted = sizes.some(([w, h]) => (width === w && height === h) || (width === h && height === w))
+    return accepted ? null : `${slot} takes ${sizes.map(([w, h]) => `${w}×${h}`).join(' or ')}, not ${width}×${height}`
+  }
+
+  if (slot === 'featureGraphic') {
+    return width === PLAY_FEATURE_GRAPHIC.width && height === PLAY_FEATURE_GRAPHIC.height
+      ? null
+      : `The feature graphic must be ${PLAY_FEATURE_GRAPHIC.width}×${PLAY_FEATURE_GRAPHIC.height}, not ${width}×${height}`
+  }
+  const short = Math.min(width, height)
+  const long = Math.max(width, height)
+  if (short < PLAY_MIN_SIDE || long > PLAY_MAX_SIDE) {
+    return `Screenshots must be between ${PLAY_MIN_SIDE} and ${PLAY_MAX_SIDE} px per side, not ${width}×${height}`
+  }
+  if (long > short * 2) {
+    return `Screenshots can be at most twice as long as they are wide, not ${width}×${height}`
+  }
+  return null
+}
+
+/**
+ * Why a slot can't hold this many images, or null
+ */
+export function checkImageCount(store: StoreId, slot: string, count: number): string | null {
+  if (store === 'app_store') {
+    return count > APP_STORE_MAX_SCREENSHOTS
+      ? `App Store Connect takes at most ${APP_STORE_MAX_SCREENSHOTS} screenshots per device, not ${count}`
+      : null
+  }
+  if (slot === 'featureGraphic') {
+    return count > 1 ? 'Google Play takes a single feature graphic' : null
+  }
+  if (count < PLAY_MIN_SCREENSHOTS) {
+    return `Google Play needs at least ${PLAY_MIN_SCREENSHOTS} screenshots per device`
+  }
+  return count > PLAY_MAX_SCREENSHOTS
+    ? `Google Play takes at most ${PLAY_MAX_SCREENSHOTS} screenshots per device, not ${count}`
+    : null
+}
+
+/**
+ * Images an upload sends, in store order. The feature graphic is made from
+ * the first screen, like the fastlane export.
+ */
+export function planUpload(screens: Screen[], sizes: ExportSize[], locales: string[]): UploadItem[] {
+  return locales.flatMap(locale => sizes.flatMap(size => {
+    const slotScreens = size.fastlane === 'featureGraphic' ? screens.slice(0, 1) : screens
+    return slotScreens.map((screen, screenIndex) => ({ locale, size, screen, screenIndex }))
+  }))
+}
+
+/**
+ * Everything the stores would refuse about a planned upload, per size and locale
+ */
+export function validateUpload(items: UploadItem[]): UploadIssue[] {
+  const slots = new Map<string, UploadItem[]>()
+  for (const item of items) {
+    const key = `${item.locale}/${item.size.name}`
+    slots.set(key, [...(slots.get(key) ?? []), item])
+  }
+
+  return [...slots.values()].flatMap(([{ locale, size }, ...rest]) => {
+    const issue = (message: string | null): UploadIssue[] => (message ? [{ size: size.name, locale, message }] : [])
+    return [
+      ...issue(checkImageSize(size.store, size.fastlane, size.width, size.height)),
+      ...issue(checkImageCount(size.store, size.fastlane, rest.length + 1)),
+    ]
+  })
+}
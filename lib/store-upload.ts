@@ -0,0 +1,168 @@
+/**
+ * Store Upload - browser side of the /api/stores route handlers
+ *
+ * Renders every image of an upload (each screen at each device size and
+ * language, like the export) and sends them through the routes one at a
+ * time. An upload replaces the images already in the slots it fills, once
+ * the new ones are in.
+ */
+
+import type { ExportSize } from './ai-helpers'
+import { renderScreenToBlob } from './scene-renderer'
+import type { Screen } from './scene-graph'
+import type { PreparedScreenshotSet, StoreTarget } from './store-api'
+import type { StoreCredentials } from './store-credentials'
+import { getStoreLanguage, planUpload, validateUpload, type StoreId, type UploadItem } from './store-rules'
+
+// JPEG, because both stores refuse images with an alpha channel and every PNG from a canvas has one
+const UPLOAD_FORMAT = 'jpg'
+const UPLOAD_QUALITY = 95
+
+export class StoreRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'StoreRequestError'
+  }
+}
+
+export interface UploadProgress {
+  completed: number
+  total: number
+  current: string // Image being uploaded, or the step in between
+}
+
+export interface StoreUploadOptions {
+  store: StoreId
+  sizes: ExportSize[] // Sizes of other stores are skipped
+  locales: string[]
+  credentials: StoreCredentials
+  onProgress?: (progress: UploadProgress) => void
+}
+
+export interface StoreUploadResult {
+  uploaded: number
+  target: StoreTarget // 'mock' when the server talks to the local stand-in
+}
+
+/**
+ * Images an upload would send, in order
+ */
+export function planStoreUpload(screens: Screen[], options: Pick<StoreUploadOptions, 'store' | 'sizes' | 'locales'>): UploadItem[] {
+  return planUpload(screens, options.sizes.filter(size => size.store === options.store), options.locales)
+}
+
+async function postStore<T>(path: string, body: unknown, file?: { blob: Blob; name: string }): Promise<T> {
+  let init: RequestInit
+  if (file) {
+    const form = new FormData()
+    form.append('body', JSON.stringify(body))
+    form.append('file', file.blob, file.name)
+    init = { method: 'POST', body: form }
+  } else {
+    init = { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }
+  }
+
+  const response = await fetch(`/api/stores/${path}`, init)
+  if (!response.ok) {
+    const error = await response.json().catch(() => null)
+    throw new StoreRequestError(error?.error || `Upload failed: ${response.status}`, response.status)
+  }
+  return response.json()
+}
+
+function describeItem(item: UploadItem): string {
+  return `${item.locale} · ${item.size.name} · ${item.screenIndex + 1}`
+}
+
+async function renderItem(item: UploadItem): Promise<{ blob: Blob; name: string }> {
+  const blob = await renderScreenToBlob(item.screen, {
+    width: item.size.width,
+    height: item.size.height,
+    device: item.size.name,
+    locale: item.locale,
+    format: UPLOAD_FORMAT,
+    quality: UPLOAD_QUALITY,
+  })
+  const number = String(item.screenIndex + 1).padStart(2, '0')
+  return { blob, name: `${item.size.fastlane}_${number}.${UPLOAD_FORMAT}` }
+}
+
+/**
+ * Render and upload every image to one store. Throws before uploading
+ * anything when the plan breaks a store rule.
+ */
+export async function uploadScreens(
+  screens: Screen[],
+  options: StoreUploadOptions
+): Promise<StoreUploadResult> {
+  const items = planStoreUpload(screens, options)
+  if (items.length === 0) {
+    throw new Error('Select at least one device size and language')
+  }
+  const [issue] = validateUpload(items)
+  if (issue) {
+    throw new Error(`${issue.size} (${issue.locale}): ${issue.message}`)
+  }
+
+  const total = items.length
+  const report = (completed: number, current: string) => options.onProgress?.({ completed, total, current })
+  const slotKey = (locale: string, slot: string) => `${locale}/${slot}`
+
+  if (options.store === 'app_store') {
+    const credentials = options.credentials.appStore
+    report(0, 'Preparing screenshot sets')
+    const sets = new Map<string, { locale: string; displayType: string; count: number }>()
+    for (const item of items) {
+      const key = slotKey(item.locale, item.size.fastlane)
+      const set = sets.get(key) ?? { locale: item.locale, displayType: item.size.fastlane, count: 0 }
+      sets.set(key, { ...set, count: set.count + 1 })
+    }
+    const prepared = await postStore<{ sets: PreparedScreenshotSet[]; target: StoreTarget }>(
+      'app-store/prepare',
+      { credentials, sets: [...sets.values()] }
+    )
+    const setIds = new Map(prepared.sets.map(set => [slotKey(set.locale, set.displayType), set.id]))
+
+    for (const [completed, item] of items.entries()) {
+      report(completed, describeItem(item))
+      const setId = setIds.get(slotKey(item.locale, item.size.fastlane))
+      await postStore('app-store/screenshots', { credentials, setId }, await renderItem(item))
+    }
+
+    // The old screenshots stay until every new one is in
+    const replaced = prepared.sets.flatMap(set => set.replaces)
+    if (replaced.length > 0) {
+      report(total, 'Removing old screenshots')
+      await postStore('app-store/cleanup', { credentials, screenshotIds: replaced })
+    }
+    report(total, '')
+    return { uploaded: total, target: prepared.target }
+  }
+
+  const credentials = options.credentials.googlePlay
+  const languageOf = (item: UploadItem) => getStoreLanguage('play_store', item.locale)
+  report(0, 'Starting edit')
+  const listings = new Map(items.map(item => [
+    slotKey(languageOf(item), item.size.fastlane),
+    { language: languageOf(item), imageType: item.size.fastlane },
+  ]))
+  const edit = await postStore<{ editId: string; target: StoreTarget }>('google-play/edits', {
+    credentials,
+    listings: [...listings.values()],
+  })
+
+  for (const [completed, item] of items.entries()) {
+    report(completed, describeItem(item))
+    await postStore(
+      'google-play/images',
+      { credentials, editId: edit.editId, language: languageOf(item), imageType: item.size.fastlane },
+      await renderItem(item)
+    )
+  }
+
+  // Nothing changes on Google Play until the edit is committed
+  report(total, 'Publishing edit')
+  await postStore('google-play/commit', { credentials, editId: edit.editId })
+  report(total, '')
+  return { uploaded: total, target: edit.target }
+}
@@ -6,48 +6,11 @@
  * - iPhone mockup already positioned
  * - User screenshot gets inserted INTO the mockup
  * - Different mockup positions for variety
+ *
+ * The designs are registered with the canvas templates in layout-templates.ts.
  */
 
-export interface TemplateLayer {
-  id: string
-  type: "background" | "mockup" | "text" | "image" | "decoration"
-  content: string
-  x: number
-  y: number
-  width: number
-  height: number
-  fontSize?: number
-  fontFamily?: string
-  color?: string
-  bold?: boolean
-  italic?: boolean
-  underline?: boolean
-  align?: "left" | "center" | "right"
-  // Mockup specific
-  mockupFrame?: {
-    x: number // Position where screenshot goes inside mockup
-    y: number
-    width: number
-    height: number
-    borderRadius?: number
-  }
-  // Background specific
-  backgroundColor?: string
-  backgroundGradient?: {
-    type: "linear" | "radial"
-    colors: string[]
-    angle?: number
-  }
-}
-
-export interface Template {
-  id: string
-  name: string
-  description: string
-  canvasWidth: number
-  canvasHeight: number
-  layers: TemplateLayer[]
-}
+import type { Layer } from './scene-graph'
 
 /**
  * Template 1: CENTERED - iPhone mockup centered with headline above
@@ -59,8 +22,8 @@ export function template_centered_bold(
   subtitle: string,
   bgColor: string = "#F0F4FF",
   logo?: string
-): TemplateLayer[] {
-  const layers: TemplateLayer[] = [
+): Layer[] {
+  const layers: Layer[] = [
     // Background
     {
       id: "bg",
@@ -97,13 +60,6 @@ export function template_centered_bold(
       y: 180,
       width: 275,
       height: 550,
-      mockupFrame: {
-        x: 10, // Padding inside mockup for screenshot
-        y: 10,
-        width: 255,
-        height: 530,
-        borderRadius: 30,
-      },
     },
     // Subtitle at bottom
     {
@@ -147,7 +103,7 @@ export function template_offset_left(
   subtitle: string,
   bgColor: string = "#FF8C42",
   logo?: string
-): TemplateLayer[] {
+): Layer[] {
   return [
     // Background - Solid color
     {
@@ -195,13 +151,6 @@ export function template_offset_left(
       y: 220,
       width: 250,
       height: 500,
-      mockupFrame: {
-        x: 8,
-        y: 8,
-        width: 234,
-        height: 484,
-        borderRadius: 28,
-      },
     },
     // Subtitle at bottom
     {
@@ -230,7 +179,7 @@ export function template_offset_right(
   subtitle: string,
   bgColor: string = "#10B981",
   logo?: string
-): TemplateLayer[] {
+): Layer[] {
   return [
     // Background
     {
@@ -278,13 +227,6 @@ export function template_offset_right(
       y: 220,
       width: 250,
       height: 500,
-      mockupFrame: {
-        x: 8,
-        y: 8,
-        width: 234,
-        height: 484,
-        borderRadius: 28,
-      },
     },
     // Subtitle at bottom
     {
@@ -312,7 +254,7 @@ export function template_gradient(
   subtitle: string,
   bgColor?: string,
   logo?: string
-): TemplateLayer[] {
+): Layer[] {
   return [
     // Gradient Background
     {
@@ -353,13 +295,6 @@ export function template_gradient(
       y: 180,
       width: 275,
       height: 550,
-      mockupFrame: {
-        x: 10,
-        y: 10,
-        width: 255,
-        height: 530,
-        borderRadius: 30,
-      },
     },
     // Subtitle
     {
@@ -387,7 +322,7 @@ export function template_minimal(
   subtitle: string,
   bgColor?: string,
   logo?: string
-): TemplateLayer[] {
+): Layer[] {
   return [
     // White Background
     {
@@ -424,13 +359,6 @@ export function template_minimal(
       y: 180,
       width: 250,
       height: 500,
-      mockupFrame: {
-        x: 8,
-        y: 8,
-        width: 234,
-        height: 484,
-        borderRadius: 28,
-      },
     },
     // Subtitle
     {
@@ -458,7 +386,7 @@ export function template_tilted(
   subtitle: string,
   bgColor: string = "#3B82F6",
   logo?: string
-): TemplateLayer[] {
+): Layer[] {
   return [
     // Background
     {
@@ -486,8 +414,7 @@ export function template_tilted(
       bold: true,
       align: "left",
     },
-    // iPhone Mockup - TILTED (slightly rotated)
-    // Note: Rotation would need CSS transform, positioned off-center
+    // iPhone Mockup - TILTED (slightly rotated, off-center)
     {
       id: "mockup_frame",
       type: "mockup",
@@ -496,13 +423,8 @@ export function template_tilted(
       y: 220,
       width: 260,
       height: 520,
-      mockupFrame: {
-        x: 8,
-        y: 8,
-        width: 244,
-        height: 504,
-        borderRadius: 30,
-      },
+      rotation: 8,
+      shadow: { offsetX: 0, offsetY: 24, blur: 40, color: "#00000059" },
     },
     // Subtitle
     {
@@ -521,96 +443,72 @@ export function template_tilted(
   ]
 }
 
+export interface LibraryTemplate {
+  id: string
+  name: string
+  description: string
+  category: 'minimal' | 'bold' | 'elegant' | 'playful' | 'dark' | 'modern'
+  backgroundColor: string
+  textColor: string
+  generator: (screenshot: string, headline: string, subtitle: string, bgColor?: string, logo?: string) => Layer[]
+}
+
 /**
  * Get all available templates
  */
-export const AVAILABLE_TEMPLATES = [
+export const AVAILABLE_TEMPLATES: LibraryTemplate[] = [
   {
     id: "centered_bold",
     name: "Centered Bold",
     description: "Phone centered with bold headline above",
+    category: "bold",
+    backgroundColor: "#F0F4FF",
+    textColor: "#000000",
     generator: template_centered_bold,
   },
   {
     id: "offset_left",
     name: "Offset Left",
     description: "Phone on left, text on right",
+    category: "playful",
+    backgroundColor: "#FF8C42",
+    textColor: "#FFFFFF",
     generator: template_offset_left,
   },
   {
     id: "offset_right",
     name: "Offset Right",
     description: "Phone on right, text on left",
+    category: "playful",
+    backgroundColor: "#10B981",
+    textColor: "#FFFFFF",
     generator: template_offset_right,
   },
   {
     id: "gradient",
     name: "Gradient",
     description: "Centered with gradient background",
+    category: "modern",
+    backgroundColor: "#667eea",
+    textColor: "#FFFFFF",
     generator: template_gradient,
   },
   {
     id: "minimal",
     name: "Minimal",
     description: "Clean white background",
+    category: "minimal",
+    backgroundColor: "#FFFFFF",
+    textColor: "#1a1a1a",
     generator: template_minimal,
   },
   {
     id: "tilted",
     name: "Tilted",
     description: "Phone at an angle for dynamic look",
+    category: "bold",
+    backgroundColor: "#3B82F6",
+    textColor: "#FFFFFF",
     generator: template_tilted,
   },
 ]
-
-/**
- * Get template by ID
- */
-export function getTemplate(templateId: string) {
-  return AVAILABLE_TEMPLATES.find((t) => t.id === templateId)
-}
-
-/**
- * Apply template to screenshot with AI-generated content
- */
-export function applyTemplate(
-  templateId: string,
-  screenshot: string,
-  headline: string,
-  subtitle: string,
-  bgColor?: string,
-  logo?: string,
-  detectedFont?: string
-): TemplateLayer[] {
-  const template = getTemplate(templateId)
-  if (!template) {
-    throw new Error(`Template ${templateId} not found`)
-  }
-
-  let layers: TemplateLayer[]
-  if (bgColor && logo) {
-    layers = template.generator(screenshot, headline, subtitle, bgColor, logo)
-  } else if (bgColor) {
-    layers = template.generator(screenshot, headline, subtitle, bgColor)
-  } else if (logo) {
-    layers = template.generator(screenshot, headline, subtitle, undefined, logo)
-  } else {
-    layers = template.generator(screenshot, headline, subtitle)
-  }
-
-  // Apply detected font from AI analysis to text layers
-  if (detectedFont) {
-    layers = layers.map(layer => {
-      if (layer.type === 'text') {
-        return {
-          ...layer,
-          fontFamily: detectedFont
-        }
-      }
-      return layer
-    })
-  }
-
-  return layers
-}
-
@@ -0,0 +1,343 @@
+/**
+ * Text Layout - line breaking for text layers
+ *
+ * Shared by the DOM editor and the raster renderer so a text box wraps,
+ * auto-fits and styles its text identically in both. Measuring is passed
+ * in: the renderer measures on its export context, the editor on a scratch
+ * canvas (see hooks/use-text-measure).
+ */
+
+import {
+  DEFAULT_FONT_FAMILY,
+  DEFAULT_FONT_SIZE,
+  TEXT_LINE_HEIGHT,
+  TEXT_PADDING_X,
+  type Layer,
+  type TextSpan,
+} from './scene-graph'
+
+// Smallest size auto-fit shrinks text to
+export const MIN_AUTO_FIT_FONT_SIZE = 8
+
+// Width of `text` drawn in a CSS font shorthand
+export type MeasureText = (text: string, font: string) => number
+
+export type TextSpanStyle = Omit<TextSpan, 'start' | 'end'>
+
+export interface TextRunStyle {
+  color: string
+  bold: boolean
+  italic: boolean
+  underline: boolean
+}
+
+// Part of a line drawn in one style
+export interface TextRun extends TextRunStyle {
+  text: string
+  font: string
+  width: number // Including letter spacing
+}
+
+export interface TextLine {
+  runs: TextRun[]
+  width: number
+}
+
+export interface TextLayout {
+  lines: TextLine[]
+  fontSize: number // After auto-fit
+  lineHeight: number // Logical px per line
+  letterSpacing: number
+  fontFamily: string
+}
+
+interface Word {
+  pieces: Array<{ text: string; style: TextRunStyle }>
+  space?: TextRunStyle // Collapsed whitespace before the word
+}
+
+const SPAN_STYLE_KEYS = ['color', 'bold', 'italic', 'underline'] as const
+
+// ===========================
+// FONTS
+// ===========================
+
+export function getFontFamily(layer: Layer): string {
+  // "inherit" (the font picker's default) means nothing to a canvas
+  return layer.fontFamily && layer.fontFamily !== 'inherit' ? layer.fontFamily : DEFAULT_FONT_FAMILY
+}
+
+/**
+ * CSS font shorthand for a run of text
+ */
+export function getTextFont(style: Pick<TextRunStyle, 'bold' | 'italic'>, fontSize: number, fontFamily: string): string {
+  return `${style.italic ? 'italic ' : ''}${style.bold ? '700' : '400'} ${fontSize}px ${fontFamily}`
+}
+
+/**
+ * Measure on a 2D context; the editor wraps this with a cache
+ */
+export function measureWithContext(ctx: { font: string; measureText(text: string): { width: number } }): MeasureText {
+  return (text, font) => {
+    ctx.font = font
+    return ctx.measureText(text).width
+  }
+}
+
+// ===========================
+// SPANS
+// ===========================
+
+function pickStyle(style: TextSpanStyle): TextSpanStyle {
+  const picked: TextSpanStyle = {}
+  for (const key of SPAN_STYLE_KEYS) {
+    if (style[key] !== undefined) Object.assign(picked, { [key]: style[key] })
+  }
+  return picked
+}
+
+function sameStyle(a: TextSpanStyle, b: TextSpanStyle): boolean {
+  return SPAN_STYLE_KEYS.every(key => a[key] === b[key])
+}
+
+// Span style of every character of the content
+function getCharStyles(layer: Layer): TextSpanStyle[] {
+  const styles: TextSpanStyle[] = Array.from({ length: layer.content.length }, () => ({}))
+  for (const span of layer.spans ?? []) {
+    for (let i = Math.max(0, span.start); i < Math.min(span.end, styles.length); i++) {
+      styles[i] = { ...styles[i], ...pickStyle(span) }
+    }
+  }
+  return styles
+}
+
+// Back from per-character styles to the fewest spans
+function toSpans(styles: TextSpanStyle[]): TextSpan[] | undefined {
+  const spans: TextSpan[] = []
+  styles.forEach((style, index) => {
+    const picked = pickStyle(style)
+    if (Object.keys(picked).length === 0) return
+    const last = spans[spans.length - 1]
+    if (last && last.end === index && sameStyle(last, picked)) {
+      last.end = index + 1
+    } else {
+      spans.push({ start: index, end: index + 1, ...picked })
+    }
+  })
+  return spans.length > 0 ? spans : undefined
+}
+
+/**
+ * Spans after restyling characters [start, end). Fields set to undefined
+ * fall back to the layer style again; `null` clears the range completely.
+ */
+export function styleTextRange(layer: Layer, start: number, end: number, style: TextSpanStyle | null): TextSpan[] | undefined {
+  const styles = getCharStyles(layer)
+  for (let i = Math.max(0, start); i < Math.min(end, styles.length); i++) {
+    styles[i] = style ? { ...styles[i], ...style } : {}
+  }
+  return toSpans(styles)
+}
+
+/**
+ * Effective style of characters [start, end): a flag is only on when every
+ * character has it, the color is the first character's
+ */
+export function getTextRangeStyle(layer: Layer, start: number, end: number): TextRunStyle {
+  const base = getBaseStyle(layer)
+  const styles = getCharStyles(layer).slice(start, Math.max(start + 1, end)).map(style => ({ ...base, ...style }))
+  if (styles.length === 0) return base
+  return {
+    color: styles[0].color,
+    bold: styles.every(style => style.bold),
+    italic: styles.every(style => style.italic),
+    underline: styles.every(style => style.underline),
+  }
+}
+
+/**
+ * New content for a text layer, with its spans moved along with the edit.
+ * Only the changed middle of the text loses its styling; typed characters
+ * continue the style of the character before them.
+ */
+export function replaceTextContent(layer: Layer, content: string): Pick<Layer, 'content' | 'spans'> {
+  if (!layer.spans?.length) return { content }
+
+  const before = layer.content
+  let prefix = 0
+  while (prefix < before.length && prefix < content.length && before[prefix] === content[prefix]) prefix++
+  let suffix = 0
+  while (
+    suffix < before.length - prefix &&
+    suffix < content.length - prefix &&
+    before[before.length - 1 - suffix] === content[content.length - 1 - suffix]
+  ) suffix++
+
+  const styles = getCharStyles(layer)
+  const inserted = Array.from({ length: content.length - prefix - suffix }, () => ({ ...styles[prefix - 1] }))
+  return {
+    content,
+    spans: toSpans([...styles.slice(0, prefix), ...inserted, ...styles.slice(before.length - suffix)]),
+  }
+}
+
+// ===========================
+// LAYOUT
+// ===========================
+
+function getBaseStyle(layer: Layer): TextRunStyle {
+  return {
+    color: layer.color || '#000000',
+    bold: !!layer.bold,
+    italic: !!layer.italic,
+    underline: !!layer.underline,
+  }
+}
+
+function sameRunStyle(a: TextRunStyle, b: TextRunStyle): boolean {
+  return a.color === b.color && a.bold === b.bold && a.italic === b.italic && a.underline === b.underline
+}
+
+function transformChar(char: string, layer: Layer, wordStart: boolean): string {
+  switch (layer.textTransform) {
+    case 'uppercase': return char.toUpperCase()
+    case 'lowercase': return char.toLowerCase()
+    case 'capitalize': return wordStart ? char.toUpperCase() : char
+    default: return char
+  }
+}
+
+// Words of every paragraph (content split on line breaks), whitespace
+// collapsed like CSS does and the text transform applied
+function splitParagraphs(layer: Layer): Word[][] {
+  const base = getBaseStyle(layer)
+  const styles = getCharStyles(layer)
+  const paragraphs: Word[][] = [[]]
+  let word: Word | null = null
+  let space: TextRunStyle | undefined
+
+  for (let i = 0; i < layer.content.length; i++) {
+    const char = layer.content[i]
+    const style = { ...base, ...styles[i] }
+    const paragraph = paragraphs[paragraphs.length - 1]
+
+    if (char === '\n') {
+      paragraphs.push([])
+      word = null
+      space = undefined
+    } else if (/\s/.test(char)) {
+      word = null
+      space ??= style
+    } else {
+      if (!word) {
+        word = { pieces: [], space: paragraph.length > 0 ? space : undefined }
+        paragraph.push(word)
+        space = undefined
+      }
+      const text = transformChar(char, layer, word.pieces.length === 0)
+      const last = word.pieces[word.pieces.length - 1]
+      if (last && sameRunStyle(last.style, style)) {
+        last.text += text
+      } else {
+        word.pieces.push({ text, style })
+      }
+    }
+  }
+
+  return paragraphs
+}
+
+function layoutAtSize(paragraphs: Word[][], layer: Layer, fontSize: number, measure: MeasureText): TextLayout {
+  const fontFamily = getFontFamily(layer)
+  const letterSpacing = layer.letterSpacing ?? 0
+  const maxWidth = getTextContentWidth(layer)
+
+  const toRun = (text: string, style: TextRunStyle): TextRun => {
+    const font = getTextFont(style, fontSize, fontFamily)
+    return { ...style, text, font, width: measure(text, font) + letterSpacing * Array.from(text).length }
+  }
+  const append = (line: TextLine, runs: TextRun[]) => {
+    for (const run of runs) {
+      const last = line.runs[line.runs.length - 1]
+      if (last && sameRunStyle(last, run)) {
+        line.runs[line.runs.length - 1] = { ...last, text: last.text + run.text, width: last.width + run.width }
+      } else {
+        line.runs.push(run)
+      }
+      line.width += run.width
+    }
+  }
+
+  const lines: TextLine[] = []
+  for (const words of paragraphs) {
+    let line: TextLine = { runs: [], width: 0 }
+    for (const word of words) {
+      const runs = word.pieces.map(piece => toRun(piece.text, piece.style))
+      const wordWidth = runs.reduce((sum, run) => sum + run.width, 0)
+      const space = line.runs.length > 0 && word.space ? toRun(' ', word.space) : null
+
+      // Breaks only between words; a word wider than the box overflows it
+      if (space && line.width + space.width + wordWidth > maxWidth) {
+        lines.push(line)
+        line = { runs: [], width: 0 }
+        append(line, runs)
+      } else {
+        append(line, space ? [space, ...runs] : runs)
+      }
+    }
+    lines.push(line)
+  }
+
+  return {
+    lines,
+    fontSize,
+    lineHeight: fontSize * (layer.lineHeight ?? TEXT_LINE_HEIGHT),
+    letterSpacing,
+    fontFamily,
+  }
+}
+
+function fitsBox(layout: TextLayout, layer: Layer): boolean {
+  const maxWidth = getTextContentWidth(layer)
+  return layout.lines.length * layout.lineHeight <= layer.height + 0.5 &&
+    layout.lines.every(line => line.width <= maxWidth + 0.5)
+}
+
+/**
+ * Width text wraps at inside a text box (between its horizontal padding)
+ */
+export function getTextContentWidth(layer: Layer): number {
+  return Math.max(0, layer.width - TEXT_PADDING_X * 2)
+}
+
+/**
+ * Lines of a text layer. With auto-fit on, the font size drops to the
+ * largest whole pixel size (down to MIN_AUTO_FIT_FONT_SIZE) that fits the box.
+ */
+export function layoutText(layer: Layer, measure: MeasureText): TextLayout {
+  const paragraphs = splitParagraphs(layer)
+  const fontSize = layer.fontSize || DEFAULT_FONT_SIZE
+  const layout = layoutAtSize(paragraphs, layer, fontSize, measure)
+  if (!layer.autoFit || fontSize <= MIN_AUTO_FIT_FONT_SIZE || fitsBox(layout, layer)) return layout
+
+  let fitting = MIN_AUTO_FIT_FONT_SIZE
+  let tooBig = Math.ceil(fontSize)
+  while (tooBig - fitting > 1) {
+    const size = Math.floor((fitting + tooBig) / 2)
+    if (fitsBox(layoutAtSize(paragraphs, layer, size, measure), layer)) {
+      fitting = size
+    } else {
+      tooBig = size
+    }
+  }
+  return layoutAtSize(paragraphs, layer, fitting, measure)
+}
+
+/**
+ * Offset of a line from the left of the content box. Lines wider than the
+ * box start at its left edge, like CSS does.
+ */
+export function getLineOffset(layer: Layer, line: TextLine): number {
+  const free = Math.max(0, getTextContentWidth(layer) - line.width)
+  return layer.align === 'center' ? free / 2 : layer.align === 'right' ? free : 0
+}
@@ -4,6 +4,8 @@
  * Based on: https://platform.openai.com/docs/api-reference/videos/create
  */
 
+import { getAI, postAI } from './ai-client'
+
 export interface VideoGenerationRequest {
   screenshots: string[]
   style: 'smooth' | 'dynamic' | 'minimal' | 'cinematic'
@@ -26,88 +28,13 @@ export interface VideoGenerationResult {
 
 /**
  * Generate a promotional video from screenshots using Sora
- * OpenAI Video API: https://platform.openai.com/docs/api-reference/videos/create
+ * Started server-side by /api/ai/videos; poll with checkVideoStatus
  */
 export async function generateVideoWithSora(
   request: VideoGenerationRequest
 ): Promise<VideoGenerationResult> {
-  const apiKey = process.env.NEXT_PUBLIC_OPENAI_API_KEY
-  
-  if (!apiKey) {
-    console.warn('OpenAI API key not found, using mock video generation')
-    return mockVideoGeneration(request)
-  }
-
   try {
-    // Build the prompt for video generation
-    const prompt = buildVideoPrompt(request)
-    const model = request.model || 'sora-2'
-    const seconds = request.duration // Already in correct format (4, 8, or 12)
-    
-    // Prepare form data
-    const formData = new FormData()
-    formData.append('model', model)
-    formData.append('prompt', prompt)
-    formData.append('seconds', seconds.toString())
-    
-    // Add size if specified (vertical for mobile app screenshots)
-    if (request.size) {
-      formData.append('size', request.size)
-    } else {
-      formData.append('size', '720x1280') // Default to vertical mobile format
-    }
-    
-    // Add first screenshot as input reference if available
-    if (request.screenshots.length > 0 && request.screenshots[0]) {
-      try {
-        const screenshotFile = await base64ToFile(request.screenshots[0], 'input-reference.png')
-        formData.append('input_reference', screenshotFile)
-      } catch (error) {
-        console.warn('Failed to add screenshot reference:', error)
-      }
-    }
-    
-    // Make API request to OpenAI
-    const response = await fetch('https://api.openai.com/v1/videos', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: formData
-    })
-    
-    if (!response.ok) {
-      const errorText = await response.text()
-      let errorMessage = 'Video generation failed'
-      try {
-        const error = JSON.parse(errorText)
-        errorMessage = error.error?.message || errorMessage
-        console.error('OpenAI Video API error:', error)
-      } catch {
-        console.error('OpenAI Video API error:', errorText)
-      }
-      throw new Error(errorMessage)
-    }
-    
-    const data = await response.json()
-    
-    // OpenAI may return a video generation task that needs polling
-    // The video might not be immediately available
-    if (data.status === 'processing' || data.status === 'pending') {
-      console.log('Video generation started. Video ID:', data.id)
-      console.log('Estimated time:', data.estimated_time || 'Unknown')
-    }
-    
-    // Return the result
-    return {
-      videoUrl: data.url || data.video_url || '',
-      thumbnailUrl: request.screenshots[0] || '/images/video-thumbnail.png',
-      duration: seconds,
-      status: data.status === 'completed' ? 'completed' : 
-              data.status === 'failed' ? 'failed' : 'processing',
-      videoId: data.id,
-      estimatedTime: data.estimated_time
-    }
+    return await postAI<VideoGenerationResult>('videos', request)
   } catch (error) {
     console.error('Video generation failed:', error)
     // Fallback to mock generation for development
@@ -115,49 +42,10 @@ export async function generateVideoWithSora(
   }
 }
 
-/**
- * Convert base64 image to File object for API upload
- */
-async function base64ToFile(base64String: string, filename: string): Promise<File> {
-  const response = await fetch(base64String)
-  const blob = await response.blob()
-  return new File([blob], filename, { type: 'image/png' })
-}
-
-/**
- * Build a prompt for Sora based on request parameters
- */
-function buildVideoPrompt(request: VideoGenerationRequest): string {
-  const styleDescriptions = {
-    smooth: 'smooth, elegant transitions with a professional feel',
-    dynamic: 'energetic, fast-paced with exciting motion effects',
-    minimal: 'clean, minimal movements with subtle animations',
-    cinematic: 'cinematic quality with dramatic lighting and depth'
-  }
-
-  const transitionDescriptions = {
-    fade: 'gentle fade transitions between screens',
-    slide: 'sliding transitions from left to right',
-    zoom: 'zoom in/out transitions focusing on key elements',
-    morph: 'morphing transitions that seamlessly blend screens'
-  }
-
-  // If user provided a custom prompt, combine it with our style settings
-  const userPrompt = request.prompt 
-    ? `${request.prompt}\n\n` 
-    : ''
-
-  return `${userPrompt}Create a ${request.duration}-second promotional video for a mobile app. 
-Style: ${styleDescriptions[request.style]}. 
-Transitions: ${transitionDescriptions[request.transitions || 'fade']}.
-The video should showcase the app's key features in a visually appealing way,
-with smooth animations that highlight the user interface.`
-}
-
 /**
  * Mock video generation for development/demo
  */
-async function mockVideoGeneration(
+export async function mockVideoGeneration(
   request: VideoGenerationRequest
 ): Promise<VideoGenerationResult> {
   // Simulate processing time
@@ -174,44 +62,11 @@ async function mockVideoGeneration(
 
 /**
  * Check video generation status
- * Polls the OpenAI API to check if video generation is complete
+ * Polls /api/ai/videos/[videoId] to check if video generation is complete
  */
 export async function checkVideoStatus(videoId: string): Promise<VideoGenerationResult> {
-  const apiKey = process.env.NEXT_PUBLIC_OPENAI_API_KEY
-  
-  if (!apiKey) {
-    return {
-      videoUrl: '/videos/demo-promo.mp4',
-      thumbnailUrl: '/images/video-thumbnail.png',
-      duration: 10,
-      status: 'completed',
-      videoId
-    }
-  }
-
   try {
-    const response = await fetch(`https://api.openai.com/v1/videos/${videoId}`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-      }
-    })
-
-    if (!response.ok) {
-      throw new Error('Failed to check video status')
-    }
-
-    const data = await response.json()
-
-    return {
-      videoUrl: data.url || data.video_url,
-      thumbnailUrl: '/images/video-thumbnail.png',
-      duration: data.seconds || 10,
-      status: data.status === 'completed' ? 'completed' : 
-              data.status === 'failed' ? 'failed' : 'processing',
-      videoId: data.id,
-      estimatedTime: data.estimated_time
-    }
+    return await getAI<VideoGenerationResult>(`videos/${encodeURIComponent(videoId)}`)
   } catch (error) {
     console.error('Failed to check video status:', error)
     return {
@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Native bindings used by the public API's server renderer
+  serverExternalPackages: ["@napi-rs/canvas"],
 };
 
 export default nextConfig;
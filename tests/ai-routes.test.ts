@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { POST as chat } from "@/app/api/ai/chat/route"
+import { POST as structure } from "@/app/api/ai/structure/route"
+import { POST as translate } from "@/app/api/ai/translate/route"
+import { AIProviderError, fakeProvider, setAIProvider } from "@/lib/ai-provider"
+
+function post(body: unknown): Request {
+  return new Request("http://localhost/api/ai", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  })
+}
+
+// `data:` payloads of a server-sent events response, [DONE] included
+async function readEvents(response: Response): Promise<string[]> {
+  const text = await response.text()
+  return text.split("\n\n").filter(Boolean).map(event => event.replace(/^data: /, ""))
+}
+
+describe("AI route handlers", () => {
+  beforeEach(() => setAIProvider(fakeProvider))
+  afterEach(() => {
+    setAIProvider(null)
+    vi.restoreAllMocks()
+  })
+
+  it("streams a chat reply as server-sent events", async () => {
+    const response = await chat(post({ message: "Write a headline for a running app" }))
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream")
+
+    const events = await readEvents(response)
+    expect(events.at(-1)).toBe("[DONE]")
+    const reply = events.slice(0, -1).map(event => JSON.parse(event).token).join("")
+    expect(reply.length).toBeGreaterThan(0)
+
+    // The fake provider answers the same prompt the same way
+    const again = await readEvents(await chat(post({ message: "Write a headline for a running app" })))
+    expect(again).toEqual(events)
+  })
+
+  it("reports a failing stream as an error event before [DONE]", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    setAIProvider({
+      ...fakeProvider,
+      async *streamChat() {
+        throw new AIProviderError("Upstream unavailable")
+      },
+    })
+
+    const events = await readEvents(await chat(post({ message: "Hello" })))
+    expect(events).toEqual([JSON.stringify({ error: "Upstream unavailable" }), "[DONE]"])
+  })
+
+  it("returns a deterministic structure for a prompt", async () => {
+    const response = await structure(post({ prompt: "A meditation app for busy parents" }))
+    expect(response.status).toBe(200)
+
+    const body = await response.json()
+    expect(body.screens.length).toBeGreaterThan(0)
+    expect(body.screens[0]).toHaveProperty("headline")
+    expect(await (await structure(post({ prompt: "A meditation app for busy parents" }))).json()).toEqual(body)
+  })
+
+  it("rejects invalid bodies with the validation issues", async () => {
+    const malformed = await structure(post("{not json"))
+    expect(malformed.status).toBe(400)
+    expect(await malformed.json()).toEqual({ error: "Request body must be valid JSON" })
+
+    const empty = await structure(post({ prompt: "   " }))
+    expect(empty.status).toBe(400)
+    const body = await empty.json()
+    expect(body.error).toBe("Invalid request")
+    expect(body.issues[0].path).toEqual(["prompt"])
+  })
+
+  it("maps provider errors to their status without other details", async () => {
+    setAIProvider({
+      ...fakeProvider,
+      async generateStructure() {
+        throw new AIProviderError("Rate limited by the model provider", 429)
+      },
+    })
+    const limited = await structure(post({ prompt: "A budgeting app" }))
+    expect(limited.status).toBe(429)
+    expect(await limited.json()).toEqual({ error: "Rate limited by the model provider" })
+
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    setAIProvider({
+      ...fakeProvider,
+      async generateStructure() {
+        throw new Error("secret connection string")
+      },
+    })
+    const crashed = await structure(post({ prompt: "A budgeting app" }))
+    expect(crashed.status).toBe(500)
+    expect(await crashed.json()).toEqual({ error: "Internal server error" })
+  })
+
+  it("translates copy for supported locales only", async () => {
+    const items = [{ id: "screen_1", kind: "headline", text: "Track every run" }]
+
+    const response = await translate(post({ locale: "de-DE", items }))
+    expect(response.status).toBe(200)
+    expect(Object.keys((await response.json()).translations)).toEqual(["screen_1"])
+
+    const unsupported = await translate(post({ locale: "xx", items }))
+    expect(unsupported.status).toBe(400)
+    expect(await unsupported.json()).toEqual({ error: "Unsupported locale: xx" })
+  })
+})
@@ -0,0 +1,62 @@
+/**
+ * Golden images - compares rendered PNGs with the reference files in
+ * tests/golden, allowing for anti-aliasing differences between machines.
+ * A missing reference is written on the first local run (never with CI
+ * set); UPDATE_GOLDEN=1 rewrites them all after an intended change.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs"
+import path from "node:path"
+import { createCanvas, loadImage } from "@napi-rs/canvas"
+
+const GOLDEN_DIR = path.join(__dirname, "golden")
+
+// A channel may be off by this much before the pixel counts as different
+const CHANNEL_TOLERANCE = 16
+// Share of pixels allowed to differ, e.g. along anti-aliased edges
+const MAX_DIFFERENT_PIXELS = 0.002
+
+async function readPixels(png: Buffer) {
+  const image = await loadImage(png)
+  const canvas = createCanvas(image.width, image.height)
+  const ctx = canvas.getContext("2d")
+  ctx.drawImage(image, 0, 0)
+  return { width: image.width, height: image.height, data: ctx.getImageData(0, 0, image.width, image.height).data }
+}
+
+/**
+ * Share of pixels that differ between two PNGs of the same size
+ */
+export async function diffImages(actual: Buffer, expected: Buffer): Promise<number> {
+  const [a, b] = await Promise.all([readPixels(actual), readPixels(expected)])
+  if (a.width !== b.width || a.height !== b.height) return 1
+
+  let different = 0
+  for (let i = 0; i < a.data.length; i += 4) {
+    for (let channel = 0; channel < 4; channel++) {
+      if (Math.abs(a.data[i + channel] - b.data[i + channel]) > CHANNEL_TOLERANCE) {
+        different++
+        break
+      }
+    }
+  }
+  return different / (a.width * a.height)
+}
+
+export async function matchGolden(png: Buffer, name: string): Promise<void> {
+  const file = path.join(GOLDEN_DIR, `${name}.png`)
+  if (process.env.UPDATE_GOLDEN || (!existsSync(file) && !process.env.CI)) {
+    mkdirSync(GOLDEN_DIR, { recursive: true })
+    writeFileSync(file, png)
+    return
+  }
+  if (!existsSync(file)) {
+    throw new Error(`Missing golden image ${name}.png; run the tests locally without CI to create it`)
+  }
+
+  const difference = await diffImages(png, readFileSync(file))
+  if (difference > MAX_DIFFERENT_PIXELS) {
+    writeFileSync(path.join(GOLDEN_DIR, `${name}.actual.png`), png)
+    throw new Error(`${name}.png differs in ${(difference * 100).toFixed(2)}% of pixels; see ${name}.actual.png`)
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest"
+import { createCanvas } from "@napi-rs/canvas"
+import type { Layer, Screen } from "@/lib/scene-graph"
+import { renderScreenToBuffer } from "@/lib/server-renderer"
+import { matchGolden } from "./golden"
+
+// Text is left out of the golden scenes: its glyphs depend on the fonts
+// installed on the machine running the tests
+
+function layer(fields: Partial<Layer> & Pick<Layer, "id" | "type">): Layer {
+  return { content: "", x: 0, y: 0, width: 375, height: 812, ...fields }
+}
+
+// Four colored quadrants, so cropping and scaling show in the output
+function checkerboard(): string {
+  const canvas = createCanvas(200, 400)
+  const ctx = canvas.getContext("2d")
+  const colors = ["#EF4444", "#22C55E", "#3B82F6", "#EAB308"]
+  colors.forEach((color, index) => {
+    ctx.fillStyle = color
+    ctx.fillRect((index % 2) * 100, Math.floor(index / 2) * 200, 100, 200)
+  })
+  return canvas.toDataURL("image/png")
+}
+
+const shapes: Screen = {
+  id: "shapes",
+  name: "Shapes",
+  backgroundColor: "#FFFFFF",
+  layers: [
+    layer({ id: "bg", type: "background", backgroundGradient: { type: "linear", colors: ["#1E3A8A", "#F472B6"], angle: 160 } }),
+    layer({ id: "card", type: "shape", shape: "rectangle", x: 40, y: 80, width: 295, height: 200, cornerRadius: 24, fill: "#FFFFFF", opacity: 0.8, shadow: { offsetX: 0, offsetY: 12, blur: 24, color: "rgba(0,0,0,0.4)" } }),
+    layer({ id: "ring", type: "shape", shape: "ellipse", x: 120, y: 340, width: 135, height: 135, stroke: "#FDE047", strokeWidth: 8 }),
+    layer({ id: "tilted", type: "shape", shape: "rectangle", x: 60, y: 540, width: 120, height: 120, fill: "#34D399", rotation: 30, blendMode: "multiply" }),
+    layer({ id: "line", type: "shape", shape: "line", x: 200, y: 540, width: 130, height: 160, stroke: "#0F172A", strokeWidth: 4, lineDirection: "up" }),
+  ],
+}
+
+const mockup: Screen = {
+  id: "mockup",
+  name: "Mockup",
+  backgroundColor: "#F1F5F9",
+  layers: [
+    layer({ id: "phone", type: "mockup", content: checkerboard(), x: 62, y: 120, width: 250, height: 520, deviceFrame: "iphone-15-pro", mockupVariant: "black", constraints: { horizontal: "center", vertical: "center", aspectLock: true } }),
+    layer({ id: "photo", type: "image", content: checkerboard(), x: 20, y: 680, width: 100, height: 100, cornerRadius: 16, imageCrop: { fit: "fill", zoom: 2, x: 0, y: 0 } }),
+  ],
+}
+
+describe("scene renderer", () => {
+  it("renders gradients, shapes, shadows, rotation and blending", async () => {
+    await matchGolden(await renderScreenToBuffer(shapes, { width: 375, height: 812 }), "shapes")
+  })
+
+  it("renders device frames and cropped images", async () => {
+    await matchGolden(await renderScreenToBuffer(mockup, { width: 375, height: 812 }), "mockup")
+  })
+
+  it("lays the screen out again for another aspect ratio", async () => {
+    await matchGolden(await renderScreenToBuffer(mockup, { width: 540, height: 960, device: "Play Phone" }), "mockup-play-phone")
+  })
+
+  it("renders at the requested export size", async () => {
+    const png = await renderScreenToBuffer(shapes, { width: 1290, height: 2796 })
+    // Width and height from the PNG header
+    expect(png.subarray(1, 4).toString()).toBe("PNG")
+    expect(png.readUInt32BE(16)).toBe(1290)
+    expect(png.readUInt32BE(20)).toBe(2796)
+  })
+
+  it("leaves out images that are not inline", async () => {
+    const remote: Screen = { ...mockup, layers: [{ ...mockup.layers[1], content: "http://169.254.169.254/image.png" }] }
+    const blank: Screen = { ...mockup, layers: [] }
+    const [withRemote, withoutImage] = await Promise.all([
+      renderScreenToBuffer(remote, { width: 375, height: 812 }),
+      renderScreenToBuffer(blank, { width: 375, height: 812 }),
+    ])
+    expect(withRemote.equals(withoutImage)).toBe(true)
+  })
+})
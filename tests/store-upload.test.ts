@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { POST as cleanup } from "@/app/api/stores/app-store/cleanup/route"
+import { POST as prepare } from "@/app/api/stores/app-store/prepare/route"
+import { POST as screenshots } from "@/app/api/stores/app-store/screenshots/route"
+import { POST as commit } from "@/app/api/stores/google-play/commit/route"
+import { POST as edits } from "@/app/api/stores/google-play/edits/route"
+import { POST as images } from "@/app/api/stores/google-play/images/route"
+import { APP_STORE_SIZES, PLAY_STORE_SIZES } from "@/lib/ai-helpers"
+import type { Screen } from "@/lib/scene-graph"
+import type { ExportFormat, RenderOptions } from "@/lib/scene-renderer"
+import type { StoreCredentials } from "@/lib/store-credentials"
+import { handleAppStoreConnectMock, handleGooglePlayMock } from "@/lib/store-mock"
+import { uploadScreens, type UploadProgress } from "@/lib/store-upload"
+
+// Uploads render in the browser; here they go through the server renderer
+vi.mock("@/lib/scene-renderer", async (importOriginal) => ({
+  ...await importOriginal<typeof import("@/lib/scene-renderer")>(),
+  renderScreenToBlob: async (screen: Screen, options: RenderOptions & { format?: ExportFormat; quality?: number }) => {
+    // Imported on use: the server renderer itself depends on this module
+    const { renderScreenToBuffer } = await import("@/lib/server-renderer")
+    const data = await renderScreenToBuffer(screen, options)
+    return new Blob([new Uint8Array(data)], { type: options.format === "jpg" ? "image/jpeg" : "image/png" })
+  },
+}))
+
+const ORIGIN = "http://localhost:3000"
+
+const STORE_ROUTES: Record<string, (req: Request) => Promise<Response>> = {
+  "app-store/prepare": prepare,
+  "app-store/screenshots": screenshots,
+  "app-store/cleanup": cleanup,
+  "google-play/edits": edits,
+  "google-play/images": images,
+  "google-play/commit": commit,
+}
+
+// The browser's calls to /api/stores and the server's calls to the stand-in,
+// answered by the route handlers and lib/store-mock without a server
+async function routeFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const url = new URL(input instanceof Request ? input.url : String(input), ORIGIN)
+  const req = new Request(url, init)
+
+  const storeRoute = STORE_ROUTES[url.pathname.replace(/^\/api\/stores\//, "")]
+  if (storeRoute) return storeRoute(req)
+
+  const mock = /^\/api\/store-mock\/(app-store-connect|google-play)\/(.+)$/.exec(url.pathname)
+  if (mock) {
+    const handle = mock[1] === "app-store-connect" ? handleAppStoreConnectMock : handleGooglePlayMock
+    return handle(req, mock[2].split("/"))
+  }
+  throw new Error(`Unexpected request to ${url}`)
+}
+
+// JSON from the stand-in, signed like the store clients do
+async function readMock<T>(path: string): Promise<T> {
+  const response = await routeFetch(`/api/store-mock/${path}`, { headers: { Authorization: "Bearer mock" } })
+  expect(response.status).toBe(200)
+  return response.json()
+}
+
+function screens(count: number): Screen[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `screen_${index + 1}`,
+    name: `Screen ${index + 1}`,
+    backgroundColor: ["#F97316", "#0EA5E9", "#A855F7"][index % 3],
+    layers: [],
+  }))
+}
+
+function credentials(appId: string): StoreCredentials {
+  return {
+    appStore: { issuerId: "issuer", keyId: "KEY123", privateKey: "mock key", appId },
+    googlePlay: {
+      packageName: "com.example.app",
+      serviceAccountJson: JSON.stringify({ client_email: "uploader@example.iam.gserviceaccount.com", private_key: "mock key" }),
+    },
+  }
+}
+
+describe("store uploads against the stand-in", () => {
+  beforeEach(() => {
+    vi.stubEnv("STORE_API", "mock")
+    vi.stubGlobal("fetch", routeFetch)
+  })
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+  })
+
+  it("uploads App Store screenshots and replaces the previous set", async () => {
+    const options = { store: "app_store" as const, sizes: [APP_STORE_SIZES[0]], locales: ["en-US"], credentials: credentials("1000001") }
+    const progress: UploadProgress[] = []
+
+    const first = await uploadScreens(screens(2), { ...options, onProgress: update => progress.push(update) })
+    expect(first).toEqual({ uploaded: 2, target: "mock" })
+    expect(progress.at(-1)).toEqual({ completed: 2, total: 2, current: "" })
+
+    await uploadScreens(screens(3), options)
+
+    // Walk the stand-in from the app down to the screenshots it now holds
+    const versions = await readMock<{ data: Array<{ id: string }> }>("app-store-connect/v1/apps/1000001/appStoreVersions")
+    const localizations = await readMock<{ data: Array<{ id: string; attributes: { locale: string } }> }>(
+      `app-store-connect/v1/appStoreVersions/${versions.data[0].id}/appStoreVersionLocalizations`
+    )
+    const localization = localizations.data.find(item => item.attributes.locale === "en-US")!
+    const sets = await readMock<{ data: Array<{ id: string; attributes: { screenshotDisplayType: string } }> }>(
+      `app-store-connect/v1/appStoreVersionLocalizations/${localization.id}/appScreenshotSets`
+    )
+    expect(sets.data.map(set => set.attributes.screenshotDisplayType)).toEqual(["APP_IPHONE_67"])
+
+    const uploaded = await readMock<{ data: Array<{ attributes: { fileName: string; assetDeliveryState: { state: string } } }> }>(
+      `app-store-connect/v1/appScreenshotSets/${sets.data[0].id}/appScreenshots`
+    )
+    expect(uploaded.data.map(item => [item.attributes.fileName, item.attributes.assetDeliveryState.state])).toEqual([
+      ["APP_IPHONE_67_01.jpg", "COMPLETE"],
+      ["APP_IPHONE_67_02.jpg", "COMPLETE"],
+      ["APP_IPHONE_67_03.jpg", "COMPLETE"],
+    ])
+  })
+
+  it("publishes Google Play screenshots by committing an edit", async () => {
+    const upload = uploadScreens(screens(2), {
+      store: "play_store",
+      sizes: [PLAY_STORE_SIZES[0]],
+      locales: ["en-US"],
+      credentials: credentials("1000002"),
+    })
+    await expect(upload).resolves.toEqual({ uploaded: 2, target: "mock" })
+
+    // A fresh edit starts from the live listing
+    const edit = await (await routeFetch("/api/store-mock/google-play/androidpublisher/v3/applications/com.example.app/edits", {
+      method: "POST",
+      headers: { Authorization: "Bearer mock" },
+    })).json()
+    const listing = await readMock<{ images: Array<{ width: number; height: number }> }>(
+      `google-play/androidpublisher/v3/applications/com.example.app/edits/${edit.id}/listings/en-US/phoneScreenshots`
+    )
+    expect(listing.images.map(image => [image.width, image.height])).toEqual([[1080, 1920], [1080, 1920]])
+  })
+
+  it("refuses a plan the store would reject before uploading anything", async () => {
+    const requests = vi.fn(routeFetch)
+    vi.stubGlobal("fetch", requests)
+
+    await expect(uploadScreens(screens(1), {
+      store: "play_store",
+      sizes: [PLAY_STORE_SIZES[0]],
+      locales: ["en-US"],
+      credentials: credentials("1000003"),
+    })).rejects.toThrow("Google Play needs at least")
+    expect(requests).not.toHaveBeenCalled()
+  })
+})